@@ -0,0 +1,128 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { customers, payments, users } from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { checkPermission } from "@/lib/api/permission-middleware";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  ENTITLEMENT_DEFINITIONS,
+  getCustomerPlanId,
+  getPlanEntitlements,
+  sanitizeEntitlementOverrides,
+} from "@/lib/license/entitlements";
+import { EntitlementsEditor } from "@/components/admin/entitlements-editor";
+import { CustomerPaymentsTable } from "@/components/admin/customer-payments-table";
+
+export default async function AdminCustomerPage({
+  params,
+}: {
+  params: Promise<{ customerId: string }>;
+}) {
+  const { customerId } = await params;
+
+  const [customer] = await db
+    .select({
+      id: customers.id,
+      email: customers.email,
+      companyName: customers.companyName,
+      status: customers.status,
+      createdAt: customers.createdAt,
+      stripeCustomerId: customers.stripeCustomerId,
+      entitlementOverrides: customers.entitlementOverrides,
+      userName: users.name,
+    })
+    .from(customers)
+    .leftJoin(users, eq(customers.userId, users.id))
+    .where(eq(customers.id, customerId))
+    .limit(1);
+
+  if (!customer) {
+    notFound();
+  }
+
+  const planId = await getCustomerPlanId(customer.id);
+
+  const paymentRows = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.customerId, customer.id))
+    .orderBy(desc(payments.createdAt));
+
+  // Refund rows carry negative amounts against the payment they refund
+  const refundedAmounts = new Map<string, number>();
+  for (const payment of paymentRows) {
+    if (payment.paymentType === "refund" && payment.refundedPaymentId) {
+      refundedAmounts.set(
+        payment.refundedPaymentId,
+        (refundedAmounts.get(payment.refundedPaymentId) || 0) -
+          parseFloat(payment.amount)
+      );
+    }
+  }
+
+  const canRefund = await checkPermission(
+    await auth(),
+    PERMISSIONS.BILLING_PROCESS_REFUND
+  );
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="mb-6">
+        <Link
+          href="/admin/customers"
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          ← Back to customers
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-foreground">
+          {customer.companyName || customer.userName || customer.email}
+        </h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {customer.email} · {customer.status} · Customer since{" "}
+          {new Date(customer.createdAt).toLocaleDateString()}
+        </p>
+        {customer.stripeCustomerId && (
+          <p className="mt-1 text-xs text-muted-foreground font-mono">
+            {customer.stripeCustomerId}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Entitlements
+        </h2>
+        <EntitlementsEditor
+          customerId={customer.id}
+          planId={planId}
+          definitions={ENTITLEMENT_DEFINITIONS}
+          defaults={getPlanEntitlements(planId)}
+          overrides={sanitizeEntitlementOverrides(
+            customer.entitlementOverrides
+          )}
+        />
+      </div>
+
+      <div className="mt-6 bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Payments</h2>
+        <CustomerPaymentsTable
+          customerId={customer.id}
+          canRefund={canRefund}
+          data={paymentRows.map((payment) => ({
+            paymentId: payment.id,
+            paymentType: payment.paymentType,
+            amount: parseFloat(payment.amount),
+            refundedAmount: refundedAmounts.get(payment.id) || 0,
+            currency: payment.currency,
+            status: payment.status,
+            refundReason: payment.refundReason,
+            stripePaymentId: payment.stripePaymentId,
+            createdAt: payment.createdAt,
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
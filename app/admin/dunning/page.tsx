@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+import {
+  dunningCases,
+  dunningSteps,
+  customers,
+  subscriptions,
+} from "@/lib/db/schema";
+import { eq, asc, inArray } from "drizzle-orm";
+import { DunningTable } from "@/components/admin/dunning-table";
+import { OPEN_DUNNING_STATUSES } from "@/lib/subscription/dunning";
+import {
+  DUNNING_SCHEDULE,
+  getDunningSuspensionDate,
+} from "@/lib/subscription/dunning-config";
+
+export default async function AdminDunningPage() {
+  // Get customers with unpaid invoices still in dunning
+  const cases = await db
+    .select({
+      caseId: dunningCases.id,
+      stripeInvoiceId: dunningCases.stripeInvoiceId,
+      amountDue: dunningCases.amountDue,
+      currency: dunningCases.currency,
+      status: dunningCases.status,
+      startedAt: dunningCases.startedAt,
+      customerEmail: customers.email,
+      companyName: customers.companyName,
+      planId: subscriptions.planId,
+    })
+    .from(dunningCases)
+    .innerJoin(customers, eq(dunningCases.customerId, customers.id))
+    .innerJoin(subscriptions, eq(dunningCases.subscriptionId, subscriptions.id))
+    .where(inArray(dunningCases.status, OPEN_DUNNING_STATUSES))
+    .orderBy(asc(dunningCases.startedAt));
+
+  const steps =
+    cases.length > 0
+      ? await db
+          .select({
+            dunningCaseId: dunningSteps.dunningCaseId,
+            step: dunningSteps.step,
+            status: dunningSteps.status,
+          })
+          .from(dunningSteps)
+          .where(
+            inArray(
+              dunningSteps.dunningCaseId,
+              cases.map((c) => c.caseId)
+            )
+          )
+      : [];
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-foreground">Dunning</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Customers with unpaid invoices. Reminder emails go out on days{" "}
+          {DUNNING_SCHEDULE.filter((s) => s.action === "email")
+            .map((s) => s.day)
+            .join(", ")}{" "}
+          after the failed payment, followed by a terminal banner and
+          suspension.
+        </p>
+      </div>
+
+      <DunningTable
+        data={cases.map((dunningCase) => {
+          const caseSteps = steps.filter(
+            (s) => s.dunningCaseId === dunningCase.caseId
+          );
+          const nextStep = DUNNING_SCHEDULE.find(
+            (step) => !caseSteps.some((s) => s.step === step.step)
+          );
+
+          return {
+            ...dunningCase,
+            amountDue: dunningCase.amountDue / 100,
+            completedSteps: caseSteps
+              .filter((s) => s.status === "completed")
+              .map((s) => s.step),
+            failedSteps: caseSteps
+              .filter((s) => s.status === "failed")
+              .map((s) => s.step),
+            nextStep: nextStep
+              ? {
+                  step: nextStep.step,
+                  dueAt: new Date(
+                    dunningCase.startedAt.getTime() +
+                      nextStep.day * 24 * 60 * 60 * 1000
+                  ),
+                }
+              : null,
+            suspendsAt: getDunningSuspensionDate(dunningCase.startedAt),
+          };
+        })}
+      />
+    </div>
+  );
+}
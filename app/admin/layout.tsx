@@ -46,12 +46,36 @@ export default async function AdminLayout({
                 >
                   Subscriptions
                 </Link>
+                <Link
+                  href="/admin/dunning"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Dunning
+                </Link>
                 <Link
                   href="/admin/licenses"
                   className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
                 >
                   Licenses
                 </Link>
+                <Link
+                  href="/admin/license-sharing"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  License Sharing
+                </Link>
+                <Link
+                  href="/admin/promotion-codes"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Promo Codes
+                </Link>
+                <Link
+                  href="/admin/reconciliation"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Reconciliation
+                </Link>
                 <Link
                   href="/admin/support"
                   className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
@@ -0,0 +1,83 @@
+import { db } from "@/lib/db";
+import { failurePatterns, licenseKeys, customers } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { LicenseSharingTable } from "@/components/admin/license-sharing-table";
+import { LICENSE_SHARING_PATTERN_TYPE } from "@/lib/analytics/activation-anomaly-detector";
+
+export default async function AdminLicenseSharingPage() {
+  // Get all license sharing findings with the customer of the flagged key
+  const findings = await db
+    .select({
+      findingId: failurePatterns.id,
+      licenseKey: failurePatterns.licenseKey,
+      description: failurePatterns.description,
+      severity: failurePatterns.severity,
+      status: failurePatterns.status,
+      metadata: failurePatterns.metadata,
+      resolutionNotes: failurePatterns.resolutionNotes,
+      firstDetectedAt: failurePatterns.firstDetectedAt,
+      lastDetectedAt: failurePatterns.lastDetectedAt,
+      customerEmail: customers.email,
+      companyName: customers.companyName,
+    })
+    .from(failurePatterns)
+    .leftJoin(
+      licenseKeys,
+      eq(failurePatterns.licenseKey, licenseKeys.licenseKey)
+    )
+    .leftJoin(customers, eq(licenseKeys.customerId, customers.id))
+    .where(eq(failurePatterns.patternType, LICENSE_SHARING_PATTERN_TYPE))
+    .orderBy(desc(failurePatterns.lastDetectedAt));
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-foreground">License Sharing</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Review activation anomalies that suggest a key is shared between
+          businesses. Confirm to follow up with the customer, or dismiss false
+          positives.
+        </p>
+      </div>
+
+      <LicenseSharingTable
+        data={findings.map(({ metadata, ...finding }) => {
+          const details = (metadata || {}) as Record<string, unknown>;
+          return {
+            ...finding,
+            signal: String(details.signal || "unknown"),
+            evidence: describeEvidence(details),
+          };
+        })}
+      />
+    </div>
+  );
+}
+
+function describeEvidence(metadata: Record<string, unknown>): string[] {
+  const list = (value: unknown) =>
+    Array.isArray(value) ? value.map(String).join(", ") : "";
+  const evidence: string[] = [];
+
+  if (metadata.countries) {
+    evidence.push(`Countries: ${list(metadata.countries)}`);
+  }
+  if (metadata.distinctMachines) {
+    evidence.push(
+      `${metadata.distinctMachines} machines since ${new Date(
+        String(metadata.windowStart)
+      ).toLocaleString()} (limit ${metadata.maxTerminals})`
+    );
+  }
+  if (metadata.licenseKeys) {
+    evidence.push(`Keys: ${list(metadata.licenseKeys)}`);
+  }
+  if (Array.isArray(metadata.hostnames) && metadata.hostnames.length > 0) {
+    evidence.push(`Hostnames: ${list(metadata.hostnames)}`);
+  }
+  if (Array.isArray(metadata.ipAddresses) && metadata.ipAddresses.length > 0) {
+    evidence.push(`IPs: ${list(metadata.ipAddresses)}`);
+  }
+
+  return evidence;
+}
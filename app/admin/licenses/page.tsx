@@ -1,7 +1,8 @@
 import { db } from "@/lib/db";
 import { licenseKeys, customers, subscriptions } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, ne, asc, desc } from "drizzle-orm";
 import { LicensesTable } from "@/components/admin/licenses-table";
+import { IssueLicenseDialog } from "@/components/admin/issue-license-dialog";
 
 export default async function AdminLicensesPage() {
   // Get all license keys with customer info
@@ -9,12 +10,15 @@ export default async function AdminLicensesPage() {
     .select({
       licenseId: licenseKeys.id,
       licenseKey: licenseKeys.licenseKey,
+      licenseType: licenseKeys.licenseType,
       maxTerminals: licenseKeys.maxTerminals,
       activationCount: licenseKeys.activationCount,
       isActive: licenseKeys.isActive,
       issuedAt: licenseKeys.issuedAt,
       expiresAt: licenseKeys.expiresAt,
+      updatesUntil: licenseKeys.updatesUntil,
       revokedAt: licenseKeys.revokedAt,
+      replacedByKey: licenseKeys.replacedByKey,
       customerEmail: customers.email,
       companyName: customers.companyName,
       subscriptionStatus: subscriptions.status,
@@ -24,13 +28,28 @@ export default async function AdminLicensesPage() {
     .leftJoin(subscriptions, eq(licenseKeys.subscriptionId, subscriptions.id))
     .orderBy(desc(licenseKeys.issuedAt));
 
+  // Customers that perpetual/fixed-term licenses can be issued to
+  const customerOptions = await db
+    .select({
+      id: customers.id,
+      email: customers.email,
+      companyName: customers.companyName,
+    })
+    .from(customers)
+    .where(ne(customers.status, "deleted"))
+    .orderBy(asc(customers.email));
+
   return (
     <div className="px-4 sm:px-0">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-foreground">License Keys</h1>
-        <p className="mt-2 text-sm text-muted-foreground">
-          Manage all license keys issued to customers with activation tracking.
-        </p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">License Keys</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Manage all license keys issued to customers with activation
+            tracking.
+          </p>
+        </div>
+        <IssueLicenseDialog customers={customerOptions} />
       </div>
 
       <LicensesTable data={licenses} />
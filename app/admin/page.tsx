@@ -6,11 +6,12 @@ import {
   supportTickets,
   licenseKeys,
   users,
-  payments,
 } from "@/lib/db/schema";
-import { sql, desc, eq, gte } from "drizzle-orm";
+import { sql, desc, eq } from "drizzle-orm";
 import Link from "next/link";
 import RefreshButton from "@/components/admin/refresh-button";
+import { getRevenueSummary } from "@/lib/db/payment-helpers";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 
 export default async function AdminDashboard() {
   const session = await auth();
@@ -81,6 +82,7 @@ export default async function AdminDashboard() {
       status: subscriptions.status,
       billingCycle: subscriptions.billingCycle,
       price: subscriptions.price,
+      currency: subscriptions.currency,
       createdAt: subscriptions.createdAt,
       customerEmail: customers.email,
       companyName: customers.companyName,
@@ -94,21 +96,9 @@ export default async function AdminDashboard() {
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-  const [revenueStatsResult] = await db
-    .select({
-      totalRevenue: sql<string>`COALESCE(SUM(CAST(${payments.amount} AS DECIMAL)), 0)`,
-      paymentCount: sql<number>`COUNT(${payments.id})`,
-    })
-    .from(payments)
-    .where(gte(payments.createdAt, thirtyDaysAgo));
-
-  // Convert string to number (SQL returns decimals as strings)
-  const revenueStats = {
-    totalRevenue: revenueStatsResult
-      ? parseFloat(revenueStatsResult.totalRevenue || "0")
-      : 0,
-    paymentCount: revenueStatsResult?.paymentCount || 0,
-  };
+  // Normalised to the reporting currency
+  const revenueStats = await getRevenueSummary(thirtyDaysAgo);
+  const hasMultipleCurrencies = revenueStats.byCurrency.length > 1;
 
   return (
     <div className="px-4 sm:px-0">
@@ -274,7 +264,10 @@ export default async function AdminDashboard() {
                     Revenue (30d)
                   </dt>
                   <dd className="text-3xl font-semibold text-gray-900">
-                    ${revenueStats?.totalRevenue?.toFixed(2) || "0.00"}
+                    {formatCurrencyAmount(
+                      revenueStats.totalRevenue,
+                      revenueStats.reportingCurrency
+                    )}
                   </dd>
                 </dl>
               </div>
@@ -342,17 +335,36 @@ export default async function AdminDashboard() {
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Last 30 Days:</span>
               <span className="text-2xl font-bold text-green-600">
-                ${revenueStats?.totalRevenue?.toFixed(2) || "0.00"}
+                {formatCurrencyAmount(
+                  revenueStats.totalRevenue,
+                  revenueStats.reportingCurrency
+                )}
               </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Payments:</span>
               <span className="text-lg font-semibold text-gray-700">
-                {revenueStats?.paymentCount || 0}
+                {revenueStats.paymentCount}
               </span>
             </div>
+            {hasMultipleCurrencies &&
+              revenueStats.byCurrency.map((row) => (
+                <div
+                  key={row.currency}
+                  className="flex justify-between items-center"
+                >
+                  <span className="text-sm text-gray-600">
+                    {row.currency} ({row.paymentCount}):
+                  </span>
+                  <span className="text-sm font-medium text-gray-700">
+                    {formatCurrencyAmount(row.amount, row.currency)}
+                  </span>
+                </div>
+              ))}
             <p className="text-xs text-gray-500 mt-2">
-              Track revenue trends and payment success rates
+              {hasMultipleCurrencies
+                ? `Totals converted to ${revenueStats.reportingCurrency.toUpperCase()} at configured exchange rates`
+                : "Track revenue trends and payment success rates"}
             </p>
           </div>
         </div>
@@ -576,7 +588,10 @@ export default async function AdminDashboard() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
-                        ${sub.price || "0.00"}
+                        {formatCurrencyAmount(
+                          parseFloat(sub.price || "0"),
+                          sub.currency
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
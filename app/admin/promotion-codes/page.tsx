@@ -0,0 +1,65 @@
+import { db } from "@/lib/db";
+import { promotionCodes, users } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { PromotionCodesTable } from "@/components/admin/promotion-codes-table";
+import { CreatePromotionCodeDialog } from "@/components/admin/create-promotion-code-dialog";
+import { describePromotionCode } from "@/lib/stripe/promotion-codes";
+
+export default async function AdminPromotionCodesPage() {
+  // Get all promotion codes with the admin who created them
+  const codes = await db
+    .select({
+      promotionCodeId: promotionCodes.id,
+      code: promotionCodes.code,
+      description: promotionCodes.description,
+      percentOff: promotionCodes.percentOff,
+      amountOff: promotionCodes.amountOff,
+      currency: promotionCodes.currency,
+      duration: promotionCodes.duration,
+      durationInMonths: promotionCodes.durationInMonths,
+      maxRedemptions: promotionCodes.maxRedemptions,
+      expiresAt: promotionCodes.expiresAt,
+      isActive: promotionCodes.isActive,
+      retiredAt: promotionCodes.retiredAt,
+      createdAt: promotionCodes.createdAt,
+      createdByEmail: users.email,
+    })
+    .from(promotionCodes)
+    .leftJoin(users, eq(promotionCodes.createdBy, users.id))
+    .orderBy(desc(promotionCodes.createdAt));
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            Promotion Codes
+          </h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Create discount codes customers can enter at checkout or when
+            changing plans. Retiring a code stops new redemptions only.
+          </p>
+        </div>
+        <CreatePromotionCodeDialog />
+      </div>
+
+      <PromotionCodesTable
+        data={codes.map((code) => ({
+          promotionCodeId: code.promotionCodeId,
+          code: code.code,
+          description: code.description,
+          discount: describePromotionCode(code),
+          maxRedemptions: code.maxRedemptions,
+          expiresAt: code.expiresAt,
+          status: !code.isActive
+            ? "retired"
+            : code.expiresAt && code.expiresAt <= new Date()
+            ? "expired"
+            : "active",
+          createdAt: code.createdAt,
+          createdByEmail: code.createdByEmail,
+        }))}
+      />
+    </div>
+  );
+}
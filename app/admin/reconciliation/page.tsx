@@ -0,0 +1,72 @@
+import { db } from "@/lib/db";
+import {
+  customers,
+  reconciliationDrifts,
+  reconciliationRuns,
+} from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { ReconciliationDriftsTable } from "@/components/admin/reconciliation-drifts-table";
+import { RunReconciliationButton } from "@/components/admin/run-reconciliation-button";
+import { canAcceptStripe } from "@/lib/stripe/reconciliation";
+
+export default async function AdminReconciliationPage() {
+  const [lastRun] = await db
+    .select()
+    .from(reconciliationRuns)
+    .orderBy(desc(reconciliationRuns.startedAt))
+    .limit(1);
+
+  const drifts = await db
+    .select({
+      id: reconciliationDrifts.id,
+      entityType: reconciliationDrifts.entityType,
+      stripeId: reconciliationDrifts.stripeId,
+      driftType: reconciliationDrifts.driftType,
+      field: reconciliationDrifts.field,
+      localValue: reconciliationDrifts.localValue,
+      stripeValue: reconciliationDrifts.stripeValue,
+      status: reconciliationDrifts.status,
+      firstDetectedAt: reconciliationDrifts.firstDetectedAt,
+      lastDetectedAt: reconciliationDrifts.lastDetectedAt,
+      customerEmail: customers.email,
+      companyName: customers.companyName,
+    })
+    .from(reconciliationDrifts)
+    .leftJoin(customers, eq(reconciliationDrifts.customerId, customers.id))
+    .orderBy(desc(reconciliationDrifts.lastDetectedAt))
+    .limit(500);
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            Stripe Reconciliation
+          </h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Nightly comparison of subscriptions, invoices, payments and payment
+            methods against Stripe. Safe fields are fixed automatically; the
+            rest wait here for review.
+          </p>
+          {lastRun && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              Last run {lastRun.startedAt.toLocaleString()} ({lastRun.trigger}
+              ): {lastRun.status}
+              {lastRun.status === "completed" &&
+                ` - ${lastRun.checkedCount} checked, ${lastRun.driftCount} drifts, ${lastRun.autoFixedCount} auto-fixed`}
+              {lastRun.error && ` - ${lastRun.error}`}
+            </p>
+          )}
+        </div>
+        <RunReconciliationButton />
+      </div>
+
+      <ReconciliationDriftsTable
+        data={drifts.map((drift) => ({
+          ...drift,
+          canAcceptStripe: canAcceptStripe(drift),
+        }))}
+      />
+    </div>
+  );
+}
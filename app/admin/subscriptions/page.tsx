@@ -13,6 +13,7 @@ export default async function AdminSubscriptionsPage() {
       planType: subscriptions.planType,
       billingCycle: subscriptions.billingCycle,
       price: subscriptions.price,
+      currency: subscriptions.currency,
       status: subscriptions.status,
       currentPeriodStart: subscriptions.currentPeriodStart,
       currentPeriodEnd: subscriptions.currentPeriodEnd,
@@ -0,0 +1,105 @@
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { customers } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import {
+  handleApiError,
+  successResponse,
+  NotFoundError,
+} from "@/lib/api/response-helpers";
+import {
+  getCustomerPlanId,
+  getPlanEntitlements,
+  parseEntitlementOverrides,
+  resolveEntitlements,
+  sanitizeEntitlementOverrides,
+  setCustomerEntitlementOverrides,
+} from "@/lib/license/entitlements";
+
+async function getCustomerOrNotFound(customerId: string) {
+  const [customer] = await db
+    .select({
+      id: customers.id,
+      entitlementOverrides: customers.entitlementOverrides,
+    })
+    .from(customers)
+    .where(eq(customers.id, customerId))
+    .limit(1);
+
+  if (!customer) {
+    throw new NotFoundError("Customer not found");
+  }
+
+  return customer;
+}
+
+/**
+ * GET /api/admin/customers/[customerId]/entitlements
+ * Plan default, override and effective entitlements for a customer (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { customerId } = await params;
+
+    const customer = await getCustomerOrNotFound(customerId);
+    const planId = await getCustomerPlanId(customer.id);
+
+    return successResponse({
+      planId,
+      defaults: getPlanEntitlements(planId),
+      overrides: sanitizeEntitlementOverrides(customer.entitlementOverrides),
+      entitlements: resolveEntitlements(planId, customer.entitlementOverrides),
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch entitlements");
+  }
+}
+
+/**
+ * PUT /api/admin/customers/[customerId]/entitlements
+ * Replace a customer's entitlement overrides (admin only)
+ *
+ * Body: { overrides: { [key]: boolean | number | null } }
+ * Keys that are omitted or null fall back to the plan default. Connected
+ * terminals receive a plan_changed event when the effective set changes.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    const { customerId } = await params;
+    const body = await request.json();
+
+    const overrides = parseEntitlementOverrides(body.overrides);
+    const customer = await getCustomerOrNotFound(customerId);
+    const planId = await getCustomerPlanId(customer.id);
+
+    const entitlements = await setCustomerEntitlementOverrides(
+      customer.id,
+      planId,
+      overrides
+    );
+
+    console.log(
+      `[Admin] Entitlement overrides for customer ${customer.id} updated by ${session.user.email}:`,
+      overrides
+    );
+
+    return successResponse({
+      success: true,
+      message: "Entitlements updated successfully",
+      planId,
+      overrides,
+      entitlements,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to update entitlements");
+  }
+}
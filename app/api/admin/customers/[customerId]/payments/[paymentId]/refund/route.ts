@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/api/permission-middleware";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { parseRefundInput, refundPayment } from "@/lib/stripe/refunds";
+
+/**
+ * POST /api/admin/customers/[customerId]/payments/[paymentId]/refund
+ * Refund a customer's payment in full or in part (billing.process_refund)
+ *
+ * Body: {
+ *   amount?: number (dollars, omit to refund everything not yet refunded),
+ *   reason: "requested_by_customer" | "duplicate" | "fraudulent",
+ *   note?: string
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ customerId: string; paymentId: string }> }
+) {
+  try {
+    const session = await requirePermission(
+      PERMISSIONS.BILLING_PROCESS_REFUND
+    );
+    const { customerId, paymentId } = await params;
+    const body = await request.json();
+
+    const input = parseRefundInput(body);
+    const { refund, payment } = await refundPayment(
+      customerId,
+      paymentId,
+      input,
+      session.user.id
+    );
+
+    console.log(
+      `[Admin] Payment ${payment.id} refunded (${refund.amount} ${refund.currency}, ${input.reason}) by ${session.user.email}`
+    );
+
+    return successResponse(
+      {
+        success: true,
+        message: "Refund issued successfully",
+        refund,
+        payment,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to refund payment");
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { reviewLicenseSharingFinding } from "@/lib/analytics/activation-anomaly-detector";
+
+/**
+ * POST /api/admin/license-sharing/[findingId]/review
+ * Confirm or dismiss a license sharing finding (admin only)
+ *
+ * Body: { decision: "confirmed" | "dismissed", notes? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ findingId: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { findingId } = await params;
+    const body = await request.json();
+    const { decision, notes } = body;
+
+    const finding = await reviewLicenseSharingFinding(
+      findingId,
+      decision,
+      notes
+    );
+
+    return successResponse({
+      success: true,
+      message:
+        decision === "confirmed"
+          ? "License sharing confirmed"
+          : "Finding dismissed",
+      finding,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to review license sharing finding");
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import {
+  handleApiError,
+  successResponse,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  getLicenseCommandOverview,
+  getLicenseTerminal,
+  issueTerminalCommand,
+  parseTerminalCommand,
+} from "@/lib/license/terminal-commands";
+
+/**
+ * GET /api/admin/licenses/[licenseId]/commands
+ * A license's active terminals and their recent commands (admin only)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ licenseId: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { licenseId } = await params;
+
+    return successResponse(await getLicenseCommandOverview(licenseId));
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch terminal commands");
+  }
+}
+
+/**
+ * POST /api/admin/licenses/[licenseId]/commands
+ * Send a command to one of the license's terminals (admin only)
+ *
+ * Body: { activationId: string, command: "restart" | "upload_diagnostics" | "clear_cache" | "revalidate" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ licenseId: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    const { licenseId } = await params;
+    const body = await request.json();
+
+    if (!body.activationId) {
+      throw new ValidationError("activationId is required");
+    }
+
+    const command = parseTerminalCommand(body.command);
+    const terminal = await getLicenseTerminal(licenseId, body.activationId);
+
+    const queued = await issueTerminalCommand(terminal, command, {
+      userId: session.user.id,
+      via: "admin",
+    });
+
+    console.log(
+      `[Admin] ${command} sent to terminal ${terminal.id} by ${session.user.email}`
+    );
+
+    return successResponse(
+      {
+        success: true,
+        message: "Command sent to the terminal",
+        command: queued,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to send terminal command");
+  }
+}
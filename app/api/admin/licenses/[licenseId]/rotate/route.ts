@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { rotateLicenseKey } from "@/lib/license/rotation";
+
+/**
+ * POST /api/admin/licenses/[licenseId]/rotate
+ * Reissue a license key, moving its activations to the new key (admin only)
+ *
+ * Body: { reason: string }
+ * The old key keeps working until the overlap window ends, then the
+ * expiration cron revokes it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ licenseId: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    const { licenseId } = await params;
+    const body = await request.json();
+    const { reason } = body;
+
+    if (!reason || typeof reason !== "string") {
+      return NextResponse.json(
+        { error: "Rotation reason is required" },
+        { status: 400 }
+      );
+    }
+
+    const rotation = await rotateLicenseKey(licenseId, { reason });
+
+    console.log(
+      `[Admin] License ${licenseId} rotated by ${session.user.email}: ${reason}`
+    );
+
+    return successResponse({
+      success: true,
+      message: "License key rotated successfully",
+      rotation,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to rotate license key");
+  }
+}
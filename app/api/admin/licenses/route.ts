@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import {
+  issueStandaloneLicense,
+  parseStandaloneLicenseInput,
+} from "@/lib/license/license-types";
+import { maskLicenseKey } from "@/lib/license/generator";
+
+/**
+ * POST /api/admin/licenses
+ * Issue a perpetual or fixed-term license without a subscription (admin only)
+ *
+ * Body: {
+ *   customerId, planId, licenseType: "perpetual" | "fixed_term",
+ *   maxTerminals?, expiresAt?, updatesUntil?, notes?
+ * }
+ * Fixed-term licenses require expiresAt; perpetual licenses never expire.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    const body = await request.json();
+
+    const input = parseStandaloneLicenseInput(body);
+    const license = await issueStandaloneLicense(input);
+
+    console.log(
+      `[Admin] ${input.licenseType} license ${maskLicenseKey(
+        license.licenseKey
+      )} issued by ${session.user.email}`
+    );
+
+    return successResponse(
+      {
+        success: true,
+        message: "License issued successfully",
+        license,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to issue license");
+  }
+}
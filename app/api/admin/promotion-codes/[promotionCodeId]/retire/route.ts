@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { retirePromotionCode } from "@/lib/stripe/promotion-codes";
+
+/**
+ * POST /api/admin/promotion-codes/[promotionCodeId]/retire
+ * Stop a promotion code from being redeemed (admin only)
+ * Customers already on the discount keep it until it runs out
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ promotionCodeId: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    const { promotionCodeId } = await params;
+
+    const promotionCode = await retirePromotionCode(promotionCodeId);
+
+    console.log(
+      `[Admin] Promotion code ${promotionCode.code} retired by ${session.user.email}`
+    );
+
+    return successResponse({
+      success: true,
+      message: "Promotion code retired",
+      promotionCode,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to retire promotion code");
+  }
+}
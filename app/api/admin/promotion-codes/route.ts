@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import {
+  createPromotionCode,
+  parsePromotionCodeInput,
+} from "@/lib/stripe/promotion-codes";
+
+/**
+ * POST /api/admin/promotion-codes
+ * Create a promotion code backed by a Stripe coupon (admin only)
+ *
+ * Body: {
+ *   code, description?, percentOff? | amountOff? (dollars),
+ *   duration: "once" | "repeating" | "forever", durationInMonths?,
+ *   maxRedemptions?, expiresAt?
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    const body = await request.json();
+
+    const input = parsePromotionCodeInput(body);
+    const promotionCode = await createPromotionCode(input, session.user.id);
+
+    console.log(
+      `[Admin] Promotion code ${promotionCode.code} created by ${session.user.email}`
+    );
+
+    return successResponse(
+      {
+        success: true,
+        message: "Promotion code created successfully",
+        promotionCode,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to create promotion code");
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { resolveDrift } from "@/lib/stripe/reconciliation";
+
+/**
+ * POST /api/admin/reconciliation/drifts/[driftId]/resolve
+ * Resolve a reconciliation drift by taking Stripe's or the local value
+ * (admin only)
+ *
+ * Body: { resolution: "accept_stripe" | "accept_local" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ driftId: string }> }
+) {
+  try {
+    const session = await requireAdmin();
+    const { driftId } = await params;
+    const { resolution } = await request.json();
+
+    const drift = await resolveDrift(driftId, resolution, session.user.id);
+
+    console.log(
+      `[Admin] Reconciliation drift ${drift.id} (${drift.entityType} ${drift.stripeId}) resolved with ${resolution} by ${session.user.email}`
+    );
+
+    return successResponse({
+      success: true,
+      message:
+        resolution === "accept_stripe"
+          ? "Local data updated from Stripe"
+          : "Local data kept",
+      drift,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to resolve drift");
+  }
+}
@@ -0,0 +1,28 @@
+import { requireAdmin } from "@/lib/api/auth-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { runReconciliation } from "@/lib/stripe/reconciliation";
+
+/**
+ * POST /api/admin/reconciliation
+ * Run a Stripe reconciliation now instead of waiting for the daily cron
+ * (admin only)
+ */
+export async function POST() {
+  try {
+    const session = await requireAdmin();
+
+    const result = await runReconciliation({ trigger: "manual" });
+
+    console.log(
+      `[Admin] Stripe reconciliation ${result.runId} run by ${session.user.email}`
+    );
+
+    return successResponse({
+      success: true,
+      message: `Checked ${result.checked} rows: ${result.drifts} drifts, ${result.autoFixed} fixed automatically`,
+      result,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to run Stripe reconciliation");
+  }
+}
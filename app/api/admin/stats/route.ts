@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireInternalUser } from "@/lib/api/auth-helpers";
 import { handleApiError } from "@/lib/api/response-helpers";
 import { db } from "@/lib/db";
-import { customers, subscriptions, supportTickets, licenseKeys, payments } from "@/lib/db/schema";
-import { sql, eq, gte } from "drizzle-orm";
+import { customers, subscriptions, supportTickets, licenseKeys } from "@/lib/db/schema";
+import { sql, eq } from "drizzle-orm";
+import { getRevenueSummary } from "@/lib/db/payment-helpers";
 
 /**
  * GET /api/admin/stats
@@ -34,22 +35,17 @@ export async function GET(request: NextRequest) {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const recentPayments = await db
-      .select({
-        totalRevenue: sql<number>`coalesce(sum(cast(${payments.amount} as decimal)), 0)`,
-        paymentCount: sql<number>`count(${payments.id})`,
-      })
-      .from(payments)
-      .where(
-        gte(payments.createdAt, thirtyDaysAgo)
-      );
+    const recentRevenue = await getRevenueSummary(thirtyDaysAgo);
 
     return NextResponse.json({
       success: true,
       stats: {
         ...stats,
-        recentRevenue: recentPayments[0]?.totalRevenue || 0,
-        recentPaymentCount: recentPayments[0]?.paymentCount || 0,
+        // Normalised to the reporting currency; byCurrency has the raw totals
+        recentRevenue: recentRevenue.totalRevenue,
+        recentRevenueCurrency: recentRevenue.reportingCurrency,
+        recentRevenueByCurrency: recentRevenue.byCurrency,
+        recentPaymentCount: recentRevenue.paymentCount,
       },
     });
   } catch (error) {
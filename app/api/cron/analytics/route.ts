@@ -4,12 +4,14 @@
  * 1. Aggregate performance metrics
  * 2. Analyze failure patterns
  * 3. Calculate health scores
+ * 4. Detect license sharing from activation anomalies
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { aggregatePerformanceMetrics } from "@/lib/analytics/performance-trending";
 import { analyzeFailurePatterns } from "@/lib/analytics/failure-pattern-analyzer";
 import { calculateAllHealthScores } from "@/lib/analytics/health-scorer";
+import { detectActivationAnomalies } from "@/lib/analytics/activation-anomaly-detector";
 
 export const dynamic = "force-dynamic";
 
@@ -30,6 +32,11 @@ export async function GET(request: NextRequest) {
         error: null as string | null,
       },
       healthScores: { success: false, count: 0, error: null as string | null },
+      licenseSharing: {
+        success: false,
+        count: 0,
+        error: null as string | null,
+      },
     };
 
     // 1. Aggregate performance metrics for the previous hour
@@ -66,6 +73,17 @@ export async function GET(request: NextRequest) {
       console.error("Error calculating health scores:", error);
     }
 
+    // 4. Detect license sharing (alerts on new findings)
+    try {
+      const findings = await detectActivationAnomalies();
+      results.licenseSharing.success = true;
+      results.licenseSharing.count = findings.length;
+    } catch (error) {
+      results.licenseSharing.error =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error("Error detecting license sharing:", error);
+    }
+
     const duration = Date.now() - startTime;
 
     return NextResponse.json({
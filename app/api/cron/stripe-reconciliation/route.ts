@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runReconciliation } from "@/lib/stripe/reconciliation";
+
+/**
+ * Cron endpoint for Stripe reconciliation
+ *
+ * Compares local subscriptions, invoices, payments and payment methods with
+ * Stripe, fixes safe drift and records the rest for review at
+ * /admin/reconciliation.
+ *
+ * Security: Vercel Cron Secret (Authorization: Bearer <CRON_SECRET>)
+ *
+ * Recommended Schedule: Daily, outside business hours
+ * - 0 3 star star star (03:00 UTC)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Security check - verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.warn("[CRON API] Unauthorized access attempt");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log("[CRON API] Starting Stripe reconciliation...");
+
+    const results = await runReconciliation({ trigger: "cron" });
+
+    return NextResponse.json({
+      success: true,
+      message: "Stripe reconciliation completed successfully",
+      results,
+    });
+  } catch (error) {
+    console.error("[CRON API] Stripe reconciliation failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Stripe reconciliation failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST as well for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -5,6 +5,7 @@
  *
  * Returns subscription events that occurred after the given timestamp.
  * Used by desktop clients to fetch events missed during disconnections.
+ * (The event stream itself replays from Last-Event-ID on reconnect.)
  *
  * Query Parameters:
  * - since: ISO 8601 timestamp (e.g., "2025-01-15T10:30:00.000Z")
@@ -84,6 +85,7 @@ export async function GET(
       timestamp: record.createdAt.toISOString(),
       licenseKey: record.licenseKey,
       data: record.payload,
+      sequence: record.sequence ?? undefined,
     }));
 
     console.log(
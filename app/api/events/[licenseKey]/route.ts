@@ -9,8 +9,14 @@
  * 1. Desktop connects with license key
  * 2. Server validates license key exists
  * 3. Server subscribes to events via Redis (or in-memory fallback)
- * 4. Events are pushed to desktop in real-time
- * 5. Periodic heartbeats keep connection alive
+ * 4. Events missed since the Last-Event-ID header (on reconnect) are
+ *    replayed from the database, skipping ones this machine acknowledged
+ * 5. Events are pushed to desktop in real-time
+ * 6. Periodic heartbeats keep connection alive
+ *
+ * Persisted events carry a per-license sequence number as their SSE id.
+ * Events targeted at specific terminals only reach connections whose
+ * machineId is among the targets.
  *
  * Route: GET /api/events/[licenseKey]
  *
@@ -19,110 +25,29 @@
  * - Webhook handlers publish events to Redis
  * - All server instances receive events via Redis subscription
  * - Events are forwarded to connected clients
+ *
+ * On the custom server (server.ts) the same URL also accepts a WebSocket
+ * upgrade (lib/subscription-events/websocket-server.ts); this stream stays
+ * the fallback.
  */
 
 import { NextRequest } from "next/server";
-import { db } from "@/lib/db";
-import { licenseKeys, activations } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
 import {
   serializeEvent,
   createSubscriptionEvent,
   type SubscriptionEvent,
 } from "@/lib/subscription-events/types";
-import { subscribeToLicense } from "@/lib/subscription-events/redis-publisher";
+import {
+  validateEventConnection,
+  getConnectionEvents,
+  generateConnectionId,
+  parseLastEventId,
+  subscribeWithReplay,
+  HEARTBEAT_INTERVAL_MS,
+  CONNECTION_TIMEOUT_MS,
+} from "@/lib/subscription-events/connection";
 import { isRedisConfigured } from "@/lib/redis";
 
-// SSE heartbeat interval (30 seconds)
-const HEARTBEAT_INTERVAL_MS = 30 * 1000;
-
-// Connection timeout (5 minutes of no activity)
-const CONNECTION_TIMEOUT_MS = 5 * 60 * 1000;
-
-/**
- * Validate license key and machine (optional)
- */
-async function validateLicenseKey(
-  licenseKey: string,
-  machineIdHash?: string
-): Promise<{ valid: boolean; error?: string }> {
-  const normalizedKey = licenseKey.toUpperCase();
-
-  console.log(
-    `[SSE] Validating license: ${normalizedKey.substring(
-      0,
-      15
-    )}..., machineId: ${machineIdHash?.substring(0, 20)}...`
-  );
-
-  // Check license exists and is active
-  const [license] = await db
-    .select()
-    .from(licenseKeys)
-    .where(
-      and(
-        eq(licenseKeys.licenseKey, normalizedKey),
-        eq(licenseKeys.isActive, true)
-      )
-    )
-    .limit(1);
-
-  if (!license) {
-    console.log(
-      `[SSE] License not found or inactive: ${normalizedKey.substring(
-        0,
-        15
-      )}...`
-    );
-    return { valid: false, error: "License key not found or inactive" };
-  }
-
-  console.log(`[SSE] License found: ${license.id}`);
-
-  // If machine hash provided, verify it's activated
-  if (machineIdHash) {
-    // First, check what activations exist for this license
-    const allActivations = await db
-      .select()
-      .from(activations)
-      .where(eq(activations.licenseKey, normalizedKey));
-
-    console.log(
-      `[SSE] Found ${allActivations.length} activations for license:`,
-      allActivations.map((a) => ({
-        machineIdHash: a.machineIdHash?.substring(0, 20) + "...",
-        isActive: a.isActive,
-      }))
-    );
-
-    const [activation] = await db
-      .select()
-      .from(activations)
-      .where(
-        and(
-          eq(activations.licenseKey, normalizedKey),
-          eq(activations.machineIdHash, machineIdHash),
-          eq(activations.isActive, true)
-        )
-      )
-      .limit(1);
-
-    if (!activation) {
-      console.log(
-        `[SSE] Machine not activated. Looking for: ${machineIdHash?.substring(
-          0,
-          20
-        )}...`
-      );
-      return { valid: false, error: "Machine not activated for this license" };
-    }
-
-    console.log(`[SSE] Machine activation found: ${activation.id}`);
-  }
-
-  return { valid: true };
-}
-
 /**
  * GET /api/events/[licenseKey]
  *
@@ -134,6 +59,7 @@ export async function GET(
 ) {
   const { licenseKey } = await params;
   const machineIdHash = request.nextUrl.searchParams.get("machineId");
+  const lastSequence = parseLastEventId(request.headers.get("last-event-id"));
 
   console.log("[SSE] New connection request", {
     licenseKey: licenseKey.substring(0, 15) + "...",
@@ -142,7 +68,7 @@ export async function GET(
   });
 
   // Validate license key
-  const validation = await validateLicenseKey(
+  const validation = await validateEventConnection(
     licenseKey,
     machineIdHash || undefined
   );
@@ -156,12 +82,10 @@ export async function GET(
 
   console.log("[SSE] ✅ Validation passed, establishing connection");
 
-  const normalizedKey = licenseKey.toUpperCase();
+  const normalizedKey = validation.licenseKey || licenseKey.toUpperCase();
 
   // Generate unique connection ID for logging
-  const connectionId = `conn_${Date.now()}_${Math.random()
-    .toString(36)
-    .substring(2, 9)}`;
+  const connectionId = generateConnectionId();
 
   const transport = isRedisConfigured() ? "Redis" : "in-memory";
   console.log(
@@ -173,25 +97,25 @@ export async function GET(
 
   // Create readable stream for SSE
   const stream = new ReadableStream({
-    start(controller) {
+    async start(controller) {
       const encoder = new TextEncoder();
       let isActive = true;
       let lastActivity = Date.now();
 
-      // Send initial connection confirmation
-      const connectEvent = createSubscriptionEvent(
-        "heartbeat_ack",
+      // Send initial connection confirmation (plus any missed rotation/pause)
+      for (const event of getConnectionEvents(
         normalizedKey,
-        {
-          serverTime: new Date().toISOString(),
-          connectionId,
-        }
-      );
-      controller.enqueue(encoder.encode(serializeEvent(connectEvent)));
-
-      // Subscribe to events for this license key
-      const unsubscribe = subscribeToLicense(
+        validation,
+        connectionId
+      )) {
+        controller.enqueue(encoder.encode(serializeEvent(event)));
+      }
+
+      // Subscribe to events for this license key, replaying any missed since
+      // the Last-Event-ID the client reconnected with
+      const unsubscribe = await subscribeWithReplay(
         normalizedKey,
+        { lastSequence, machineIdHash },
         (event: SubscriptionEvent) => {
           if (!isActive) return;
 
@@ -208,6 +132,13 @@ export async function GET(
         }
       );
 
+      // Client went away during the replay
+      if (request.signal.aborted) {
+        unsubscribe();
+        isActive = false;
+        return;
+      }
+
       // Heartbeat to keep connection alive
       const heartbeatInterval = setInterval(() => {
         if (!isActive) {
@@ -3,7 +3,9 @@
  *
  * POST /api/events/acknowledge
  *
- * Desktop clients call this endpoint after successfully processing an event.
+ * Desktop clients call this endpoint after successfully processing an event
+ * (terminals on the WebSocket transport send the same ack inline).
+ * Acks for a targeted event are only accepted from its targeted terminals.
  * This enables:
  * - Tracking which events were successfully processed
  * - Identifying events that need retry
@@ -23,8 +25,12 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eventAcknowledgments, subscriptionEvents } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eventAcknowledgments } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  recordEventAcknowledgment,
+  ACKNOWLEDGMENT_STATUSES,
+} from "@/lib/subscription-events/acknowledgments";
 
 export async function POST(request: NextRequest) {
   try {
@@ -48,85 +54,40 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate status
-    if (!["success", "failed", "skipped"].includes(status)) {
+    if (!ACKNOWLEDGMENT_STATUSES.includes(status)) {
       return NextResponse.json(
         { error: "Invalid status. Must be: success, failed, or skipped" },
         { status: 400 }
       );
     }
 
-    console.log(
-      `[Event ACK] Received acknowledgment for ${eventId} from ${licenseKey.substring(
-        0,
-        15
-      )}... - Status: ${status}`
-    );
-
-    // Check if event exists in subscription_events table
-    const event = await db
-      .select()
-      .from(subscriptionEvents)
-      .where(eq(subscriptionEvents.eventId, eventId))
-      .limit(1);
+    const { outcome, acknowledgment } = await recordEventAcknowledgment({
+      eventId,
+      licenseKey,
+      machineIdHash,
+      status,
+      errorMessage,
+      processingTimeMs,
+    });
 
-    if (event.length === 0) {
-      console.warn(
-        `[Event ACK] Event ${eventId} not found in subscription_events table`
+    if (outcome === "not_targeted") {
+      return NextResponse.json(
+        { error: "Event is not targeted at this terminal" },
+        { status: 400 }
       );
-      // Don't fail - event might be old and cleaned up
     }
 
-    // Check if already acknowledged by this machine
-    const existingAck = await db
-      .select()
-      .from(eventAcknowledgments)
-      .where(
-        and(
-          eq(eventAcknowledgments.eventId, eventId),
-          eq(eventAcknowledgments.machineIdHash, machineIdHash || "")
-        )
-      )
-      .limit(1);
-
-    if (existingAck.length > 0) {
-      console.log(
-        `[Event ACK] Event ${eventId} already acknowledged by this machine`
-      );
+    if (outcome === "duplicate") {
       return NextResponse.json({
         success: true,
         message: "Event already acknowledged",
-        acknowledgment: existingAck[0],
+        acknowledgment,
       });
     }
 
-    // Insert acknowledgment
-    const acknowledgment = await db
-      .insert(eventAcknowledgments)
-      .values({
-        eventId,
-        licenseKey,
-        machineIdHash: machineIdHash || null,
-        status,
-        errorMessage: errorMessage || null,
-        processingTimeMs: processingTimeMs || null,
-      })
-      .returning();
-
-    console.log(
-      `[Event ACK] ✅ Acknowledgment recorded: ${acknowledgment[0].id}`
-    );
-
-    // If status is "failed" and this is a critical event, trigger retry mechanism
-    if (status === "failed") {
-      console.warn(
-        `[Event ACK] ⚠️ Event ${eventId} processing failed: ${errorMessage}`
-      );
-      // Retry mechanism will pick this up in background job
-    }
-
     return NextResponse.json({
       success: true,
-      acknowledgment: acknowledgment[0],
+      acknowledgment,
     });
   } catch (error) {
     console.error("[Event ACK] Error processing acknowledgment:", error);
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { handleApiError } from "@/lib/api/response-helpers";
+import {
+  getInvoicePdfData,
+  getInvoicePdfFilename,
+} from "@/lib/invoices/documents";
+import { renderInvoicePdf } from "@/lib/invoices/invoice-pdf";
+
+/**
+ * GET /api/invoices/[invoiceId]/pdf
+ * Downloads one of the customer's invoices as a branded PDF
+ * Paid invoices double as the payment receipt
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { invoiceId } = await params;
+
+    const document = await getInvoicePdfData(invoiceId, customer.id);
+    const pdf = renderInvoicePdf(document);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoicePdfFilename(document)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to generate invoice PDF");
+  }
+}
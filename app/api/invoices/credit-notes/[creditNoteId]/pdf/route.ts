@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { handleApiError } from "@/lib/api/response-helpers";
+import {
+  getCreditNotePdfData,
+  getInvoicePdfFilename,
+} from "@/lib/invoices/documents";
+import { renderInvoicePdf } from "@/lib/invoices/invoice-pdf";
+
+/**
+ * GET /api/invoices/credit-notes/[creditNoteId]/pdf
+ * Downloads one of the customer's credit notes (refunds) as a branded PDF
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ creditNoteId: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { creditNoteId } = await params;
+
+    const document = await getCreditNotePdfData(creditNoteId, customer.id);
+    const pdf = renderInvoicePdf(document);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoicePdfFilename(document)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to generate credit note PDF");
+  }
+}
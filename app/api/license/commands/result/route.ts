@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordCommandResult } from "@/lib/license/terminal-commands";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  createRateLimitKey,
+  checkRateLimit,
+  LICENSE_RATE_LIMITS,
+  addRateLimitHeaders,
+} from "@/lib/rate-limit";
+
+/**
+ * POST /api/license/commands/result
+ * Report the outcome of a terminal_command event
+ *
+ * Body: { licenseKey, machineIdHash, commandId, status: "succeeded" | "failed",
+ *         result?: object (e.g. diagnostics, 64 KB max), errorMessage?: string }
+ *
+ * Acking the event only marks the command delivered; this completes it.
+ *
+ * Rate limited: 20 requests per minute per license key + machine
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { licenseKey, machineIdHash, commandId, status, result, errorMessage } =
+      body;
+
+    // Validate required fields
+    if (!licenseKey || !machineIdHash || !commandId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "License key, machine ID and command ID are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Apply rate limiting per license key + machine combo
+    const rateLimitKey = createRateLimitKey(
+      "commandResult",
+      licenseKey,
+      machineIdHash
+    );
+    const rateLimitResult = checkRateLimit(
+      rateLimitKey,
+      LICENSE_RATE_LIMITS.commandResult
+    );
+
+    if (!rateLimitResult.allowed) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: "Too many command results. Please try again later.",
+          retryAfter: rateLimitResult.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(rateLimitResult.retryAfter),
+          },
+        }
+      );
+    }
+
+    const command = await recordCommandResult({
+      licenseKey,
+      machineIdHash,
+      commandId,
+      status,
+      result,
+      errorMessage,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Command result recorded",
+      data: { commandId: command.id, status: command.status },
+    });
+
+    addRateLimitHeaders(response.headers, "commandResult", rateLimitResult);
+    return response;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("Command result error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error recording result" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTerminalConfigForMachine } from "@/lib/license/terminal-config";
+import { NotFoundError } from "@/lib/api/response-helpers";
+import {
+  createRateLimitKey,
+  checkRateLimit,
+  LICENSE_RATE_LIMITS,
+  addRateLimitHeaders,
+} from "@/lib/rate-limit";
+
+/**
+ * POST /api/license/config
+ * Effective terminal config (license config plus this terminal's override)
+ *
+ * Terminals fetch this on start, and when a heartbeat reports a configVersion
+ * newer than the one they applied. Changes are otherwise pushed as
+ * config_updated events.
+ *
+ * Rate limited: 10 requests per minute per license key + machine
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { licenseKey, machineIdHash } = body;
+
+    // Validate required fields
+    if (!licenseKey) {
+      return NextResponse.json(
+        { success: false, message: "License key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!machineIdHash) {
+      return NextResponse.json(
+        { success: false, message: "Machine ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Apply rate limiting per license key + machine combo
+    const rateLimitKey = createRateLimitKey("config", licenseKey, machineIdHash);
+    const rateLimitResult = checkRateLimit(
+      rateLimitKey,
+      LICENSE_RATE_LIMITS.config
+    );
+
+    if (!rateLimitResult.allowed) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: "Too many config requests. Please try again later.",
+          retryAfter: rateLimitResult.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(rateLimitResult.retryAfter),
+          },
+        }
+      );
+    }
+
+    const config = await getTerminalConfigForMachine(licenseKey, machineIdHash);
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Config retrieved",
+      data: config,
+    });
+
+    addRateLimitHeaders(response.headers, "config", rateLimitResult);
+    return response;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("Terminal config error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error fetching config" },
+      { status: 500 }
+    );
+  }
+}
@@ -24,6 +24,7 @@ export async function POST(request: NextRequest) {
       appVersion,
       sessionCount,
       transactionCount,
+      configVersion,
     } = body;
 
     // Validate required fields
@@ -74,6 +75,7 @@ export async function POST(request: NextRequest) {
       appVersion,
       sessionCount,
       transactionCount,
+      configVersion,
     });
 
     const response = NextResponse.json(
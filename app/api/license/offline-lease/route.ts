@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { licenseKeys } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  getLicenseAccessStatus,
+  validateLicense,
+} from "@/lib/license/validator";
+import {
+  issueOfflineLease,
+  isOfflineLeaseEnabled,
+} from "@/lib/license/offline-lease";
+import {
+  createRateLimitKey,
+  checkRateLimit,
+  LICENSE_RATE_LIMITS,
+  addRateLimitHeaders,
+} from "@/lib/rate-limit";
+
+/**
+ * POST /api/license/offline-lease
+ * Issue an Ed25519-signed offline lease for an activated terminal
+ *
+ * The lease carries the license key, machineIdHash, planId, features and
+ * entitlements, and expires after GRACE_PERIOD_DAYS.offline (sooner if the
+ * license's grace period ends first). Terminals verify it locally using the
+ * public key from GET /api/license/public-key.
+ *
+ * Rate limited: 6 requests per minute per license key + machine
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { licenseKey, machineIdHash } = body;
+
+    // Validate required fields
+    if (!licenseKey) {
+      return NextResponse.json(
+        { success: false, message: "License key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!machineIdHash) {
+      return NextResponse.json(
+        { success: false, message: "Machine ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isOfflineLeaseEnabled()) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Offline leases are not enabled on this server",
+        },
+        { status: 503 }
+      );
+    }
+
+    // Apply rate limiting per license key + machine combo
+    const rateLimitKey = createRateLimitKey(
+      "offlineLease",
+      licenseKey,
+      machineIdHash
+    );
+    const rateLimitResult = checkRateLimit(
+      rateLimitKey,
+      LICENSE_RATE_LIMITS.offlineLease
+    );
+
+    if (!rateLimitResult.allowed) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: "Too many lease requests. Please try again later.",
+          retryAfter: rateLimitResult.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(rateLimitResult.retryAfter),
+          },
+        }
+      );
+    }
+
+    // Lease is only issued for a valid license activated on this machine
+    const validation = await validateLicense(licenseKey, machineIdHash);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { success: false, message: validation.message },
+        { status: 400 }
+      );
+    }
+
+    const normalizedKey =
+      validation.data.newLicenseKey || licenseKey.toUpperCase().trim();
+    const [license] = await db
+      .select()
+      .from(licenseKeys)
+      .where(eq(licenseKeys.licenseKey, normalizedKey))
+      .limit(1);
+
+    // Same decision as the heartbeat, so no lease once terminals are disabled
+    // (e.g. trial or dunning grace period over); never for cancellations
+    const access = await getLicenseAccessStatus(license);
+    if (access.shouldDisable || access.subscriptionStatus === "cancelled") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Subscription is ${access.subscriptionStatus}. Offline lease not available.`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const lease = issueOfflineLease({
+      licenseKey: normalizedKey,
+      machineIdHash,
+      planId: validation.data.planId,
+      features: validation.data.features,
+      entitlements: validation.data.entitlements,
+      licenseExpiresAt: license.expiresAt,
+      gracePeriodRemaining: access.gracePeriodRemaining,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Offline lease issued",
+      data: lease,
+    });
+
+    addRateLimitHeaders(response.headers, "offlineLease", rateLimitResult);
+    return response;
+  } catch (error) {
+    console.error("Offline lease error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error issuing lease" },
+      { status: 500 }
+    );
+  }
+}
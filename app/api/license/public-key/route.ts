@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getSigningPublicJwk } from "@/lib/license/crypto";
+import { isOfflineLeaseEnabled } from "@/lib/license/offline-lease";
+
+/**
+ * GET /api/license/public-key
+ * Publish the Ed25519 public key used to sign offline lease tokens (JWKS format)
+ *
+ * Terminals fetch and pin this key while online, then verify lease tokens
+ * locally while offline. Match the token header `kid` against `keys[].kid`.
+ */
+export async function GET() {
+  try {
+    if (!isOfflineLeaseEnabled()) {
+      return NextResponse.json(
+        { error: "Offline lease signing key is not configured" },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { keys: [getSigningPublicJwk()] },
+      {
+        headers: {
+          "Cache-Control": "public, max-age=3600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Public key error:", error);
+    return NextResponse.json(
+      { error: "Failed to load license signing key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  requestTerminalTransfer,
+  getTransferStatusForMachine,
+} from "@/lib/license/transfers";
+import {
+  applyRateLimit,
+  getClientIP,
+  addRateLimitHeaders,
+} from "@/lib/rate-limit";
+
+/**
+ * POST /api/license/transfer
+ * Ask to move an activated terminal to this (replacement) machine
+ *
+ * Body: { licenseKey, machineIdHash, terminalName, ipAddress?, location? }
+ * The account owner approves from /dashboard/terminals or the emailed link;
+ * poll GET /api/license/transfer for the result, then activate as usual.
+ *
+ * Rate limited: 5 requests per 15 minutes per IP
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request);
+
+    const rateLimit = applyRateLimit("transfer", clientIP);
+    if (rateLimit.blocked) {
+      return rateLimit.response;
+    }
+
+    const body = await request.json();
+    const { licenseKey, machineIdHash, terminalName, ipAddress, location } =
+      body;
+
+    if (!licenseKey) {
+      return NextResponse.json(
+        { success: false, message: "License key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!machineIdHash) {
+      return NextResponse.json(
+        { success: false, message: "Machine ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!terminalName || typeof terminalName !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Name of the terminal to take over is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestTerminalTransfer({
+      licenseKey,
+      machineIdHash,
+      terminalName,
+      ipAddress: ipAddress || clientIP,
+      location,
+    });
+
+    const response = NextResponse.json(result, {
+      status: result.success ? 202 : 400,
+    });
+
+    addRateLimitHeaders(response.headers, "transfer", rateLimit.result);
+    return response;
+  } catch (error) {
+    console.error("Terminal transfer request error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error during transfer request" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/license/transfer?transferId=xxx&machineIdHash=yyy
+ * Check the status of a transfer request from the machine that made it
+ *
+ * Rate limited: 30 requests per minute per machine
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const transferId = searchParams.get("transferId");
+    const machineIdHash = searchParams.get("machineIdHash");
+
+    if (!transferId || !machineIdHash) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "transferId and machineIdHash are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = applyRateLimit("validate", machineIdHash);
+    if (rateLimit.blocked) {
+      return rateLimit.response;
+    }
+
+    const result = await getTransferStatusForMachine(
+      transferId,
+      machineIdHash
+    );
+
+    const response = NextResponse.json(result, {
+      status: result.success ? 200 : 404,
+    });
+
+    addRateLimitHeaders(response.headers, "validate", rateLimit.result);
+    return response;
+  } catch (error) {
+    console.error("Terminal transfer status error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { updateLocation, deleteLocation } from "@/lib/license/locations";
+
+/**
+ * PATCH /api/locations/[locationId]
+ * Rename a location or change how many terminal seats it has
+ *
+ * Body: { name?, address?, maxTerminals? }
+ * Seats move between the location and the subscription's main key.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { locationId } = await params;
+    const { name, address, maxTerminals } = await request.json();
+
+    const location = await updateLocation(customer.id, locationId, {
+      name,
+      address,
+      maxTerminals,
+    });
+
+    return successResponse({
+      success: true,
+      message: `Location "${location.name}" updated`,
+      location,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to update location");
+  }
+}
+
+/**
+ * DELETE /api/locations/[locationId]
+ * Remove a location, revoking its license key
+ * Its terminal seats return to the subscription's main key.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { locationId } = await params;
+
+    await deleteLocation(customer.id, locationId);
+
+    console.log(
+      `[Locations] Location ${locationId} removed by user ${session.user.id}`
+    );
+
+    return successResponse({
+      success: true,
+      message: "Location removed",
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to remove location");
+  }
+}
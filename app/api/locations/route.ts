@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { createLocation, getCustomerLocations } from "@/lib/license/locations";
+
+/**
+ * GET /api/locations
+ * List the customer's locations with their license keys and seat usage
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const locations = await getCustomerLocations(customer.id);
+
+    return successResponse({ locations });
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch locations");
+  }
+}
+
+/**
+ * POST /api/locations
+ * Create a location with its own license key
+ *
+ * Body: { name, address?, maxTerminals }
+ * The location's terminal seats are taken from the subscription's main key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { name, address, maxTerminals } = await request.json();
+
+    const location = await createLocation(customer.id, {
+      name,
+      address,
+      maxTerminals,
+    });
+
+    console.log(
+      `[Locations] Location ${location.id} created by user ${session.user.id}`
+    );
+
+    return successResponse(
+      {
+        success: true,
+        message: `Location "${location.name}" created`,
+        location,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to create location");
+  }
+}
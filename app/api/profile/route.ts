@@ -4,7 +4,13 @@ import { customers } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
-import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import {
+  handleApiError,
+  successResponse,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { validateTaxId } from "@/lib/stripe/tax-id-utils";
+import { syncCustomerTaxDetails } from "@/lib/stripe/tax";
 
 export async function GET() {
   try {
@@ -32,6 +38,7 @@ export async function GET() {
         zipCode: billingAddress?.zipCode || "",
         country: billingAddress?.country || "",
         taxId: customer.taxId || "",
+        taxIdType: customer.taxIdType || null,
       },
     });
   } catch (error) {
@@ -66,19 +73,38 @@ export async function PUT(request: NextRequest) {
       phone: phone || "",
     };
 
+    // Tax IDs must match the billing country's format; store Stripe's format
+    let taxIdValue: string | null = null;
+    let taxIdType: string | null = null;
+    if (typeof taxId === "string" && taxId.trim()) {
+      const result = validateTaxId(taxId, billingAddress.country);
+      if (!result.valid) {
+        throw new ValidationError(result.error);
+      }
+      taxIdValue = result.value;
+      taxIdType = result.type;
+    }
+
+    const changes = {
+      companyName: companyName || null,
+      billingAddress: billingAddress,
+      taxId: taxIdValue,
+      taxIdType,
+    };
+
+    // Push to Stripe first so a tax ID Stripe rejects isn't saved
+    await syncCustomerTaxDetails({ ...customer, ...changes });
+
     // Update customer
     await db
       .update(customers)
-      .set({
-        companyName: companyName || null,
-        billingAddress: billingAddress,
-        taxId: taxId || null,
-      })
+      .set({ ...changes, updatedAt: new Date() })
       .where(eq(customers.id, customer.id));
 
     return successResponse({
       success: true,
       message: "Profile updated successfully",
+      taxId: taxIdValue,
     });
   } catch (error) {
     return handleApiError(error, "Failed to update profile");
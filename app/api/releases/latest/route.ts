@@ -1,5 +1,16 @@
-import { NextResponse } from "next/server";
-import { fetchLatestRelease } from "@/lib/github/releases";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  fetchReleases,
+  selectInstallableRelease,
+  RELEASE_CHANNELS,
+  type ReleaseChannel,
+} from "@/lib/github/releases";
+import { validateLicense } from "@/lib/license/validator";
+import {
+  applyRateLimit,
+  addRateLimitHeaders,
+  type RateLimitResult,
+} from "@/lib/rate-limit";
 
 // Enable caching for 5 minutes (300 seconds)
 export const revalidate = 300;
@@ -7,13 +18,77 @@ export const revalidate = 300;
 /**
  * GET /api/releases/latest
  * Fetches the latest release information from GitHub
+ *
+ * Query: channel? ("stable" | "beta"), licenseKey?, machineIdHash?
+ *
+ * Without a license key this is the public download feed. With one it is the
+ * desktop auto-updater feed: the license must be valid, and releases published
+ * after its update eligibility date (updatesUntil) are skipped. The response
+ * adds newerVersionAvailable so the app can prompt the customer to renew.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const owner = process.env.GITHUB_REPO_OWNER || "AurSwift";
     const repo = process.env.GITHUB_REPO_NAME || "AurSwift";
 
-    const releaseInfo = await fetchLatestRelease(owner, repo);
+    const { searchParams } = request.nextUrl;
+    const channel = (searchParams.get("channel") || "stable") as ReleaseChannel;
+    const licenseKey = searchParams.get("licenseKey");
+    const machineIdHash = searchParams.get("machineIdHash") || undefined;
+
+    if (!RELEASE_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        {
+          error: "Invalid channel",
+          message: `Channel must be one of: ${RELEASE_CHANNELS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let updatesUntil: Date | null = null;
+    let rateLimitResult: RateLimitResult | null = null;
+
+    if (licenseKey) {
+      const rateLimit = applyRateLimit("updates", licenseKey);
+      if (rateLimit.blocked) {
+        return rateLimit.response;
+      }
+      rateLimitResult = rateLimit.result;
+
+      const validation = await validateLicense(licenseKey, machineIdHash);
+      if (!validation.success || !validation.data) {
+        return NextResponse.json(
+          {
+            error: "License is not valid for updates",
+            message: validation.message,
+          },
+          { status: 403 }
+        );
+      }
+
+      updatesUntil = validation.data.updatesUntil
+        ? new Date(validation.data.updatesUntil)
+        : null;
+    }
+
+    const releases = await fetchReleases(owner, repo, channel);
+    const { release: releaseInfo, newerVersionAvailable } =
+      selectInstallableRelease(releases, updatesUntil);
+
+    if (!releaseInfo) {
+      return NextResponse.json(
+        {
+          error: "No eligible release",
+          message: updatesUntil
+            ? `Update eligibility for this license ended on ${updatesUntil.toLocaleDateString("en-US")}. Renew updates to install newer versions.`
+            : "No releases are currently available for this software.",
+          newerVersionAvailable,
+          updatesUntil: updatesUntil?.toISOString() || null,
+        },
+        { status: 404 }
+      );
+    }
 
     // Check if we have any downloads
     if (releaseInfo.downloads.length === 0) {
@@ -26,11 +101,26 @@ export async function GET() {
       );
     }
 
-    return NextResponse.json(releaseInfo, {
-      headers: {
-        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+    const response = NextResponse.json(
+      {
+        ...releaseInfo,
+        newerVersionAvailable,
+        updatesUntil: updatesUntil?.toISOString() || null,
       },
-    });
+      {
+        headers: {
+          // License-gated responses differ per license and must not be shared
+          "Cache-Control": licenseKey
+            ? "private, no-store"
+            : "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+
+    if (rateLimitResult) {
+      addRateLimitHeaders(response.headers, "updates", rateLimitResult);
+    }
+    return response;
   } catch (error) {
     console.error("Error fetching latest release:", error);
 
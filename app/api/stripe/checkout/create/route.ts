@@ -2,20 +2,33 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { stripe } from "@/lib/stripe/client";
-import { getStripePriceId } from "@/lib/stripe/plans";
+import { getStripePriceId, resolveCurrency } from "@/lib/stripe/plans";
 import { db } from "@/lib/db";
 import { customers, users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import type { PlanId, BillingCycle } from "@/lib/stripe/plans";
+import { findValidPromotionCode } from "@/lib/stripe/promotion-codes";
+import { ValidationError } from "@/lib/api/response-helpers";
+import {
+  isAutomaticTaxEnabled,
+  syncCustomerTaxDetails,
+} from "@/lib/stripe/tax";
+import {
+  getUsagePriceId,
+  isUsageBillingEnabled,
+} from "@/lib/stripe/usage-billing";
 
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    const { planId, billingCycle, email } = (await request.json()) as {
-      planId: PlanId;
-      billingCycle: BillingCycle;
-      email?: string;
-    };
+    const { planId, billingCycle, email, promotionCode, currency: requestedCurrency } =
+      (await request.json()) as {
+        planId: PlanId;
+        billingCycle: BillingCycle;
+        email?: string;
+        promotionCode?: string;
+        currency?: string;
+      };
 
     if (!planId || !billingCycle) {
       return NextResponse.json(
@@ -104,14 +117,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Billing currency: the /pricing selector wins, then the billing country
+    // Validate the promotion code before sending the customer to Stripe
+    let currency;
+    let promotion = null;
+    try {
+      const billingAddress = customer.billingAddress as {
+        country?: string;
+      } | null;
+      currency = await resolveCurrency({
+        requested: requestedCurrency,
+        country: billingAddress?.country,
+      });
+
+      if (promotionCode) {
+        promotion = await findValidPromotionCode(promotionCode, currency);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     // Get Stripe price ID
-    const priceId = await getStripePriceId(planId, billingCycle);
+    const priceId = await getStripePriceId(planId, billingCycle, currency);
 
     // Create or get Stripe customer
     let stripeCustomerId: string;
 
     if (customer.stripeCustomerId) {
       stripeCustomerId = customer.stripeCustomerId;
+
+      // Stripe locks a customer to the currency of their first subscription
+      const stripeCustomer = await stripe.customers.retrieve(stripeCustomerId);
+      if (
+        !stripeCustomer.deleted &&
+        stripeCustomer.currency &&
+        stripeCustomer.currency !== currency
+      ) {
+        return NextResponse.json(
+          {
+            error: `Your account is billed in ${stripeCustomer.currency.toUpperCase()}. Please choose ${stripeCustomer.currency.toUpperCase()} pricing.`,
+          },
+          { status: 400 }
+        );
+      }
     } else {
       const stripeCustomer = await stripe.customers.create({
         email: customer.email,
@@ -130,9 +181,24 @@ export async function POST(request: NextRequest) {
         .where(eq(customers.id, customer.id));
     }
 
+    // Stripe Tax works from the profile's billing address and tax ID
+    try {
+      await syncCustomerTaxDetails({ ...customer, stripeCustomerId });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
     // Calculate trial period (7 days for monthly, 14 days for annual)
     const trialPeriodDays = billingCycle === "annual" ? 14 : 7;
 
+    // Usage-billed plans also carry the metered transaction price
+    const usagePriceId = isUsageBillingEnabled(planId, billingCycle, currency)
+      ? getUsagePriceId(billingCycle, currency)
+      : null;
+
     // Create Checkout Session
     const checkoutSession = await stripe.checkout.sessions.create({
       customer: stripeCustomerId,
@@ -143,14 +209,19 @@ export async function POST(request: NextRequest) {
           price: priceId,
           quantity: 1,
         },
+        ...(usagePriceId ? [{ price: usagePriceId }] : []),
       ],
       success_url: `${process.env.NEXTAUTH_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.NEXTAUTH_URL}/signup?canceled=true&plan=${planId}`,
+      cancel_url: `${process.env.NEXTAUTH_URL}/signup?canceled=true&plan=${planId}&currency=${currency}${
+        promotion ? `&promo=${encodeURIComponent(promotion.code)}` : ""
+      }`,
       metadata: {
         customerId: customer.id,
         userId: userId,
         planId,
         billingCycle,
+        currency,
+        ...(promotion ? { promotionCode: promotion.code } : {}),
       },
       subscription_data: {
         metadata: {
@@ -158,11 +229,21 @@ export async function POST(request: NextRequest) {
           userId: userId,
           planId,
           billingCycle,
+          currency,
         },
         trial_period_days: trialPeriodDays,
       },
-      allow_promotion_codes: true, // Allow discount codes
+      // Stripe accepts either a pre-applied code or the code entry box
+      ...(promotion
+        ? { discounts: [{ promotion_code: promotion.stripePromotionCodeId }] }
+        : { allow_promotion_codes: true }),
       billing_address_collection: "required", // Require billing address
+      ...(isAutomaticTaxEnabled()
+        ? {
+            automatic_tax: { enabled: true }, // VAT/GST via Stripe Tax
+            customer_update: { address: "auto" }, // Tax uses the address entered here
+          }
+        : {}),
     });
 
     return NextResponse.json({
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe/client";
 import { db } from "@/lib/db";
 import { subscriptions, licenseKeys, customers } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, and, desc, isNull } from "drizzle-orm";
 import { getPlan } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
+import {
+  findPlanItem,
+  getAdditionalTerminalCount,
+  calculateMaxTerminals,
+} from "@/lib/stripe/terminal-seats";
 import { generateLicenseKey } from "@/lib/license/generator";
 import type Stripe from "stripe";
 import { requireAuth } from "@/lib/api/auth-helpers";
@@ -133,10 +139,24 @@ export async function POST(request: NextRequest) {
     const billingCycle = (checkoutSession.metadata?.billingCycle ||
       "monthly") as any;
 
-    const plan = await getPlan(planId);
+    const currency =
+      normalizeCurrency(stripeSubscription.currency) || DEFAULT_CURRENCY;
+    const plan = await getPlan(planId, currency);
     const price =
       billingCycle === "monthly" ? plan.priceMonthly : plan.priceAnnual;
 
+    // Terminal limit = plan terminals + any seat add-ons bought at checkout
+    const additionalTerminals = getAdditionalTerminalCount(
+      stripeSubscription.items.data
+    );
+    const maxTerminals = calculateMaxTerminals(
+      plan.features.maxTerminals,
+      additionalTerminals
+    );
+    const planItem =
+      findPlanItem(stripeSubscription.items.data) ||
+      stripeSubscription.items.data[0];
+
     // Log subscription data for debugging
     console.log("Stripe subscription data:", {
       current_period_start: currentPeriodStart,
@@ -171,6 +191,7 @@ export async function POST(request: NextRequest) {
         planType: planId,
         billingCycle,
         price: price.toString(),
+        currency,
         status: isTrialing ? "trialing" : "active",
         currentPeriodStart: new Date(
           validateTimestamp(periodStart, "current_period_start") * 1000
@@ -187,8 +208,9 @@ export async function POST(request: NextRequest) {
         autoRenew: !stripeSubscription.cancel_at_period_end,
         stripeSubscriptionId: stripeSubscription.id,
         stripeCustomerId: stripeSubscription.customer as string,
+        additionalTerminals,
         metadata: {
-          stripePriceId: stripeSubscription.items.data[0].price.id,
+          stripePriceId: planItem.price.id,
         },
       })
       .returning();
@@ -199,11 +221,16 @@ export async function POST(request: NextRequest) {
       professional: "PRO",
     };
 
-    // Check for existing license key
+    // Check for existing license key (location keys are managed separately)
     const [existingLicense] = await db
       .select()
       .from(licenseKeys)
-      .where(eq(licenseKeys.customerId, customer.id))
+      .where(
+        and(
+          eq(licenseKeys.customerId, customer.id),
+          isNull(licenseKeys.locationId)
+        )
+      )
       .orderBy(desc(licenseKeys.createdAt))
       .limit(1);
 
@@ -223,7 +250,7 @@ export async function POST(request: NextRequest) {
         .update(licenseKeys)
         .set({
           subscriptionId: newSubscription.id,
-          maxTerminals: plan.features.maxTerminals,
+          maxTerminals,
           isActive: true,
         })
         .where(eq(licenseKeys.id, existingLicense.id));
@@ -262,7 +289,7 @@ export async function POST(request: NextRequest) {
         customerId: customer.id,
         subscriptionId: newSubscription.id,
         licenseKey: licenseKeyValue,
-        maxTerminals: plan.features.maxTerminals,
+        maxTerminals,
         activationCount: 0,
         version: "2.0",
         issuedAt: new Date(),
@@ -8,6 +8,7 @@ import { paymentMethods, invoices, subscriptions, payments } from "@/lib/db/sche
 import { eq, and } from "drizzle-orm";
 import Stripe from "stripe";
 import { createPaymentFromInvoice } from "@/lib/db/payment-helpers";
+import { getInvoiceTaxAmount, syncInvoiceLineItems } from "@/lib/stripe/tax";
 
 /**
  * POST /api/stripe/sync
@@ -115,7 +116,7 @@ export async function POST(request: NextRequest) {
         subscriptionId = sub?.id || null;
       }
 
-      await db
+      const [invoiceRecord] = await db
         .insert(invoices)
         .values({
           customerId: customer.id,
@@ -129,7 +130,7 @@ export async function POST(request: NextRequest) {
           number: invoiceAny.number || null,
           status: invoiceAny.status || "open",
           subtotal: invoiceAny.subtotal || 0,
-          tax: invoiceAny.tax || 0,
+          tax: getInvoiceTaxAmount(invoice),
           total: invoiceAny.total || 0,
           amountDue: invoiceAny.amount_due || 0,
           amountPaid: invoiceAny.amount_paid || 0,
@@ -160,6 +161,7 @@ export async function POST(request: NextRequest) {
           target: invoices.stripeInvoiceId,
           set: {
             status: invoiceAny.status || "open",
+            tax: getInvoiceTaxAmount(invoice),
             amountPaid: invoiceAny.amount_paid || 0,
             amountRemaining: invoiceAny.amount_remaining || 0,
             paidAt:
@@ -168,7 +170,10 @@ export async function POST(request: NextRequest) {
                 : null,
             updatedAt: new Date(),
           },
-        });
+        })
+        .returning({ id: invoices.id });
+
+      await syncInvoiceLineItems(invoiceRecord.id, invoice);
 
       syncedInvoices++;
 
@@ -23,11 +23,15 @@ import {
   handleInvoiceCreatedOrUpdated,
   handleInvoicePaid,
   handleInvoicePaymentFailed,
+  handleCreditNoteCreatedOrUpdated,
+  handleChargeRefunded,
   type CheckoutSessionData,
   type StripeSubscriptionData,
   type StripeInvoiceData,
   type StripeCustomerData,
   type StripePaymentMethodData,
+  type StripeCreditNoteData,
+  type StripeChargeData,
 } from "@/lib/stripe/webhook-handlers";
 
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
@@ -157,6 +161,21 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case "credit_note.created":
+      case "credit_note.updated":
+      case "credit_note.voided": {
+        const creditNote = event.data
+          .object as unknown as StripeCreditNoteData;
+        await handleCreditNoteCreatedOrUpdated(creditNote);
+        break;
+      }
+
+      case "charge.refunded": {
+        const charge = event.data.object as unknown as StripeChargeData;
+        await handleChargeRefunded(charge);
+        break;
+      }
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
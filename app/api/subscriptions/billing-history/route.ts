@@ -1,7 +1,12 @@
 import { NextRequest } from "next/server";
 import { db } from "@/lib/db";
-import { invoices, subscriptions } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import {
+  creditNotes,
+  invoiceLineItems,
+  invoices,
+  subscriptions,
+} from "@/lib/db/schema";
+import { and, eq, desc, inArray } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
 import { successResponse, handleApiError } from "@/lib/api/response-helpers";
@@ -20,6 +25,9 @@ export async function GET(_request: NextRequest) {
         stripeInvoiceId: invoices.stripeInvoiceId,
         number: invoices.number,
         total: invoices.total,
+        tax: invoices.tax,
+        discount: invoices.discount,
+        promotionCode: invoices.promotionCode,
         currency: invoices.currency,
         status: invoices.status,
         hostedInvoiceUrl: invoices.hostedInvoiceUrl,
@@ -39,6 +47,31 @@ export async function GET(_request: NextRequest) {
       .where(eq(invoices.customerId, customer.id))
       .orderBy(desc(invoices.createdAt));
 
+    // Invoices where the customer accounts for VAT (EU B2B reverse charge)
+    const invoiceIds = billingHistory.map((item) => item.id);
+    const reverseChargeLines =
+      invoiceIds.length > 0
+        ? await db
+            .selectDistinct({ invoiceId: invoiceLineItems.invoiceId })
+            .from(invoiceLineItems)
+            .where(
+              and(
+                inArray(invoiceLineItems.invoiceId, invoiceIds),
+                eq(invoiceLineItems.taxabilityReason, "reverse_charge")
+              )
+            )
+        : [];
+    const reverseChargeInvoiceIds = new Set(
+      reverseChargeLines.map((line) => line.invoiceId)
+    );
+
+    // Credit notes (refunds) issued against each invoice
+    const customerCreditNotes = await db
+      .select()
+      .from(creditNotes)
+      .where(eq(creditNotes.customerId, customer.id))
+      .orderBy(desc(creditNotes.issuedAt));
+
     return successResponse({
       billingHistory: billingHistory.map((item) => ({
         id: item.id,
@@ -46,7 +79,13 @@ export async function GET(_request: NextRequest) {
         invoiceId: item.number || item.stripeInvoiceId,
         date: item.createdAt,
         // Convert from cents to decimal currency unit
+        // amount is gross (including tax); net + tax = amount
         amount: item.total ? item.total / 100 : 0,
+        net: ((item.total || 0) - (item.tax || 0)) / 100,
+        tax: item.tax ? item.tax / 100 : 0,
+        reverseCharge: reverseChargeInvoiceIds.has(item.id),
+        discount: item.discount ? item.discount / 100 : 0,
+        promotionCode: item.promotionCode,
         currency: item.currency,
         status: item.status.charAt(0).toUpperCase() + item.status.slice(1),
         plan: item.subscription?.planId
@@ -65,7 +104,18 @@ export async function GET(_request: NextRequest) {
               })}`
             : null,
         invoiceUrl: item.hostedInvoiceUrl || item.invoicePdf,
+        pdfUrl: `/api/invoices/${item.id}/pdf`,
         paidAt: item.paidAt,
+        creditNotes: customerCreditNotes
+          .filter((note) => note.invoiceId === item.id)
+          .map((note) => ({
+            id: note.id,
+            number: note.number,
+            total: note.total / 100,
+            status: note.status,
+            issuedAt: note.issuedAt,
+            pdfUrl: `/api/invoices/credit-notes/${note.id}/pdf`,
+          })),
       })),
     });
   } catch (error) {
@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { subscriptions } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { cancelScheduledPlanChange } from "@/lib/subscription/plan-changes";
+
+/**
+ * POST /api/subscriptions/cancel-scheduled-change
+ * Cancel a plan change scheduled for the end of the billing period
+ *
+ * Body: { subscriptionId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const { subscriptionId } = await request.json();
+
+    if (!subscriptionId) {
+      throw new ValidationError("Subscription ID is required");
+    }
+
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.customerId, customer.id)
+        )
+      )
+      .limit(1);
+
+    if (!subscription) {
+      throw new ValidationError("Subscription not found");
+    }
+
+    const cancelled = await cancelScheduledPlanChange(subscription, {
+      cancelledBy: session.user.id,
+    });
+
+    return successResponse({
+      success: true,
+      message: "Scheduled plan change cancelled",
+      scheduledChange: cancelled,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to cancel scheduled plan change");
+  }
+}
@@ -25,6 +25,10 @@ import {
   calculateTrialCancellationGracePeriod,
   calculatePaidCancellationGracePeriod,
 } from "@/lib/subscription/grace-period-helpers";
+import {
+  cancelScheduledPlanChange,
+  getPendingPlanChange,
+} from "@/lib/subscription/plan-changes";
 
 /**
  * POST /api/subscriptions/cancel
@@ -77,6 +81,14 @@ export async function POST(request: NextRequest) {
       subscription.trialEnd &&
       subscription.trialEnd > now;
 
+    // A cancelled subscription doesn't renew into a new plan; this also
+    // releases the Stripe schedule, which would otherwise block the update
+    if (await getPendingPlanChange(subscription.id)) {
+      await cancelScheduledPlanChange(subscription, {
+        cancelledBy: session.user.id,
+      });
+    }
+
     // Implement proper cancellation based on user's choice
     if (cancelImmediately) {
       // IMMEDIATE CANCELLATION - Cancel NOW in Stripe (for both trial and paid)
@@ -2,19 +2,15 @@ import { NextRequest } from "next/server";
 import { stripe } from "@/lib/stripe/client";
 import type Stripe from "stripe";
 import { db } from "@/lib/db";
-import {
-  subscriptions,
-  licenseKeys,
-  subscriptionChanges,
-  activations,
-} from "@/lib/db/schema";
-import { eq, and, or, inArray } from "drizzle-orm";
+import { subscriptions, subscriptionChanges } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
 import {
   getStripePriceId,
   getPlan,
   type PlanId,
   type BillingCycle,
 } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
 import { createProrationPayment } from "@/lib/db/payment-helpers";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
@@ -27,24 +23,53 @@ import {
   isValidPlanId,
   isUpgrade as checkIsUpgrade,
 } from "@/lib/stripe/plan-utils";
-import { generateLicenseKey } from "@/lib/license/generator";
-import { getPlanFeatures } from "@/lib/license/validator";
 import {
-  publishLicenseRevoked,
-  publishPlanChanged,
-  getLicenseKeysForSubscription,
-} from "@/lib/subscription-events";
-
+  findPlanItem,
+  findTerminalSeatItem,
+  getTerminalSeatPriceId,
+  calculateMaxTerminals,
+} from "@/lib/stripe/terminal-seats";
+import {
+  findUsageItem,
+  getUsagePriceId,
+  isUsageBillingEnabled,
+} from "@/lib/stripe/usage-billing";
+import {
+  findValidPromotionCode,
+  toAppliedDiscount,
+} from "@/lib/stripe/promotion-codes";
+import { getLicenseKeysForSubscription } from "@/lib/subscription-events";
+import {
+  assertNoPendingPlanChange,
+  notifyPlanChanged,
+  reissuePlanLicenseKeys,
+  schedulePlanChange,
+} from "@/lib/subscription/plan-changes";
+
+/**
+ * POST /api/subscriptions/change-plan
+ * Change plan and/or billing cycle, immediately (prorated, license keys
+ * reissued now) or at the end of the billing period via a Stripe schedule
+ *
+ * Body: { subscriptionId, newPlanId, newBillingCycle?, promotionCode?, atPeriodEnd? }
+ */
 export async function POST(request: NextRequest) {
   try {
     const session = await requireAuth();
 
-    const { subscriptionId, newPlanId, newBillingCycle } =
-      (await request.json()) as {
-        subscriptionId: string;
-        newPlanId: PlanId;
-        newBillingCycle?: BillingCycle;
-      };
+    const {
+      subscriptionId,
+      newPlanId,
+      newBillingCycle,
+      promotionCode,
+      atPeriodEnd,
+    } = (await request.json()) as {
+      subscriptionId: string;
+      newPlanId: PlanId;
+      newBillingCycle?: BillingCycle;
+      promotionCode?: string;
+      atPeriodEnd?: boolean;
+    };
 
     if (!subscriptionId || !newPlanId) {
       throw new ValidationError("Subscription ID and new plan ID are required");
@@ -83,32 +108,136 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Trial changes are free, so there's no renewal to wait for
+    if (atPeriodEnd && isInTrial) {
+      throw new ValidationError(
+        "Plan changes during the trial take effect immediately"
+      );
+    }
+
     // Determine billing cycle (use existing if not provided)
     const billingCycle =
       newBillingCycle || (currentSub.billingCycle as BillingCycle);
 
+    // Plan changes stay in the currency the subscription is billed in
+    const billingCurrency =
+      normalizeCurrency(currentSub.currency) || DEFAULT_CURRENCY;
+
+    const promotion = promotionCode
+      ? await findValidPromotionCode(promotionCode, billingCurrency)
+      : null;
+
     // Get new plan details
-    const newPlan = await getPlan(newPlanId);
+    const newPlan = await getPlan(newPlanId, billingCurrency);
     const newPrice =
       billingCycle === "monthly" ? newPlan.priceMonthly : newPlan.priceAnnual;
-    const newPriceId = await getStripePriceId(newPlanId, billingCycle);
+    const newPriceId = await getStripePriceId(
+      newPlanId,
+      billingCycle,
+      billingCurrency
+    );
 
     // Get current Stripe subscription
     const stripeSubscription = await stripe.subscriptions.retrieve(
       currentSub.stripeSubscriptionId
     );
 
+    const planItem =
+      findPlanItem(stripeSubscription.items.data) ||
+      stripeSubscription.items.data[0];
+    const items: Stripe.SubscriptionUpdateParams.Item[] = [
+      {
+        id: planItem.id,
+        price: newPriceId,
+      },
+    ];
+
+    // Seat add-ons carry over; switch them to the new cycle's seat price
+    const seatItem = findTerminalSeatItem(stripeSubscription.items.data);
+    let seatPriceId = seatItem?.price.id;
+    if (seatItem && billingCycle !== currentSub.billingCycle) {
+      seatPriceId =
+        getTerminalSeatPriceId(billingCycle, billingCurrency) || undefined;
+      if (!seatPriceId) {
+        throw new ValidationError(
+          `Terminal add-ons are not available on ${billingCycle} billing`
+        );
+      }
+      items.push({
+        id: seatItem.id,
+        price: seatPriceId,
+        quantity: seatItem.quantity,
+      });
+    }
+
+    // Transaction usage follows the plan: added on usage-billed plans,
+    // removed when leaving them, and moved to the new cycle's price
+    const usageItem = findUsageItem(stripeSubscription.items.data);
+    const usagePriceId = isUsageBillingEnabled(
+      newPlanId,
+      billingCycle,
+      billingCurrency
+    )
+      ? getUsagePriceId(billingCycle, billingCurrency)
+      : null;
+    if (usageItem && !usagePriceId) {
+      items.push({ id: usageItem.id, deleted: true });
+    } else if (usagePriceId && usageItem?.price.id !== usagePriceId) {
+      items.push(
+        usageItem
+          ? { id: usageItem.id, price: usagePriceId }
+          : { price: usagePriceId }
+      );
+    }
+
+    // Change at renewal: Stripe switches the items when the period ends and
+    // the subscription.updated webhook applies it (see plan-changes.ts)
+    if (atPeriodEnd) {
+      const scheduledItems: Stripe.SubscriptionScheduleUpdateParams.Phase.Item[] =
+        [{ price: newPriceId, quantity: planItem.quantity || 1 }];
+      if (seatItem && seatPriceId) {
+        scheduledItems.push({ price: seatPriceId, quantity: seatItem.quantity });
+      }
+      if (usagePriceId) {
+        scheduledItems.push({ price: usagePriceId });
+      }
+
+      const scheduledChange = await schedulePlanChange(currentSub, {
+        newPlanId,
+        billingCycle,
+        newPrice,
+        newPriceId,
+        items: scheduledItems,
+        promotion,
+        changedBy: session.user.id,
+      });
+
+      return successResponse({
+        success: true,
+        message: `Your plan will change to ${newPlan.name} (${billingCycle}) on ${scheduledChange.effectiveDate.toLocaleDateString(
+          "en-US",
+          { month: "short", day: "numeric", year: "numeric" }
+        )}. You'll get a new license key then.`,
+        scheduledChange,
+        requiresReactivation: false,
+      });
+    }
+
+    await assertNoPendingPlanChange(subscriptionId, "changing plans again");
+
     // Update subscription in Stripe
     const updatedSubscription = await stripe.subscriptions.update(
       currentSub.stripeSubscriptionId,
       {
-        items: [
-          {
-            id: stripeSubscription.items.data[0].id,
-            price: newPriceId,
-          },
-        ],
+        items,
         proration_behavior: "create_prorations", // Prorate the change
+        ...(promotion
+          ? {
+              discounts: [
+                { promotion_code: promotion.stripePromotionCodeId },
+              ],
+            }
+          : {}),
         metadata: {
           ...stripeSubscription.metadata,
           planId: newPlanId,
@@ -119,7 +248,7 @@ export async function POST(request: NextRequest) {
 
     // Retrieve actual proration details from upcoming invoice
     let prorationAmount = 0;
-    let currency = "USD";
+    let currency = billingCurrency.toUpperCase();
     let stripePaymentId: string | null = null;
     let invoiceUrl: string | null = null;
 
@@ -171,8 +300,7 @@ export async function POST(request: NextRequest) {
     );
 
     // Update database in a transaction
-    let newLicenseKey: string | null = null;
-    await db.transaction(async (tx) => {
+    const reissued = await db.transaction(async (tx) => {
       // Update subscription and increment trial plan changes if in trial
       const updateData: any = {
         planId: newPlanId,
@@ -182,6 +310,7 @@ export async function POST(request: NextRequest) {
         metadata: {
           ...(currentSub.metadata || {}),
           stripePriceId: newPriceId,
+          ...(promotion ? { discount: toAppliedDiscount(promotion) } : {}),
         },
       };
 
@@ -213,78 +342,20 @@ export async function POST(request: NextRequest) {
           changedBy: session.user.id,
           stripeSubscriptionId: currentSub.stripeSubscriptionId,
           oldLicenseKeys: oldLicenseKeysList,
+          ...(promotion ? { promotionCode: promotion.code } : {}),
         },
       });
 
-      // ⚠️ CRITICAL: Revoke all old license keys and generate new one
+      // ⚠️ CRITICAL: Revoke all old license keys and generate new ones
       // During trial: Auto-migrate activations for seamless UX
       // After trial: Force reactivation (old behavior)
-      
-      // Get existing activations before revoking licenses
-      // First get license keys for this subscription, then get their activations
-      let existingActivations: typeof activations.$inferSelect[] = [];
-      if (isInTrial) {
-        // Get all license keys for this subscription
-        const subscriptionLicenseKeys = await tx
-          .select({ licenseKey: licenseKeys.licenseKey })
-          .from(licenseKeys)
-          .where(eq(licenseKeys.subscriptionId, subscriptionId));
-        
-        if (subscriptionLicenseKeys.length > 0) {
-          // Get activations for all these license keys
-          const licenseKeyValues = subscriptionLicenseKeys.map(k => k.licenseKey);
-          existingActivations = await tx
-            .select()
-            .from(activations)
-            .where(
-              licenseKeyValues.length === 1
-                ? eq(activations.licenseKey, licenseKeyValues[0])
-                : inArray(activations.licenseKey, licenseKeyValues)
-            );
-        }
-      }
-
-      await tx
-        .update(licenseKeys)
-        .set({
-          isActive: false,
-          revokedAt: new Date(),
-          revocationReason: isInTrial
-            ? `Plan changed from ${currentSub.planId} to ${newPlanId} - activations auto-migrated`
-            : `Plan changed from ${currentSub.planId} to ${newPlanId} - new license key required`,
-        })
-        .where(eq(licenseKeys.subscriptionId, subscriptionId));
-
-      // Generate new license key for the new plan
-      newLicenseKey = generateLicenseKey(newPlanId, customer.id);
-
-      // Create new license key
-      const [insertedLicense] = await tx.insert(licenseKeys).values({
-        customerId: customer.id,
-        subscriptionId,
-        licenseKey: newLicenseKey,
-        maxTerminals: newPlan.features.maxTerminals,
-        activationCount: existingActivations.length,
-        isActive: true,
-        issuedAt: new Date(),
-        expiresAt: null, // Subscription-based, no expiry
-      }).returning();
-
-      // Auto-migrate activations during trial period
-      if (isInTrial && existingActivations.length > 0) {
-        console.log(`[Trial Migration] Auto-migrating ${existingActivations.length} activation(s) to new license`);
-        
-        // Update all activations to point to the new license key
-        for (const activation of existingActivations) {
-          await tx
-            .update(activations)
-            .set({
-              licenseKey: newLicenseKey, // Update to new license key string
-              updatedAt: new Date(),
-            })
-            .where(eq(activations.id, activation.id));
-        }
-      }
+      const keys = await reissuePlanLicenseKeys(tx, currentSub, newPlanId, {
+        maxTerminals: calculateMaxTerminals(
+          newPlan.features.maxTerminals,
+          currentSub.additionalTerminals
+        ),
+        migrateActivations: !!isInTrial,
+      });
 
       // Create proration payment record (if applicable and positive)
       // Uses transaction for atomicity
@@ -299,36 +370,18 @@ export async function POST(request: NextRequest) {
         invoiceUrl,
         tx
       );
+
+      return keys;
     });
 
     // 🔔 SSE: Notify desktop apps about plan change and license revocation
-    // Send events to all old license keys
-    console.log(
-      `[Plan Change] Sending SSE events to ${oldLicenseKeysList.length} license key(s)`,
-      {
-        oldKeys: oldLicenseKeysList,
-        newLicenseKey,
-        planChange: `${currentSub.planId} → ${newPlanId}`,
-      }
+    await notifyPlanChanged(
+      currentSub,
+      newPlanId,
+      oldLicenseKeysList,
+      reissued
     );
 
-    for (const oldKey of oldLicenseKeysList) {
-      console.log(`[Plan Change] Publishing license_revoked to ${oldKey}`);
-      // First, notify about license revocation
-      publishLicenseRevoked(oldKey, {
-        reason: `Plan changed from ${currentSub.planId} to ${newPlanId}. Please reactivate with your new license key: ${newLicenseKey}`,
-      });
-
-      console.log(`[Plan Change] Publishing plan_changed to ${oldKey}`);
-      // Then, send plan change event for UI updates
-      publishPlanChanged(oldKey, {
-        previousPlanId: currentSub.planId || "basic",
-        newPlanId,
-        newFeatures: getPlanFeatures(newPlanId),
-        effectiveAt: new Date(),
-      });
-    }
-
     console.log("[Plan Change] SSE events published successfully");
 
     return successResponse({
@@ -343,8 +396,9 @@ export async function POST(request: NextRequest) {
         billingCycle,
         price: newPrice,
         prorationAmount,
+        promotionCode: promotion?.code || null,
       },
-      newLicenseKey,
+      newLicenseKey: reissued.newLicenseKey,
       requiresReactivation: true,
     });
   } catch (error) {
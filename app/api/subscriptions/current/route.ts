@@ -4,13 +4,17 @@ import { eq, and, or, desc } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
 import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { isTerminalSeatsEnabled } from "@/lib/stripe/terminal-seats";
+import type { BillingCycle } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
+import { getPendingPlanChange } from "@/lib/subscription/plan-changes";
 
 export async function GET() {
   try {
     const session = await requireAuth();
     const customer = await getCustomerOrThrow(session.user.id);
 
-    // Get active subscription with license keys
+    // Get active (or paused) subscription with license keys
     const result = await db
       .select({
         subscription: subscriptions,
@@ -29,7 +33,8 @@ export async function GET() {
           eq(subscriptions.customerId, customer.id),
           or(
             eq(subscriptions.status, "active"),
-            eq(subscriptions.status, "trialing")
+            eq(subscriptions.status, "trialing"),
+            eq(subscriptions.status, "paused")
           )
         )
       )
@@ -50,6 +55,11 @@ export async function GET() {
       subscription: {
         ...subscription,
         licenseKeys: licenseKeysArray,
+        terminalSeatsEnabled: isTerminalSeatsEnabled(
+          subscription.billingCycle as BillingCycle,
+          normalizeCurrency(subscription.currency) || DEFAULT_CURRENCY
+        ),
+        pendingPlanChange: await getPendingPlanChange(subscription.id),
       },
     });
   } catch (error) {
@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { subscriptions } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { pauseSubscription } from "@/lib/subscription/pause";
+
+/**
+ * POST /api/subscriptions/pause
+ * Pause billing until a chosen date (up to 3 months); terminals go read-only
+ *
+ * Body: { subscriptionId, resumesAt, reason? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const { subscriptionId, resumesAt, reason } = await request.json();
+
+    if (!subscriptionId || !resumesAt) {
+      throw new ValidationError("Subscription ID and resume date are required");
+    }
+
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.customerId, customer.id)
+        )
+      )
+      .limit(1);
+
+    if (!subscription) {
+      throw new ValidationError("Subscription not found");
+    }
+
+    const paused = await pauseSubscription(subscription, new Date(resumesAt), {
+      pausedBy: session.user.id,
+      reason,
+    });
+
+    return successResponse({
+      success: true,
+      message: "Subscription paused successfully",
+      subscription: {
+        id: paused.id,
+        status: paused.status,
+        pausedAt: paused.pausedAt,
+        resumesAt: paused.resumesAt,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to pause subscription");
+  }
+}
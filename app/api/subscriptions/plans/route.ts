@@ -1,15 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getPlans, clearPlansCache } from "@/lib/stripe/plans";
+import {
+  getPlans,
+  clearPlansCache,
+  getAvailableCurrencies,
+  resolveCurrency,
+} from "@/lib/stripe/plans";
 import { applyRateLimit, addRateLimitHeaders, getClientIP } from "@/lib/rate-limit";
+import { getOptionalSession } from "@/lib/api/auth-helpers";
+import { getCustomerFromSession } from "@/lib/db/customer-helpers";
+import { ValidationError } from "@/lib/api/response-helpers";
 import type { Plan } from "@/lib/stripe/plans";
 
 // Client-safe Plan type (without Stripe Price IDs and Product ID)
 type ClientPlan = Omit<
   Plan,
-  "stripePriceIdMonthly" | "stripePriceIdAnnual" | "stripeProductId"
+  "stripePriceIdMonthly" | "stripePriceIdAnnual" | "stripeProductId" | "prices"
 >;
 
+/**
+ * Billing country of the signed-in customer, if any
+ */
+async function getSessionBillingCountry(): Promise<string | null> {
+  const session = await getOptionalSession();
+  if (!session?.user?.id) return null;
+
+  const customer = await getCustomerFromSession(session);
+  const billingAddress = customer?.billingAddress as
+    | { country?: string }
+    | null
+    | undefined;
+
+  return billingAddress?.country || null;
+}
+
 // Return plans fetched from Stripe (with caching)
+// ?currency=gbp prices them in a specific currency; otherwise the signed-in
+// customer's billing country picks the currency
 export async function GET(request: NextRequest) {
   // Apply rate limiting
   const clientIP = getClientIP(request);
@@ -26,22 +52,34 @@ export async function GET(request: NextRequest) {
       clearPlansCache();
     }
 
-    const plans = await getPlans();
+    const requestedCurrency = request.nextUrl.searchParams.get("currency");
+    const currency = await resolveCurrency({
+      requested: requestedCurrency,
+      country: requestedCurrency ? null : await getSessionBillingCountry(),
+    });
+
+    const plans = await getPlans(currency);
 
     // Remove sensitive Stripe IDs for client-side
     const clientPlans: Record<string, ClientPlan> = {};
     Object.entries(plans).forEach(([planId, plan]) => {
-      const {
-        stripePriceIdMonthly: _,
-        stripePriceIdAnnual: __,
-        stripeProductId: ___,
-        ...clientPlan
-      } = plan;
-      clientPlans[planId] = clientPlan;
+      clientPlans[planId] = {
+        id: plan.id,
+        name: plan.name,
+        description: plan.description,
+        currency: plan.currency,
+        priceMonthly: plan.priceMonthly,
+        priceAnnual: plan.priceAnnual,
+        annualDiscountPercent: plan.annualDiscountPercent,
+        features: plan.features,
+        popular: plan.popular,
+      };
     });
 
     const response = NextResponse.json({
       plans: clientPlans,
+      currency,
+      currencies: await getAvailableCurrencies(),
     });
 
     // Add rate limit headers
@@ -49,6 +87,10 @@ export async function GET(request: NextRequest) {
 
     return response;
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error fetching plans:", error);
     return NextResponse.json(
       {
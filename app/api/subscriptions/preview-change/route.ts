@@ -10,6 +10,7 @@ import {
   type PlanId,
   type BillingCycle,
 } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
 import {
@@ -18,31 +19,70 @@ import {
   ValidationError,
 } from "@/lib/api/response-helpers";
 import { isValidPlanId, isUpgrade as checkIsUpgrade } from "@/lib/stripe/plan-utils";
+import {
+  findValidPromotionCode,
+  calculateDiscountAmount,
+  describePromotionCode,
+} from "@/lib/stripe/promotion-codes";
+import {
+  MAX_ADDITIONAL_TERMINALS,
+  findPlanItem,
+  findTerminalSeatItem,
+  getTerminalSeatPriceId,
+  getTerminalSeatPrice,
+  calculateMaxTerminals,
+} from "@/lib/stripe/terminal-seats";
 
 /**
  * Preview the impact of a subscription plan change before committing
  * Shows proration amount, effective date, and billing details
+ *
+ * Also previews terminal seat add-on changes: pass `additionalTerminals`
+ * (optionally without `newPlanId`) to price a different seat quantity.
  */
 export async function POST(request: NextRequest) {
   try {
     const session = await requireAuth();
 
-    const { subscriptionId, newPlanId, newBillingCycle } =
-      (await request.json()) as {
-        subscriptionId: string;
-        newPlanId: PlanId;
-        newBillingCycle?: BillingCycle;
-      };
+    const {
+      subscriptionId,
+      newPlanId: requestedPlanId,
+      newBillingCycle,
+      additionalTerminals,
+      promotionCode,
+    } = (await request.json()) as {
+      subscriptionId: string;
+      newPlanId?: PlanId;
+      newBillingCycle?: BillingCycle;
+      additionalTerminals?: number;
+      promotionCode?: string;
+    };
 
-    if (!subscriptionId || !newPlanId) {
-      throw new ValidationError("Subscription ID and new plan ID are required");
+    if (
+      !subscriptionId ||
+      (!requestedPlanId && additionalTerminals === undefined)
+    ) {
+      throw new ValidationError(
+        "Subscription ID and a new plan ID or terminal count are required"
+      );
     }
 
     // Validate plan ID
-    if (!isValidPlanId(newPlanId)) {
+    if (requestedPlanId && !isValidPlanId(requestedPlanId)) {
       throw new ValidationError("Invalid plan ID");
     }
 
+    if (
+      additionalTerminals !== undefined &&
+      (!Number.isInteger(additionalTerminals) ||
+        additionalTerminals < 0 ||
+        additionalTerminals > MAX_ADDITIONAL_TERMINALS)
+    ) {
+      throw new ValidationError(
+        `Additional terminals must be between 0 and ${MAX_ADDITIONAL_TERMINALS}`
+      );
+    }
+
     const customer = await getCustomerOrThrow(session.user.id);
 
     // Get current subscription
@@ -61,31 +101,78 @@ export async function POST(request: NextRequest) {
       throw new ValidationError("Subscription not found");
     }
 
+    // Seat-only previews keep the current plan
+    const newPlanId = requestedPlanId || (currentSub.planId as PlanId);
+    if (!isValidPlanId(newPlanId)) {
+      throw new ValidationError("Invalid plan ID");
+    }
+
     // Determine billing cycle (use existing if not provided)
     const billingCycle =
       newBillingCycle || (currentSub.billingCycle as BillingCycle);
 
+    // Plan changes stay in the currency the subscription is billed in
+    const billingCurrency =
+      normalizeCurrency(currentSub.currency) || DEFAULT_CURRENCY;
+
+    const promotion = promotionCode
+      ? await findValidPromotionCode(promotionCode, billingCurrency)
+      : null;
+
     // Get new plan details
-    const newPlan = await getPlan(newPlanId);
-    const currentPlan = currentSub.planId ? await getPlan(currentSub.planId as PlanId) : null;
+    const newPlan = await getPlan(newPlanId, billingCurrency);
+    const currentPlan = currentSub.planId
+      ? await getPlan(currentSub.planId as PlanId, billingCurrency)
+      : null;
     const newPrice =
       billingCycle === "monthly" ? newPlan.priceMonthly : newPlan.priceAnnual;
-    const newPriceId = await getStripePriceId(newPlanId, billingCycle);
+    const newPriceId = await getStripePriceId(
+      newPlanId,
+      billingCycle,
+      billingCurrency
+    );
     const currentPrice = parseFloat(currentSub.price || "0");
 
+    // Terminal seat add-ons (current vs requested quantity)
+    const currentSeats = currentSub.additionalTerminals;
+    const newSeats = additionalTerminals ?? currentSeats;
+    const newSeatPriceId = getTerminalSeatPriceId(billingCycle, billingCurrency);
+    if (newSeats > 0 && !newSeatPriceId) {
+      throw new ValidationError(
+        `Terminal add-ons are not available on ${billingCycle} billing`
+      );
+    }
+    const newSeatUnitPrice =
+      newSeats > 0
+        ? await getTerminalSeatPrice(billingCycle, billingCurrency)
+        : 0;
+    const currentSeatUnitPrice =
+      currentSeats > 0
+        ? await getTerminalSeatPrice(
+            currentSub.billingCycle as BillingCycle,
+            billingCurrency
+          )
+        : 0;
+    const currentTotal = currentPrice + currentSeatUnitPrice * currentSeats;
+    const newTotal = newPrice + newSeatUnitPrice * newSeats;
+
     // Determine if this is an upgrade or downgrade
+    // (seat-only changes are an upgrade when the total goes up)
+    const planChanged = newPlanId !== currentSub.planId;
     const isUpgradeChange =
-      currentSub.planId && isValidPlanId(currentSub.planId)
+      planChanged && currentSub.planId && isValidPlanId(currentSub.planId)
         ? checkIsUpgrade(currentSub.planId as PlanId, newPlanId)
-        : newPrice > currentPrice;
+        : newTotal > currentTotal;
 
     // Preview the proration by retrieving upcoming invoice
     let prorationAmount = 0;
     let immediateCharge = 0;
     let creditApplied = 0;
-    let currency = "USD";
+    let currency = billingCurrency.toUpperCase();
     let nextInvoiceDate: Date | null = null;
     let nextInvoiceAmount = 0;
+    // Promotion code discount on the next invoice
+    let discountAmount = 0;
 
     try {
       // Get current subscription from Stripe
@@ -93,18 +180,38 @@ export async function POST(request: NextRequest) {
         currentSub.stripeSubscriptionId
       );
 
+      const planItem =
+        findPlanItem(stripeSubscription.items.data) ||
+        stripeSubscription.items.data[0];
+      const seatItem = findTerminalSeatItem(stripeSubscription.items.data);
+
+      const subscriptionItems: Array<Record<string, unknown>> = [
+        {
+          id: planItem.id,
+          price: newPriceId,
+        },
+      ];
+
+      if (seatItem) {
+        subscriptionItems.push(
+          newSeats > 0
+            ? { id: seatItem.id, price: newSeatPriceId, quantity: newSeats }
+            : { id: seatItem.id, deleted: true }
+        );
+      } else if (newSeats > 0) {
+        subscriptionItems.push({ price: newSeatPriceId, quantity: newSeats });
+      }
+
       // Preview the invoice with the subscription item change
       // Note: retrieveUpcoming exists in Stripe API but TypeScript types may not include it
       const upcomingInvoice = await (stripe.invoices as any).retrieveUpcoming({
         customer: currentSub.stripeCustomerId!,
         subscription: currentSub.stripeSubscriptionId,
-        subscription_items: [
-          {
-            id: stripeSubscription.items.data[0].id,
-            price: newPriceId,
-          },
-        ],
+        subscription_items: subscriptionItems,
         subscription_proration_behavior: "create_prorations",
+        ...(promotion
+          ? { discounts: [{ promotion_code: promotion.stripePromotionCodeId }] }
+          : {}),
       }) as Stripe.Invoice;
 
       // Calculate proration details
@@ -121,6 +228,11 @@ export async function POST(request: NextRequest) {
       currency = upcomingInvoice.currency.toUpperCase();
       nextInvoiceDate = new Date(upcomingInvoice.period_end * 1000);
       nextInvoiceAmount = upcomingInvoice.total / 100;
+      discountAmount =
+        (upcomingInvoice.total_discount_amounts || []).reduce(
+          (sum, entry) => sum + entry.amount,
+          0
+        ) / 100;
 
       // Determine immediate charge vs credit
       if (prorationAmount > 0) {
@@ -149,8 +261,8 @@ export async function POST(request: NextRequest) {
           )
         : 0;
 
-      const unusedAmount = (currentPrice / daysInPeriod) * daysRemaining;
-      const newPeriodCharge = (newPrice / daysInPeriod) * daysRemaining;
+      const unusedAmount = (currentTotal / daysInPeriod) * daysRemaining;
+      const newPeriodCharge = (newTotal / daysInPeriod) * daysRemaining;
       prorationAmount = newPeriodCharge - unusedAmount;
 
       if (prorationAmount > 0) {
@@ -159,8 +271,11 @@ export async function POST(request: NextRequest) {
         creditApplied = Math.abs(prorationAmount);
       }
 
+      discountAmount = promotion
+        ? calculateDiscountAmount(promotion, newTotal)
+        : 0;
       nextInvoiceDate = currentSub.currentPeriodEnd || null;
-      nextInvoiceAmount = newPrice;
+      nextInvoiceAmount = newTotal - discountAmount;
     }
 
     // Calculate period information
@@ -174,6 +289,7 @@ export async function POST(request: NextRequest) {
     return successResponse({
       preview: {
         changeType: isUpgradeChange ? "upgrade" : "downgrade",
+        currency,
         currentPlan: {
           id: currentSub.planId,
           name: currentPlan?.name || currentSub.planId,
@@ -185,7 +301,16 @@ export async function POST(request: NextRequest) {
           name: newPlan.name,
           price: newPrice,
           billingCycle,
-          maxTerminals: newPlan.features.maxTerminals,
+          maxTerminals: calculateMaxTerminals(
+            newPlan.features.maxTerminals,
+            newSeats
+          ),
+        },
+        terminalSeats: {
+          current: currentSeats,
+          new: newSeats,
+          unitPrice: newSeatUnitPrice,
+          includedTerminals: newPlan.features.maxTerminals,
         },
         proration: {
           amount: prorationAmount,
@@ -205,6 +330,14 @@ export async function POST(request: NextRequest) {
           amount: nextInvoiceAmount,
           currency,
         },
+        discount: promotion
+          ? {
+              code: promotion.code,
+              description: describePromotionCode(promotion),
+              amount: discountAmount,
+              currency,
+            }
+          : null,
         effectiveDate: new Date(),
         currentPeriod: {
           start: periodStart,
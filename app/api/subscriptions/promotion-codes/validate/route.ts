@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import {
+  getPlan,
+  resolveCurrency,
+  type PlanId,
+  type BillingCycle,
+} from "@/lib/stripe/plans";
+import { isValidPlanId } from "@/lib/stripe/plan-utils";
+import {
+  findValidPromotionCode,
+  calculateDiscountAmount,
+  describePromotionCode,
+} from "@/lib/stripe/promotion-codes";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  applyRateLimit,
+  addRateLimitHeaders,
+  getClientIP,
+} from "@/lib/rate-limit";
+
+/**
+ * POST /api/subscriptions/promotion-codes/validate
+ * Check a promotion code and price it against a plan (pricing page, checkout)
+ *
+ * Body: { code, planId, billingCycle, currency? }
+ * Rate limited: 20 requests per 15 minutes per IP
+ */
+export async function POST(request: NextRequest) {
+  const clientIP = getClientIP(request);
+  const rateLimit = applyRateLimit("promotionCodes", clientIP);
+
+  if (rateLimit.blocked) {
+    return rateLimit.response;
+  }
+
+  try {
+    const { code, planId, billingCycle, currency: requestedCurrency } =
+      (await request.json()) as {
+        code?: string;
+        planId?: PlanId;
+        billingCycle?: BillingCycle;
+        currency?: string;
+      };
+
+    if (!code || !planId || !billingCycle) {
+      throw new ValidationError(
+        "Promotion code, plan ID and billing cycle are required"
+      );
+    }
+
+    if (!isValidPlanId(planId)) {
+      throw new ValidationError("Invalid plan ID");
+    }
+
+    const currency = await resolveCurrency({ requested: requestedCurrency });
+    const promotionCode = await findValidPromotionCode(code, currency);
+    const plan = await getPlan(planId, currency);
+    const price =
+      billingCycle === "annual" ? plan.priceAnnual : plan.priceMonthly;
+    const discountAmount = calculateDiscountAmount(promotionCode, price);
+
+    const response = successResponse({
+      promotionCode: {
+        code: promotionCode.code,
+        description: describePromotionCode(promotionCode),
+      },
+      currency,
+      price,
+      discountAmount,
+      discountedPrice: Math.max(0, price - discountAmount),
+    });
+
+    addRateLimitHeaders(response.headers, "promotionCodes", rateLimit.result);
+    return response;
+  } catch (error) {
+    return handleApiError(error, "Failed to validate promotion code");
+  }
+}
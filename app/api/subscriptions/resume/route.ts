@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { subscriptions } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { resumeSubscription } from "@/lib/subscription/pause";
+
+/**
+ * POST /api/subscriptions/resume
+ * Resume a paused subscription before its scheduled resume date
+ *
+ * Body: { subscriptionId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const { subscriptionId } = await request.json();
+
+    if (!subscriptionId) {
+      throw new ValidationError("Subscription ID is required");
+    }
+
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.customerId, customer.id)
+        )
+      )
+      .limit(1);
+
+    if (!subscription) {
+      throw new ValidationError("Subscription not found");
+    }
+
+    const resumed = await resumeSubscription(subscription, {
+      resumedBy: session.user.id,
+    });
+
+    return successResponse({
+      success: true,
+      message: "Subscription resumed successfully",
+      subscription: {
+        id: resumed.id,
+        status: resumed.status,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to resume subscription");
+  }
+}
@@ -0,0 +1,234 @@
+import { NextRequest } from "next/server";
+import { stripe } from "@/lib/stripe/client";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import {
+  subscriptions,
+  licenseKeys,
+  subscriptionChanges,
+  activations,
+} from "@/lib/db/schema";
+import { eq, and, count, isNull } from "drizzle-orm";
+import { getPlan, type PlanId, type BillingCycle } from "@/lib/stripe/plans";
+import { isValidPlanId } from "@/lib/stripe/plan-utils";
+import {
+  MAX_ADDITIONAL_TERMINALS,
+  findTerminalSeatItem,
+  getTerminalSeatPriceId,
+  calculateMaxTerminals,
+} from "@/lib/stripe/terminal-seats";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
+import {
+  allocateSubscriptionTerminals,
+  getLocationAllocatedTerminals,
+} from "@/lib/license/locations";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { assertNoPendingPlanChange } from "@/lib/subscription/plan-changes";
+
+/**
+ * POST /api/subscriptions/terminal-seats
+ *
+ * Set the number of terminal seat add-ons on a subscription.
+ * Seats are a second Stripe subscription item whose quantity is the number
+ * of extra terminals; changes are prorated. The webhook recomputes
+ * licenseKeys.maxTerminals as well, this route updates it immediately so the
+ * new seats can be used straight away. Added or removed seats go to the
+ * subscription's main key; location allocations are unchanged.
+ *
+ * Body: { subscriptionId, additionalTerminals }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const { subscriptionId, additionalTerminals } = (await request.json()) as {
+      subscriptionId: string;
+      additionalTerminals: number;
+    };
+
+    if (!subscriptionId) {
+      throw new ValidationError("Subscription ID is required");
+    }
+
+    if (
+      !Number.isInteger(additionalTerminals) ||
+      additionalTerminals < 0 ||
+      additionalTerminals > MAX_ADDITIONAL_TERMINALS
+    ) {
+      throw new ValidationError(
+        `Additional terminals must be between 0 and ${MAX_ADDITIONAL_TERMINALS}`
+      );
+    }
+
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const [currentSub] = await db
+      .select()
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.customerId, customer.id)
+        )
+      )
+      .limit(1);
+
+    if (!currentSub || !currentSub.stripeSubscriptionId) {
+      throw new ValidationError("Subscription not found");
+    }
+
+    if (currentSub.status !== "active" && currentSub.status !== "trialing") {
+      throw new ValidationError(
+        "Terminal add-ons can only be changed on an active subscription"
+      );
+    }
+
+    // The scheduled phase carries today's seat count, so changing seats now
+    // would be undone at renewal
+    await assertNoPendingPlanChange(currentSub.id, "changing terminal add-ons");
+
+    const previousSeats = currentSub.additionalTerminals;
+    if (additionalTerminals === previousSeats) {
+      throw new ValidationError(
+        `You already have ${previousSeats} additional terminal(s)`
+      );
+    }
+
+    if (!isValidPlanId(currentSub.planId)) {
+      throw new ValidationError("Subscription has an unknown plan");
+    }
+
+    const billingCycle = currentSub.billingCycle as BillingCycle;
+    const seatPriceId = getTerminalSeatPriceId(
+      billingCycle,
+      normalizeCurrency(currentSub.currency) || DEFAULT_CURRENCY
+    );
+    if (!seatPriceId) {
+      throw new ValidationError(
+        `Terminal add-ons are not available on ${billingCycle} billing`
+      );
+    }
+
+    const plan = await getPlan(currentSub.planId as PlanId);
+    const maxTerminals = calculateMaxTerminals(
+      plan.features.maxTerminals,
+      additionalTerminals
+    );
+
+    // Don't allow removing seats that are in use. Seats allocated to
+    // locations stay with them, so only the main key's seats can be removed.
+    const locationTerminals = await getLocationAllocatedTerminals(
+      subscriptionId
+    );
+    const mainTerminals = maxTerminals - locationTerminals;
+
+    const [mainLicense] = await db
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.subscriptionId, subscriptionId),
+          eq(licenseKeys.isActive, true),
+          isNull(licenseKeys.locationId)
+        )
+      )
+      .limit(1);
+
+    const [activeCount] = mainLicense
+      ? await db
+          .select({ count: count() })
+          .from(activations)
+          .where(
+            and(
+              eq(activations.licenseKey, mainLicense.licenseKey),
+              eq(activations.isActive, true)
+            )
+          )
+      : [{ count: 0 }];
+
+    if (mainTerminals < 0) {
+      throw new ValidationError(
+        `${locationTerminals} terminal seat(s) are assigned to locations. Reduce location seats before removing these seats.`
+      );
+    }
+
+    if (activeCount.count > mainTerminals) {
+      throw new ValidationError(
+        `You have ${activeCount.count} active terminals. Deactivate ${
+          activeCount.count - mainTerminals
+        } terminal(s) before removing these seats.`
+      );
+    }
+
+    // Update the seat item in Stripe (add, change quantity, or remove)
+    const stripeSubscription = await stripe.subscriptions.retrieve(
+      currentSub.stripeSubscriptionId
+    );
+    const seatItem = findTerminalSeatItem(stripeSubscription.items.data);
+
+    let item: Stripe.SubscriptionUpdateParams.Item;
+    if (!seatItem) {
+      item = { price: seatPriceId, quantity: additionalTerminals };
+    } else if (additionalTerminals === 0) {
+      item = { id: seatItem.id, deleted: true };
+    } else {
+      item = { id: seatItem.id, quantity: additionalTerminals };
+    }
+
+    await stripe.subscriptions.update(currentSub.stripeSubscriptionId, {
+      items: [item],
+      proration_behavior: "create_prorations",
+      metadata: {
+        ...stripeSubscription.metadata,
+        additionalTerminals: String(additionalTerminals),
+      },
+    });
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(subscriptions)
+        .set({
+          additionalTerminals,
+          updatedAt: new Date(),
+        })
+        .where(eq(subscriptions.id, subscriptionId));
+
+      await allocateSubscriptionTerminals(subscriptionId, maxTerminals, tx);
+
+      await tx.insert(subscriptionChanges).values({
+        subscriptionId,
+        customerId: customer.id,
+        changeType: "terminal_seats_changed",
+        previousPlanId: currentSub.planId,
+        newPlanId: currentSub.planId,
+        effectiveDate: new Date(),
+        reason: `Additional terminals changed from ${previousSeats} to ${additionalTerminals}`,
+        metadata: {
+          changedBy: session.user.id,
+          previousAdditionalTerminals: previousSeats,
+          newAdditionalTerminals: additionalTerminals,
+          maxTerminals,
+        },
+      });
+    });
+
+    return successResponse({
+      success: true,
+      message:
+        additionalTerminals > previousSeats
+          ? `Added ${additionalTerminals - previousSeats} terminal seat(s). You can now activate up to ${maxTerminals} terminals.`
+          : `Removed ${previousSeats - additionalTerminals} terminal seat(s). You can now activate up to ${maxTerminals} terminals.`,
+      subscription: {
+        additionalTerminals,
+        maxTerminals,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to update terminal seats");
+  }
+}
@@ -0,0 +1,40 @@
+import { db } from "@/lib/db";
+import { subscriptions } from "@/lib/db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { handleApiError, successResponse } from "@/lib/api/response-helpers";
+import { getUsageSummary } from "@/lib/subscription/usage";
+
+/**
+ * GET /api/subscriptions/usage
+ * Transactions this billing period, included allowance and projected
+ * overage for the customer's subscription (usage is null if the plan isn't
+ * billed for transactions)
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.customerId, customer.id),
+          inArray(subscriptions.status, ["active", "trialing", "past_due"])
+        )
+      )
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+
+    if (!subscription) {
+      return successResponse({ usage: null });
+    }
+
+    return successResponse({ usage: await getUsageSummary(subscription) });
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch usage");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { getCustomerTerminal } from "@/lib/license/terminals";
+import {
+  CUSTOMER_COMMANDS,
+  getTerminalCommands,
+  issueTerminalCommand,
+  parseTerminalCommand,
+} from "@/lib/license/terminal-commands";
+
+/**
+ * GET /api/terminals/[id]/commands
+ * Recent commands sent to a terminal, and the ones the customer can send
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id: activationId } = await params;
+
+    const terminal = await getCustomerTerminal(customer.id, activationId);
+
+    return successResponse({
+      commands: await getTerminalCommands(terminal.id),
+      availableCommands: CUSTOMER_COMMANDS,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch terminal commands");
+  }
+}
+
+/**
+ * POST /api/terminals/[id]/commands
+ * Send a command to a terminal
+ *
+ * Body: { command: "restart" | "upload_diagnostics" | "revalidate" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id: activationId } = await params;
+    const body = await request.json();
+
+    const command = parseTerminalCommand(body.command, CUSTOMER_COMMANDS);
+    const terminal = await getCustomerTerminal(customer.id, activationId);
+
+    const queued = await issueTerminalCommand(terminal, command, {
+      userId: session.user.id,
+      via: "dashboard",
+    });
+
+    return successResponse(
+      {
+        success: true,
+        message: "Command sent to the terminal",
+        command: queued,
+      },
+      201
+    );
+  } catch (error) {
+    return handleApiError(error, "Failed to send terminal command");
+  }
+}
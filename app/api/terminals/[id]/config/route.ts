@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { getCustomerTerminal } from "@/lib/license/terminals";
+import {
+  parseTerminalConfig,
+  saveTerminalConfigOverride,
+} from "@/lib/license/terminal-config";
+
+/**
+ * PUT /api/terminals/[id]/config
+ * Override sections of the license's config on one terminal
+ *
+ * Body: { config: { receipt?, taxRates?, currency?, printer? } | null }
+ * (null removes the override, so the terminal uses the license config)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id: activationId } = await params;
+    const body = await request.json();
+
+    const terminal = await getCustomerTerminal(customer.id, activationId);
+    const config =
+      body.config === null ? null : parseTerminalConfig(body.config);
+
+    const document = await saveTerminalConfigOverride(
+      terminal,
+      config,
+      session.user.id
+    );
+
+    return successResponse({
+      success: true,
+      message: config
+        ? "Terminal override saved and sent to the terminal"
+        : "Terminal override removed",
+      version: document.version,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to save terminal override");
+  }
+}
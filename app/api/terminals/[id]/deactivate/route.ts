@@ -1,16 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { subscriptions, licenseKeys, activations } from "@/lib/db/schema";
-import { eq, and, or, desc } from "drizzle-orm";
+import { activations } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
-import {
-  successResponse,
-  handleApiError,
-  NotFoundError,
-  ForbiddenError,
-} from "@/lib/api/response-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
 import { publishLicenseRevoked } from "@/lib/subscription-events/redis-publisher";
+import { getCustomerTerminal } from "@/lib/license/terminals";
 
 /**
  * POST /api/terminals/[id]/deactivate
@@ -35,57 +31,8 @@ export async function POST(
       );
     }
 
-    // Get active subscription for this customer
-    const [subscription] = await db
-      .select()
-      .from(subscriptions)
-      .where(
-        and(
-          eq(subscriptions.customerId, customer.id),
-          or(
-            eq(subscriptions.status, "active"),
-            eq(subscriptions.status, "trialing")
-          )
-        )
-      )
-      .orderBy(desc(subscriptions.createdAt))
-      .limit(1);
-
-    if (!subscription) {
-      throw new NotFoundError("No active subscription found");
-    }
-
-    // Get license key for this subscription
-    const [licenseKey] = await db
-      .select()
-      .from(licenseKeys)
-      .where(
-        and(
-          eq(licenseKeys.subscriptionId, subscription.id),
-          eq(licenseKeys.isActive, true)
-        )
-      )
-      .limit(1);
-
-    if (!licenseKey) {
-      throw new NotFoundError("No license key found for subscription");
-    }
-
-    // Find the activation
-    const [activation] = await db
-      .select()
-      .from(activations)
-      .where(eq(activations.id, activationId))
-      .limit(1);
-
-    if (!activation) {
-      throw new NotFoundError("Terminal not found");
-    }
-
-    // Verify the activation belongs to this customer's license
-    if (activation.licenseKey !== licenseKey.licenseKey) {
-      throw new ForbiddenError("This terminal does not belong to your license");
-    }
+    // Find the activation among this customer's licenses
+    const activation = await getCustomerTerminal(customer.id, activationId);
 
     // Check if already deactivated
     if (!activation.isActive) {
@@ -116,14 +63,21 @@ export async function POST(
       `[Terminal Deactivation] Terminal ${activationId} (${activation.terminalName}) deactivated by user ${session.user.id}`
     );
 
-    // Publish SSE event to notify the connected desktop app in real-time
+    // Publish SSE event to notify the deactivated desktop app in real-time
+    // (targeted, so the license's other terminals keep working)
     try {
-      publishLicenseRevoked(licenseKey.licenseKey, {
-        reason: `Terminal "${activation.terminalName || "Unknown"}" was deactivated from the dashboard`,
-      });
-      console.log(
-        `[Terminal Deactivation] SSE event published to license ${licenseKey.licenseKey.substring(0, 15)}...`
-      );
+      if (activation.machineIdHash) {
+        publishLicenseRevoked(
+          activation.licenseKey,
+          {
+            reason: `Terminal "${activation.terminalName || "Unknown"}" was deactivated from the dashboard`,
+          },
+          { machineIdHashes: [activation.machineIdHash] }
+        );
+        console.log(
+          `[Terminal Deactivation] SSE event published to terminal on license ${activation.licenseKey.substring(0, 15)}...`
+        );
+      }
     } catch (sseError) {
       // Log but don't fail - SSE is best-effort
       console.error("[Terminal Deactivation] Failed to publish SSE event:", sseError);
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { setTerminalGroup } from "@/lib/license/terminals";
+
+/**
+ * PATCH /api/terminals/[id]
+ * Put a terminal in a group, so events can target the group
+ *
+ * Body: { terminalGroup: string | null } (null or "" removes it from its group)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id: activationId } = await params;
+    const { terminalGroup } = await request.json();
+
+    const activation = await setTerminalGroup(
+      customer.id,
+      activationId,
+      terminalGroup
+    );
+
+    return successResponse({
+      success: true,
+      message: activation.terminalGroup
+        ? `Terminal added to group "${activation.terminalGroup}"`
+        : "Terminal removed from its group",
+      terminalGroup: activation.terminalGroup,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to update terminal");
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { subscriptions, licenseKeys, activations } from "@/lib/db/schema";
-import { eq, and, or, desc, lt, sql } from "drizzle-orm";
+import { eq, and, or, desc, sql, inArray } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
 import {
@@ -14,6 +14,22 @@ import { publishLicenseRevoked } from "@/lib/subscription-events/redis-publisher
 // Stale threshold: 24 hours
 const STALE_THRESHOLD_MS = 24 * 60 * 60 * 1000;
 
+async function getSubscriptionLicenseKeys(
+  subscriptionId: string
+): Promise<string[]> {
+  const licenses = await db
+    .select({ licenseKey: licenseKeys.licenseKey })
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscriptionId),
+        eq(licenseKeys.isActive, true)
+      )
+    );
+
+  return licenses.map((l) => l.licenseKey);
+}
+
 /**
  * GET /api/terminals/cleanup
  * Get count of stale terminals that would be cleaned up
@@ -46,19 +62,10 @@ export async function GET(_request: NextRequest) {
       });
     }
 
-    // Get license key for this subscription
-    const [licenseKey] = await db
-      .select()
-      .from(licenseKeys)
-      .where(
-        and(
-          eq(licenseKeys.subscriptionId, subscription.id),
-          eq(licenseKeys.isActive, true)
-        )
-      )
-      .limit(1);
+    // Get license keys for this subscription (main key + location keys)
+    const licenseKeyValues = await getSubscriptionLicenseKeys(subscription.id);
 
-    if (!licenseKey) {
+    if (licenseKeyValues.length === 0) {
       return successResponse({
         staleCount: 0,
         message: "No license key found",
@@ -68,11 +75,11 @@ export async function GET(_request: NextRequest) {
     // Calculate stale threshold timestamp
     const staleThreshold = new Date(Date.now() - STALE_THRESHOLD_MS);
 
-    // Get all activations for this license
+    // Get all activations for these licenses
     const allActivations = await db
       .select()
       .from(activations)
-      .where(eq(activations.licenseKey, licenseKey.licenseKey));
+      .where(inArray(activations.licenseKey, licenseKeyValues));
 
     // Count stale terminals:
     // - Already inactive, OR
@@ -127,30 +134,21 @@ export async function POST(_request: NextRequest) {
       throw new NotFoundError("No active subscription found");
     }
 
-    // Get license key for this subscription
-    const [licenseKey] = await db
-      .select()
-      .from(licenseKeys)
-      .where(
-        and(
-          eq(licenseKeys.subscriptionId, subscription.id),
-          eq(licenseKeys.isActive, true)
-        )
-      )
-      .limit(1);
+    // Get license keys for this subscription (main key + location keys)
+    const licenseKeyValues = await getSubscriptionLicenseKeys(subscription.id);
 
-    if (!licenseKey) {
+    if (licenseKeyValues.length === 0) {
       throw new NotFoundError("No license key found for subscription");
     }
 
     // Calculate stale threshold timestamp
     const staleThreshold = new Date(Date.now() - STALE_THRESHOLD_MS);
 
-    // Get all activations for this license
+    // Get all activations for these licenses
     const allActivations = await db
       .select()
       .from(activations)
-      .where(eq(activations.licenseKey, licenseKey.licenseKey));
+      .where(inArray(activations.licenseKey, licenseKeyValues));
 
     // Find stale terminals
     const staleTerminalIds = allActivations
@@ -171,13 +169,16 @@ export async function POST(_request: NextRequest) {
 
     // Deactivate all stale terminals
     let cleanedCount = 0;
-    const activeTerminalsBeingCleaned: string[] = [];
+    // License key -> names of active terminals being cleaned (to send SSE)
+    const activeTerminalsBeingCleaned = new Map<string, string[]>();
 
     for (const id of staleTerminalIds) {
       // Check if this terminal was active (to send SSE)
       const terminal = allActivations.find((a) => a.id === id);
       if (terminal?.isActive) {
-        activeTerminalsBeingCleaned.push(terminal.terminalName || "Unknown");
+        const names = activeTerminalsBeingCleaned.get(terminal.licenseKey) || [];
+        names.push(terminal.terminalName || "Unknown");
+        activeTerminalsBeingCleaned.set(terminal.licenseKey, names);
       }
 
       await db
@@ -196,17 +197,17 @@ export async function POST(_request: NextRequest) {
     }
 
     console.log(
-      `[Terminal Cleanup] ${cleanedCount} stale terminals cleaned up for license ${licenseKey.licenseKey} by user ${session.user.id}`
+      `[Terminal Cleanup] ${cleanedCount} stale terminals cleaned up for subscription ${subscription.id} by user ${session.user.id}`
     );
 
     // Publish SSE event to notify any connected desktop apps in real-time
-    if (activeTerminalsBeingCleaned.length > 0) {
+    for (const [licenseKey, terminalNames] of activeTerminalsBeingCleaned) {
       try {
-        publishLicenseRevoked(licenseKey.licenseKey, {
-          reason: `Stale terminals cleaned up from dashboard: ${activeTerminalsBeingCleaned.join(", ")}`,
+        publishLicenseRevoked(licenseKey, {
+          reason: `Stale terminals cleaned up from dashboard: ${terminalNames.join(", ")}`,
         });
         console.log(
-          `[Terminal Cleanup] SSE event published to license ${licenseKey.licenseKey.substring(0, 15)}...`
+          `[Terminal Cleanup] SSE event published to license ${licenseKey.substring(0, 15)}...`
         );
       } catch (sseError) {
         console.error("[Terminal Cleanup] Failed to publish SSE event:", sseError);
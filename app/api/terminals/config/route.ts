@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { getCustomerLicenseKey } from "@/lib/license/terminals";
+import {
+  getLicenseConfigOverview,
+  parseTerminalConfig,
+  saveLicenseConfig,
+} from "@/lib/license/terminal-config";
+
+/**
+ * GET /api/terminals/config?licenseKey=...
+ * A license key's terminal config, each terminal's override and whether it
+ * has applied the latest version
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const requestedKey = request.nextUrl.searchParams.get("licenseKey");
+    if (!requestedKey) {
+      throw new ValidationError("licenseKey is required");
+    }
+
+    const licenseKey = await getCustomerLicenseKey(customer.id, requestedKey);
+
+    return successResponse(await getLicenseConfigOverview(licenseKey));
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch terminal config");
+  }
+}
+
+/**
+ * PUT /api/terminals/config
+ * Save a new version of a license key's terminal config and push it to its
+ * terminals
+ *
+ * Body: { licenseKey: string, config: { receipt?, taxRates?, currency?, printer? } }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const body = await request.json();
+
+    if (!body.licenseKey) {
+      throw new ValidationError("licenseKey is required");
+    }
+
+    const licenseKey = await getCustomerLicenseKey(
+      customer.id,
+      body.licenseKey
+    );
+    const config = parseTerminalConfig(body.config);
+
+    const document = await saveLicenseConfig(
+      licenseKey,
+      config,
+      session.user.id
+    );
+
+    return successResponse({
+      success: true,
+      message: `Config version ${document.version} saved and sent to terminals`,
+      version: document.version,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to save terminal config");
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { licenseKeys } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import {
+  successResponse,
+  handleApiError,
+  NotFoundError,
+  ForbiddenError,
+} from "@/lib/api/response-helpers";
+import {
+  activateLicense,
+  deactivateLicense,
+  getPlanFeatures,
+} from "@/lib/license/validator";
+import {
+  issueOfflineLease,
+  isOfflineLeaseEnabled,
+  type OfflineLease,
+} from "@/lib/license/offline-lease";
+import {
+  parseOfflineRequest,
+  buildActivationResponse,
+  buildDeactivationResponse,
+  getOfflineResponseFileName,
+} from "@/lib/license/offline-activation";
+
+/**
+ * POST /api/terminals/offline
+ * Process an offline activation/deactivation request file uploaded from the dashboard
+ *
+ * Body: { requestFile: OfflineRequestFile }
+ * Returns: { success, message, fileName, responseFile }
+ *
+ * Activation runs the same checks as online activation (activateLicense).
+ * Deactivation goes through deactivateLicense, so it counts against the
+ * yearly MAX_DEACTIVATIONS limit just like a deactivation from the terminal.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    if (!isOfflineLeaseEnabled()) {
+      throw new Error("Offline activation is not enabled on this server");
+    }
+
+    const body = await request.json();
+    const offlineRequest = parseOfflineRequest(body.requestFile);
+
+    // Verify the license key belongs to this customer
+    const [license] = await db
+      .select()
+      .from(licenseKeys)
+      .where(eq(licenseKeys.licenseKey, offlineRequest.licenseKey))
+      .limit(1);
+
+    if (!license) {
+      throw new NotFoundError("License key not found");
+    }
+
+    if (license.customerId !== customer.id) {
+      throw new ForbiddenError("This license key does not belong to your account");
+    }
+
+    if (offlineRequest.action === "deactivate") {
+      const result = await deactivateLicense(
+        offlineRequest.licenseKey,
+        offlineRequest.machineIdHash
+      );
+
+      console.log(
+        `[Offline Activation] Deactivation for ${offlineRequest.terminalName} by user ${session.user.id}: ${result.message}`
+      );
+
+      return successResponse({
+        success: result.success,
+        message: result.message,
+        fileName: getOfflineResponseFileName(offlineRequest),
+        responseFile: buildDeactivationResponse(offlineRequest, result),
+      });
+    }
+
+    const result = await activateLicense({
+      licenseKey: offlineRequest.licenseKey,
+      machineIdHash: offlineRequest.machineIdHash,
+      terminalName: offlineRequest.terminalName,
+      appVersion: offlineRequest.appVersion || "unknown",
+      location: { platform: "offline" },
+    });
+
+    // Include an offline lease so the terminal can run for the offline grace period
+    let offlineLease: OfflineLease | null = null;
+    if (result.success && result.data) {
+      offlineLease = issueOfflineLease({
+        licenseKey: offlineRequest.licenseKey,
+        machineIdHash: offlineRequest.machineIdHash,
+        planId: result.data.planId,
+        features: getPlanFeatures(result.data.planId),
+        entitlements: result.data.entitlements,
+        licenseExpiresAt: license.expiresAt,
+      });
+    }
+
+    console.log(
+      `[Offline Activation] Activation for ${offlineRequest.terminalName} by user ${session.user.id}: ${result.message}`
+    );
+
+    return successResponse({
+      success: result.success,
+      message: result.message,
+      fileName: getOfflineResponseFileName(offlineRequest),
+      responseFile: buildActivationResponse(
+        offlineRequest,
+        result,
+        offlineLease
+      ),
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to process offline request file");
+  }
+}
@@ -5,8 +5,9 @@ import {
   licenseKeys,
   activations,
   terminalSessions,
+  locations,
 } from "@/lib/db/schema";
-import { eq, and, or, desc } from "drizzle-orm";
+import { eq, and, or, desc, asc, inArray } from "drizzle-orm";
 import { requireAuth } from "@/lib/api/auth-helpers";
 import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
 import { successResponse, handleApiError } from "@/lib/api/response-helpers";
@@ -36,44 +37,60 @@ export async function GET(_request: NextRequest) {
       return successResponse({
         activations: [],
         licenseKeyInfo: null,
+        locations: [],
       });
     }
 
-    // Get license key for this subscription
-    const [licenseKey] = await db
-      .select()
+    // Get license keys for this subscription (main key + one per location)
+    const subscriptionLicenses = await db
+      .select({
+        licenseKey: licenseKeys.licenseKey,
+        maxTerminals: licenseKeys.maxTerminals,
+        locationId: licenseKeys.locationId,
+        locationName: locations.name,
+        locationAddress: locations.address,
+      })
       .from(licenseKeys)
+      .leftJoin(locations, eq(licenseKeys.locationId, locations.id))
       .where(
         and(
           eq(licenseKeys.subscriptionId, subscription.id),
           eq(licenseKeys.isActive, true)
         )
       )
-      .limit(1);
+      .orderBy(asc(locations.createdAt));
+
+    const licenseKey = subscriptionLicenses.find((l) => !l.locationId);
 
     if (!licenseKey) {
       return successResponse({
         activations: [],
         licenseKeyInfo: null,
+        locations: [],
       });
     }
 
-    // Get all activations for this license key
+    const licenseKeyValues = subscriptionLicenses.map((l) => l.licenseKey);
+    const licenseByKey = new Map(
+      subscriptionLicenses.map((l) => [l.licenseKey, l])
+    );
+
+    // Get all activations for these license keys
     const terminalActivations = await db
       .select()
       .from(activations)
-      .where(eq(activations.licenseKey, licenseKey.licenseKey))
+      .where(inArray(activations.licenseKey, licenseKeyValues))
       .orderBy(desc(activations.firstActivation));
 
     // Get live terminal sessions for real-time status
     const liveSessions = await db
       .select()
       .from(terminalSessions)
-      .where(eq(terminalSessions.licenseKey, licenseKey.licenseKey));
+      .where(inArray(terminalSessions.licenseKey, licenseKeyValues));
 
     console.log("[API /terminals] Live sessions found:", {
       count: liveSessions.length,
-      licenseKey: licenseKey.licenseKey,
+      licenseKeys: licenseKeyValues,
       sessions: liveSessions.map((s) => ({
         machineIdHash: s.machineIdHash?.substring(0, 20) + "...",
         connectionStatus: s.connectionStatus,
@@ -92,8 +109,10 @@ export async function GET(_request: NextRequest) {
       })),
     });
 
-    // Count active activations
-    const activeCount = terminalActivations.filter((a) => a.isActive).length;
+    // Count active activations per license key
+    const countActive = (key: string) =>
+      terminalActivations.filter((a) => a.isActive && a.licenseKey === key)
+        .length;
 
     return successResponse({
       activations: terminalActivations.map((activation) => {
@@ -130,10 +149,14 @@ export async function GET(_request: NextRequest) {
           sessionHeartbeat &&
           Date.now() - sessionHeartbeat.getTime() < 5 * 60 * 1000; // Within 5 minutes
 
+        const activationLicense = licenseByKey.get(activation.licenseKey);
+
         return {
           id: activation.id,
           licenseKey: activation.licenseKey,
+          locationId: activationLicense?.locationId || null,
           terminalName: activation.terminalName,
+          terminalGroup: activation.terminalGroup,
           machineIdHash: activation.machineIdHash,
           firstActivation: activation.firstActivation,
           lastHeartbeat: lastHeartbeat,
@@ -149,8 +172,20 @@ export async function GET(_request: NextRequest) {
       licenseKeyInfo: {
         licenseKey: licenseKey.licenseKey,
         maxTerminals: licenseKey.maxTerminals,
-        activationCount: activeCount,
+        activationCount: countActive(licenseKey.licenseKey),
       },
+      // Terminal pools, main key first (id null) then one per location
+      locations: [
+        licenseKey,
+        ...subscriptionLicenses.filter((l) => l.locationId),
+      ].map((license) => ({
+        id: license.locationId,
+        name: license.locationName,
+        address: license.locationAddress,
+        licenseKey: license.licenseKey,
+        maxTerminals: license.maxTerminals,
+        activationCount: countActive(license.licenseKey),
+      })),
     });
   } catch (error) {
     return handleApiError(error, "Failed to fetch terminals");
@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import {
+  approveTerminalTransfer,
+  getCustomerTransfer,
+} from "@/lib/license/transfers";
+
+/**
+ * POST /api/terminals/transfers/[id]/approve
+ * Approve a terminal transfer from the dashboard
+ *
+ * Moves the activation to the requesting machine. Does not count against the
+ * yearly deactivation limit.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id } = await params;
+
+    const transfer = await getCustomerTransfer(id, customer.id);
+    const approved = await approveTerminalTransfer(transfer.id, "dashboard");
+
+    return successResponse({
+      success: true,
+      message: "Terminal transfer approved",
+      terminalName: approved.terminalName,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to approve transfer");
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import {
+  getCustomerTransfer,
+  rejectTerminalTransfer,
+} from "@/lib/license/transfers";
+
+/**
+ * POST /api/terminals/transfers/[id]/reject
+ * Reject a terminal transfer from the dashboard
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+    const { id } = await params;
+
+    const transfer = await getCustomerTransfer(id, customer.id);
+    const rejected = await rejectTerminalTransfer(transfer.id, "dashboard");
+
+    return successResponse({
+      success: true,
+      message: "Terminal transfer rejected",
+      terminalName: rejected.terminalName,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to reject transfer");
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import {
+  successResponse,
+  handleApiError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  approveTerminalTransfer,
+  getTransferByToken,
+  rejectTerminalTransfer,
+} from "@/lib/license/transfers";
+
+/**
+ * GET /api/terminals/transfers/by-token?token=xxx
+ * Transfer details for the emailed approval link (no login required)
+ *
+ * Read-only so that link scanners opening the email can't approve anything.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      throw new ValidationError("Approval token is required");
+    }
+
+    const transfer = await getTransferByToken(token);
+    const status =
+      transfer.status === "pending" && transfer.expiresAt <= new Date()
+        ? "expired"
+        : transfer.status;
+
+    return successResponse({
+      transfer: {
+        terminalName: transfer.terminalName,
+        ipAddress: transfer.ipAddress,
+        status,
+        expiresAt: transfer.expiresAt,
+        createdAt: transfer.createdAt,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to load transfer request");
+  }
+}
+
+/**
+ * POST /api/terminals/transfers/by-token
+ * Approve or reject a transfer from the emailed link
+ *
+ * Body: { token, action: "approve" | "reject" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, action } = await request.json();
+
+    if (!token) {
+      throw new ValidationError("Approval token is required");
+    }
+    if (action !== "approve" && action !== "reject") {
+      throw new ValidationError('Action must be "approve" or "reject"');
+    }
+
+    const transfer = await getTransferByToken(token);
+    const resolved =
+      action === "approve"
+        ? await approveTerminalTransfer(transfer.id, "email")
+        : await rejectTerminalTransfer(transfer.id, "email");
+
+    return successResponse({
+      success: true,
+      message:
+        action === "approve"
+          ? "Terminal transfer approved"
+          : "Terminal transfer rejected",
+      terminalName: resolved.terminalName,
+    });
+  } catch (error) {
+    return handleApiError(error, "Failed to update transfer request");
+  }
+}
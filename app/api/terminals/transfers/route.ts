@@ -0,0 +1,36 @@
+import { db } from "@/lib/db";
+import { licenseKeys } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { requireAuth } from "@/lib/api/auth-helpers";
+import { getCustomerOrThrow } from "@/lib/db/customer-helpers";
+import { successResponse, handleApiError } from "@/lib/api/response-helpers";
+import { getPendingTransfers } from "@/lib/license/transfers";
+
+/**
+ * GET /api/terminals/transfers
+ * Pending terminal transfer requests across the customer's active license keys
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const customer = await getCustomerOrThrow(session.user.id);
+
+    const customerLicenses = await db
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.customerId, customer.id),
+          eq(licenseKeys.isActive, true)
+        )
+      );
+
+    const transfers = await getPendingTransfers(
+      customerLicenses.map((l) => l.licenseKey)
+    );
+
+    return successResponse({ transfers });
+  } catch (error) {
+    return handleApiError(error, "Failed to fetch transfer requests");
+  }
+}
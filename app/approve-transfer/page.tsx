@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import Image from "next/image";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, AlertCircle, Loader2, XCircle } from "lucide-react";
+
+interface TransferDetails {
+  terminalName: string | null;
+  ipAddress: string | null;
+  status: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+type PageStatus = "loading" | "ready" | "approved" | "rejected" | "error";
+
+function ApproveTransferContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get("token");
+
+  const [status, setStatus] = useState<PageStatus>("loading");
+  const [transfer, setTransfer] = useState<TransferDetails | null>(null);
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState<"approve" | "reject" | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!token) {
+      setError(
+        "Invalid transfer link. Please use the link from your email, or review the request on your terminals page."
+      );
+      setStatus("error");
+      return;
+    }
+
+    const loadTransfer = async () => {
+      try {
+        const response = await fetch(
+          `/api/terminals/transfers/by-token?token=${encodeURIComponent(token)}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Transfer request not found");
+        }
+
+        setTransfer(data.transfer);
+        setStatus("ready");
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load transfer request"
+        );
+        setStatus("error");
+      }
+    };
+
+    loadTransfer();
+  }, [token]);
+
+  const handleAction = async (action: "approve" | "reject") => {
+    setSubmitting(action);
+    setError("");
+    try {
+      const response = await fetch("/api/terminals/transfers/by-token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update transfer request");
+      }
+
+      setStatus(action === "approve" ? "approved" : "rejected");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update transfer request"
+      );
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const terminalName = transfer?.terminalName || "this terminal";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-muted/20 to-background relative overflow-hidden">
+      <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+      <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-accent/5 rounded-full blur-3xl" />
+
+      <Card className="w-full max-w-md relative z-10 shadow-xl border-border/50 backdrop-blur-sm">
+        <CardHeader className="space-y-1 text-center pb-6">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <Image
+              src="/logo.png"
+              alt="Aurswift Logo"
+              width={40}
+              height={40}
+              className="h-10 w-10 object-cover"
+              priority
+            />
+            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Aurswift
+            </CardTitle>
+          </div>
+          <CardDescription className="text-base">
+            Terminal Transfer
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "loading" && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {status === "error" && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {status === "approved" && (
+            <Alert className="bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800">
+              <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+              <AlertDescription className="text-sm text-green-800 dark:text-green-200">
+                <strong>Transfer approved.</strong>
+                <br />
+                {terminalName} now runs on the new computer. The old computer
+                will stop working at its next license check.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status === "rejected" && (
+            <Alert>
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>
+                Transfer rejected. {terminalName} stays on its current
+                computer.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status === "ready" && transfer && (
+            <>
+              {transfer.status === "pending" ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    A new computer is asking to take over{" "}
+                    <strong className="text-foreground">{terminalName}</strong>.
+                    Approve only if you are replacing this terminal&apos;s PC.
+                    The terminal keeps its name and history, and the transfer
+                    doesn&apos;t use one of your yearly deactivations.
+                  </p>
+                  <div className="text-sm space-y-1">
+                    <p>
+                      <span className="text-muted-foreground">Requested:</span>{" "}
+                      {format(new Date(transfer.createdAt), "MMM dd, yyyy HH:mm")}
+                    </p>
+                    {transfer.ipAddress && (
+                      <p>
+                        <span className="text-muted-foreground">From IP:</span>{" "}
+                        <span className="font-mono">{transfer.ipAddress}</span>
+                      </p>
+                    )}
+                    <p>
+                      <span className="text-muted-foreground">Expires:</span>{" "}
+                      {format(new Date(transfer.expiresAt), "MMM dd, yyyy HH:mm")}
+                    </p>
+                  </div>
+                  {error && <p className="text-sm text-destructive">{error}</p>}
+                  <div className="flex gap-3">
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => handleAction("reject")}
+                      disabled={!!submitting}
+                    >
+                      {submitting === "reject" && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Reject
+                    </Button>
+                    <Button
+                      className="flex-1"
+                      onClick={() => handleAction("approve")}
+                      disabled={!!submitting}
+                    >
+                      {submitting === "approve" && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Approve Transfer
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    This transfer request is {transfer.status} and can no
+                    longer be changed.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </>
+          )}
+
+          <Link href="/dashboard/terminals">
+            <Button variant="ghost" className="w-full">
+              Go to Terminals
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function ApproveTransferPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-muted/20 to-background relative overflow-hidden">
+          <Card className="w-full max-w-md relative z-10 shadow-xl border-border/50">
+            <CardContent className="pt-6">
+              <div className="text-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      }
+    >
+      <ApproveTransferContent />
+    </Suspense>
+  );
+}
@@ -5,21 +5,38 @@ import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Download, FileText, ArrowLeft } from "lucide-react";
+import { Download, ExternalLink, FileText, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { REVERSE_CHARGE_NOTICE } from "@/lib/stripe/tax-id-utils";
+
+interface CreditNote {
+  id: string;
+  number: string;
+  total: number;
+  status: string;
+  issuedAt: Date;
+  pdfUrl: string;
+}
 
 interface Invoice {
   id: string;
   invoiceId: string;
   date: Date;
-  amount: number;
+  amount: number; // Gross, including tax
+  net: number;
+  tax: number;
+  reverseCharge: boolean;
+  discount: number;
+  promotionCode: string | null;
   currency: string;
   status: string;
   plan: string;
   period: string | null;
-  invoiceUrl: string | null;
+  invoiceUrl: string | null; // Stripe-hosted invoice
+  pdfUrl: string;
   paidAt: Date | null;
+  creditNotes: CreditNote[];
 }
 
 export default function BillingHistoryPage() {
@@ -56,38 +73,6 @@ export default function BillingHistoryPage() {
     }
   };
 
-  const handleDownloadInvoice = (invoice: Invoice) => {
-    if (invoice.invoiceUrl) {
-      // Open Stripe invoice URL if available
-      window.open(invoice.invoiceUrl, "_blank");
-    } else {
-      // Generate fallback invoice text
-      const invoiceContent = `
-aurswift EPOS SOLUTIONS
-Invoice: ${invoice.invoiceId}
-Date: ${format(new Date(invoice.date), "MMM dd, yyyy")}
-
-Description: ${invoice.plan}
-${invoice.period ? `Billing Period: ${invoice.period}` : ""}
-
-Amount: ${invoice.currency} ${invoice.amount.toFixed(2)}
-Status: ${invoice.status}
-
-Thank you for your business!
-      `.trim();
-
-      const blob = new Blob([invoiceContent], { type: "text/plain" });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${invoice.invoiceId}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-    }
-  };
-
   if (loading) {
     return (
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -186,6 +171,24 @@ Thank you for your business!
                     <p className="text-sm text-muted-foreground mt-1">
                       Issued: {format(new Date(invoice.date), "MMMM dd, yyyy")}
                     </p>
+                    {invoice.reverseCharge && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {REVERSE_CHARGE_NOTICE}
+                      </p>
+                    )}
+                    {invoice.creditNotes.map((creditNote) => (
+                      <a
+                        key={creditNote.id}
+                        href={creditNote.pdfUrl}
+                        download
+                        className="flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+                      >
+                        <Download className="w-3 h-3" />
+                        Credit note {creditNote.number}: -{invoice.currency}{" "}
+                        {creditNote.total.toFixed(2)}
+                        {creditNote.status === "void" && " (void)"}
+                      </a>
+                    ))}
                   </div>
                 </div>
                 <div className="flex items-center gap-4 sm:flex-col sm:items-end">
@@ -193,16 +196,32 @@ Thank you for your business!
                     <p className="text-xl font-bold text-primary">
                       {invoice.currency} {invoice.amount.toFixed(2)}
                     </p>
+                    <p className="text-xs text-muted-foreground">
+                      Net {invoice.net.toFixed(2)} + Tax {invoice.tax.toFixed(2)}
+                    </p>
+                    {invoice.discount > 0 && (
+                      <p className="text-xs text-green-600 dark:text-green-400">
+                        {invoice.promotionCode || "Discount"}: -{invoice.currency}{" "}
+                        {invoice.discount.toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {invoice.invoiceUrl && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={invoice.invoiceUrl} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="w-4 h-4 mr-2" />
+                          View Online
+                        </a>
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" asChild className="whitespace-nowrap">
+                      <a href={invoice.pdfUrl} download>
+                        <Download className="w-4 h-4 mr-2" />
+                        Download PDF
+                      </a>
+                    </Button>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDownloadInvoice(invoice)}
-                    className="whitespace-nowrap"
-                  >
-                    <Download className="w-4 h-4 mr-2" />
-                    {invoice.invoiceUrl ? "View Invoice" : "Download"}
-                  </Button>
                 </div>
               </div>
               ))}
@@ -10,7 +10,7 @@ import { InvoiceHistory } from "@/components/invoice-history";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { db } from "@/lib/db";
 import { customers, subscriptions, licenseKeys } from "@/lib/db/schema";
-import { eq, desc, and, or } from "drizzle-orm";
+import { eq, desc, and, or, isNull } from "drizzle-orm";
 
 export default async function DashboardPage() {
   const session = await auth();
@@ -210,7 +210,13 @@ export default async function DashboardPage() {
     [licenseKeyResult] = await db
       .select()
       .from(licenseKeys)
-      .where(eq(licenseKeys.customerId, customer.id))
+      // Location keys are listed on the terminals page
+      .where(
+        and(
+          eq(licenseKeys.customerId, customer.id),
+          isNull(licenseKeys.locationId),
+        ),
+      )
       .orderBy(desc(licenseKeys.isActive), desc(licenseKeys.createdAt))
       .limit(1);
   } catch (error) {
@@ -8,11 +8,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ArrowLeft, Save, Building2, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getTaxIdExample, validateTaxId } from "@/lib/stripe/tax-id-utils";
 
 export default function ProfilePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [taxIdError, setTaxIdError] = useState<string | null>(null);
   const { toast } = useToast();
 
   const [profile, setProfile] = useState({
@@ -57,9 +59,21 @@ export default function ProfilePage() {
 
   const handleInputChange = (field: string, value: string) => {
     setProfile((prev) => ({ ...prev, [field]: value }));
+    if (field === "taxId" || field === "country") {
+      setTaxIdError(null);
+    }
   };
 
   const handleSave = async () => {
+    // Check the tax ID format before saving; the server checks it again
+    if (profile.taxId.trim()) {
+      const result = validateTaxId(profile.taxId, profile.country);
+      if (!result.valid) {
+        setTaxIdError(result.error);
+        return;
+      }
+    }
+
     setIsSaving(true);
     try {
       const response = await fetch("/api/profile", {
@@ -76,6 +90,9 @@ export default function ProfilePage() {
         throw new Error(data.error || "Failed to update profile");
       }
 
+      // Show the tax ID as it was saved (e.g. with its country prefix)
+      setProfile((prev) => ({ ...prev, taxId: data.taxId || "" }));
+
       toast({
         title: "Success",
         description: "Profile updated successfully",
@@ -253,8 +270,20 @@ export default function ProfilePage() {
                 id="taxId"
                 value={profile.taxId}
                 onChange={(e) => handleInputChange("taxId", e.target.value)}
-                placeholder="Enter your tax identification number"
+                placeholder={
+                  getTaxIdExample(profile.country) ||
+                  "Enter your tax identification number"
+                }
               />
+              {taxIdError ? (
+                <p className="text-sm text-destructive">{taxIdError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Checked against your billing country and shown on your
+                  invoices. EU businesses with a valid VAT number may be
+                  invoiced under the reverse charge.
+                </p>
+              )}
             </div>
           </div>
 
@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button";
 import { SubscriptionDetails } from "@/components/dashboard/subscription-details";
 import { SubscriptionActions } from "@/components/dashboard/subscription-actions";
 import { PaymentHistory } from "@/components/dashboard/payment-history";
+import { TerminalSeatsCard } from "@/components/dashboard/terminal-seats-card";
+import { UsageCard } from "@/components/dashboard/usage-card";
 
 export default function SubscriptionPage() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -55,6 +57,13 @@ export default function SubscriptionPage() {
             </p>
             <SubscriptionActions onUpdate={handleUpdate} />
           </div>
+
+          <TerminalSeatsCard
+            refreshTrigger={refreshTrigger}
+            onUpdate={handleUpdate}
+          />
+
+          <UsageCard refreshTrigger={refreshTrigger} />
         </div>
       </div>
     </div>
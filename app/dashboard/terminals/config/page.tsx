@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import { TerminalConfigForm } from "@/components/dashboard/terminal-config-form";
+import { TerminalConfigOverrideDialog } from "@/components/dashboard/terminal-config-override-dialog";
+import type { TerminalConfig } from "@/lib/license/terminal-config";
+
+// A license key's terminal pool: the main key (id null) or a store location
+interface TerminalPool {
+  id: string | null;
+  name: string | null;
+  licenseKey: string;
+}
+
+interface TerminalConfigStatus {
+  id: string;
+  terminalName: string | null;
+  terminalGroup: string | null;
+  lastHeartbeat: string | null;
+  override: TerminalConfig | null;
+  expectedVersion: number;
+  appliedVersion: number | null;
+  upToDate: boolean;
+}
+
+interface ConfigOverview {
+  licenseKey: string;
+  version: number;
+  config: TerminalConfig;
+  updatedAt: string | null;
+  terminals: TerminalConfigStatus[];
+}
+
+export default function TerminalConfigPage() {
+  const [pools, setPools] = useState<TerminalPool[]>([]);
+  const [licenseKey, setLicenseKey] = useState<string | null>(null);
+  const [overview, setOverview] = useState<ConfigOverview | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = () => setRefreshTrigger((prev) => prev + 1);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPools = async () => {
+      try {
+        const response = await fetch("/api/terminals", { cache: "no-store" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch terminals");
+        }
+        if (!cancelled) {
+          const nextPools: TerminalPool[] = data.locations || [];
+          setPools(nextPools);
+          setLicenseKey(nextPools[0]?.licenseKey || null);
+          if (nextPools.length === 0) {
+            setError("No active subscription found");
+          }
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to fetch terminals"
+          );
+        }
+      }
+    };
+
+    fetchPools();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!licenseKey) return;
+    let cancelled = false;
+
+    const fetchOverview = async () => {
+      try {
+        const response = await fetch(
+          `/api/terminals/config?licenseKey=${encodeURIComponent(licenseKey)}`,
+          { cache: "no-store" }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch terminal config");
+        }
+        if (!cancelled) {
+          setOverview(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Failed to fetch terminal config"
+          );
+        }
+      }
+    };
+
+    fetchOverview();
+    return () => {
+      cancelled = true;
+    };
+  }, [licenseKey, refreshTrigger]);
+
+  const saveLicenseConfig = async (config: TerminalConfig) => {
+    const response = await fetch("/api/terminals/config", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ licenseKey, config }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save terminal config");
+    }
+
+    setMessage(data.message);
+    refresh();
+  };
+
+  const outOfDate =
+    overview?.terminals.filter((terminal) => !terminal.upToDate).length || 0;
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4 space-y-8">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/terminals">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Terminals
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Terminal Configuration</h1>
+          <p className="text-muted-foreground">
+            Receipt, tax, currency and printer settings sent to your
+            terminals. Changes are pushed to connected terminals straight away.
+          </p>
+        </div>
+
+        {pools.length > 1 && licenseKey && (
+          <Select
+            value={licenseKey}
+            onValueChange={(value) => {
+              setLicenseKey(value);
+              setOverview(null);
+              setMessage(null);
+            }}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pools.map((pool) => (
+                <SelectItem key={pool.licenseKey} value={pool.licenseKey}>
+                  {pool.name || "Main License"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {error && <p className="text-destructive">{error}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      {!overview && !error && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {overview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>License Config</span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {overview.version > 0 && overview.updatedAt
+                    ? `Version ${overview.version}, saved ${format(
+                        new Date(overview.updatedAt),
+                        "MMM d, yyyy h:mm a"
+                      )}`
+                    : "Not configured yet"}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TerminalConfigForm
+                key={`${overview.licenseKey}:${overview.version}`}
+                config={overview.config}
+                sectionToggleLabel="Manage centrally"
+                submitLabel="Save & Send to Terminals"
+                onSubmit={saveLicenseConfig}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Terminals</span>
+                {outOfDate > 0 && (
+                  <Badge variant="destructive">{outOfDate} out of date</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overview.terminals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No active terminals on this license.
+                </p>
+              ) : (
+                <div className="divide-y">
+                  {overview.terminals.map((terminal) => (
+                    <div
+                      key={terminal.id}
+                      className="flex items-center justify-between gap-4 py-3"
+                    >
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">
+                            {terminal.terminalName || "Unnamed Terminal"}
+                          </p>
+                          {terminal.terminalGroup && (
+                            <Badge variant="outline">
+                              {terminal.terminalGroup}
+                            </Badge>
+                          )}
+                          {terminal.override && (
+                            <Badge variant="secondary">Override</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          {terminal.upToDate ? (
+                            <CheckCircle2 className="h-3 w-3 text-green-600" />
+                          ) : (
+                            <AlertTriangle className="h-3 w-3 text-yellow-600" />
+                          )}
+                          {terminal.expectedVersion === 0
+                            ? "No config to apply"
+                            : terminal.upToDate
+                              ? `Up to date (version ${terminal.expectedVersion})`
+                              : `Out of date: on version ${
+                                  terminal.appliedVersion ?? "none"
+                                }, latest is ${terminal.expectedVersion}`}
+                          {terminal.lastHeartbeat &&
+                            ` · last seen ${format(
+                              new Date(terminal.lastHeartbeat),
+                              "MMM d, h:mm a"
+                            )}`}
+                        </p>
+                      </div>
+                      <TerminalConfigOverrideDialog
+                        activationId={terminal.id}
+                        terminalName={terminal.terminalName}
+                        override={terminal.override}
+                        onSaved={refresh}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   Trash2,
   RefreshCw,
   Loader2,
+  Settings2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,11 +26,18 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { format } from "date-fns";
+import { OfflineActivationCard } from "@/components/dashboard/offline-activation-card";
+import { LocationDialog } from "@/components/dashboard/location-dialog";
+import { PendingTransfersCard } from "@/components/dashboard/pending-transfers-card";
+import { TerminalGroupDialog } from "@/components/dashboard/terminal-group-dialog";
+import { TerminalCommandsDialog } from "@/components/dashboard/terminal-commands-dialog";
 
 interface TerminalActivation {
   id: string;
   licenseKey: string;
+  locationId: string | null;
   terminalName: string | null;
+  terminalGroup: string | null;
   machineIdHash: string | null;
   firstActivation: Date;
   lastHeartbeat: Date | null;
@@ -48,6 +56,16 @@ interface LicenseKeyInfo {
   activationCount: number;
 }
 
+// A license key's terminal pool: the main key (id null) or a store location
+interface TerminalPool {
+  id: string | null;
+  name: string | null;
+  address: string | null;
+  licenseKey: string;
+  maxTerminals: number;
+  activationCount: number;
+}
+
 interface StaleInfo {
   staleCount: number;
   totalCount: number;
@@ -58,11 +76,15 @@ export default function TerminalsPage() {
   const [licenseKeyInfo, setLicenseKeyInfo] = useState<LicenseKeyInfo | null>(
     null
   );
+  const [pools, setPools] = useState<TerminalPool[]>([]);
   const [staleInfo, setStaleInfo] = useState<StaleInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deactivatingId, setDeactivatingId] = useState<string | null>(null);
   const [cleaningUp, setCleaningUp] = useState(false);
+  const [removingLocationId, setRemovingLocationId] = useState<string | null>(
+    null
+  );
 
   useEffect(() => {
     fetchTerminals();
@@ -83,6 +105,7 @@ export default function TerminalsPage() {
 
       setActivations(data.activations || []);
       setLicenseKeyInfo(data.licenseKeyInfo || null);
+      setPools(data.locations || []);
       setError(null);
     } catch (err) {
       setError(
@@ -162,6 +185,28 @@ export default function TerminalsPage() {
     }
   };
 
+  const handleRemoveLocation = async (locationId: string) => {
+    try {
+      setRemovingLocationId(locationId);
+      const response = await fetch(`/api/locations/${locationId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove location");
+      }
+
+      await fetchTerminals();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove location"
+      );
+    } finally {
+      setRemovingLocationId(null);
+    }
+  };
+
   const getStatusBadge = (
     isActive: boolean,
     lastHeartbeat: Date | null,
@@ -212,6 +257,198 @@ export default function TerminalsPage() {
     return hoursSinceHeartbeat > 24;
   };
 
+  const hasLocations = pools.some((pool) => pool.id);
+  // Seats on the main key that can be moved to a location
+  const mainPool = pools.find((pool) => !pool.id);
+  const mainFreeSeats = mainPool
+    ? Math.max(0, mainPool.maxTerminals - mainPool.activationCount)
+    : 0;
+
+  const terminalGroups = [
+    ...new Set(
+      activations
+        .map((activation) => activation.terminalGroup)
+        .filter((group): group is string => !!group)
+    ),
+  ].sort();
+
+  const renderActivation = (activation: TerminalActivation) => (
+    <div
+      key={activation.id}
+      className={`border rounded-lg p-4 space-y-3 transition-colors ${
+        isStale(activation)
+          ? "bg-muted/30 border-dashed"
+          : "hover:bg-muted/50"
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-2">
+            <Terminal className="h-5 w-5 text-muted-foreground" />
+            <h3 className="font-semibold">
+              {activation.terminalName || "Unnamed Terminal"}
+            </h3>
+            {getStatusBadge(
+              activation.isActive,
+              activation.lastHeartbeat,
+              activation.isLiveConnected
+            )}
+            {isStale(activation) && activation.isActive && (
+              <Badge
+                variant="outline"
+                className="text-orange-600 border-orange-300"
+              >
+                Stale
+              </Badge>
+            )}
+            {activation.terminalGroup && (
+              <Badge variant="secondary">{activation.terminalGroup}</Badge>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">
+                First Activated
+              </p>
+              <p className="font-medium">
+                {format(
+                  new Date(activation.firstActivation),
+                  "MMM dd, yyyy HH:mm"
+                )}
+              </p>
+            </div>
+            {activation.lastHeartbeat && (
+              <div>
+                <p className="text-muted-foreground">
+                  Last Heartbeat
+                </p>
+                <p className="font-medium">
+                  {format(
+                    new Date(activation.lastHeartbeat),
+                    "MMM dd, yyyy HH:mm"
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Technical Details - Collapsed by default */}
+          <details className="mt-4 group">
+            <summary className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+              <svg
+                className="h-4 w-4 transition-transform group-open:rotate-90"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+              Technical Details
+            </summary>
+            <div className="mt-3 ml-6 grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Machine ID</p>
+                <p className="font-mono text-xs break-all opacity-70">
+                  {activation.machineIdHash?.substring(0, 16)}...
+                </p>
+              </div>
+              {activation.ipAddress && (
+                <div>
+                  <p className="text-muted-foreground">
+                    IP Address
+                  </p>
+                  <p className="font-mono text-xs opacity-70">
+                    {activation.ipAddress}
+                  </p>
+                </div>
+              )}
+              {activation.location &&
+                (activation.location.city ||
+                  activation.location.country) && (
+                  <div>
+                    <p className="text-muted-foreground flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      Location
+                    </p>
+                    <p className="text-xs opacity-70">
+                      {activation.location.city &&
+                      activation.location.country
+                        ? `${activation.location.city}, ${activation.location.country}`
+                        : activation.location.country ||
+                          activation.location.city ||
+                          "Unknown"}
+                    </p>
+                  </div>
+                )}
+            </div>
+          </details>
+        </div>
+
+        {/* Group, Command and Deactivate Buttons */}
+        {activation.isActive && (
+          <div className="flex items-center gap-1">
+            <TerminalGroupDialog
+              activationId={activation.id}
+              terminalName={activation.terminalName}
+              terminalGroup={activation.terminalGroup}
+              existingGroups={terminalGroups}
+              onSaved={fetchTerminals}
+            />
+            <TerminalCommandsDialog
+              activationId={activation.id}
+              terminalName={activation.terminalName}
+            />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  disabled={deactivatingId === activation.id}
+                >
+                  {deactivatingId === activation.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    Deactivate Terminal?
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to deactivate &quot;
+                    {activation.terminalName || "Unnamed Terminal"}
+                    &quot;? This will free up 1 license slot. The
+                    terminal will need to be reactivated to use it
+                    again.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => handleDeactivate(activation.id)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Deactivate
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="max-w-5xl mx-auto py-8 px-4">
@@ -255,67 +492,136 @@ export default function TerminalsPage() {
           </p>
         </div>
 
-        {/* Cleanup Button */}
-        {staleInfo && staleInfo.staleCount > 0 && (
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="outline" disabled={cleaningUp}>
-                {cleaningUp ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Trash2 className="h-4 w-4 mr-2" />
-                )}
-                Cleanup Stale ({staleInfo.staleCount})
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Cleanup Stale Terminals?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will remove {staleInfo.staleCount} stale terminal(s) that
-                  are either inactive or haven&apos;t connected in over 24
-                  hours. This will free up {staleInfo.staleCount} license
-                  slot(s).
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={handleCleanup}>
-                  Cleanup Terminals
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        )}
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/terminals/config">
+              <Settings2 className="h-4 w-4 mr-2" />
+              Configuration
+            </Link>
+          </Button>
+
+          {/* Cleanup Button */}
+          {staleInfo && staleInfo.staleCount > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={cleaningUp}>
+                  {cleaningUp ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  Cleanup Stale ({staleInfo.staleCount})
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cleanup Stale Terminals?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This will remove {staleInfo.staleCount} stale terminal(s) that
+                    are either inactive or haven&apos;t connected in over 24
+                    hours. This will free up {staleInfo.staleCount} license
+                    slot(s).
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleCleanup}>
+                    Cleanup Terminals
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
       </div>
 
+      <PendingTransfersCard onResolved={fetchTerminals} />
+
       {licenseKeyInfo && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <Terminal className="h-5 w-5" />
               License Information
             </CardTitle>
+            <LocationDialog freeSeats={mainFreeSeats} onSaved={fetchTerminals} />
           </CardHeader>
           <CardContent>
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">
-                  License Key:
-                </span>
-                <code className="text-sm font-mono bg-muted px-2 py-1 rounded">
-                  {licenseKeyInfo.licenseKey}
-                </code>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">
-                  Terminals:
-                </span>
-                <span className="text-sm font-medium">
-                  {licenseKeyInfo.activationCount} /{" "}
-                  {licenseKeyInfo.maxTerminals} activated
-                </span>
-              </div>
+            <div className="space-y-4">
+              {pools.map((pool) => (
+                <div
+                  key={pool.licenseKey}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium flex items-center gap-1">
+                      {pool.id && <MapPin className="h-3 w-3" />}
+                      {pool.name ||
+                        (hasLocations ? "Unassigned" : "License Key")}
+                    </p>
+                    <code className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                      {pool.licenseKey}
+                    </code>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {pool.activationCount} / {pool.maxTerminals} activated
+                    </span>
+                    {pool.id && (
+                      <>
+                        <LocationDialog
+                          location={{
+                            id: pool.id,
+                            name: pool.name || "",
+                            address: pool.address,
+                            maxTerminals: pool.maxTerminals,
+                          }}
+                          freeSeats={mainFreeSeats}
+                          onSaved={fetchTerminals}
+                        />
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              aria-label="Remove location"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              disabled={removingLocationId === pool.id}
+                            >
+                              {removingLocationId === pool.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Remove Location?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The license key for &quot;{pool.name}&quot;
+                                will stop working and its{" "}
+                                {pool.maxTerminals} terminal seat(s) return to
+                                your unassigned seats. Deactivate its terminals
+                                first.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleRemoveLocation(pool.id!)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Remove
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -340,172 +646,42 @@ export default function TerminalsPage() {
                 application.
               </p>
             </div>
-          ) : (
-            <div className="space-y-4">
-              {activations.map((activation) => (
-                <div
-                  key={activation.id}
-                  className={`border rounded-lg p-4 space-y-3 transition-colors ${
-                    isStale(activation)
-                      ? "bg-muted/30 border-dashed"
-                      : "hover:bg-muted/50"
-                  }`}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-2">
-                        <Terminal className="h-5 w-5 text-muted-foreground" />
-                        <h3 className="font-semibold">
-                          {activation.terminalName || "Unnamed Terminal"}
-                        </h3>
-                        {getStatusBadge(
-                          activation.isActive,
-                          activation.lastHeartbeat,
-                          activation.isLiveConnected
-                        )}
-                        {isStale(activation) && activation.isActive && (
-                          <Badge
-                            variant="outline"
-                            className="text-orange-600 border-orange-300"
-                          >
-                            Stale
-                          </Badge>
-                        )}
-                      </div>
-
-                      <div className="grid grid-cols-2 gap-4 text-sm">
-                        <div>
-                          <p className="text-muted-foreground">
-                            First Activated
-                          </p>
-                          <p className="font-medium">
-                            {format(
-                              new Date(activation.firstActivation),
-                              "MMM dd, yyyy HH:mm"
-                            )}
-                          </p>
-                        </div>
-                        {activation.lastHeartbeat && (
-                          <div>
-                            <p className="text-muted-foreground">
-                              Last Heartbeat
-                            </p>
-                            <p className="font-medium">
-                              {format(
-                                new Date(activation.lastHeartbeat),
-                                "MMM dd, yyyy HH:mm"
-                              )}
-                            </p>
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Technical Details - Collapsed by default */}
-                      <details className="mt-4 group">
-                        <summary className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
-                          <svg
-                            className="h-4 w-4 transition-transform group-open:rotate-90"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M9 5l7 7-7 7"
-                            />
-                          </svg>
-                          Technical Details
-                        </summary>
-                        <div className="mt-3 ml-6 grid grid-cols-2 gap-4 text-sm">
-                          <div>
-                            <p className="text-muted-foreground">Machine ID</p>
-                            <p className="font-mono text-xs break-all opacity-70">
-                              {activation.machineIdHash?.substring(0, 16)}...
-                            </p>
-                          </div>
-                          {activation.ipAddress && (
-                            <div>
-                              <p className="text-muted-foreground">
-                                IP Address
-                              </p>
-                              <p className="font-mono text-xs opacity-70">
-                                {activation.ipAddress}
-                              </p>
-                            </div>
-                          )}
-                          {activation.location &&
-                            (activation.location.city ||
-                              activation.location.country) && (
-                              <div>
-                                <p className="text-muted-foreground flex items-center gap-1">
-                                  <MapPin className="h-3 w-3" />
-                                  Location
-                                </p>
-                                <p className="text-xs opacity-70">
-                                  {activation.location.city &&
-                                  activation.location.country
-                                    ? `${activation.location.city}, ${activation.location.country}`
-                                    : activation.location.country ||
-                                      activation.location.city ||
-                                      "Unknown"}
-                                </p>
-                              </div>
-                            )}
-                        </div>
-                      </details>
-                    </div>
-
-                    {/* Deactivate Button */}
-                    {activation.isActive && (
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                            disabled={deactivatingId === activation.id}
-                          >
-                            {deactivatingId === activation.id ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>
-                              Deactivate Terminal?
-                            </AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to deactivate &quot;
-                              {activation.terminalName || "Unnamed Terminal"}
-                              &quot;? This will free up 1 license slot. The
-                              terminal will need to be reactivated to use it
-                              again.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => handleDeactivate(activation.id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Deactivate
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    )}
+          ) : hasLocations ? (
+            <div className="space-y-8">
+              {pools.map((pool) => {
+                const poolActivations = activations.filter(
+                  (a) => a.locationId === pool.id
+                );
+                if (poolActivations.length === 0) return null;
+
+                return (
+                  <div key={pool.licenseKey} className="space-y-4">
+                    <h3 className="font-semibold flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      {pool.name || "Unassigned"}
+                      <span className="text-sm font-normal text-muted-foreground">
+                        {pool.activationCount} / {pool.maxTerminals}
+                      </span>
+                    </h3>
+                    {poolActivations.map(renderActivation)}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
+          ) : (
+            <div className="space-y-4">{activations.map(renderActivation)}</div>
           )}
         </CardContent>
       </Card>
+
+      {licenseKeyInfo && (
+        <OfflineActivationCard
+          onComplete={() => {
+            fetchTerminals();
+            fetchStaleInfo();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -6,6 +6,7 @@ import Link from "next/link";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
@@ -18,8 +19,15 @@ import {
 import { AlertCircle, ArrowRight } from "lucide-react";
 import { PlanCard } from "@/components/pricing/plan-card";
 import { PricingStructuredData } from "@/components/pricing/structured-data";
+import { CurrencySelector } from "@/components/pricing/currency-selector";
 import { type PlanId, type BillingCycle, type Plan } from "@/lib/stripe/plans";
 import { calculateAnnualSavings } from "@/lib/stripe/plan-utils";
+import {
+  DEFAULT_CURRENCY,
+  formatCurrencyAmount,
+  normalizeCurrency,
+  type Currency,
+} from "@/lib/stripe/currency";
 import { useSession } from "next-auth/react";
 
 function PricingPageContent() {
@@ -30,6 +38,14 @@ function PricingPageContent() {
     {} as Record<PlanId, Plan>
   );
   const [plansLoading, setPlansLoading] = useState(true);
+  // Currency asked for (URL or selector); without one the server picks it
+  // from the customer's billing country
+  const [requestedCurrency, setRequestedCurrency] = useState<Currency | null>(
+    () => normalizeCurrency(searchParams?.get("currency"))
+  );
+  // Currency the loaded plans are priced in
+  const [currency, setCurrency] = useState<Currency | null>(null);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
   const [formData, setFormData] = useState<{
     planId: PlanId | null;
     billingCycle: BillingCycle;
@@ -39,6 +55,15 @@ function PricingPageContent() {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<{
+    code: string;
+    description: string;
+    discountAmount: number;
+    discountedPrice: number;
+  } | null>(null);
+  const [promoError, setPromoError] = useState("");
+  const [promoLoading, setPromoLoading] = useState(false);
 
   // Handle query parameters from URL (from home page pricing section)
   useEffect(() => {
@@ -63,7 +88,11 @@ function PricingPageContent() {
     async function fetchPlans(retries = 3, delay = 1000) {
       for (let attempt = 0; attempt < retries; attempt++) {
         try {
-          const response = await fetch("/api/subscriptions/plans");
+          const response = await fetch(
+            requestedCurrency
+              ? `/api/subscriptions/plans?currency=${requestedCurrency}`
+              : "/api/subscriptions/plans"
+          );
           
           if (!response.ok) {
             throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -85,6 +114,8 @@ function PricingPageContent() {
           }
           
           setPlans(data.plans);
+          setCurrency(data.currency || DEFAULT_CURRENCY);
+          setCurrencies(data.currencies || []);
           setError("");
           setPlansLoading(false); // Mark loading as complete on success
           return;
@@ -105,11 +136,21 @@ function PricingPageContent() {
     }
     
     fetchPlans();
-  }, []);
+  }, [requestedCurrency]);
+
+  // Prices (and fixed-amount discounts) differ per currency
+  const handleCurrencyChange = (nextCurrency: Currency) => {
+    setRequestedCurrency(nextCurrency);
+    setAppliedPromo(null);
+    setPromoError("");
+  };
 
   // Handle plan selection with billing cycle
   const handlePlanSelect = (planId: PlanId, billingCycle: BillingCycle) => {
     setFormData({ ...formData, planId, billingCycle });
+    // Discounts are priced per plan, so re-apply after changing selection
+    setAppliedPromo(null);
+    setPromoError("");
     
     // Track selection event (if analytics is available)
     if (typeof window !== "undefined" && (window as any).gtag) {
@@ -124,6 +165,49 @@ function PricingPageContent() {
     }
   };
 
+  // Validate promotion code and price it against the selected plan
+  const handleApplyPromo = async () => {
+    if (!formData.planId || !promoInput.trim()) return;
+
+    setPromoLoading(true);
+    setPromoError("");
+
+    try {
+      const response = await fetch(
+        "/api/subscriptions/promotion-codes/validate",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            code: promoInput.trim(),
+            planId: formData.planId,
+            billingCycle: formData.billingCycle,
+            currency: plans[formData.planId]?.currency,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setAppliedPromo(null);
+        setPromoError(data.error || "Invalid promotion code");
+        return;
+      }
+
+      setAppliedPromo({
+        code: data.promotionCode.code,
+        description: data.promotionCode.description,
+        discountAmount: data.discountAmount,
+        discountedPrice: data.discountedPrice,
+      });
+    } catch {
+      setPromoError("Failed to apply promotion code");
+    } finally {
+      setPromoLoading(false);
+    }
+  };
+
   // Handle checkout with validation
   const handleCheckout = async () => {
     // Validate plan selection
@@ -151,7 +235,14 @@ function PricingPageContent() {
 
     // If user is not logged in, redirect to signup with plan selected
     if (status === "unauthenticated") {
-      router.push(`/signup?step=plan&plan=${formData.planId}`);
+      const promoParam = appliedPromo
+        ? `&promo=${encodeURIComponent(appliedPromo.code)}`
+        : "";
+      router.push(
+        `/signup?step=plan&plan=${formData.planId}&currency=${
+          plans[formData.planId].currency
+        }${promoParam}`
+      );
       return;
     }
 
@@ -166,6 +257,8 @@ function PricingPageContent() {
         body: JSON.stringify({
           planId: formData.planId,
           billingCycle: formData.billingCycle,
+          currency: plans[formData.planId].currency,
+          promotionCode: appliedPromo?.code,
         }),
       });
 
@@ -183,7 +276,9 @@ function PricingPageContent() {
           (window as any).gtag("event", "begin_checkout", {
             plan_id: formData.planId,
             billing_cycle: formData.billingCycle,
-            value: price,
+            value: appliedPromo ? appliedPromo.discountedPrice : price,
+            currency: plans[formData.planId].currency.toUpperCase(),
+            coupon: appliedPromo?.code,
           });
         }
         
@@ -203,6 +298,7 @@ function PricingPageContent() {
       : plan.priceAnnual
     : 0;
   const savings = plan ? calculateAnnualSavings(plan) : 0;
+  const planCurrency = plan?.currency || currency || DEFAULT_CURRENCY;
 
   return (
     <div className="min-h-screen">
@@ -223,6 +319,16 @@ function PricingPageContent() {
             <p className="text-muted-foreground text-lg">
               Select the plan that best fits your business needs
             </p>
+            {currency && (
+              <div className="mt-4">
+                <CurrencySelector
+                  currency={currency}
+                  currencies={currencies}
+                  onCurrencyChange={handleCurrencyChange}
+                  disabled={plansLoading}
+                />
+              </div>
+            )}
           </div>
 
           {error && (
@@ -321,13 +427,63 @@ function PricingPageContent() {
                     <span className="text-lg font-semibold">
                       Annual Savings:
                     </span>
-                    <span className="text-lg font-bold">${savings}</span>
+                    <span className="text-lg font-bold">
+                      {formatCurrencyAmount(savings, planCurrency)}
+                    </span>
+                  </div>
+                )}
+                {appliedPromo && (
+                  <div className="flex justify-between items-center text-green-600 dark:text-green-400">
+                    <span className="text-lg font-semibold">
+                      {appliedPromo.code}:
+                    </span>
+                    <span className="text-lg font-bold">
+                      -
+                      {formatCurrencyAmount(
+                        appliedPromo.discountAmount,
+                        planCurrency
+                      )}
+                    </span>
                   </div>
                 )}
                 <div className="border-t border-border/50 pt-4 flex justify-between items-center">
                   <span className="text-xl font-bold">Total:</span>
-                  <span className="text-2xl font-bold">${price}</span>
+                  <span className="text-2xl font-bold">
+                    {formatCurrencyAmount(
+                      appliedPromo ? appliedPromo.discountedPrice : price,
+                      planCurrency
+                    )}
+                  </span>
                 </div>
+                {appliedPromo && (
+                  <p className="text-sm text-muted-foreground">
+                    {appliedPromo.description}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Promotion code"
+                    value={promoInput}
+                    onChange={(e) => {
+                      setPromoInput(e.target.value);
+                      setAppliedPromo(null);
+                      setPromoError("");
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyPromo}
+                    disabled={promoLoading || !promoInput.trim()}
+                  >
+                    {promoLoading ? "Applying..." : "Apply"}
+                  </Button>
+                </div>
+                {promoError && (
+                  <p className="text-sm text-destructive">{promoError}</p>
+                )}
               </div>
 
               <div className="flex flex-col gap-3">
@@ -28,6 +28,10 @@ import {
 import { PlanCard } from "@/components/pricing/plan-card";
 import { BillingToggle } from "@/components/pricing/billing-toggle";
 import { type PlanId, type BillingCycle, type Plan } from "@/lib/stripe/plans";
+import {
+  formatCurrencyAmount,
+  normalizeCurrency,
+} from "@/lib/stripe/currency";
 import { VerificationPending } from "@/components/auth/verification-pending";
 
 // Helper function to calculate annual savings
@@ -56,6 +60,7 @@ function SignupPageContent() {
     agreeToTerms: false,
   });
   const [verifiedEmail, setVerifiedEmail] = useState("");
+  const [promotionCode, setPromotionCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [showVerificationSuccess, setShowVerificationSuccess] = useState(false);
@@ -66,7 +71,13 @@ function SignupPageContent() {
   useEffect(() => {
     async function fetchPlans() {
       try {
-        const response = await fetch("/api/subscriptions/plans");
+        // Keep the currency chosen on the pricing page
+        const currency = normalizeCurrency(searchParams?.get("currency"));
+        const response = await fetch(
+          currency
+            ? `/api/subscriptions/plans?currency=${currency}`
+            : "/api/subscriptions/plans"
+        );
         const data = await response.json();
         if (data.plans) {
           setPlans(data.plans);
@@ -79,9 +90,15 @@ function SignupPageContent() {
       }
     }
     fetchPlans();
-  }, []);
+  }, [searchParams]);
 
   useEffect(() => {
+    // Carry a promotion code applied on the pricing page through to checkout
+    const promo = searchParams?.get("promo");
+    if (promo) {
+      setPromotionCode(promo);
+    }
+
     // Check if user was redirected from canceled checkout
     const canceled = searchParams?.get("canceled");
     const plan = searchParams?.get("plan") as PlanId | null;
@@ -170,7 +187,9 @@ function SignupPageContent() {
         body: JSON.stringify({
           planId: formData.planId,
           billingCycle: formData.billingCycle,
+          currency: plans[formData.planId]?.currency,
           email: verifiedEmail || formData.email, // Pass email for unauthenticated checkout
+          promotionCode: promotionCode || undefined,
         }),
       });
 
@@ -531,12 +550,16 @@ function SignupPageContent() {
               {formData.billingCycle === "annual" && savings > 0 && (
                 <div className="flex justify-between items-center text-green-600 dark:text-green-400">
                   <span className="text-lg font-semibold">Annual Savings:</span>
-                  <span className="text-lg font-bold">${savings}</span>
+                  <span className="text-lg font-bold">
+                    {formatCurrencyAmount(savings, plan.currency)}
+                  </span>
                 </div>
               )}
               <div className="border-t border-border/50 pt-4 flex justify-between items-center">
                 <span className="text-xl font-bold">Total:</span>
-                <span className="text-2xl font-bold">${price}</span>
+                <span className="text-2xl font-bold">
+                  {formatCurrencyAmount(price, plan.currency)}
+                </span>
               </div>
             </div>
 
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CURRENCY_LABELS,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  type Currency,
+} from "@/lib/stripe/currency";
+
+type DiscountType = "percent" | "amount";
+type Duration = "once" | "repeating" | "forever";
+
+export function CreatePromotionCodeDialog() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState("");
+  const [currency, setCurrency] = useState<Currency>(DEFAULT_CURRENCY);
+  const [duration, setDuration] = useState<Duration>("once");
+  const [durationInMonths, setDurationInMonths] = useState(3);
+  const [maxRedemptions, setMaxRedemptions] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setCode("");
+      setDescription("");
+      setDiscountType("percent");
+      setDiscountValue("");
+      setCurrency(DEFAULT_CURRENCY);
+      setDuration("once");
+      setDurationInMonths(3);
+      setMaxRedemptions("");
+      setExpiresAt("");
+      setError(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/promotion-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code,
+          description,
+          percentOff: discountType === "percent" ? discountValue : null,
+          amountOff: discountType === "amount" ? discountValue : null,
+          currency,
+          duration,
+          durationInMonths: duration === "repeating" ? durationInMonths : null,
+          maxRedemptions: maxRedemptions || null,
+          expiresAt: expiresAt || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create promotion code");
+      }
+
+      handleOpenChange(false);
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to create promotion code"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canSubmit = !!code.trim() && Number(discountValue) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          Create Code
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create Promotion Code</DialogTitle>
+          <DialogDescription>
+            The code is created in Stripe and can be entered on the pricing
+            page, at checkout and when changing plans.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-code">Code</Label>
+              <Input
+                id="promotion-code"
+                placeholder="e.g. SPRING20"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-description">
+                Description (optional)
+              </Label>
+              <Input
+                id="promotion-description"
+                placeholder="e.g. Trade show offer"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Discount type</Label>
+              <Select
+                value={discountType}
+                onValueChange={(value) =>
+                  setDiscountType(value as DiscountType)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percent off</SelectItem>
+                  <SelectItem value="amount">Amount off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-value">
+                {discountType === "percent" ? "Percent" : "Amount"}
+              </Label>
+              <Input
+                id="promotion-value"
+                type="number"
+                min={0}
+                step={discountType === "percent" ? 1 : 0.01}
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+          </div>
+          {discountType === "amount" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={currency}
+                  onValueChange={(value) => setCurrency(value as Currency)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {CURRENCY_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Only applies to prices in this currency
+                </p>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select
+                value={duration}
+                onValueChange={(value) => setDuration(value as Duration)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="once">First invoice</SelectItem>
+                  <SelectItem value="repeating">Several months</SelectItem>
+                  <SelectItem value="forever">Forever</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {duration === "repeating" && (
+              <div className="space-y-2">
+                <Label htmlFor="promotion-months">Months</Label>
+                <Input
+                  id="promotion-months"
+                  type="number"
+                  min={1}
+                  value={durationInMonths}
+                  onChange={(e) => setDurationInMonths(Number(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-max-redemptions">
+                Max redemptions (optional)
+              </Label>
+              <Input
+                id="promotion-max-redemptions"
+                type="number"
+                min={1}
+                value={maxRedemptions}
+                onChange={(e) => setMaxRedemptions(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-expires">Expires (optional)</Label>
+              <Input
+                id="promotion-expires"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={loading || !canSubmit}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Code
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { DataTable, ColumnDef } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+import { RefundPaymentDialog } from "@/components/admin/refund-payment-dialog";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
+
+type CustomerPaymentRow = {
+  paymentId: string;
+  paymentType: string | null;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  status: string | null;
+  refundReason: string | null;
+  stripePaymentId: string | null;
+  createdAt: Date;
+};
+
+type CustomerPaymentsTableProps = {
+  customerId: string;
+  data: CustomerPaymentRow[];
+  canRefund: boolean;
+};
+
+export function CustomerPaymentsTable({
+  customerId,
+  data,
+  canRefund,
+}: CustomerPaymentsTableProps) {
+  const columns: ColumnDef<CustomerPaymentRow>[] = [
+    {
+      header: "Date",
+      accessorKey: "createdAt",
+      cell: (row) => (
+        <span className="text-muted-foreground">
+          {new Date(row.createdAt).toLocaleDateString()}
+        </span>
+      ),
+    },
+    {
+      header: "Payment",
+      accessorKey: "paymentType",
+      cell: (row) => (
+        <div>
+          <div className="capitalize">{row.paymentType || "payment"}</div>
+          {row.stripePaymentId && (
+            <div className="text-xs text-muted-foreground font-mono">
+              {row.stripePaymentId}
+            </div>
+          )}
+          {row.refundReason && (
+            <div className="text-xs text-muted-foreground">
+              {row.refundReason.replace(/_/g, " ")}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Amount",
+      accessorKey: "amount",
+      cell: (row) => (
+        <div>
+          <div className="text-foreground">
+            {formatCurrencyAmount(row.amount, row.currency)}
+          </div>
+          {row.refundedAmount > 0 && (
+            <div className="text-xs text-muted-foreground">
+              {formatCurrencyAmount(row.refundedAmount, row.currency)} refunded
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => {
+        const statusColors: Record<string, string> = {
+          completed:
+            "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+          partially_refunded:
+            "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+          refunded:
+            "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+          failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+        };
+        return (
+          <Badge
+            variant="outline"
+            className={statusColors[row.status || ""] || ""}
+          >
+            {(row.status || "unknown").replace(/_/g, " ")}
+          </Badge>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "Completed", value: "completed" },
+        { label: "Partially refunded", value: "partially_refunded" },
+        { label: "Refunded", value: "refunded" },
+        { label: "Failed", value: "failed" },
+      ],
+    },
+    {
+      header: "Actions",
+      cell: (row) => {
+        const refundable =
+          Math.round((row.amount - row.refundedAmount) * 100) / 100;
+        return canRefund &&
+          row.paymentType !== "refund" &&
+          (row.status === "completed" ||
+            row.status === "partially_refunded") &&
+          row.stripePaymentId &&
+          refundable > 0 ? (
+          <RefundPaymentDialog
+            customerId={customerId}
+            paymentId={row.paymentId}
+            refundableAmount={refundable}
+            currency={row.currency}
+          />
+        ) : null;
+      },
+    },
+  ];
+
+  return (
+    <DataTable
+      columns={columns}
+      data={data}
+      searchPlaceholder="Search by Stripe ID..."
+      searchKeys={["stripePaymentId"]}
+      pageSize={10}
+      emptyMessage="No payments yet"
+    />
+  );
+}
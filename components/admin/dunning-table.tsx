@@ -0,0 +1,134 @@
+"use client";
+
+import { DataTable, ColumnDef } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+
+type DunningRow = {
+  caseId: string;
+  stripeInvoiceId: string;
+  amountDue: number;
+  currency: string;
+  status: string;
+  startedAt: Date;
+  customerEmail: string;
+  companyName: string | null;
+  planId: string | null;
+  completedSteps: string[];
+  failedSteps: string[];
+  nextStep: { step: string; dueAt: Date } | null;
+  suspendsAt: Date;
+};
+
+type DunningTableProps = {
+  data: DunningRow[];
+};
+
+function formatStep(step: string): string {
+  return step.replace(/_/g, " ");
+}
+
+export function DunningTable({ data }: DunningTableProps) {
+  const columns: ColumnDef<DunningRow>[] = [
+    {
+      header: "Customer",
+      accessorKey: "customerEmail",
+      cell: (row) => (
+        <div>
+          <div className="font-medium text-foreground">
+            {row.companyName || row.customerEmail}
+          </div>
+          {row.companyName && (
+            <div className="text-xs text-muted-foreground">
+              {row.customerEmail}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Amount Due",
+      accessorKey: "amountDue",
+      cell: (row) => (
+        <div>
+          <div className="font-medium text-foreground">
+            {row.amountDue.toFixed(2)} {row.currency.toUpperCase()}
+          </div>
+          <code className="text-xs text-muted-foreground">
+            {row.stripeInvoiceId}
+          </code>
+        </div>
+      ),
+    },
+    {
+      header: "Failed Since",
+      accessorKey: "startedAt",
+      cell: (row) => (
+        <span className="text-muted-foreground">
+          {new Date(row.startedAt).toLocaleDateString()}
+        </span>
+      ),
+    },
+    {
+      header: "Progress",
+      cell: (row) => (
+        <div className="text-xs space-y-1">
+          {row.completedSteps.length > 0 && (
+            <div className="text-muted-foreground capitalize">
+              Done: {row.completedSteps.map(formatStep).join(", ")}
+            </div>
+          )}
+          {row.failedSteps.length > 0 && (
+            <div className="text-destructive capitalize">
+              Failed: {row.failedSteps.map(formatStep).join(", ")}
+            </div>
+          )}
+          {row.nextStep && (
+            <div className="text-foreground capitalize">
+              Next: {formatStep(row.nextStep.step)} (
+              {new Date(row.nextStep.dueAt).toLocaleDateString()})
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => {
+        const statusColors: Record<string, string> = {
+          active:
+            "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+          suspended: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+        };
+        return (
+          <div>
+            <Badge variant="outline" className={statusColors[row.status] || ""}>
+              {row.status === "active" ? "in dunning" : row.status}
+            </Badge>
+            {row.status === "active" && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Suspends {new Date(row.suspendsAt).toLocaleDateString()}
+              </div>
+            )}
+          </div>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "In Dunning", value: "active" },
+        { label: "Suspended", value: "suspended" },
+      ],
+    },
+  ];
+
+  return (
+    <DataTable
+      columns={columns}
+      data={data}
+      searchPlaceholder="Search by customer or invoice..."
+      searchKeys={["customerEmail", "companyName", "stripeInvoiceId"]}
+      pageSize={10}
+      emptyMessage="No customers in dunning"
+    />
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  EntitlementDefinition,
+  EntitlementKey,
+  EntitlementOverrides,
+  Entitlements,
+} from "@/lib/license/entitlements";
+
+// Definitions are passed in from the server page; the entitlements module
+// itself talks to the database so it can't be bundled client-side
+type EntitlementsEditorProps = {
+  customerId: string;
+  planId: string;
+  definitions: Record<EntitlementKey, EntitlementDefinition>;
+  defaults: Entitlements;
+  overrides: EntitlementOverrides;
+};
+
+// Form value per key: "default" (no override), "on"/"off", or a number string
+type OverrideValue = string;
+
+function toFormValues(
+  keys: EntitlementKey[],
+  overrides: EntitlementOverrides
+): Record<EntitlementKey, OverrideValue> {
+  const values = {} as Record<EntitlementKey, OverrideValue>;
+  for (const key of keys) {
+    const value = overrides[key];
+    if (value === undefined) {
+      values[key] = "default";
+    } else if (typeof value === "boolean") {
+      values[key] = value ? "on" : "off";
+    } else {
+      values[key] = String(value);
+    }
+  }
+  return values;
+}
+
+function toOverrides(
+  definitions: Record<EntitlementKey, EntitlementDefinition>,
+  values: Record<EntitlementKey, OverrideValue>
+): Record<string, boolean | number> {
+  const overrides: Record<string, boolean | number> = {};
+  for (const key of Object.keys(definitions) as EntitlementKey[]) {
+    const value = values[key];
+    if (value === "default" || value === "") continue;
+
+    if (definitions[key].type === "boolean") {
+      overrides[key] = value === "on";
+    } else {
+      overrides[key] = Number(value);
+    }
+  }
+  return overrides;
+}
+
+export function EntitlementsEditor({
+  customerId,
+  planId,
+  definitions,
+  defaults,
+  overrides,
+}: EntitlementsEditorProps) {
+  const router = useRouter();
+  const keys = Object.keys(definitions) as EntitlementKey[];
+  const [values, setValues] = useState(() => toFormValues(keys, overrides));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const setValue = (key: EntitlementKey, value: OverrideValue) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/entitlements`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            overrides: toOverrides(definitions, values),
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update entitlements");
+      }
+
+      setSaved(true);
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update entitlements"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Defaults come from the{" "}
+        <span className="font-medium capitalize">{planId}</span> plan.
+        Overrides apply to every license key this customer owns.
+      </p>
+
+      <div className="divide-y rounded-md border">
+        {keys.map((key) => {
+          const definition = definitions[key];
+          const defaultValue = defaults[key];
+          const isOverridden = values[key] !== "default";
+
+          return (
+            <div
+              key={key}
+              className="flex items-center justify-between gap-4 p-3"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">
+                    {definition.label}
+                  </span>
+                  {isOverridden && (
+                    <Badge className="bg-yellow-100 text-yellow-800">
+                      Override
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {definition.description} · Plan default:{" "}
+                  {typeof defaultValue === "boolean"
+                    ? defaultValue
+                      ? "On"
+                      : "Off"
+                    : defaultValue}
+                </p>
+              </div>
+
+              {definition.type === "boolean" ? (
+                <Select
+                  value={values[key]}
+                  onValueChange={(value) => setValue(key, value)}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default</SelectItem>
+                    <SelectItem value="on">On</SelectItem>
+                    <SelectItem value="off">Off</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-32"
+                  placeholder={String(defaultValue)}
+                  value={values[key] === "default" ? "" : values[key]}
+                  onChange={(e) =>
+                    setValue(
+                      key,
+                      e.target.value === "" ? "default" : e.target.value
+                    )
+                  }
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {saved && (
+        <p className="text-sm text-green-600">Entitlements updated.</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setValues(toFormValues(keys, {}))}
+          disabled={loading}
+        >
+          Reset to Plan Defaults
+        </Button>
+        <Button onClick={handleSave} disabled={loading}>
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
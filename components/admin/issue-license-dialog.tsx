@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+type CustomerOption = {
+  id: string;
+  email: string;
+  companyName: string | null;
+};
+
+type IssueLicenseDialogProps = {
+  customers: CustomerOption[];
+};
+
+type StandaloneLicenseType = "perpetual" | "fixed_term";
+
+export function IssueLicenseDialog({ customers }: IssueLicenseDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [customerId, setCustomerId] = useState("");
+  const [planId, setPlanId] = useState("basic");
+  const [licenseType, setLicenseType] =
+    useState<StandaloneLicenseType>("perpetual");
+  const [maxTerminals, setMaxTerminals] = useState(1);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [updatesUntil, setUpdatesUntil] = useState("");
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newLicenseKey, setNewLicenseKey] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setCustomerId("");
+      setPlanId("basic");
+      setLicenseType("perpetual");
+      setMaxTerminals(1);
+      setExpiresAt("");
+      setUpdatesUntil("");
+      setNotes("");
+      setError(null);
+      setNewLicenseKey(null);
+    }
+  };
+
+  const handleIssue = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/licenses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId,
+          planId,
+          licenseType,
+          maxTerminals,
+          expiresAt: licenseType === "fixed_term" ? expiresAt : null,
+          updatesUntil: updatesUntil || null,
+          notes,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to issue license");
+      }
+
+      setNewLicenseKey(data.license.licenseKey);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue license");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canSubmit =
+    !!customerId &&
+    maxTerminals >= 1 &&
+    (licenseType === "perpetual" || !!expiresAt);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          Issue License
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Issue License</DialogTitle>
+          <DialogDescription>
+            Perpetual and fixed-term licenses are not tied to a subscription.
+            Perpetual licenses never expire; fixed-term licenses stop working
+            on their expiry date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {newLicenseKey ? (
+          <div className="space-y-2 py-4">
+            <Label>New license key</Label>
+            <code className="block text-sm font-mono bg-muted px-3 py-2 rounded">
+              {newLicenseKey}
+            </code>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.companyName
+                        ? `${customer.companyName} (${customer.email})`
+                        : customer.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>License type</Label>
+                <Select
+                  value={licenseType}
+                  onValueChange={(value) =>
+                    setLicenseType(value as StandaloneLicenseType)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="perpetual">Perpetual</SelectItem>
+                    <SelectItem value="fixed_term">Fixed term</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Plan</Label>
+                <Select value={planId} onValueChange={setPlanId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="basic">Basic</SelectItem>
+                    <SelectItem value="professional">Professional</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="issue-license-terminals">Terminals</Label>
+                <Input
+                  id="issue-license-terminals"
+                  type="number"
+                  min={1}
+                  value={maxTerminals}
+                  onChange={(e) => setMaxTerminals(Number(e.target.value))}
+                />
+              </div>
+              {licenseType === "fixed_term" && (
+                <div className="space-y-2">
+                  <Label htmlFor="issue-license-expires">Expires</Label>
+                  <Input
+                    id="issue-license-expires"
+                    type="date"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-license-updates">
+                Updates until (optional)
+              </Label>
+              <Input
+                id="issue-license-updates"
+                type="date"
+                value={updatesUntil}
+                onChange={(e) => setUpdatesUntil(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Releases published after this date can&apos;t be installed.
+                Leave empty to allow all updates.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-license-notes">Notes</Label>
+              <Textarea
+                id="issue-license-notes"
+                placeholder="e.g. Christmas market pop-up, invoice #1234"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {newLicenseKey ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleIssue} disabled={loading || !canSubmit}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Issue License
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { DataTable, ColumnDef } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+import { ReviewSharingDialog } from "@/components/admin/review-sharing-dialog";
+
+type LicenseSharingRow = {
+  findingId: string;
+  licenseKey: string | null;
+  signal: string;
+  description: string;
+  evidence: string[];
+  severity: string;
+  status: string;
+  resolutionNotes: string | null;
+  firstDetectedAt: Date;
+  lastDetectedAt: Date;
+  customerEmail: string | null;
+  companyName: string | null;
+};
+
+type LicenseSharingTableProps = {
+  data: LicenseSharingRow[];
+};
+
+export function LicenseSharingTable({ data }: LicenseSharingTableProps) {
+  const columns: ColumnDef<LicenseSharingRow>[] = [
+    {
+      header: "Signal",
+      accessorKey: "signal",
+      cell: (row) => (
+        <div className="max-w-xs">
+          <div className="font-medium text-foreground capitalize">
+            {row.signal.replace(/_/g, " ")}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {row.description}
+          </div>
+        </div>
+      ),
+      filterable: true,
+      filterOptions: [
+        { label: "Impossible Travel", value: "impossible_travel" },
+        { label: "Rapid Rebinds", value: "rapid_rebinds" },
+        { label: "Shared Machine", value: "shared_machine" },
+      ],
+    },
+    {
+      header: "License / Customer",
+      cell: (row) => (
+        <div>
+          <code className="text-xs font-mono">
+            {row.licenseKey || "Multiple keys"}
+          </code>
+          {row.licenseKey && (
+            <div className="text-xs text-muted-foreground">
+              {row.companyName || row.customerEmail || "N/A"}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Severity",
+      accessorKey: "severity",
+      cell: (row) => {
+        const severityColors: Record<string, string> = {
+          critical: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+          high: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+          medium:
+            "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+        };
+        return (
+          <Badge
+            variant="outline"
+            className={severityColors[row.severity] || ""}
+          >
+            {row.severity}
+          </Badge>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "Critical", value: "critical" },
+        { label: "High", value: "high" },
+        { label: "Medium", value: "medium" },
+      ],
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => {
+        const statusColors: Record<string, string> = {
+          active: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+          confirmed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+          dismissed:
+            "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+        };
+        return (
+          <div>
+            <Badge variant="outline" className={statusColors[row.status] || ""}>
+              {row.status === "active" ? "needs review" : row.status}
+            </Badge>
+            {row.resolutionNotes && (
+              <div className="text-xs text-muted-foreground mt-1 max-w-xs truncate">
+                {row.resolutionNotes}
+              </div>
+            )}
+          </div>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "Needs Review", value: "active" },
+        { label: "Confirmed", value: "confirmed" },
+        { label: "Dismissed", value: "dismissed" },
+      ],
+    },
+    {
+      header: "Last Detected",
+      accessorKey: "lastDetectedAt",
+      cell: (row) => (
+        <span className="text-muted-foreground">
+          {new Date(row.lastDetectedAt).toLocaleString()}
+        </span>
+      ),
+    },
+    {
+      header: "Actions",
+      cell: (row) =>
+        row.status === "active" ? (
+          <ReviewSharingDialog
+            findingId={row.findingId}
+            description={row.description}
+            evidence={row.evidence}
+          />
+        ) : null,
+    },
+  ];
+
+  return (
+    <DataTable
+      columns={columns}
+      data={data}
+      searchPlaceholder="Search by license key or customer..."
+      searchKeys={["licenseKey", "customerEmail", "companyName", "description"]}
+      pageSize={10}
+      emptyMessage="No license sharing findings"
+    />
+  );
+}
@@ -2,21 +2,32 @@
 
 import { DataTable, ColumnDef } from "@/components/admin/data-table";
 import { Badge } from "@/components/ui/badge";
+import { RotateLicenseDialog } from "@/components/admin/rotate-license-dialog";
+import { TerminalCommandsDialog } from "@/components/admin/terminal-commands-dialog";
 
 type LicenseRow = {
   licenseId: string;
   licenseKey: string;
+  licenseType: string;
   maxTerminals: number | null;
   activationCount: number | null;
   isActive: boolean | null;
   issuedAt: Date | null;
   expiresAt: Date | null;
+  updatesUntil: Date | null;
   revokedAt: Date | null;
+  replacedByKey: string | null;
   customerEmail: string | null;
   companyName: string | null;
   subscriptionStatus: string | null;
 };
 
+const licenseTypeLabels: Record<string, string> = {
+  subscription: "Subscription",
+  perpetual: "Perpetual",
+  fixed_term: "Fixed term",
+};
+
 type LicensesTableProps = {
   data: LicenseRow[];
 };
@@ -58,6 +69,16 @@ export function LicensesTable({ data }: LicensesTableProps) {
             </Badge>
           );
         }
+        if (row.replacedByKey) {
+          return (
+            <Badge
+              variant="outline"
+              className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+            >
+              Rotated
+            </Badge>
+          );
+        }
         if (row.isActive) {
           return (
             <Badge
@@ -84,6 +105,33 @@ export function LicensesTable({ data }: LicensesTableProps) {
         { label: "Revoked", value: "revoked" },
       ],
     },
+    {
+      header: "Type",
+      accessorKey: "licenseType",
+      cell: (row) => (
+        <div>
+          <div className="text-foreground">
+            {licenseTypeLabels[row.licenseType] || row.licenseType}
+          </div>
+          {row.expiresAt && row.licenseType !== "perpetual" && (
+            <div className="text-xs text-muted-foreground">
+              Expires {new Date(row.expiresAt).toLocaleDateString()}
+            </div>
+          )}
+          {row.updatesUntil && (
+            <div className="text-xs text-muted-foreground">
+              Updates until {new Date(row.updatesUntil).toLocaleDateString()}
+            </div>
+          )}
+        </div>
+      ),
+      filterable: true,
+      filterOptions: [
+        { label: "Subscription", value: "subscription" },
+        { label: "Perpetual", value: "perpetual" },
+        { label: "Fixed term", value: "fixed_term" },
+      ],
+    },
     {
       header: "Activations",
       cell: (row) => (
@@ -135,6 +183,22 @@ export function LicensesTable({ data }: LicensesTableProps) {
         </span>
       ),
     },
+    {
+      header: "Actions",
+      cell: (row) =>
+        row.isActive && !row.revokedAt ? (
+          <div className="flex items-center gap-2">
+            <RotateLicenseDialog
+              licenseId={row.licenseId}
+              licenseKey={row.licenseKey}
+            />
+            <TerminalCommandsDialog
+              licenseId={row.licenseId}
+              licenseKey={row.licenseKey}
+            />
+          </div>
+        ) : null,
+    },
   ];
 
   return (
@@ -0,0 +1,120 @@
+"use client";
+
+import { DataTable, ColumnDef } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+import { RetirePromotionCodeDialog } from "@/components/admin/retire-promotion-code-dialog";
+
+type PromotionCodeRow = {
+  promotionCodeId: string;
+  code: string;
+  description: string | null;
+  discount: string;
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+  status: string;
+  createdAt: Date;
+  createdByEmail: string | null;
+};
+
+type PromotionCodesTableProps = {
+  data: PromotionCodeRow[];
+};
+
+export function PromotionCodesTable({ data }: PromotionCodesTableProps) {
+  const columns: ColumnDef<PromotionCodeRow>[] = [
+    {
+      header: "Code",
+      accessorKey: "code",
+      cell: (row) => (
+        <div>
+          <code className="text-xs font-mono font-semibold">{row.code}</code>
+          {row.description && (
+            <div className="text-xs text-muted-foreground">
+              {row.description}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Discount",
+      accessorKey: "discount",
+      cell: (row) => <span className="text-foreground">{row.discount}</span>,
+    },
+    {
+      header: "Limits",
+      cell: (row) => (
+        <div className="text-xs text-muted-foreground">
+          <div>
+            {row.maxRedemptions
+              ? `${row.maxRedemptions} redemptions`
+              : "Unlimited redemptions"}
+          </div>
+          <div>
+            {row.expiresAt
+              ? `Expires ${new Date(row.expiresAt).toLocaleDateString()}`
+              : "No expiry"}
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => {
+        const statusColors: Record<string, string> = {
+          active:
+            "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+          expired:
+            "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+          retired:
+            "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+        };
+        return (
+          <Badge variant="outline" className={statusColors[row.status] || ""}>
+            {row.status}
+          </Badge>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "Active", value: "active" },
+        { label: "Expired", value: "expired" },
+        { label: "Retired", value: "retired" },
+      ],
+    },
+    {
+      header: "Created",
+      accessorKey: "createdAt",
+      cell: (row) => (
+        <div className="text-muted-foreground">
+          <div>{new Date(row.createdAt).toLocaleDateString()}</div>
+          {row.createdByEmail && (
+            <div className="text-xs">{row.createdByEmail}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Actions",
+      cell: (row) =>
+        row.status === "active" ? (
+          <RetirePromotionCodeDialog
+            promotionCodeId={row.promotionCodeId}
+            code={row.code}
+          />
+        ) : null,
+    },
+  ];
+
+  return (
+    <DataTable
+      columns={columns}
+      data={data}
+      searchPlaceholder="Search by code or description..."
+      searchKeys={["code", "description"]}
+      pageSize={10}
+      emptyMessage="No promotion codes yet"
+    />
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { DataTable, ColumnDef } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+import { ResolveDriftDialog } from "@/components/admin/resolve-drift-dialog";
+
+type DriftRow = {
+  id: string;
+  entityType: string;
+  stripeId: string;
+  driftType: string;
+  field: string | null;
+  localValue: string | null;
+  stripeValue: string | null;
+  status: string;
+  customerEmail: string | null;
+  companyName: string | null;
+  firstDetectedAt: Date;
+  lastDetectedAt: Date;
+  canAcceptStripe: boolean;
+};
+
+type ReconciliationDriftsTableProps = {
+  data: DriftRow[];
+};
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, " ");
+}
+
+export function ReconciliationDriftsTable({
+  data,
+}: ReconciliationDriftsTableProps) {
+  const columns: ColumnDef<DriftRow>[] = [
+    {
+      header: "Entity",
+      accessorKey: "stripeId",
+      cell: (row) => (
+        <div>
+          <div className="font-medium text-foreground capitalize">
+            {formatLabel(row.entityType)}
+          </div>
+          <code className="text-xs text-muted-foreground">{row.stripeId}</code>
+          {row.customerEmail && (
+            <div className="text-xs text-muted-foreground">
+              {row.companyName || row.customerEmail}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Drift",
+      accessorKey: "driftType",
+      cell: (row) => (
+        <div>
+          <div className="text-foreground capitalize">
+            {formatLabel(row.driftType)}
+          </div>
+          {row.field && (
+            <code className="text-xs text-muted-foreground">{row.field}</code>
+          )}
+        </div>
+      ),
+      filterable: true,
+      filterOptions: [
+        { label: "Missing Locally", value: "missing_local" },
+        { label: "Missing in Stripe", value: "missing_stripe" },
+        { label: "Status", value: "status_mismatch" },
+        { label: "Price", value: "price_mismatch" },
+        { label: "Field", value: "field_mismatch" },
+      ],
+    },
+    {
+      header: "Local / Stripe",
+      cell: (row) => (
+        <div className="text-xs space-y-1">
+          <div>
+            <span className="text-muted-foreground">Local: </span>
+            <code>{row.localValue ?? "—"}</code>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Stripe: </span>
+            <code>{row.stripeValue ?? "—"}</code>
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: "Last Detected",
+      accessorKey: "lastDetectedAt",
+      cell: (row) => (
+        <div className="text-muted-foreground">
+          <div>{new Date(row.lastDetectedAt).toLocaleString()}</div>
+          <div className="text-xs">
+            Since {new Date(row.firstDetectedAt).toLocaleDateString()}
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (row) => {
+        const statusColors: Record<string, string> = {
+          open: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+          auto_fixed:
+            "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+          accepted_stripe:
+            "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+          accepted_local:
+            "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+          resolved:
+            "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+        };
+        return (
+          <Badge variant="outline" className={statusColors[row.status] || ""}>
+            {formatLabel(row.status)}
+          </Badge>
+        );
+      },
+      filterable: true,
+      filterOptions: [
+        { label: "Open", value: "open" },
+        { label: "Auto-fixed", value: "auto_fixed" },
+        { label: "Accepted Stripe", value: "accepted_stripe" },
+        { label: "Accepted Local", value: "accepted_local" },
+        { label: "Resolved", value: "resolved" },
+      ],
+    },
+    {
+      header: "Actions",
+      cell: (row) =>
+        row.status === "open" ? (
+          <ResolveDriftDialog
+            driftId={row.id}
+            description={`${formatLabel(row.driftType)} on ${formatLabel(
+              row.entityType
+            )} ${row.stripeId}${row.field ? ` (${row.field})` : ""}`}
+            localValue={row.localValue}
+            stripeValue={row.stripeValue}
+            canAcceptStripe={row.canAcceptStripe}
+          />
+        ) : null,
+    },
+  ];
+
+  return (
+    <DataTable
+      columns={columns}
+      data={data}
+      searchPlaceholder="Search by Stripe ID or customer..."
+      searchKeys={["stripeId", "customerEmail", "companyName"]}
+      pageSize={20}
+      emptyMessage="No drift detected"
+    />
+  );
+}
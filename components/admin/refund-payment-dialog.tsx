@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
+
+type RefundType = "full" | "partial";
+type RefundReason = "requested_by_customer" | "duplicate" | "fraudulent";
+
+type RefundPaymentDialogProps = {
+  customerId: string;
+  paymentId: string;
+  refundableAmount: number; // Major units
+  currency: string;
+};
+
+export function RefundPaymentDialog({
+  customerId,
+  paymentId,
+  refundableAmount,
+  currency,
+}: RefundPaymentDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [refundType, setRefundType] = useState<RefundType>("full");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState<RefundReason>("requested_by_customer");
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setRefundType("full");
+      setAmount("");
+      setReason("requested_by_customer");
+      setNote("");
+      setError(null);
+    }
+  };
+
+  const handleRefund = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/payments/${paymentId}/refund`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            amount: refundType === "partial" ? amount : null,
+            reason,
+            note,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to refund payment");
+      }
+
+      handleOpenChange(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to refund payment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refundable = formatCurrencyAmount(refundableAmount, currency);
+  const canSubmit =
+    refundType === "full" ||
+    (Number(amount) > 0 && Number(amount) <= refundableAmount);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Undo2 className="h-3 w-3 mr-1" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            Up to {refundable} can be refunded. The money goes back to the
+            customer&apos;s original payment method, and invoice payments get
+            a credit note.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Refund</Label>
+              <Select
+                value={refundType}
+                onValueChange={(value) => setRefundType(value as RefundType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full ({refundable})</SelectItem>
+                  <SelectItem value="partial">Partial</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {refundType === "partial" && (
+              <div className="space-y-2">
+                <Label htmlFor="refund-amount">
+                  Amount ({currency.toUpperCase()})
+                </Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min={0}
+                  max={refundableAmount}
+                  step={0.01}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as RefundReason)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="requested_by_customer">
+                  Requested by customer
+                </SelectItem>
+                <SelectItem value="duplicate">Duplicate payment</SelectItem>
+                <SelectItem value="fraudulent">Fraudulent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-note">Note (optional)</Label>
+            <Textarea
+              id="refund-note"
+              placeholder="Shown on the credit note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRefund}
+            disabled={loading || !canSubmit}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Issue Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
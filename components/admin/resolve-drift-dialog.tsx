@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { GitCompare, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+type Resolution = "accept_stripe" | "accept_local";
+
+type ResolveDriftDialogProps = {
+  driftId: string;
+  description: string;
+  localValue: string | null;
+  stripeValue: string | null;
+  canAcceptStripe: boolean;
+};
+
+export function ResolveDriftDialog({
+  driftId,
+  description,
+  localValue,
+  stripeValue,
+  canAcceptStripe,
+}: ResolveDriftDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState<Resolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setError(null);
+    }
+  };
+
+  const handleResolve = async (resolution: Resolution) => {
+    setLoading(resolution);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/reconciliation/drifts/${driftId}/resolve`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ resolution }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resolve drift");
+      }
+
+      handleOpenChange(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve drift");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompare className="h-3 w-3 mr-1" />
+          Resolve
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Drift</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4 text-sm">
+          <div>
+            <p className="font-medium">Local</p>
+            <code className="text-xs break-all">{localValue ?? "—"}</code>
+          </div>
+          <div>
+            <p className="font-medium">Stripe</p>
+            <code className="text-xs break-all">{stripeValue ?? "—"}</code>
+          </div>
+          <p className="col-span-2 text-xs text-muted-foreground">
+            Accepting Stripe updates the local row. Accepting local keeps it
+            (plan prices are written back to Stripe).
+          </p>
+          {error && (
+            <p className="col-span-2 text-sm text-destructive">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleResolve("accept_local")}
+            disabled={!!loading}
+          >
+            {loading === "accept_local" && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Accept Local
+          </Button>
+          {canAcceptStripe && (
+            <Button
+              onClick={() => handleResolve("accept_stripe")}
+              disabled={!!loading}
+            >
+              {loading === "accept_stripe" && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Accept Stripe
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+type ReviewSharingDialogProps = {
+  findingId: string;
+  description: string;
+  evidence: string[];
+};
+
+export function ReviewSharingDialog({
+  findingId,
+  description,
+  evidence,
+}: ReviewSharingDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState<"confirmed" | "dismissed" | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setNotes("");
+      setError(null);
+    }
+  };
+
+  const handleReview = async (decision: "confirmed" | "dismissed") => {
+    setLoading(decision);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/license-sharing/${findingId}/review`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ decision, notes }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review finding");
+      }
+
+      handleOpenChange(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review finding");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldAlert className="h-3 w-3 mr-1" />
+          Review
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review License Sharing</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          {evidence.length > 0 && (
+            <ul className="text-xs text-muted-foreground space-y-1 break-all">
+              {evidence.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
+          <Label htmlFor={`review-notes-${findingId}`}>Notes</Label>
+          <Textarea
+            id={`review-notes-${findingId}`}
+            placeholder="e.g. Customer confirmed a second shop uses this key"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleReview("dismissed")}
+            disabled={!!loading}
+          >
+            {loading === "dismissed" && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Dismiss
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => handleReview("confirmed")}
+            disabled={!!loading}
+          >
+            {loading === "confirmed" && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Confirm Sharing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
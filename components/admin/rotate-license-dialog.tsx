@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+type RotateLicenseDialogProps = {
+  licenseId: string;
+  licenseKey: string;
+};
+
+export function RotateLicenseDialog({
+  licenseId,
+  licenseKey,
+}: RotateLicenseDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newLicenseKey, setNewLicenseKey] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setReason("");
+      setError(null);
+      setNewLicenseKey(null);
+    }
+  };
+
+  const handleRotate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/licenses/${licenseId}/rotate`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rotate license key");
+      }
+
+      setNewLicenseKey(data.rotation.newLicenseKey);
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to rotate license key"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RefreshCw className="h-3 w-3 mr-1" />
+          Rotate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rotate License Key</DialogTitle>
+          <DialogDescription>
+            Issues a new key and moves all activated terminals to it. The
+            current key keeps working for 48 hours so connected terminals can
+            switch over, then it is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {newLicenseKey ? (
+          <div className="space-y-2 py-4">
+            <Label>New license key</Label>
+            <code className="block text-sm font-mono bg-muted px-3 py-2 rounded">
+              {newLicenseKey}
+            </code>
+          </div>
+        ) : (
+          <div className="space-y-2 py-4">
+            <div className="text-xs text-muted-foreground">
+              Current key:{" "}
+              <code className="font-mono bg-muted px-1 rounded">
+                {licenseKey}
+              </code>
+            </div>
+            <Label htmlFor={`rotate-reason-${licenseId}`}>Reason</Label>
+            <Textarea
+              id={`rotate-reason-${licenseId}`}
+              placeholder="e.g. Key shared in a screenshot"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {newLicenseKey ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRotate}
+                disabled={loading || !reason.trim()}
+              >
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Rotate Key
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,7 @@
 import { DataTable, ColumnDef } from "@/components/admin/data-table";
 import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 
 type SubscriptionRow = {
   subscriptionId: string;
@@ -11,6 +12,7 @@ type SubscriptionRow = {
   planType: string | null;
   billingCycle: string | null;
   price: string | null;
+  currency: string;
   status: string | null;
   currentPeriodStart: Date | null;
   currentPeriodEnd: Date | null;
@@ -114,7 +116,9 @@ export function SubscriptionsTable({ data }: SubscriptionsTableProps) {
       accessorKey: "price",
       cell: (row) => (
         <span className="text-muted-foreground">
-          {row.price ? `$${parseFloat(row.price).toFixed(2)}` : "N/A"}
+          {row.price
+            ? formatCurrencyAmount(parseFloat(row.price), row.currency)
+            : "N/A"}
         </span>
       ),
     },
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TerminalCommandHistory,
+  TERMINAL_COMMAND_LABELS,
+  type TerminalCommandRow,
+} from "@/components/terminal-command-history";
+import type { TerminalCommandName } from "@/lib/license/terminal-commands";
+
+type LicenseTerminal = {
+  id: string;
+  terminalName: string | null;
+  terminalGroup: string | null;
+  lastHeartbeat: string | null;
+};
+
+type TerminalCommandsDialogProps = {
+  licenseId: string;
+  licenseKey: string;
+};
+
+const commandOptions = Object.entries(TERMINAL_COMMAND_LABELS) as [
+  TerminalCommandName,
+  string,
+][];
+
+export function TerminalCommandsDialog({
+  licenseId,
+  licenseKey,
+}: TerminalCommandsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [terminals, setTerminals] = useState<LicenseTerminal[]>([]);
+  const [commands, setCommands] = useState<TerminalCommandRow[]>([]);
+  const [selected, setSelected] = useState<
+    Record<string, TerminalCommandName>
+  >({});
+  const [loading, setLoading] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCommands = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/licenses/${licenseId}/commands`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch terminal commands");
+      }
+
+      setTerminals(data.terminals || []);
+      setCommands(data.commands || []);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch terminal commands"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setError(null);
+      setSelected({});
+      fetchCommands();
+    }
+  };
+
+  const handleSend = async (activationId: string) => {
+    setSendingId(activationId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/licenses/${licenseId}/commands`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            activationId,
+            command: selected[activationId] || "restart",
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send command");
+      }
+
+      await fetchCommands();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send command");
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const terminalNames = Object.fromEntries(
+    terminals.map((terminal) => [terminal.id, terminal.terminalName])
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Send className="h-3 w-3 mr-1" />
+          Commands
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Terminal Commands</DialogTitle>
+          <DialogDescription>
+            Send a remote command to a terminal on{" "}
+            <code className="text-xs font-mono">{licenseKey}</code>. Offline
+            terminals receive it when they reconnect.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && terminals.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : terminals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No active terminals on this license.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {terminals.map((terminal) => (
+              <div
+                key={terminal.id}
+                className="flex items-center justify-between gap-2 p-2 border rounded-md"
+              >
+                <div>
+                  <div className="text-sm font-medium">
+                    {terminal.terminalName || "Unnamed Terminal"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {terminal.lastHeartbeat
+                      ? `Last seen ${new Date(
+                          terminal.lastHeartbeat
+                        ).toLocaleString()}`
+                      : "Never seen"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={selected[terminal.id] || "restart"}
+                    onValueChange={(value) =>
+                      setSelected({
+                        ...selected,
+                        [terminal.id]: value as TerminalCommandName,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {commandOptions.map(([command, label]) => (
+                        <SelectItem key={command} value={command}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSend(terminal.id)}
+                    disabled={sendingId !== null}
+                  >
+                    {sendingId === terminal.id && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Send
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Recent Commands</h3>
+          <TerminalCommandHistory
+            commands={commands}
+            terminalNames={terminalNames}
+            showResults
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface LocationDialogProps {
+  // Omit to create a new location
+  location?: {
+    id: string;
+    name: string;
+    address: string | null;
+    maxTerminals: number;
+  };
+  // Seats on the main key not used by an active terminal
+  freeSeats: number;
+  onSaved?: () => void;
+}
+
+/**
+ * Create or edit a store location
+ * Each location gets its own license key; its terminal seats are moved from
+ * the subscription's main key.
+ */
+export function LocationDialog({
+  location,
+  freeSeats,
+  onSaved,
+}: LocationDialogProps) {
+  const isEdit = !!location;
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(location?.name || "");
+  const [address, setAddress] = useState(location?.address || "");
+  const [maxTerminals, setMaxTerminals] = useState(
+    location?.maxTerminals || 1
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const maxAllowed = (location?.maxTerminals || 0) + freeSeats;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setName(location?.name || "");
+      setAddress(location?.address || "");
+      setMaxTerminals(location?.maxTerminals || 1);
+      setError(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        isEdit ? `/api/locations/${location.id}` : "/api/locations",
+        {
+          method: isEdit ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, address, maxTerminals }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save location");
+      }
+
+      setOpen(false);
+      onSaved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save location");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {isEdit ? (
+          <Button variant="ghost" size="sm" aria-label="Edit location">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled={freeSeats < 1}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Location
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit Location" : "Add Location"}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? "Rename this location or change how many terminals it can activate."
+              : "The new location gets its own license key. Its terminal seats come out of your unassigned seats."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="location-name">Name</Label>
+            <Input
+              id="location-name"
+              placeholder="e.g. High Street Store"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="location-address">Address (optional)</Label>
+            <Input
+              id="location-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="location-terminals">Terminal seats</Label>
+            <Input
+              id="location-terminals"
+              type="number"
+              min={1}
+              max={maxAllowed}
+              value={maxTerminals}
+              onChange={(e) => setMaxTerminals(Number(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {maxAllowed} seat(s) available for this location.
+            </p>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              saving ||
+              !name.trim() ||
+              maxTerminals < 1 ||
+              maxTerminals > maxAllowed
+            }
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? "Save" : "Create Location"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
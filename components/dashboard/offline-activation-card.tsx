@@ -0,0 +1,159 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FileUp, Download, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+
+interface OfflineActivationCardProps {
+  onComplete?: () => void;
+}
+
+interface OfflineResult {
+  success: boolean;
+  message: string;
+  fileName: string;
+  responseFile: unknown;
+}
+
+/**
+ * Offline activation via request/response files
+ * For terminals without any network access: upload the request file exported
+ * by the terminal, then import the downloaded response file on the terminal.
+ */
+export function OfflineActivationCard({
+  onComplete,
+}: OfflineActivationCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+  const [result, setResult] = useState<OfflineResult | null>(null);
+  const { toast } = useToast();
+
+  const downloadResponse = (data: OfflineResult) => {
+    const blob = new Blob([JSON.stringify(data.responseFile, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = data.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setProcessing(true);
+      setResult(null);
+
+      let requestFile: unknown;
+      try {
+        requestFile = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The selected file is not a valid request file");
+      }
+
+      const response = await fetch("/api/terminals/offline", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requestFile }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to process request file");
+      }
+
+      setResult(data);
+      downloadResponse(data);
+      onComplete?.();
+    } catch (err) {
+      toast({
+        title: "Offline request failed",
+        description:
+          err instanceof Error ? err.message : "Failed to process request file",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="h-5 w-5" />
+          Offline Activation
+        </CardTitle>
+        <CardDescription>
+          For terminals without internet access. Export an activation or
+          deactivation request file from the POS application, upload it here,
+          then import the downloaded response file on the terminal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <Button
+          variant="outline"
+          disabled={processing}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {processing ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <FileUp className="h-4 w-4 mr-2" />
+          )}
+          Upload Request File
+        </Button>
+
+        {result && (
+          <div className="flex items-start justify-between gap-4 rounded-lg border p-4">
+            <div className="flex items-start gap-2">
+              {result.success ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5" />
+              ) : (
+                <XCircle className="h-5 w-5 text-destructive mt-0.5" />
+              )}
+              <div>
+                <p className="text-sm font-medium">
+                  {result.success ? "Request processed" : "Request rejected"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {result.message}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => downloadResponse(result)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Again
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { ExternalLink, Download, ChevronLeft, ChevronRight, RefreshCw } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 
 interface Payment {
   id: string;
@@ -183,7 +184,10 @@ export function PaymentHistory() {
                     <div className="flex items-center gap-3">
                       <div>
                         <p className="font-medium">
-                          ${parseFloat(payment.amount).toFixed(2)} {payment.currency}
+                          {formatCurrencyAmount(
+                            parseFloat(payment.amount),
+                            payment.currency
+                          )}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {payment.paidAt
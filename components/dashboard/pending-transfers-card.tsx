@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRightLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface PendingTransfer {
+  id: string;
+  terminalName: string | null;
+  ipAddress: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface PendingTransfersCardProps {
+  onResolved?: () => void;
+}
+
+/**
+ * Terminal transfer requests waiting for the customer's approval
+ * Renders nothing when there are none.
+ */
+export function PendingTransfersCard({ onResolved }: PendingTransfersCardProps) {
+  const [transfers, setTransfers] = useState<PendingTransfer[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTransfers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/terminals/transfers");
+      const data = await response.json();
+
+      if (response.ok) {
+        setTransfers(data.transfers || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch transfer requests:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers]);
+
+  const handleResolve = async (
+    transferId: string,
+    action: "approve" | "reject"
+  ) => {
+    setResolvingId(transferId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/terminals/transfers/${transferId}/${action}`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} transfer`);
+      }
+
+      await fetchTransfers();
+      onResolved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} transfer`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (transfers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200 dark:border-blue-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Pending Terminal Transfers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          A new computer wants to take over these terminals. Approving moves the
+          terminal (name and history included) to the new computer without
+          using a yearly deactivation.
+        </p>
+        {transfers.map((transfer) => (
+          <div
+            key={transfer.id}
+            className="flex items-center justify-between gap-4 border rounded-lg p-4"
+          >
+            <div className="space-y-1">
+              <p className="font-semibold">
+                {transfer.terminalName || "Unnamed Terminal"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Requested{" "}
+                {format(new Date(transfer.createdAt), "MMM dd, yyyy HH:mm")}
+                {transfer.ipAddress && ` from ${transfer.ipAddress}`} · expires{" "}
+                {format(new Date(transfer.expiresAt), "MMM dd, yyyy HH:mm")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleResolve(transfer.id, "reject")}
+                disabled={resolvingId === transfer.id}
+              >
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleResolve(transfer.id, "approve")}
+                disabled={resolvingId === transfer.id}
+              >
+                {resolvingId === transfer.id && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
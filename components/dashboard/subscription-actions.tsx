@@ -25,6 +25,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -34,12 +35,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+  PauseCircle,
+  PlayCircle,
+} from "lucide-react";
 import type { PlanId, BillingCycle } from "@/lib/stripe/plans";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 
 interface Plan {
   id: PlanId;
   name: string;
+  currency: string;
   priceMonthly: number;
   priceAnnual: number;
 }
@@ -49,6 +58,14 @@ interface SubscriptionActionsProps {
 }
 
 type CancelType = "end_of_period" | "immediately";
+type ChangeTiming = "immediately" | "end_of_period";
+
+interface AppliedPromotion {
+  code: string;
+  description: string;
+  amount: number;
+  currency: string;
+}
 
 export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
   const router = useRouter();
@@ -61,8 +78,17 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
     useState<BillingCycle>("monthly");
   const [loading, setLoading] = useState(false);
   const [changePlanOpen, setChangePlanOpen] = useState(false);
+  const [changeTiming, setChangeTiming] = useState<ChangeTiming>("immediately");
   const [plans, setPlans] = useState<Plan[]>([]);
   const [plansLoading, setPlansLoading] = useState(true);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromotion | null>(
+    null
+  );
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [pauseOpen, setPauseOpen] = useState(false);
+  const [resumesAt, setResumesAt] = useState("");
   const { toast } = useToast();
 
   // Fetch current subscription
@@ -85,11 +111,16 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
     fetchSubscription();
   }, []);
 
-  // Fetch plans from API
+  // Fetch plans from API, priced in the subscription's currency
+  const subscriptionCurrency: string | undefined = subscription?.currency;
   useEffect(() => {
     async function fetchPlans() {
       try {
-        const response = await fetch("/api/subscriptions/plans");
+        const response = await fetch(
+          subscriptionCurrency
+            ? `/api/subscriptions/plans?currency=${subscriptionCurrency}`
+            : "/api/subscriptions/plans"
+        );
         const data = await response.json();
         if (data.plans) {
           // Convert plans object to array
@@ -112,8 +143,10 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
         setPlansLoading(false);
       }
     }
-    fetchPlans();
-  }, [toast]);
+    if (!subscriptionLoading) {
+      fetchPlans();
+    }
+  }, [toast, subscriptionLoading, subscriptionCurrency]);
 
   const handleCancel = async () => {
     if (!subscription) return;
@@ -193,6 +226,140 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
     }
   };
 
+  const handlePause = async () => {
+    if (!subscription || !resumesAt) return;
+    setLoading(true);
+    try {
+      const response = await fetch("/api/subscriptions/pause", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subscriptionId: subscription.id,
+          resumesAt,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to pause subscription");
+      }
+
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+
+      setSubscription({ ...subscription, ...data.subscription });
+      setPauseOpen(false);
+      setResumesAt("");
+      router.refresh();
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to pause subscription",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!subscription) return;
+    setLoading(true);
+    try {
+      const response = await fetch("/api/subscriptions/resume", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId: subscription.id }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resume subscription");
+      }
+
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+
+      setSubscription({
+        ...subscription,
+        ...data.subscription,
+        pausedAt: null,
+        resumesAt: null,
+      });
+      router.refresh();
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to resume subscription",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Pause window: from tomorrow up to 3 months out (enforced server-side)
+  const getPauseDateRange = () => {
+    const min = new Date();
+    min.setDate(min.getDate() + 1);
+    const max = new Date();
+    max.setMonth(max.getMonth() + 3);
+    return {
+      min: min.toISOString().split("T")[0],
+      max: max.toISOString().split("T")[0],
+    };
+  };
+
+  // Price the selected change with the code (validated server-side)
+  const handleApplyPromo = async () => {
+    if (!subscription || !promoInput.trim()) return;
+    setPromoLoading(true);
+    setPromoError(null);
+    try {
+      const response = await fetch("/api/subscriptions/preview-change", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subscriptionId: subscription.id,
+          newPlanId,
+          newBillingCycle,
+          promotionCode: promoInput.trim(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to apply promotion code");
+      }
+
+      setAppliedPromo(data.preview.discount);
+    } catch (error) {
+      setAppliedPromo(null);
+      setPromoError(
+        error instanceof Error
+          ? error.message
+          : "Failed to apply promotion code"
+      );
+    } finally {
+      setPromoLoading(false);
+    }
+  };
+
   const handleChangePlan = async () => {
     if (!subscription) return;
     setLoading(true);
@@ -204,6 +371,8 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
           subscriptionId: subscription.id,
           newPlanId,
           newBillingCycle,
+          promotionCode: appliedPromo?.code,
+          atPeriodEnd: changesAtPeriodEnd,
         }),
       });
 
@@ -275,6 +444,12 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
 
   const isUpgrade = subscription ? getNewPrice() > getCurrentPrice() : false;
 
+  // Trial changes are free and always immediate
+  const canChangeAtPeriodEnd =
+    subscription?.status === "active" && !subscription?.cancelAtPeriodEnd;
+  const changesAtPeriodEnd =
+    canChangeAtPeriodEnd && changeTiming === "end_of_period";
+
   return (
     <div className="flex flex-wrap gap-2">
       {/* Change Plan Button */}
@@ -286,8 +461,8 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
           <DialogHeader>
             <DialogTitle>Change Subscription Plan</DialogTitle>
             <DialogDescription>
-              Upgrade or downgrade your subscription. Changes take effect
-              immediately.
+              Upgrade or downgrade your subscription now, or at the end of
+              your billing period.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -311,8 +486,12 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
                   <SelectContent>
                     {plans.map((plan) => (
                       <SelectItem key={plan.id} value={plan.id}>
-                        {plan.name} - ${getPrice(plan.id, newBillingCycle)}/
-                        {newBillingCycle}
+                        {plan.name} -{" "}
+                        {formatCurrencyAmount(
+                          getPrice(plan.id, newBillingCycle),
+                          plan.currency
+                        )}
+                        /{newBillingCycle}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -343,15 +522,90 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
               !plansLoading && (
                 <div className="p-3 bg-muted rounded-md">
                   <p className="text-sm font-medium">
-                    New Price: ${getNewPrice()}/{newBillingCycle}
+                    New Price:{" "}
+                    {formatCurrencyAmount(
+                      getNewPrice(),
+                      subscriptionCurrency || "usd"
+                    )}
+                    /{newBillingCycle}
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {isUpgrade
-                      ? "You'll be charged a prorated amount for the upgrade."
-                      : "Credit will be applied to your next invoice."}
+                    {changesAtPeriodEnd
+                      ? "The new price applies from your next renewal. No proration."
+                      : isUpgrade
+                        ? "You'll be charged a prorated amount for the upgrade."
+                        : "Credit will be applied to your next invoice."}
                   </p>
                 </div>
               )}
+            {canChangeAtPeriodEnd && (
+              <div className="space-y-2">
+                <Label>When</Label>
+                <RadioGroup
+                  value={changeTiming}
+                  onValueChange={(value) =>
+                    setChangeTiming(value as ChangeTiming)
+                  }
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="immediately" id="change-now" />
+                    <Label htmlFor="change-now">Immediately</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem
+                      value="end_of_period"
+                      id="change-end-of-period"
+                    />
+                    <Label htmlFor="change-end-of-period">
+                      At the end of the billing period
+                      {subscription?.currentPeriodEnd &&
+                        ` (${new Date(
+                          subscription.currentPeriodEnd
+                        ).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          year: "numeric",
+                        })})`}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="change-plan-promo">Promotion Code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="change-plan-promo"
+                  placeholder="Optional"
+                  value={promoInput}
+                  onChange={(e) => {
+                    setPromoInput(e.target.value);
+                    setAppliedPromo(null);
+                    setPromoError(null);
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleApplyPromo}
+                  disabled={promoLoading || !promoInput.trim() || !subscription}
+                >
+                  {promoLoading && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Apply
+                </Button>
+              </div>
+              {appliedPromo && (
+                <p className="text-sm text-green-600 dark:text-green-400">
+                  {appliedPromo.code}: {appliedPromo.description} (-
+                  {formatCurrencyAmount(appliedPromo.amount, appliedPromo.currency)}{" "}
+                  on your next invoice)
+                </p>
+              )}
+              {promoError && (
+                <p className="text-sm text-destructive">{promoError}</p>
+              )}
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -377,6 +631,65 @@ export function SubscriptionActions({ onUpdate }: SubscriptionActionsProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Pause or Resume Button */}
+      {subscription?.status === "paused" ? (
+        <Button onClick={handleResume} disabled={loading} variant="default">
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          <PlayCircle className="mr-2 h-4 w-4" />
+          Resume Subscription
+        </Button>
+      ) : (
+        subscription?.status === "active" &&
+        !subscription?.cancelAtPeriodEnd && (
+          <Dialog open={pauseOpen} onOpenChange={setPauseOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <PauseCircle className="mr-2 h-4 w-4" />
+                Pause Subscription
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Pause Subscription</DialogTitle>
+                <DialogDescription>
+                  Pause billing for up to 3 months during your off-season.
+                  Your terminals stay read-only (no new sales) until the
+                  subscription resumes.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 py-4">
+                <Label htmlFor="pause-resumes-at">Resume on</Label>
+                <Input
+                  id="pause-resumes-at"
+                  type="date"
+                  min={getPauseDateRange().min}
+                  max={getPauseDateRange().max}
+                  value={resumesAt}
+                  onChange={(e) => setResumesAt(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Billing restarts automatically on this date. You can resume
+                  earlier at any time.
+                </p>
+              </div>
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setPauseOpen(false)}
+                  disabled={loading}
+                >
+                  Cancel
+                </Button>
+                <Button onClick={handlePause} disabled={loading || !resumesAt}>
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Pause Billing
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )
+      )}
+
       {/* Cancel or Reactivate Button */}
       {subscription?.cancelAtPeriodEnd ? (
         <Button onClick={handleReactivate} disabled={loading} variant="default">
@@ -5,7 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
-import { Copy, ExternalLink, AlertCircle, CheckCircle2 } from "lucide-react";
+import {
+  Copy,
+  ExternalLink,
+  AlertCircle,
+  CalendarClock,
+  Loader2,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface LicenseKey {
@@ -16,6 +22,14 @@ interface LicenseKey {
   isActive: boolean;
 }
 
+interface PendingPlanChange {
+  id: string;
+  newPlanId: string;
+  newBillingCycle: string;
+  newPrice: string;
+  effectiveDate: Date;
+}
+
 interface Subscription {
   id: string;
   planId: string;
@@ -28,6 +42,7 @@ interface Subscription {
   cancelAtPeriodEnd: boolean;
   trialEnd: Date | null;
   licenseKeys: LicenseKey[];
+  pendingPlanChange: PendingPlanChange | null;
 }
 
 export function SubscriptionDetails({
@@ -38,6 +53,7 @@ export function SubscriptionDetails({
   const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [cancellingChange, setCancellingChange] = useState(false);
   const { toast } = useToast();
 
   const fetchSubscription = useCallback(async () => {
@@ -91,6 +107,43 @@ export function SubscriptionDetails({
     }
   };
 
+  const handleCancelScheduledChange = async () => {
+    if (!subscription) return;
+    setCancellingChange(true);
+    try {
+      const response = await fetch(
+        "/api/subscriptions/cancel-scheduled-change",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ subscriptionId: subscription.id }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel scheduled change");
+      }
+
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      fetchSubscription();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description:
+          err instanceof Error
+            ? err.message
+            : "Failed to cancel scheduled change",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingChange(false);
+    }
+  };
+
   const copyLicenseKey = (key: string) => {
     navigator.clipboard.writeText(key);
     toast({
@@ -249,6 +302,41 @@ export function SubscriptionDetails({
             </div>
           )}
 
+        {/* Scheduled Plan Change */}
+        {subscription.pendingPlanChange && (
+          <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md">
+            <CalendarClock className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-amber-900 dark:text-amber-100">
+                Plan Change Scheduled
+              </p>
+              <p className="text-xs text-amber-700 dark:text-amber-300">
+                Switches to{" "}
+                {getPlanName(subscription.pendingPlanChange.newPlanId)} ($
+                {parseFloat(subscription.pendingPlanChange.newPrice).toFixed(2)}{" "}
+                / {subscription.pendingPlanChange.newBillingCycle}) on{" "}
+                {format(
+                  new Date(subscription.pendingPlanChange.effectiveDate),
+                  "MMM dd, yyyy"
+                )}
+                . A new license key is issued on that date.
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleCancelScheduledChange}
+              disabled={cancellingChange}
+              className="flex-shrink-0"
+            >
+              {cancellingChange && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Cancel Change
+            </Button>
+          </div>
+        )}
+
         {/* Billing Info */}
         <div className="space-y-2">
           <h4 className="font-medium text-sm">Billing Information</h4>
@@ -40,6 +40,12 @@ export function SubscriptionHistoryCard({ changes }: SubscriptionHistoryCardProp
           color: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/30",
           label: "Downgrade",
         };
+      case "scheduled_plan_change":
+        return {
+          icon: <Calendar className="w-4 h-4" />,
+          color: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/30",
+          label: "Scheduled Change",
+        };
       case "cancellation":
         return {
           icon: <ArrowDownRight className="w-4 h-4" />,
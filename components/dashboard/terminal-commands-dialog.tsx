@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  TerminalCommandHistory,
+  TERMINAL_COMMAND_LABELS,
+  type TerminalCommandRow,
+} from "@/components/terminal-command-history";
+import type { TerminalCommandName } from "@/lib/license/terminal-commands";
+
+interface TerminalCommandsDialogProps {
+  activationId: string;
+  terminalName: string | null;
+}
+
+/**
+ * Send a remote command (restart, upload diagnostics, ...) to a terminal
+ * and follow its progress
+ */
+export function TerminalCommandsDialog({
+  activationId,
+  terminalName,
+}: TerminalCommandsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [commands, setCommands] = useState<TerminalCommandRow[]>([]);
+  const [availableCommands, setAvailableCommands] = useState<
+    TerminalCommandName[]
+  >([]);
+  const [loading, setLoading] = useState(false);
+  const [sendingCommand, setSendingCommand] =
+    useState<TerminalCommandName | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCommands = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/terminals/${activationId}/commands`, {
+        cache: "no-store",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch commands");
+      }
+
+      setCommands(data.commands || []);
+      setAvailableCommands(data.availableCommands || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch commands");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setError(null);
+      fetchCommands();
+    }
+  };
+
+  const handleSend = async (command: TerminalCommandName) => {
+    setSendingCommand(command);
+    setError(null);
+    try {
+      const response = await fetch(`/api/terminals/${activationId}/commands`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ command }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send command");
+      }
+
+      await fetchCommands();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send command");
+    } finally {
+      setSendingCommand(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Send terminal command">
+          <Send className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Terminal Commands</DialogTitle>
+          <DialogDescription>
+            Send a command to &quot;{terminalName || "Unnamed Terminal"}&quot;.
+            Offline terminals receive it when they reconnect.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {availableCommands.map((command) => (
+            <Button
+              key={command}
+              variant="outline"
+              size="sm"
+              onClick={() => handleSend(command)}
+              disabled={sendingCommand !== null}
+            >
+              {sendingCommand === command && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {TERMINAL_COMMAND_LABELS[command]}
+            </Button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="max-h-80 overflow-y-auto">
+          {loading && commands.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <TerminalCommandHistory commands={commands} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
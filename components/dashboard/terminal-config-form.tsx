@@ -0,0 +1,464 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CurrencyFormat,
+  PrinterSettings,
+  ReceiptSettings,
+  TerminalConfig,
+} from "@/lib/license/terminal-config";
+
+interface TerminalConfigFormProps {
+  config: TerminalConfig;
+  // Wording for the section switches ("Manage centrally", "Override", ...)
+  sectionToggleLabel: string;
+  submitLabel: string;
+  // Throws with the message to show when the save fails
+  onSubmit: (config: TerminalConfig) => Promise<void>;
+  // Extra buttons next to the submit button
+  actions?: ReactNode;
+}
+
+interface TaxRateInput {
+  name: string;
+  rate: string;
+  isDefault: boolean;
+}
+
+const DEFAULT_RECEIPT: ReceiptSettings = { header: "", footer: "" };
+const DEFAULT_TAX_RATES: TaxRateInput[] = [
+  { name: "Standard", rate: "20", isDefault: true },
+];
+const DEFAULT_CURRENCY: CurrencyFormat = {
+  code: "USD",
+  symbolPosition: "before",
+  decimalSeparator: ".",
+  thousandsSeparator: ",",
+  decimalPlaces: 2,
+};
+const DEFAULT_PRINTER: PrinterSettings = {
+  paperWidth: 80,
+  autoPrint: true,
+  copies: 1,
+  openCashDrawer: true,
+};
+
+// Select items can't have an empty value, so "no separator" is "none"
+const THOUSANDS_SEPARATORS = [
+  { value: ",", label: "Comma (1,000)" },
+  { value: ".", label: "Period (1.000)" },
+  { value: " ", label: "Space (1 000)" },
+  { value: "none", label: "None (1000)" },
+];
+
+function ConfigSection({
+  title,
+  description,
+  toggleLabel,
+  enabled,
+  onToggle,
+  children,
+}: {
+  title: string;
+  description: string;
+  toggleLabel: string;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-medium">{title}</h3>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Label className="text-xs text-muted-foreground">{toggleLabel}</Label>
+          <Switch
+            checked={enabled}
+            onCheckedChange={onToggle}
+            aria-label={`${toggleLabel}: ${title}`}
+          />
+        </div>
+      </div>
+      {enabled && children}
+    </div>
+  );
+}
+
+/**
+ * Terminal config editor
+ * Each section can be left off, so terminals keep their own setting for it
+ * (or, on an override, use the license's).
+ */
+export function TerminalConfigForm({
+  config,
+  sectionToggleLabel,
+  submitLabel,
+  onSubmit,
+  actions,
+}: TerminalConfigFormProps) {
+  const [receipt, setReceipt] = useState<ReceiptSettings | null>(
+    config.receipt || null
+  );
+  const [taxRates, setTaxRates] = useState<TaxRateInput[] | null>(
+    config.taxRates?.map((taxRate) => ({
+      ...taxRate,
+      rate: String(taxRate.rate),
+    })) || null
+  );
+  const [currency, setCurrency] = useState<CurrencyFormat | null>(
+    config.currency || null
+  );
+  const [printer, setPrinter] = useState<PrinterSettings | null>(
+    config.printer || null
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateTaxRate = (index: number, update: Partial<TaxRateInput>) => {
+    setTaxRates((current) =>
+      (current || []).map((taxRate, i) => {
+        if (i === index) return { ...taxRate, ...update };
+        // Only one default
+        return update.isDefault ? { ...taxRate, isDefault: false } : taxRate;
+      })
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        ...(receipt && { receipt }),
+        ...(taxRates && {
+          taxRates: taxRates.map((taxRate) => ({
+            name: taxRate.name.trim(),
+            rate: Number(taxRate.rate),
+            isDefault: taxRate.isDefault,
+          })),
+        }),
+        ...(currency && { currency }),
+        ...(printer && { printer }),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save config");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ConfigSection
+        title="Receipt"
+        description="Text printed at the top and bottom of every receipt."
+        toggleLabel={sectionToggleLabel}
+        enabled={!!receipt}
+        onToggle={(enabled) => setReceipt(enabled ? DEFAULT_RECEIPT : null)}
+      >
+        {receipt && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="receipt-header">Header</Label>
+              <Textarea
+                id="receipt-header"
+                placeholder="Store name, address, VAT number"
+                value={receipt.header}
+                onChange={(e) =>
+                  setReceipt({ ...receipt, header: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-footer">Footer</Label>
+              <Textarea
+                id="receipt-footer"
+                placeholder="Thank you for shopping with us"
+                value={receipt.footer}
+                onChange={(e) =>
+                  setReceipt({ ...receipt, footer: e.target.value })
+                }
+              />
+            </div>
+          </div>
+        )}
+      </ConfigSection>
+
+      <ConfigSection
+        title="Tax Rates"
+        description="Rates available at the till; the default applies to new products."
+        toggleLabel={sectionToggleLabel}
+        enabled={!!taxRates}
+        onToggle={(enabled) => setTaxRates(enabled ? DEFAULT_TAX_RATES : null)}
+      >
+        {taxRates && (
+          <div className="space-y-2">
+            {taxRates.map((taxRate, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  aria-label="Tax rate name"
+                  placeholder="Name"
+                  value={taxRate.name}
+                  onChange={(e) =>
+                    updateTaxRate(index, { name: e.target.value })
+                  }
+                />
+                <Input
+                  aria-label="Rate (%)"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  className="w-28"
+                  value={taxRate.rate}
+                  onChange={(e) =>
+                    updateTaxRate(index, { rate: e.target.value })
+                  }
+                />
+                <span className="text-sm text-muted-foreground">%</span>
+                <Button
+                  type="button"
+                  variant={taxRate.isDefault ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => updateTaxRate(index, { isDefault: true })}
+                >
+                  {taxRate.isDefault ? "Default" : "Make default"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Remove tax rate"
+                  onClick={() =>
+                    setTaxRates(taxRates.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setTaxRates([
+                  ...taxRates,
+                  { name: "", rate: "0", isDefault: taxRates.length === 0 },
+                ])
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+        )}
+      </ConfigSection>
+
+      <ConfigSection
+        title="Currency Format"
+        description="How prices are shown on screen and on receipts."
+        toggleLabel={sectionToggleLabel}
+        enabled={!!currency}
+        onToggle={(enabled) => setCurrency(enabled ? DEFAULT_CURRENCY : null)}
+      >
+        {currency && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="currency-code">Currency</Label>
+              <Input
+                id="currency-code"
+                maxLength={3}
+                value={currency.code}
+                onChange={(e) =>
+                  setCurrency({
+                    ...currency,
+                    code: e.target.value.toUpperCase(),
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Symbol Position</Label>
+              <Select
+                value={currency.symbolPosition}
+                onValueChange={(value) =>
+                  setCurrency({
+                    ...currency,
+                    symbolPosition: value as CurrencyFormat["symbolPosition"],
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="before">Before ($10)</SelectItem>
+                  <SelectItem value="after">After (10 $)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currency-decimals">Decimal Places</Label>
+              <Input
+                id="currency-decimals"
+                type="number"
+                min={0}
+                max={3}
+                value={currency.decimalPlaces}
+                onChange={(e) =>
+                  setCurrency({
+                    ...currency,
+                    decimalPlaces: Number(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Decimal Separator</Label>
+              <Select
+                value={currency.decimalSeparator}
+                onValueChange={(value) =>
+                  setCurrency({
+                    ...currency,
+                    decimalSeparator:
+                      value as CurrencyFormat["decimalSeparator"],
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Period (0.99)</SelectItem>
+                  <SelectItem value=",">Comma (0,99)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Thousands Separator</Label>
+              <Select
+                value={currency.thousandsSeparator || "none"}
+                onValueChange={(value) =>
+                  setCurrency({
+                    ...currency,
+                    thousandsSeparator: (value === "none"
+                      ? ""
+                      : value) as CurrencyFormat["thousandsSeparator"],
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THOUSANDS_SEPARATORS.map((separator) => (
+                    <SelectItem key={separator.value} value={separator.value}>
+                      {separator.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </ConfigSection>
+
+      <ConfigSection
+        title="Printer"
+        description="Receipt printer defaults."
+        toggleLabel={sectionToggleLabel}
+        enabled={!!printer}
+        onToggle={(enabled) => setPrinter(enabled ? DEFAULT_PRINTER : null)}
+      >
+        {printer && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Paper Width</Label>
+              <Select
+                value={String(printer.paperWidth)}
+                onValueChange={(value) =>
+                  setPrinter({
+                    ...printer,
+                    paperWidth: Number(value) as PrinterSettings["paperWidth"],
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="58">58 mm</SelectItem>
+                  <SelectItem value="80">80 mm</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="printer-copies">Copies</Label>
+              <Input
+                id="printer-copies"
+                type="number"
+                min={1}
+                max={5}
+                value={printer.copies}
+                onChange={(e) =>
+                  setPrinter({ ...printer, copies: Number(e.target.value) })
+                }
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="printer-auto-print"
+                checked={printer.autoPrint}
+                onCheckedChange={(autoPrint) =>
+                  setPrinter({ ...printer, autoPrint })
+                }
+              />
+              <Label htmlFor="printer-auto-print">
+                Print a receipt after every sale
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="printer-cash-drawer"
+                checked={printer.openCashDrawer}
+                onCheckedChange={(openCashDrawer) =>
+                  setPrinter({ ...printer, openCashDrawer })
+                }
+              />
+              <Label htmlFor="printer-cash-drawer">
+                Open the cash drawer on cash sales
+              </Label>
+            </div>
+          </div>
+        )}
+      </ConfigSection>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        {actions}
+        <Button onClick={handleSubmit} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
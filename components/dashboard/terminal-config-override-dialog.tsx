@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TerminalConfigForm } from "@/components/dashboard/terminal-config-form";
+import type { TerminalConfig } from "@/lib/license/terminal-config";
+
+interface TerminalConfigOverrideDialogProps {
+  activationId: string;
+  terminalName: string | null;
+  override: TerminalConfig | null;
+  onSaved?: () => void;
+}
+
+/**
+ * Override sections of the license config on one terminal
+ * (e.g. a kitchen printer with narrower paper)
+ */
+export function TerminalConfigOverrideDialog({
+  activationId,
+  terminalName,
+  override,
+  onSaved,
+}: TerminalConfigOverrideDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [removing, setRemoving] = useState(false);
+  const [removeError, setRemoveError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setRemoveError(null);
+    }
+  };
+
+  const saveOverride = async (config: TerminalConfig | null) => {
+    const response = await fetch(`/api/terminals/${activationId}/config`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ config }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save terminal override");
+    }
+
+    setOpen(false);
+    onSaved?.();
+  };
+
+  const handleRemove = async () => {
+    setRemoving(true);
+    setRemoveError(null);
+    try {
+      await saveOverride(null);
+    } catch (err) {
+      setRemoveError(
+        err instanceof Error ? err.message : "Failed to remove override"
+      );
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="h-4 w-4 mr-2" />
+          {override ? "Edit Override" : "Override"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Terminal Override</DialogTitle>
+          <DialogDescription>
+            Sections switched on here replace the license config on &quot;
+            {terminalName || "Unnamed Terminal"}&quot;.
+          </DialogDescription>
+        </DialogHeader>
+
+        {removeError && (
+          <p className="text-sm text-destructive">{removeError}</p>
+        )}
+
+        {open && (
+          <TerminalConfigForm
+            config={override || {}}
+            sectionToggleLabel="Override"
+            submitLabel="Save Override"
+            onSubmit={saveOverride}
+            actions={
+              override && (
+                <Button
+                  variant="outline"
+                  onClick={handleRemove}
+                  disabled={removing}
+                >
+                  {removing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Remove Override
+                </Button>
+              )
+            }
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TerminalGroupDialogProps {
+  activationId: string;
+  terminalName: string | null;
+  terminalGroup: string | null;
+  // Groups already used on this account, offered as suggestions
+  existingGroups: string[];
+  onSaved?: () => void;
+}
+
+/**
+ * Put a terminal in a group (e.g. "tills", "kitchen")
+ * Updates and config can then be sent to just that group's terminals.
+ */
+export function TerminalGroupDialog({
+  activationId,
+  terminalName,
+  terminalGroup,
+  existingGroups,
+  onSaved,
+}: TerminalGroupDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [group, setGroup] = useState(terminalGroup || "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setGroup(terminalGroup || "");
+      setError(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/terminals/${activationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ terminalGroup: group.trim() || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update terminal group");
+      }
+
+      setOpen(false);
+      onSaved?.();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update terminal group"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Set terminal group">
+          <Tag className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Terminal Group</DialogTitle>
+          <DialogDescription>
+            Group &quot;{terminalName || "Unnamed Terminal"}&quot; with similar
+            terminals so updates can be sent to just that group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="terminal-group">Group</Label>
+            <Input
+              id="terminal-group"
+              placeholder="e.g. tills"
+              list="terminal-groups"
+              value={group}
+              onChange={(e) => setGroup(e.target.value)}
+            />
+            <datalist id="terminal-groups">
+              {existingGroups.map((existing) => (
+                <option key={existing} value={existing} />
+              ))}
+            </datalist>
+            <p className="text-xs text-muted-foreground">
+              Leave empty to remove the terminal from its group.
+            </p>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
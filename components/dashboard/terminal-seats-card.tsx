@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Minus, Plus, Monitor } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+// Keep in sync with MAX_ADDITIONAL_TERMINALS in lib/stripe/terminal-seats.ts
+const MAX_ADDITIONAL_TERMINALS = 20;
+
+interface TerminalSeatsCardProps {
+  refreshTrigger?: number;
+  onUpdate?: () => void;
+}
+
+interface SeatSubscription {
+  id: string;
+  status: string;
+  additionalTerminals: number;
+  terminalSeatsEnabled: boolean;
+  licenseKeys: { maxTerminals: number }[];
+}
+
+interface SeatPreview {
+  changeType: "upgrade" | "downgrade";
+  newPlan: { maxTerminals: number };
+  terminalSeats: { unitPrice: number };
+  proration: { description: string; currency: string };
+  nextBilling: { amount: number; currency: string };
+}
+
+/**
+ * Terminal seat add-ons
+ * Stepper for buying terminals beyond the plan limit, with a proration
+ * preview from /api/subscriptions/preview-change before confirming.
+ */
+export function TerminalSeatsCard({
+  refreshTrigger,
+  onUpdate,
+}: TerminalSeatsCardProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [subscription, setSubscription] = useState<SeatSubscription | null>(
+    null
+  );
+  const [seats, setSeats] = useState(0);
+  const [preview, setPreview] = useState<SeatPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSubscription = useCallback(async () => {
+    try {
+      const response = await fetch("/api/subscriptions/current", {
+        cache: "no-store",
+      });
+      const data = await response.json();
+      if (response.ok && data.subscription) {
+        setSubscription(data.subscription);
+        setSeats(data.subscription.additionalTerminals || 0);
+      } else {
+        setSubscription(null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch subscription:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [fetchSubscription, refreshTrigger]);
+
+  const currentSeats = subscription?.additionalTerminals || 0;
+  // Seats are split between the main key and any location keys
+  const currentMaxTerminals =
+    subscription?.licenseKeys.reduce(
+      (total, key) => total + key.maxTerminals,
+      0
+    ) || 0;
+  const includedTerminals = currentMaxTerminals - currentSeats;
+
+  // Preview proration whenever the requested seat count differs
+  useEffect(() => {
+    if (!subscription || seats === currentSeats) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setPreviewLoading(true);
+      setPreviewError(null);
+      try {
+        const response = await fetch("/api/subscriptions/preview-change", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subscriptionId: subscription.id,
+            additionalTerminals: seats,
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to preview change");
+        }
+
+        setPreview(data.preview);
+      } catch (error) {
+        setPreview(null);
+        setPreviewError(
+          error instanceof Error ? error.message : "Failed to preview change"
+        );
+      } finally {
+        setPreviewLoading(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [subscription, seats, currentSeats]);
+
+  const handleConfirm = async () => {
+    if (!subscription) return;
+    setSaving(true);
+    try {
+      const response = await fetch("/api/subscriptions/terminal-seats", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subscriptionId: subscription.id,
+          additionalTerminals: seats,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update terminal seats");
+      }
+
+      toast({
+        title: "Terminal seats updated",
+        description: data.message,
+      });
+
+      setPreview(null);
+      await fetchSubscription();
+      router.refresh();
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update terminal seats",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (
+    !subscription ||
+    !subscription.terminalSeatsEnabled ||
+    !["active", "trialing"].includes(subscription.status)
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 border rounded-lg bg-card shadow-sm space-y-4">
+      <div>
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Extra Terminals
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Your plan includes {includedTerminals} terminals. Add seats to
+          activate more.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Remove a terminal seat"
+          disabled={saving || seats <= 0}
+          onClick={() => setSeats((prev) => Math.max(0, prev - 1))}
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <div className="text-center">
+          <p className="text-2xl font-bold">{seats}</p>
+          <p className="text-xs text-muted-foreground">additional</p>
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Add a terminal seat"
+          disabled={saving || seats >= MAX_ADDITIONAL_TERMINALS}
+          onClick={() =>
+            setSeats((prev) => Math.min(MAX_ADDITIONAL_TERMINALS, prev + 1))
+          }
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-sm text-center text-muted-foreground">
+        {includedTerminals + seats} terminals total
+      </p>
+
+      {previewLoading && (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="ml-2 text-sm text-muted-foreground">
+            Calculating price...
+          </span>
+        </div>
+      )}
+
+      {previewError && (
+        <p className="text-sm text-destructive">{previewError}</p>
+      )}
+
+      {preview && !previewLoading && (
+        <div className="p-3 bg-muted rounded-md space-y-1">
+          <p className="text-sm font-medium">
+            {preview.proration.currency}{" "}
+            {preview.terminalSeats.unitPrice.toFixed(2)} per terminal
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {preview.proration.description}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Next invoice: {preview.nextBilling.currency}{" "}
+            {preview.nextBilling.amount.toFixed(2)}
+          </p>
+        </div>
+      )}
+
+      {seats !== currentSeats && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={saving}
+            onClick={() => setSeats(currentSeats)}
+          >
+            Reset
+          </Button>
+          <Button
+            className="flex-1"
+            disabled={saving || previewLoading || !!previewError}
+            onClick={handleConfirm}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirm
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Activity } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
+
+interface UsageCardProps {
+  refreshTrigger?: number;
+}
+
+interface UsageSummary {
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  transactions: number;
+  includedTransactions: number;
+  overageTransactions: number;
+  charge: number;
+  projectedTransactions: number;
+  projectedOverageTransactions: number;
+  projectedCharge: number;
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Transaction usage
+ * Transactions counted from terminal heartbeats this billing period against
+ * the plan's included allowance, with the projected overage at the period end.
+ */
+export function UsageCard({ refreshTrigger }: UsageCardProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchUsage = async () => {
+      try {
+        const response = await fetch("/api/subscriptions/usage", {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setUsage(response.ok ? data.usage : null);
+        }
+      } catch (error) {
+        console.error("Failed to fetch usage:", error);
+      }
+    };
+
+    fetchUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshTrigger]);
+
+  if (!usage) {
+    return null;
+  }
+
+  const included = usage.includedTransactions;
+  const percentUsed =
+    included > 0 ? Math.min(100, (usage.transactions / included) * 100) : 100;
+
+  return (
+    <div className="p-6 border rounded-lg bg-card shadow-sm space-y-4">
+      <div>
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Transaction Usage
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {formatDate(usage.periodStart)} - {formatDate(usage.periodEnd)}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between">
+          <p className="text-2xl font-bold">
+            {formatCount(usage.transactions)}
+          </p>
+          {included > 0 && (
+            <p className="text-xs text-muted-foreground">
+              of {formatCount(included)} included
+            </p>
+          )}
+        </div>
+        {included > 0 && <Progress value={percentUsed} />}
+        {usage.overageTransactions > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {formatCount(usage.overageTransactions)} over the allowance (
+            {formatCurrencyAmount(usage.charge, usage.currency)} so far)
+          </p>
+        )}
+      </div>
+
+      <div className="p-3 bg-muted rounded-md space-y-1">
+        <p className="text-sm font-medium">
+          Projected: {formatCount(usage.projectedTransactions)} transactions
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {usage.projectedOverageTransactions > 0
+            ? `About ${formatCurrencyAmount(
+                usage.projectedCharge,
+                usage.currency
+              )} for usage on your next invoice at your current rate`
+            : "No overage expected at your current rate"}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -14,11 +14,13 @@ import {
 } from "@/components/ui/card";
 import { Check } from "lucide-react";
 import type { PlanId } from "@/lib/stripe/plans";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 
 interface Plan {
   id: PlanId;
   name: string;
   description: string;
+  currency: string;
   priceMonthly: number;
   priceAnnual: number;
   features: {
@@ -157,7 +159,7 @@ export function PricingPreviewSection() {
                   </CardDescription>
                   <div className="mt-4">
                     <span className="text-4xl font-bold text-foreground">
-                      ${price}
+                      {formatCurrencyAmount(price, plan.currency)}
                     </span>
                     <span className="text-muted-foreground">{period}</span>
                   </div>
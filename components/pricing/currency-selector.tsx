@@ -0,0 +1,51 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CURRENCY_LABELS, type Currency } from "@/lib/stripe/currency";
+
+interface CurrencySelectorProps {
+  currency: Currency;
+  currencies: Currency[];
+  onCurrencyChange: (currency: Currency) => void;
+  disabled?: boolean;
+}
+
+export function CurrencySelector({
+  currency,
+  currencies,
+  onCurrencyChange,
+  disabled,
+}: CurrencySelectorProps) {
+  // Nothing to choose between when only one currency is configured
+  if (currencies.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <span className="text-sm text-muted-foreground">Prices in</span>
+      <Select
+        value={currency}
+        onValueChange={(value) => onCurrencyChange(value as Currency)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-[120px]" aria-label="Select currency">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {currencies.map((option) => (
+            <SelectItem key={option} value={option}>
+              {CURRENCY_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Check } from "lucide-react";
 import { BillingToggle } from "./billing-toggle";
 import { calculateAnnualSavings } from "@/lib/stripe/plan-utils";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
 import type { Plan, BillingCycle, PlanId } from "@/lib/stripe/plans";
 
 interface PlanCardProps {
@@ -76,13 +77,15 @@ export function PlanCard({
         <CardTitle className="text-2xl">{plan.name}</CardTitle>
         <CardDescription>{plan.description}</CardDescription>
         <div className="mt-4">
-          <span className="text-4xl font-bold">${price}</span>
+          <span className="text-4xl font-bold">
+            {formatCurrencyAmount(price, plan.currency)}
+          </span>
           <span className="text-muted-foreground">
             /{localBillingCycle === "monthly" ? "month" : "year"}
           </span>
           {savings > 0 && (
             <p className="text-sm text-green-600 dark:text-green-400 mt-1">
-              Save ${savings} per year
+              Save {formatCurrencyAmount(savings, plan.currency)} per year
             </p>
           )}
         </div>
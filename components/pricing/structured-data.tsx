@@ -16,7 +16,7 @@ export function PricingStructuredData({ plans }: PricingStructuredDataProps) {
       name: `${plan.name} Plan - Monthly`,
       description: plan.description,
       price: plan.priceMonthly.toString(),
-      priceCurrency: "USD",
+      priceCurrency: plan.currency.toUpperCase(),
       billingDuration: "P1M", // ISO 8601 duration: 1 month
       availability: "https://schema.org/InStock",
       url: `https://aurswift.com/pricing?plan=${plan.id}&cycle=monthly`,
@@ -27,7 +27,7 @@ export function PricingStructuredData({ plans }: PricingStructuredDataProps) {
       name: `${plan.name} Plan - Annual`,
       description: `${plan.description} (Save ${plan.annualDiscountPercent}% with annual billing)`,
       price: plan.priceAnnual.toString(),
-      priceCurrency: "USD",
+      priceCurrency: plan.currency.toUpperCase(),
       billingDuration: "P1Y", // ISO 8601 duration: 1 year
       availability: "https://schema.org/InStock",
       url: `https://aurswift.com/pricing?plan=${plan.id}&cycle=annual`,
@@ -53,7 +53,9 @@ export function PricingStructuredData({ plans }: PricingStructuredDataProps) {
       highPrice: Math.max(
         ...Object.values(plans).map((p) => p.priceAnnual)
       ).toString(),
-      priceCurrency: "USD",
+      priceCurrency: (
+        Object.values(plans)[0]?.currency || "usd"
+      ).toUpperCase(),
       offers,
     },
   };
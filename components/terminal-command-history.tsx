@@ -0,0 +1,101 @@
+"use client";
+
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import type { TerminalCommandName } from "@/lib/license/terminal-commands";
+
+export interface TerminalCommandRow {
+  id: string;
+  activationId: string;
+  command: TerminalCommandName;
+  status: string;
+  issuedVia: string;
+  result: Record<string, unknown> | null;
+  errorMessage: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+  completedAt: string | null;
+}
+
+export const TERMINAL_COMMAND_LABELS: Record<TerminalCommandName, string> = {
+  restart: "Restart app",
+  upload_diagnostics: "Upload diagnostics",
+  clear_cache: "Clear cache",
+  revalidate: "Re-validate license",
+};
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  delivered: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  succeeded:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  undelivered:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+};
+
+function formatTime(value: string | null): string | null {
+  return value ? format(new Date(value), "MMM d, h:mm a") : null;
+}
+
+interface TerminalCommandHistoryProps {
+  commands: TerminalCommandRow[];
+  // Shown per command when listing several terminals' commands
+  terminalNames?: Record<string, string | null>;
+  // Show the raw result payload (support view)
+  showResults?: boolean;
+}
+
+/**
+ * Commands sent to terminals, newest first, with delivery timestamps
+ */
+export function TerminalCommandHistory({
+  commands,
+  terminalNames,
+  showResults,
+}: TerminalCommandHistoryProps) {
+  if (commands.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No commands sent yet.</p>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {commands.map((command) => (
+        <div key={command.id} className="py-2 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">
+              {TERMINAL_COMMAND_LABELS[command.command] || command.command}
+              {terminalNames && (
+                <span className="font-normal text-muted-foreground">
+                  {" "}
+                  on {terminalNames[command.activationId] || "Unnamed Terminal"}
+                </span>
+              )}
+            </p>
+            <Badge variant="outline" className={statusStyles[command.status]}>
+              {command.status}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sent {formatTime(command.createdAt)}
+            {command.issuedVia === "admin" && " by support"}
+            {command.deliveredAt &&
+              ` · delivered ${formatTime(command.deliveredAt)}`}
+            {command.completedAt &&
+              ` · finished ${formatTime(command.completedAt)}`}
+          </p>
+          {command.errorMessage && (
+            <p className="text-xs text-destructive">{command.errorMessage}</p>
+          )}
+          {showResults && command.result && (
+            <pre className="text-xs bg-muted rounded p-2 max-h-40 overflow-auto">
+              {JSON.stringify(command.result, null, 2)}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+-- License key rotation
+-- A rotated key points at its replacement and keeps working until the overlap
+-- window ends, after which the expiration cron revokes it
+
+ALTER TABLE "license_keys" ADD COLUMN "replaced_by_key" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD COLUMN "rotation_overlap_ends_at" timestamp with time zone;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "license_keys_replaced_by_key_idx" ON "license_keys" USING btree ("replaced_by_key");
@@ -0,0 +1,4 @@
+-- Terminal seat add-ons
+-- Number of extra terminal seats bought as a Stripe subscription item quantity
+
+ALTER TABLE "subscriptions" ADD COLUMN "additional_terminals" integer DEFAULT 0 NOT NULL;
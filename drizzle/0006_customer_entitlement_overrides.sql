@@ -0,0 +1,4 @@
+-- Feature entitlements
+-- Per-customer overrides applied on top of plan default entitlements
+
+ALTER TABLE "customers" ADD COLUMN "entitlement_overrides" jsonb;
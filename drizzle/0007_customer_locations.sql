@@ -0,0 +1,23 @@
+-- Customer locations
+-- Franchise customers run several stores under one subscription; each
+-- location gets its own license key with a share of the subscription's
+-- terminal seats
+
+CREATE TABLE "locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"address" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD COLUMN "location_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD CONSTRAINT "license_keys_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "locations_customer_id_idx" ON "locations" USING btree ("customer_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "license_keys_location_id_idx" ON "license_keys" USING btree ("location_id");
@@ -0,0 +1,7 @@
+-- License types
+-- Perpetual and fixed-term licenses are sold without a Stripe subscription;
+-- updates_until limits which releases a license may install
+
+ALTER TABLE "license_keys" ADD COLUMN "license_type" varchar(20) DEFAULT 'subscription' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD COLUMN "updates_until" timestamp with time zone;
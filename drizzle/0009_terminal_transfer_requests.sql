@@ -0,0 +1,30 @@
+-- Terminal transfer requests
+-- A replacement machine asks to take over a named terminal's activation; the
+-- customer approves from the dashboard or an emailed link. Approval moves the
+-- activation without counting against the yearly deactivation limit
+
+CREATE TABLE "terminal_transfer_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"activation_id" uuid NOT NULL,
+	"license_key" varchar(50) NOT NULL,
+	"machine_id_hash" varchar(128) NOT NULL,
+	"terminal_name" varchar(100),
+	"ip_address" varchar(45),
+	"location" jsonb,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"approval_token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"resolved_via" varchar(20),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "terminal_transfer_requests_approval_token_hash_unique" UNIQUE("approval_token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "terminal_transfer_requests" ADD CONSTRAINT "terminal_transfer_requests_activation_id_activations_id_fk" FOREIGN KEY ("activation_id") REFERENCES "public"."activations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_transfer_requests_activation_id_idx" ON "terminal_transfer_requests" USING btree ("activation_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_transfer_requests_license_key_idx" ON "terminal_transfer_requests" USING btree ("license_key");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_transfer_requests_status_idx" ON "terminal_transfer_requests" USING btree ("status");
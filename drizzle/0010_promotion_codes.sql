@@ -0,0 +1,33 @@
+-- Promotion codes
+-- Codes are created and retired from the admin panel and mirrored to a Stripe
+-- coupon + promotion code. Invoices record the discount that was applied
+
+CREATE TABLE "promotion_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" varchar(100) NOT NULL,
+	"description" text,
+	"percent_off" integer,
+	"amount_off" integer,
+	"currency" varchar(3) DEFAULT 'usd' NOT NULL,
+	"duration" varchar(20) NOT NULL,
+	"duration_in_months" integer,
+	"max_redemptions" integer,
+	"expires_at" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"retired_at" timestamp with time zone,
+	"stripe_coupon_id" varchar(255) NOT NULL,
+	"stripe_promotion_code_id" varchar(255) NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "promotion_codes_code_unique" UNIQUE("code"),
+	CONSTRAINT "promotion_codes_stripe_promotion_code_id_unique" UNIQUE("stripe_promotion_code_id")
+);
+--> statement-breakpoint
+ALTER TABLE "promotion_codes" ADD CONSTRAINT "promotion_codes_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "promotion_codes_is_active_idx" ON "promotion_codes" USING btree ("is_active");
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "discount" integer DEFAULT 0;
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "promotion_code" varchar(100);
@@ -0,0 +1,9 @@
+-- Subscription pause
+-- Seasonal customers can pause billing (Stripe pause_collection) for up to
+-- 3 months; the expiration cron resumes subscriptions once resumes_at passes
+
+ALTER TABLE "subscriptions" ADD COLUMN "paused_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "resumes_at" timestamp with time zone;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "subscriptions_resumes_at_idx" ON "subscriptions" USING btree ("resumes_at");
\ No newline at end of file
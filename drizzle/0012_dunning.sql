@@ -0,0 +1,41 @@
+-- Dunning
+-- One case per unpaid invoice; each scheduled step (emails, terminal banner,
+-- suspension) is recorded once so cron reruns don't repeat it
+
+CREATE TABLE "dunning_cases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"subscription_id" uuid NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"stripe_invoice_id" varchar(100) NOT NULL,
+	"amount_due" integer NOT NULL,
+	"currency" varchar(3) DEFAULT 'usd' NOT NULL,
+	"hosted_invoice_url" text,
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "dunning_cases_stripe_invoice_id_unique" UNIQUE("stripe_invoice_id")
+);
+--> statement-breakpoint
+CREATE TABLE "dunning_steps" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dunning_case_id" uuid NOT NULL,
+	"step" varchar(50) NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"error" text,
+	"executed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "dunning_steps_case_step_unique" UNIQUE("dunning_case_id","step")
+);
+--> statement-breakpoint
+ALTER TABLE "dunning_cases" ADD CONSTRAINT "dunning_cases_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "dunning_cases" ADD CONSTRAINT "dunning_cases_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "dunning_steps" ADD CONSTRAINT "dunning_steps_dunning_case_id_dunning_cases_id_fk" FOREIGN KEY ("dunning_case_id") REFERENCES "public"."dunning_cases"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dunning_cases_subscription_id_idx" ON "dunning_cases" USING btree ("subscription_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dunning_cases_status_idx" ON "dunning_cases" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Multi-currency pricing
+-- Subscriptions record the currency their price was charged in (USD, GBP or
+-- EUR); existing subscriptions were all sold in USD
+
+ALTER TABLE "subscriptions" ADD COLUMN "currency" varchar(3) DEFAULT 'usd' NOT NULL;
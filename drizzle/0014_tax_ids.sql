@@ -0,0 +1,8 @@
+-- Tax IDs and VAT-inclusive invoicing
+-- Customers' tax IDs are validated per country and mirrored to Stripe; invoice
+-- line items record the tax Stripe Tax charged on them
+
+ALTER TABLE "customers" ADD COLUMN "tax_id_type" varchar(20);--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "stripe_tax_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "invoice_line_items" ADD COLUMN "tax_amount" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoice_line_items" ADD COLUMN "taxability_reason" varchar(50);
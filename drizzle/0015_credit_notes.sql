@@ -0,0 +1,33 @@
+-- Credit notes
+-- Mirrors Stripe credit notes (refunds and credits against invoices) so they
+-- can be listed in billing history and rendered as PDFs
+
+CREATE TABLE "credit_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"invoice_id" uuid,
+	"stripe_credit_note_id" varchar(100) NOT NULL,
+	"stripe_invoice_id" varchar(100) NOT NULL,
+	"number" varchar(50) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"reason" varchar(50),
+	"subtotal" integer NOT NULL,
+	"tax" integer DEFAULT 0 NOT NULL,
+	"total" integer NOT NULL,
+	"currency" varchar(3) DEFAULT 'usd' NOT NULL,
+	"lines" jsonb,
+	"memo" text,
+	"issued_at" timestamp with time zone NOT NULL,
+	"voided_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "credit_notes_stripe_credit_note_id_unique" UNIQUE("stripe_credit_note_id")
+);
+--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_customer_id_idx" ON "credit_notes" USING btree ("customer_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_invoice_id_idx" ON "credit_notes" USING btree ("invoice_id");
@@ -0,0 +1,11 @@
+-- Refunds
+-- Refund rows in payments point at the payment they refund, with the reason
+-- given in the admin console or Stripe
+
+ALTER TABLE "payments" ADD COLUMN "refunded_payment_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "refund_reason" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_refunded_payment_id_payments_id_fk" FOREIGN KEY ("refunded_payment_id") REFERENCES "public"."payments"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payments_refunded_payment_id_idx" ON "payments" USING btree ("refunded_payment_id");
@@ -0,0 +1,25 @@
+-- Usage-based billing
+-- Terminals report a running transaction counter in heartbeats; the increase
+-- since the last heartbeat is added to the subscription's daily usage record
+-- and reported to Stripe metered billing
+
+ALTER TABLE "activations" ADD COLUMN "last_transaction_count" integer;
+--> statement-breakpoint
+CREATE TABLE "usage_records" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"subscription_id" uuid NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"usage_date" date NOT NULL,
+	"transaction_count" integer DEFAULT 0 NOT NULL,
+	"reported_count" integer DEFAULT 0 NOT NULL,
+	"reported_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "usage_records_subscription_date_unique" UNIQUE("subscription_id","usage_date")
+);
+--> statement-breakpoint
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_records_customer_id_idx" ON "usage_records" USING btree ("customer_id");
@@ -0,0 +1,49 @@
+-- Stripe reconciliation
+-- A scheduled job compares local subscriptions, invoices, payments and
+-- payment methods with Stripe; each run records the drifts it finds, which
+-- are fixed automatically when safe or resolved by an admin
+
+CREATE TABLE "reconciliation_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"checked_count" integer DEFAULT 0 NOT NULL,
+	"drift_count" integer DEFAULT 0 NOT NULL,
+	"auto_fixed_count" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "reconciliation_drifts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"customer_id" uuid,
+	"entity_type" varchar(20) NOT NULL,
+	"local_id" uuid,
+	"stripe_id" varchar(100) NOT NULL,
+	"drift_type" varchar(30) NOT NULL,
+	"field" varchar(50),
+	"local_value" text,
+	"stripe_value" text,
+	"details" jsonb,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"resolved_by" uuid,
+	"resolved_at" timestamp with time zone,
+	"first_detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_detected_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reconciliation_drifts" ADD CONSTRAINT "reconciliation_drifts_run_id_reconciliation_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."reconciliation_runs"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "reconciliation_drifts" ADD CONSTRAINT "reconciliation_drifts_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "reconciliation_drifts" ADD CONSTRAINT "reconciliation_drifts_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_runs_started_at_idx" ON "reconciliation_runs" USING btree ("started_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_drifts_status_idx" ON "reconciliation_drifts" USING btree ("status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_drifts_run_id_idx" ON "reconciliation_drifts" USING btree ("run_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_drifts_stripe_id_idx" ON "reconciliation_drifts" USING btree ("stripe_id");
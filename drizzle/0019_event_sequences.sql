@@ -0,0 +1,9 @@
+-- Resumable event stream
+-- Events get a monotonic sequence number per license key, sent as the SSE
+-- id so a reconnecting terminal can resume from its Last-Event-ID
+
+ALTER TABLE "license_keys" ADD COLUMN "event_sequence" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "subscription_events" ADD COLUMN "sequence" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "subscription_events_license_sequence_idx" ON "subscription_events" USING btree ("license_key","sequence");
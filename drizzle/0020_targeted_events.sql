@@ -0,0 +1,7 @@
+-- Targeted events
+-- Events can be addressed to specific terminals (by machine ID hash or a
+-- customer-defined terminal group) instead of every terminal on the license
+
+ALTER TABLE "activations" ADD COLUMN "terminal_group" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "subscription_events" ADD COLUMN "target" jsonb;
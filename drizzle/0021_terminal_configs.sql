@@ -0,0 +1,28 @@
+-- Terminal configuration
+-- Versioned config documents (receipt, tax rates, currency format, printer
+-- defaults) per license key, with optional per-terminal overrides, pushed to
+-- terminals as config_updated events. Terminals report the version they
+-- applied in their heartbeat
+
+CREATE TABLE "terminal_configs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"license_key" varchar(50) NOT NULL,
+	"activation_id" uuid,
+	"version" integer NOT NULL,
+	"config" jsonb,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "terminal_configs_license_version_unique" UNIQUE("license_key","version")
+);
+--> statement-breakpoint
+ALTER TABLE "terminal_configs" ADD CONSTRAINT "terminal_configs_license_key_license_keys_license_key_fk" FOREIGN KEY ("license_key") REFERENCES "public"."license_keys"("license_key") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "terminal_configs" ADD CONSTRAINT "terminal_configs_activation_id_activations_id_fk" FOREIGN KEY ("activation_id") REFERENCES "public"."activations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "terminal_configs" ADD CONSTRAINT "terminal_configs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_configs_activation_id_idx" ON "terminal_configs" USING btree ("activation_id");
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD COLUMN "config_version" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "activations" ADD COLUMN "applied_config_version" integer;
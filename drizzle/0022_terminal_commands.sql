@@ -0,0 +1,33 @@
+-- Terminal commands
+-- Remote commands (restart, upload diagnostics, clear cache, re-validate)
+-- queued per terminal by support or the customer, delivered as
+-- terminal_command events and tracked through to the terminal's result
+
+CREATE TABLE "terminal_commands" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"activation_id" uuid NOT NULL,
+	"license_key" varchar(50) NOT NULL,
+	"machine_id_hash" varchar(128) NOT NULL,
+	"command" varchar(30) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"event_id" varchar(100) NOT NULL,
+	"issued_by" uuid,
+	"issued_via" varchar(20) NOT NULL,
+	"result" jsonb,
+	"error_message" text,
+	"delivered_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "terminal_commands_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+ALTER TABLE "terminal_commands" ADD CONSTRAINT "terminal_commands_activation_id_activations_id_fk" FOREIGN KEY ("activation_id") REFERENCES "public"."activations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "terminal_commands" ADD CONSTRAINT "terminal_commands_issued_by_users_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_commands_activation_id_idx" ON "terminal_commands" USING btree ("activation_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_commands_license_key_idx" ON "terminal_commands" USING btree ("license_key");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_commands_status_idx" ON "terminal_commands" USING btree ("status");
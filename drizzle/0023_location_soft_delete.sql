@@ -0,0 +1,6 @@
+-- Location soft delete
+-- Removed locations are kept (deleted_at set) so their revoked license key
+-- keeps its location_id: it is not mistaken for a main key and is not
+-- reactivated when the subscription recovers
+
+ALTER TABLE "locations" ADD COLUMN "deleted_at" timestamp with time zone;
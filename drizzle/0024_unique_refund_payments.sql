@@ -0,0 +1,13 @@
+-- Unique refund payments
+-- One refund row per Stripe refund, so the admin refund and the
+-- charge.refunded webhook can't both record it. Duplicates recorded before
+-- this index existed are removed first, keeping the earliest row.
+
+DELETE FROM "payments" AS "duplicate"
+USING "payments" AS "original"
+WHERE "duplicate"."payment_type" = 'refund'
+  AND "original"."payment_type" = 'refund'
+  AND "duplicate"."stripe_payment_id" = "original"."stripe_payment_id"
+  AND ("duplicate"."created_at", "duplicate"."id") > ("original"."created_at", "original"."id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "payments_stripe_refund_id_unique" ON "payments" USING btree ("stripe_payment_id") WHERE "payment_type" = 'refund';
@@ -0,0 +1,440 @@
+/**
+ * Activation Anomaly Detector
+ *
+ * Looks for license keys being shared between businesses using activation
+ * locations, IP addresses, terminal hostnames and heartbeat timing. Findings
+ * are stored as "license_sharing" failure patterns, alerted on when first
+ * detected and kept active until an admin confirms or dismisses them.
+ */
+
+import crypto from "crypto";
+import { db } from "@/lib/db";
+import {
+  activations,
+  failurePatterns,
+  licenseKeys,
+  terminalSessions,
+  type FailurePattern,
+  type NewFailurePattern,
+} from "@/lib/db/schema";
+import { and, desc, eq, gte, inArray } from "drizzle-orm";
+import { NotFoundError, ValidationError } from "@/lib/api/response-helpers";
+import { ACTIVATION_GRACE_PERIOD_MS } from "@/lib/license/constants";
+import { sendAlert } from "@/lib/monitoring/alert-manager";
+
+export const LICENSE_SHARING_PATTERN_TYPE = "license_sharing";
+
+export type LicenseSharingSignal =
+  | "impossible_travel"
+  | "rapid_rebinds"
+  | "shared_machine";
+
+export type LicenseSharingDecision = "confirmed" | "dismissed";
+
+/**
+ * Detection Configuration
+ */
+const SHARING_THRESHOLDS = {
+  // Heartbeats from different countries this close together can't be one site
+  IMPOSSIBLE_TRAVEL_WINDOW_MS: 60 * 60 * 1000,
+  // Only terminals that heartbeated recently count towards travel
+  TRAVEL_LOOKBACK_MS: 24 * 60 * 60 * 1000,
+  // Distinct machines allowed inside one grace period above maxTerminals
+  MAX_GRACE_REBINDS: 3,
+  // How far back to look for activations when counting rebinds
+  REBIND_LOOKBACK_MS: 7 * 24 * 60 * 60 * 1000,
+  // One machine activated on this many keys is flagged
+  SHARED_MACHINE_KEY_COUNT: 3,
+};
+
+interface SharingFinding {
+  patternId: string;
+  signal: LicenseSharingSignal;
+  description: string;
+  severity: "medium" | "high" | "critical";
+  licenseKey?: string;
+  occurrenceCount: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Detect Activation Anomalies
+ * Returns the findings from this run (new and already known)
+ */
+export async function detectActivationAnomalies(): Promise<SharingFinding[]> {
+  const findings = [
+    ...(await detectImpossibleTravel()),
+    ...(await detectRapidRebinds()),
+    ...(await detectSharedMachines()),
+  ];
+
+  await storeSharingFindings(findings);
+
+  return findings;
+}
+
+/**
+ * Detect Impossible Travel
+ * Terminals on one key heartbeating from different countries within the
+ * travel window
+ */
+async function detectImpossibleTravel(): Promise<SharingFinding[]> {
+  const findings: SharingFinding[] = [];
+  const since = new Date(
+    Date.now() - SHARING_THRESHOLDS.TRAVEL_LOOKBACK_MS
+  );
+
+  const recent = await db
+    .select({
+      licenseKey: activations.licenseKey,
+      machineIdHash: activations.machineIdHash,
+      lastHeartbeat: activations.lastHeartbeat,
+      ipAddress: activations.ipAddress,
+      location: activations.location,
+    })
+    .from(activations)
+    .where(
+      and(eq(activations.isActive, true), gte(activations.lastHeartbeat, since))
+    );
+
+  const byLicense = new Map<string, typeof recent>();
+  for (const activation of recent) {
+    if (!getCountry(activation.location)) continue;
+    if (!byLicense.has(activation.licenseKey)) {
+      byLicense.set(activation.licenseKey, []);
+    }
+    byLicense.get(activation.licenseKey)!.push(activation);
+  }
+
+  for (const [licenseKey, terminals] of byLicense.entries()) {
+    const countries = new Set<string>();
+
+    for (let i = 0; i < terminals.length; i++) {
+      for (let j = i + 1; j < terminals.length; j++) {
+        const a = terminals[i];
+        const b = terminals[j];
+        const countryA = getCountry(a.location)!;
+        const countryB = getCountry(b.location)!;
+        const gapMs = Math.abs(
+          a.lastHeartbeat!.getTime() - b.lastHeartbeat!.getTime()
+        );
+
+        if (
+          countryA !== countryB &&
+          gapMs < SHARING_THRESHOLDS.IMPOSSIBLE_TRAVEL_WINDOW_MS
+        ) {
+          countries.add(countryA);
+          countries.add(countryB);
+        }
+      }
+    }
+
+    if (countries.size < 2) continue;
+
+    findings.push({
+      patternId: `license_sharing_travel_${licenseKey}`,
+      signal: "impossible_travel",
+      description: `Terminals on one key are online from ${countries.size} countries at the same time`,
+      severity: countries.size >= 3 ? "critical" : "high",
+      licenseKey,
+      occurrenceCount: countries.size,
+      metadata: {
+        signal: "impossible_travel",
+        countries: [...countries],
+        ipAddresses: [
+          ...new Set(terminals.map((t) => t.ipAddress).filter(Boolean)),
+        ],
+        terminalCount: terminals.length,
+      },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Detect Rapid Rebinds
+ * More distinct machines activated inside one grace period than the
+ * terminal limit allows for honest replacements
+ */
+async function detectRapidRebinds(): Promise<SharingFinding[]> {
+  const findings: SharingFinding[] = [];
+  const since = new Date(
+    Date.now() - SHARING_THRESHOLDS.REBIND_LOOKBACK_MS
+  );
+
+  const recent = await db
+    .select({
+      licenseKey: activations.licenseKey,
+      machineIdHash: activations.machineIdHash,
+      firstActivation: activations.firstActivation,
+      ipAddress: activations.ipAddress,
+      maxTerminals: licenseKeys.maxTerminals,
+    })
+    .from(activations)
+    .innerJoin(licenseKeys, eq(activations.licenseKey, licenseKeys.licenseKey))
+    .where(gte(activations.firstActivation, since))
+    .orderBy(activations.firstActivation);
+
+  const byLicense = new Map<string, typeof recent>();
+  for (const activation of recent) {
+    if (!byLicense.has(activation.licenseKey)) {
+      byLicense.set(activation.licenseKey, []);
+    }
+    byLicense.get(activation.licenseKey)!.push(activation);
+  }
+
+  for (const [licenseKey, rows] of byLicense.entries()) {
+    const limit = rows[0].maxTerminals + SHARING_THRESHOLDS.MAX_GRACE_REBINDS;
+
+    // Busiest grace period window, starting at each activation
+    let worst: { start: Date; machines: Set<string>; ips: Set<string> } | null =
+      null;
+    for (const row of rows) {
+      const windowEnd =
+        row.firstActivation.getTime() + ACTIVATION_GRACE_PERIOD_MS;
+      const inWindow = rows.filter(
+        (r) =>
+          r.firstActivation >= row.firstActivation &&
+          r.firstActivation.getTime() <= windowEnd
+      );
+      const machines = new Set(
+        inWindow.map((r) => r.machineIdHash).filter((m): m is string => !!m)
+      );
+
+      if (!worst || machines.size > worst.machines.size) {
+        worst = {
+          start: row.firstActivation,
+          machines,
+          ips: new Set(
+            inWindow.map((r) => r.ipAddress).filter((ip): ip is string => !!ip)
+          ),
+        };
+      }
+    }
+
+    if (!worst || worst.machines.size <= limit) continue;
+
+    findings.push({
+      patternId: `license_sharing_rebind_${licenseKey}`,
+      signal: "rapid_rebinds",
+      description: `${worst.machines.size} machines activated within ${
+        ACTIVATION_GRACE_PERIOD_MS / (60 * 60 * 1000)
+      } hours on a ${rows[0].maxTerminals}-terminal key`,
+      severity: worst.machines.size >= limit * 2 ? "critical" : "high",
+      licenseKey,
+      occurrenceCount: worst.machines.size,
+      metadata: {
+        signal: "rapid_rebinds",
+        windowStart: worst.start.toISOString(),
+        distinctMachines: worst.machines.size,
+        maxTerminals: rows[0].maxTerminals,
+        ipAddresses: [...worst.ips],
+      },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Detect Shared Machines
+ * One machine activated on many keys, or on keys of different customers
+ */
+async function detectSharedMachines(): Promise<SharingFinding[]> {
+  const findings: SharingFinding[] = [];
+
+  const active = await db
+    .select({
+      machineIdHash: activations.machineIdHash,
+      licenseKey: activations.licenseKey,
+      customerId: licenseKeys.customerId,
+      hostname: terminalSessions.hostname,
+    })
+    .from(activations)
+    .innerJoin(licenseKeys, eq(activations.licenseKey, licenseKeys.licenseKey))
+    .leftJoin(
+      terminalSessions,
+      and(
+        eq(terminalSessions.licenseKey, activations.licenseKey),
+        eq(terminalSessions.machineIdHash, activations.machineIdHash)
+      )
+    )
+    .where(eq(activations.isActive, true));
+
+  const byMachine = new Map<string, typeof active>();
+  for (const row of active) {
+    if (!row.machineIdHash) continue;
+    if (!byMachine.has(row.machineIdHash)) {
+      byMachine.set(row.machineIdHash, []);
+    }
+    byMachine.get(row.machineIdHash)!.push(row);
+  }
+
+  for (const [machineIdHash, rows] of byMachine.entries()) {
+    const keys = new Set(rows.map((r) => r.licenseKey));
+    const customers = new Set(rows.map((r) => r.customerId));
+
+    if (
+      customers.size < 2 &&
+      keys.size < SHARING_THRESHOLDS.SHARED_MACHINE_KEY_COUNT
+    ) {
+      continue;
+    }
+
+    // Machine hashes are longer than a pattern ID allows
+    const machineRef = crypto
+      .createHash("sha256")
+      .update(machineIdHash)
+      .digest("hex")
+      .slice(0, 16);
+
+    findings.push({
+      patternId: `license_sharing_machine_${machineRef}`,
+      signal: "shared_machine",
+      description: `One machine is activated on ${keys.size} license keys belonging to ${customers.size} customer(s)`,
+      severity: customers.size >= 2 ? "critical" : "medium",
+      occurrenceCount: keys.size,
+      metadata: {
+        signal: "shared_machine",
+        machineIdHash,
+        licenseKeys: [...keys],
+        customerCount: customers.size,
+        hostnames: [
+          ...new Set(rows.map((r) => r.hostname).filter(Boolean)),
+        ],
+      },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Store Sharing Findings
+ * Known findings are refreshed in place. A dismissed finding reopens only
+ * if the evidence has grown since it was dismissed.
+ */
+async function storeSharingFindings(findings: SharingFinding[]): Promise<void> {
+  for (const finding of findings) {
+    const [existing] = await db
+      .select()
+      .from(failurePatterns)
+      .where(eq(failurePatterns.patternId, finding.patternId))
+      .limit(1);
+
+    if (existing) {
+      const reopen =
+        existing.status === "dismissed" &&
+        finding.occurrenceCount > existing.occurrenceCount;
+
+      await db
+        .update(failurePatterns)
+        .set({
+          description: finding.description,
+          severity: finding.severity,
+          occurrenceCount: finding.occurrenceCount,
+          lastDetectedAt: new Date(),
+          metadata: finding.metadata,
+          ...(reopen ? { status: "active", resolutionNotes: null } : {}),
+        })
+        .where(eq(failurePatterns.id, existing.id));
+
+      if (reopen) {
+        await alertSharingFinding(finding);
+      }
+      continue;
+    }
+
+    const newPattern: NewFailurePattern = {
+      patternId: finding.patternId,
+      licenseKey: finding.licenseKey,
+      patternType: LICENSE_SHARING_PATTERN_TYPE,
+      description: finding.description,
+      severity: finding.severity,
+      occurrenceCount: finding.occurrenceCount,
+      metadata: finding.metadata,
+      status: "active",
+    };
+
+    await db.insert(failurePatterns).values(newPattern);
+    await alertSharingFinding(finding);
+  }
+}
+
+/**
+ * Alert on a new (or reopened) finding
+ */
+async function alertSharingFinding(finding: SharingFinding): Promise<void> {
+  await sendAlert(
+    "license_sharing_suspected",
+    finding.severity === "critical" ? "critical" : "warning",
+    `Possible License Sharing: ${finding.signal.replace(/_/g, " ")}`,
+    `${finding.description}. Review it in the admin license sharing queue.`,
+    {
+      signal: finding.signal,
+      occurrenceCount: finding.occurrenceCount,
+    },
+    finding.licenseKey
+  );
+}
+
+/**
+ * Get License Sharing Findings
+ * Defaults to the review queue (active findings)
+ */
+export async function getLicenseSharingFindings(
+  statuses: string[] = ["active"]
+): Promise<FailurePattern[]> {
+  return await db
+    .select()
+    .from(failurePatterns)
+    .where(
+      and(
+        eq(failurePatterns.patternType, LICENSE_SHARING_PATTERN_TYPE),
+        inArray(failurePatterns.status, statuses)
+      )
+    )
+    .orderBy(desc(failurePatterns.lastDetectedAt));
+}
+
+/**
+ * Review a License Sharing Finding
+ * Admins confirm sharing (follow up with the customer) or dismiss it as a
+ * false positive
+ */
+export async function reviewLicenseSharingFinding(
+  findingId: string,
+  decision: LicenseSharingDecision,
+  notes?: string
+): Promise<FailurePattern> {
+  if (decision !== "confirmed" && decision !== "dismissed") {
+    throw new ValidationError("Decision must be 'confirmed' or 'dismissed'");
+  }
+
+  const [finding] = await db
+    .update(failurePatterns)
+    .set({
+      status: decision,
+      resolutionNotes: notes?.trim() || null,
+    })
+    .where(
+      and(
+        eq(failurePatterns.id, findingId),
+        eq(failurePatterns.patternType, LICENSE_SHARING_PATTERN_TYPE)
+      )
+    )
+    .returning();
+
+  if (!finding) {
+    throw new NotFoundError("License sharing finding not found");
+  }
+
+  return finding;
+}
+
+function getCountry(location: unknown): string | null {
+  if (!location || typeof location !== "object") return null;
+  const country = (location as { country?: unknown }).country;
+  return typeof country === "string" && country ? country.toUpperCase() : null;
+}
@@ -14,7 +14,8 @@ import {
   failurePatterns,
   type NewFailurePattern,
 } from "@/lib/db/schema";
-import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { eq, ne, and, gte, sql, desc } from "drizzle-orm";
+import { LICENSE_SHARING_PATTERN_TYPE } from "./activation-anomaly-detector";
 
 /**
  * Pattern Detection Configuration
@@ -433,7 +434,12 @@ async function storeDetectedPatterns(
  * Get Active Failure Patterns
  */
 export async function getActiveFailurePatterns(licenseKey?: string) {
-  const whereConditions = [eq(failurePatterns.status, "active")];
+  // License sharing findings are not delivery failures; they have their own
+  // review queue (see activation-anomaly-detector)
+  const whereConditions = [
+    eq(failurePatterns.status, "active"),
+    ne(failurePatterns.patternType, LICENSE_SHARING_PATTERN_TYPE),
+  ];
 
   if (licenseKey) {
     whereConditions.push(eq(failurePatterns.licenseKey, licenseKey));
@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { CustomerNotFoundError } from "@/lib/db/customer-helpers";
 import { UnauthorizedError } from "@/lib/api/auth-helpers";
+import {
+  ForbiddenError as RoleForbiddenError,
+  UnauthorizedError as RoleUnauthorizedError,
+} from "@/lib/api/role-middleware";
 
 /**
  * Standard API error response
@@ -66,8 +70,11 @@ export function handleApiError(
     return NextResponse.json({ error: error.message }, { status: 404 });
   }
 
-  // Handle UnauthorizedError
-  if (error instanceof UnauthorizedError) {
+  // Handle UnauthorizedError (auth helpers, role/permission middleware)
+  if (
+    error instanceof UnauthorizedError ||
+    error instanceof RoleUnauthorizedError
+  ) {
     return NextResponse.json({ error: error.message }, { status: 401 });
   }
 
@@ -76,11 +83,21 @@ export function handleApiError(
     return NextResponse.json({ error: error.message }, { status: 400 });
   }
 
-  // Handle ForbiddenError
-  if (error instanceof ForbiddenError) {
+  // Handle ForbiddenError (including role/permission middleware)
+  if (error instanceof ForbiddenError || error instanceof RoleForbiddenError) {
     return NextResponse.json({ error: error.message }, { status: 403 });
   }
 
+  // Handle NotFoundError
+  if (error instanceof NotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  // Handle ConflictError
+  if (error instanceof ConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+
   // Handle generic Error
   if (error instanceof Error) {
     return NextResponse.json(
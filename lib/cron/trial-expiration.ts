@@ -12,6 +12,10 @@ import {
   publishSubscriptionCancelled,
   getLicenseKeysForSubscription,
 } from "@/lib/subscription-events";
+import { revokeExpiredRotatedKeys } from "@/lib/license/rotation";
+import { resumeDuePausedSubscriptions } from "@/lib/subscription/pause";
+import { runDunning } from "@/lib/subscription/dunning";
+import { reportUsage } from "@/lib/subscription/usage";
 
 /**
  * Trial and Subscription Expiration Cron Jobs
@@ -21,6 +25,10 @@ import {
  * - Trial expiration handling
  * - Grace period expiration handling
  * - License deactivation
+ * - Revoking rotated license keys once their overlap window ends
+ * - Resuming paused subscriptions on their scheduled resume date
+ * - Dunning: payment reminders, terminal banners and suspension for unpaid
+ *   invoices (each step is recorded, so reruns are safe)
  *
  * DEPLOYMENT NOTE:
  * These functions should be called by a cron job service such as:
@@ -583,11 +591,19 @@ export async function runAllExpirationChecks() {
 
   const trialResults = await checkTrialExpirations();
   const gracePeriodResults = await checkGracePeriodExpirations();
+  const rotatedKeyResults = await revokeExpiredRotatedKeys();
+  const pausedSubscriptionResults = await resumeDuePausedSubscriptions();
+  const dunningResults = await runDunning();
+  const usageResults = await reportUsage();
 
   const summary = {
     timestamp: new Date().toISOString(),
     trials: trialResults,
     gracePeriods: gracePeriodResults,
+    rotatedKeys: rotatedKeyResults,
+    pausedSubscriptions: pausedSubscriptionResults,
+    dunning: dunningResults,
+    usage: usageResults,
     totalNotificationsSent:
       trialResults.ending3Days.sent +
       trialResults.ending1Day.sent +
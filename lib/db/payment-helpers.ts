@@ -1,6 +1,11 @@
 import { db } from "./index";
 import { payments } from "./schema";
-import { eq } from "drizzle-orm";
+import { eq, gte, sql } from "drizzle-orm";
+import {
+  convertToReportingCurrency,
+  getReportingCurrency,
+  type Currency,
+} from "@/lib/stripe/currency";
 
 // Transaction type - accepts any object with the same interface as db
 // This allows both db and transaction objects to be passed
@@ -12,12 +17,14 @@ export interface CreatePaymentData {
   paymentType: "subscription" | "one-time" | "refund" | "upgrade" | "downgrade";
   amount: string; // Decimal as string
   currency?: string;
-  status: "pending" | "completed" | "failed" | "refunded";
+  status: "pending" | "completed" | "failed" | "refunded" | "partially_refunded";
   stripePaymentId?: string | null;
   invoiceUrl?: string | null;
   billingPeriodStart?: Date | null;
   billingPeriodEnd?: Date | null;
   paidAt?: Date | null;
+  refundedPaymentId?: string | null;
+  refundReason?: string | null;
 }
 
 /**
@@ -65,6 +72,8 @@ export async function createPaymentRecord(
       billingPeriodStart: data.billingPeriodStart || null,
       billingPeriodEnd: data.billingPeriodEnd || null,
       paidAt: data.paidAt || null,
+      refundedPaymentId: data.refundedPaymentId || null,
+      refundReason: data.refundReason || null,
       // createdAt is handled by defaultNow() in schema
     })
     .returning();
@@ -198,3 +207,49 @@ export async function createProrationPayment(
   );
 }
 
+
+export interface RevenueSummary {
+  reportingCurrency: Currency;
+  totalRevenue: number; // In reportingCurrency
+  paymentCount: number;
+  byCurrency: Array<{
+    currency: string;
+    amount: number; // In the payment currency
+    paymentCount: number;
+  }>;
+}
+
+/**
+ * Revenue from payments created since a date, normalised to the reporting
+ * currency (see lib/stripe/currency.ts for the exchange rates)
+ */
+export async function getRevenueSummary(since: Date): Promise<RevenueSummary> {
+  const rows = await db
+    .select({
+      currency: sql<string>`upper(${payments.currency})`,
+      amount: sql<string>`COALESCE(SUM(CAST(${payments.amount} AS DECIMAL)), 0)`,
+      paymentCount: sql<number>`COUNT(${payments.id})`,
+    })
+    .from(payments)
+    .where(gte(payments.createdAt, since))
+    .groupBy(sql`upper(${payments.currency})`);
+
+  // SQL returns decimals as strings and counts as strings/bigints
+  const byCurrency = rows.map((row) => ({
+    currency: row.currency,
+    amount: parseFloat(row.amount || "0"),
+    paymentCount: Number(row.paymentCount) || 0,
+  }));
+
+  const totalRevenue = byCurrency.reduce(
+    (sum, row) => sum + convertToReportingCurrency(row.amount, row.currency),
+    0
+  );
+
+  return {
+    reportingCurrency: getReportingCurrency(),
+    totalRevenue: Math.round(totalRevenue * 100) / 100,
+    paymentCount: byCurrency.reduce((sum, row) => sum + row.paymentCount, 0),
+    byCurrency,
+  };
+}
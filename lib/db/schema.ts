@@ -11,9 +11,12 @@ import {
   text,
   primaryKey,
   index,
+  uniqueIndex,
   unique,
+  date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // ============================================================================
 // AUTHENTICATION & USER MANAGEMENT
@@ -217,8 +220,11 @@ export const customers = pgTable(
     email: varchar("email", { length: 255 }).notNull().unique(),
     billingAddress: jsonb("billing_address"),
     taxId: varchar("tax_id", { length: 50 }),
+    taxIdType: varchar("tax_id_type", { length: 20 }), // Stripe tax ID type: 'eu_vat', 'gb_vat', 'au_abn', ...
+    stripeTaxId: varchar("stripe_tax_id", { length: 255 }),
     stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
     status: varchar("status", { length: 20 }).default("active"), // 'active', 'suspended', 'cancelled'
+    entitlementOverrides: jsonb("entitlement_overrides"), // Admin overrides of plan entitlements (see lib/license/entitlements.ts)
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -247,6 +253,7 @@ export const subscriptions = pgTable(
     planType: varchar("plan_type", { length: 20 }), // DEPRECATED: Use planId instead
     billingCycle: varchar("billing_cycle", { length: 10 }), // 'monthly', 'annual'
     price: decimal("price", { precision: 10, scale: 2 }),
+    currency: varchar("currency", { length: 3 }).default("usd").notNull(), // Billing currency of price ('usd', 'gbp', 'eur')
     status: varchar("status", { length: 20 }), // 'active', 'past_due', 'cancelled', 'trialing', 'paused'
     currentPeriodStart: timestamp("current_period_start", {
       withTimezone: true,
@@ -259,10 +266,15 @@ export const subscriptions = pgTable(
     trialStart: timestamp("trial_start", { withTimezone: true }),
     trialEnd: timestamp("trial_end", { withTimezone: true }),
     quantity: integer("quantity").default(1),
+    // Terminal seat add-ons purchased on top of the plan's maxTerminals
+    additionalTerminals: integer("additional_terminals").default(0).notNull(),
     metadata: jsonb("metadata"),
     stripeSubscriptionId: varchar("stripe_subscription_id", { length: 255 }),
     stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
     trialPlanChanges: integer("trial_plan_changes").default(0).notNull(),
+    // Seasonal pause (Stripe pause_collection); the cron resumes at resumesAt
+    pausedAt: timestamp("paused_at", { withTimezone: true }),
+    resumesAt: timestamp("resumes_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -279,6 +291,7 @@ export const subscriptions = pgTable(
     currentPeriodEndIdx: index("subscriptions_current_period_end_idx").on(
       table.currentPeriodEnd
     ),
+    resumesAtIdx: index("subscriptions_resumes_at_idx").on(table.resumesAt),
   })
 );
 
@@ -330,6 +343,30 @@ export const subscriptionChanges = pgTable(
 // BUSINESS LOGIC - LICENSES & ACTIVATIONS
 // ============================================================================
 
+// Locations table (stores/sites under one customer, each with its own license key)
+export const locations = pgTable(
+  "locations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerId: uuid("customer_id")
+      .references(() => customers.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    address: text("address"),
+    // Removed locations are kept so their revoked key stays tied to them
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    customerIdIdx: index("locations_customer_id_idx").on(table.customerId),
+  })
+);
+
 // License keys table
 export const licenseKeys = pgTable(
   "license_keys",
@@ -341,7 +378,14 @@ export const licenseKeys = pgTable(
     subscriptionId: uuid("subscription_id").references(() => subscriptions.id, {
       onDelete: "set null",
     }),
+    // Location this key's terminal pool belongs to (null = the subscription's main key)
+    locationId: uuid("location_id").references(() => locations.id, {
+      onDelete: "set null",
+    }),
     licenseKey: varchar("license_key", { length: 50 }).notNull().unique(),
+    licenseType: varchar("license_type", { length: 20 })
+      .default("subscription")
+      .notNull(), // 'subscription', 'perpetual', 'fixed_term'
     maxTerminals: integer("max_terminals").default(1).notNull(),
     activationCount: integer("activation_count").default(0).notNull(),
     version: varchar("version", { length: 10 }).default("1.0"),
@@ -350,8 +394,19 @@ export const licenseKeys = pgTable(
       .defaultNow()
       .notNull(),
     expiresAt: timestamp("expires_at", { withTimezone: true }),
+    // Last date covered by update eligibility (null = all updates)
+    updatesUntil: timestamp("updates_until", { withTimezone: true }),
     revokedAt: timestamp("revoked_at", { withTimezone: true }),
     revocationReason: text("revocation_reason"),
+    // Key rotation: the key that replaced this one, and when the old key stops working
+    replacedByKey: varchar("replaced_by_key", { length: 50 }),
+    rotationOverlapEndsAt: timestamp("rotation_overlap_ends_at", {
+      withTimezone: true,
+    }),
+    // Last sequence number given to an event published on this key
+    eventSequence: integer("event_sequence").default(0).notNull(),
+    // Last version given to a terminal config document on this key
+    configVersion: integer("config_version").default(0).notNull(),
     notes: text("notes"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -367,6 +422,10 @@ export const licenseKeys = pgTable(
     ),
     isActiveIdx: index("license_keys_is_active_idx").on(table.isActive),
     expiresAtIdx: index("license_keys_expires_at_idx").on(table.expiresAt),
+    replacedByKeyIdx: index("license_keys_replaced_by_key_idx").on(
+      table.replacedByKey
+    ),
+    locationIdIdx: index("license_keys_location_id_idx").on(table.locationId),
   })
 );
 
@@ -380,6 +439,8 @@ export const activations = pgTable(
       .notNull(),
     machineIdHash: varchar("machine_id_hash", { length: 128 }),
     terminalName: varchar("terminal_name", { length: 100 }),
+    // Customer-defined group (e.g. "tills", "kitchen") events can be targeted at
+    terminalGroup: varchar("terminal_group", { length: 50 }),
     isActive: boolean("is_active").default(true).notNull(),
     firstActivation: timestamp("first_activation", { withTimezone: true })
       .defaultNow()
@@ -387,6 +448,8 @@ export const activations = pgTable(
     lastHeartbeat: timestamp("last_heartbeat", { withTimezone: true }),
     ipAddress: inet("ip_address"),
     location: jsonb("location"),
+    lastTransactionCount: integer("last_transaction_count"), // Terminal's running transaction counter at its last heartbeat
+    appliedConfigVersion: integer("applied_config_version"), // Config version the terminal reported applying at its last heartbeat
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -403,6 +466,122 @@ export const activations = pgTable(
   })
 );
 
+// Terminal transfer requests (a replacement machine taking over an activation)
+export const terminalTransferRequests = pgTable(
+  "terminal_transfer_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    activationId: uuid("activation_id")
+      .references(() => activations.id, { onDelete: "cascade" })
+      .notNull(),
+    licenseKey: varchar("license_key", { length: 50 }).notNull(),
+    // The replacement machine asking to take over the activation
+    machineIdHash: varchar("machine_id_hash", { length: 128 }).notNull(),
+    terminalName: varchar("terminal_name", { length: 100 }),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    location: jsonb("location"),
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'approved', 'rejected', 'expired', 'cancelled'
+    // SHA-256 of the token in the emailed approval link
+    approvalTokenHash: varchar("approval_token_hash", { length: 64 })
+      .notNull()
+      .unique(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    resolvedVia: varchar("resolved_via", { length: 20 }), // 'dashboard', 'email'
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    activationIdIdx: index("terminal_transfer_requests_activation_id_idx").on(
+      table.activationId
+    ),
+    licenseKeyIdx: index("terminal_transfer_requests_license_key_idx").on(
+      table.licenseKey
+    ),
+    statusIdx: index("terminal_transfer_requests_status_idx").on(table.status),
+  })
+);
+
+// Terminal config documents (receipt, tax, currency and printer settings)
+// Each save adds a row; the latest version per license key (activationId
+// null) and per terminal override is the current one
+export const terminalConfigs = pgTable(
+  "terminal_configs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    licenseKey: varchar("license_key", { length: 50 })
+      .references(() => licenseKeys.licenseKey, { onDelete: "cascade" })
+      .notNull(),
+    // Terminal this override applies to (null = license-wide document)
+    activationId: uuid("activation_id").references(() => activations.id, {
+      onDelete: "cascade",
+    }),
+    version: integer("version").notNull(),
+    config: jsonb("config"), // Null on an override = override cleared
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    licenseVersionUnique: unique("terminal_configs_license_version_unique").on(
+      table.licenseKey,
+      table.version
+    ),
+    activationIdIdx: index("terminal_configs_activation_id_idx").on(
+      table.activationId
+    ),
+  })
+);
+
+// Remote commands sent to a terminal (restart, upload diagnostics, ...)
+// Delivered as terminal_command events; the event's ack marks delivery and
+// the terminal reports the outcome separately
+export const terminalCommands = pgTable(
+  "terminal_commands",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    activationId: uuid("activation_id")
+      .references(() => activations.id, { onDelete: "cascade" })
+      .notNull(),
+    licenseKey: varchar("license_key", { length: 50 }).notNull(),
+    machineIdHash: varchar("machine_id_hash", { length: 128 }).notNull(),
+    command: varchar("command", { length: 30 }).notNull(), // 'restart', 'upload_diagnostics', 'clear_cache', 'revalidate'
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'delivered', 'succeeded', 'failed', 'undelivered'
+    // The terminal_command event carrying it
+    eventId: varchar("event_id", { length: 100 }).notNull().unique(),
+    issuedBy: uuid("issued_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    issuedVia: varchar("issued_via", { length: 20 }).notNull(), // 'admin', 'dashboard'
+    result: jsonb("result"), // What the terminal reported (e.g. diagnostics)
+    errorMessage: text("error_message"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    activationIdIdx: index("terminal_commands_activation_id_idx").on(
+      table.activationId
+    ),
+    licenseKeyIdx: index("terminal_commands_license_key_idx").on(
+      table.licenseKey
+    ),
+    statusIdx: index("terminal_commands_status_idx").on(table.status),
+  })
+);
+
 // ============================================================================
 // BUSINESS LOGIC - PAYMENTS & BILLING
 // ============================================================================
@@ -421,8 +600,14 @@ export const payments = pgTable(
     paymentType: varchar("payment_type", { length: 20 }), // 'subscription', 'one-time', 'refund', 'upgrade'
     amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
     currency: varchar("currency", { length: 3 }).default("USD").notNull(),
-    status: varchar("status", { length: 20 }), // 'pending', 'completed', 'failed', 'refunded'
-    stripePaymentId: varchar("stripe_payment_id", { length: 100 }),
+    status: varchar("status", { length: 20 }), // 'pending', 'completed', 'failed', 'refunded', 'partially_refunded'
+    stripePaymentId: varchar("stripe_payment_id", { length: 100 }), // Refunds: the Stripe refund ID
+    // Refunds: the payment they refund (amount is negative)
+    refundedPaymentId: uuid("refunded_payment_id").references(
+      (): AnyPgColumn => payments.id,
+      { onDelete: "set null" }
+    ),
+    refundReason: varchar("refund_reason", { length: 50 }), // 'requested_by_customer', 'duplicate', 'fraudulent'
     invoiceUrl: text("invoice_url"),
     billingPeriodStart: timestamp("billing_period_start", {
       withTimezone: true,
@@ -443,6 +628,13 @@ export const payments = pgTable(
     stripePaymentIdIdx: index("payments_stripe_payment_id_idx").on(
       table.stripePaymentId
     ),
+    refundedPaymentIdIdx: index("payments_refunded_payment_id_idx").on(
+      table.refundedPaymentId
+    ),
+    // One refund row per Stripe refund (see recordRefund)
+    stripeRefundIdUnique: uniqueIndex("payments_stripe_refund_id_unique")
+      .on(table.stripePaymentId)
+      .where(sql`${table.paymentType} = 'refund'`),
   })
 );
 
@@ -515,6 +707,9 @@ export const invoices = pgTable(
 
     subtotal: integer("subtotal").notNull(),
     tax: integer("tax").default(0),
+    // Promotion code discount (cents) and the code that was applied
+    discount: integer("discount").default(0),
+    promotionCode: varchar("promotion_code", { length: 100 }),
     total: integer("total").notNull(),
     amountDue: integer("amount_due").notNull(),
     amountPaid: integer("amount_paid").default(0),
@@ -560,7 +755,9 @@ export const invoiceLineItems = pgTable(
     description: text("description").notNull(),
     quantity: integer("quantity").default(1).notNull(),
     unitAmount: integer("unit_amount").notNull(),
-    amount: integer("amount").notNull(),
+    amount: integer("amount").notNull(), // Net of tax
+    taxAmount: integer("tax_amount").default(0).notNull(),
+    taxabilityReason: varchar("taxability_reason", { length: 50 }), // Stripe Tax reason, e.g. 'standard_rated', 'reverse_charge'
     currency: varchar("currency", { length: 3 }).default("usd").notNull(),
 
     stripeLineItemId: varchar("stripe_line_item_id", { length: 100 }),
@@ -580,6 +777,240 @@ export const invoiceLineItems = pgTable(
   })
 );
 
+// Credit notes table - refunds and credits issued against invoices in Stripe
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerId: uuid("customer_id")
+      .references(() => customers.id, { onDelete: "cascade" })
+      .notNull(),
+    invoiceId: uuid("invoice_id").references(() => invoices.id, {
+      onDelete: "set null",
+    }),
+
+    stripeCreditNoteId: varchar("stripe_credit_note_id", { length: 100 })
+      .unique()
+      .notNull(),
+    stripeInvoiceId: varchar("stripe_invoice_id", { length: 100 }).notNull(),
+    number: varchar("number", { length: 50 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull(), // 'issued', 'void'
+    reason: varchar("reason", { length: 50 }), // 'duplicate', 'fraudulent', 'order_change', 'product_unsatisfactory'
+
+    subtotal: integer("subtotal").notNull(), // Net of tax
+    tax: integer("tax").default(0).notNull(),
+    total: integer("total").notNull(),
+    currency: varchar("currency", { length: 3 }).default("usd").notNull(),
+    lines: jsonb("lines"), // [{ description, quantity, amount, taxAmount }] in cents
+    memo: text("memo"),
+
+    issuedAt: timestamp("issued_at", { withTimezone: true }).notNull(),
+    voidedAt: timestamp("voided_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    customerIdIdx: index("credit_notes_customer_id_idx").on(table.customerId),
+    invoiceIdIdx: index("credit_notes_invoice_id_idx").on(table.invoiceId),
+  })
+);
+
+// Promotion codes table (mirrors the Stripe coupon + promotion code pair)
+export const promotionCodes = pgTable(
+  "promotion_codes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // Customer-facing code, stored uppercase
+    code: varchar("code", { length: 100 }).notNull().unique(),
+    description: text("description"),
+    percentOff: integer("percent_off"),
+    amountOff: integer("amount_off"), // Cents
+    currency: varchar("currency", { length: 3 }).default("usd").notNull(),
+    duration: varchar("duration", { length: 20 }).notNull(), // 'once', 'repeating', 'forever'
+    durationInMonths: integer("duration_in_months"),
+    maxRedemptions: integer("max_redemptions"),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    isActive: boolean("is_active").default(true).notNull(),
+    retiredAt: timestamp("retired_at", { withTimezone: true }),
+    stripeCouponId: varchar("stripe_coupon_id", { length: 255 }).notNull(),
+    stripePromotionCodeId: varchar("stripe_promotion_code_id", {
+      length: 255,
+    })
+      .notNull()
+      .unique(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    isActiveIdx: index("promotion_codes_is_active_idx").on(table.isActive),
+  })
+);
+
+// Dunning cases (one per unpaid invoice)
+export const dunningCases = pgTable(
+  "dunning_cases",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    subscriptionId: uuid("subscription_id")
+      .references(() => subscriptions.id, { onDelete: "cascade" })
+      .notNull(),
+    customerId: uuid("customer_id")
+      .references(() => customers.id, { onDelete: "cascade" })
+      .notNull(),
+    stripeInvoiceId: varchar("stripe_invoice_id", { length: 100 })
+      .unique()
+      .notNull(),
+    amountDue: integer("amount_due").notNull(), // Cents
+    currency: varchar("currency", { length: 3 }).default("usd").notNull(),
+    hostedInvoiceUrl: text("hosted_invoice_url"),
+    status: varchar("status", { length: 20 }).default("active").notNull(), // 'active', 'suspended', 'recovered', 'void'
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull(), // First payment failure (day 0)
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    subscriptionIdIdx: index("dunning_cases_subscription_id_idx").on(
+      table.subscriptionId
+    ),
+    statusIdx: index("dunning_cases_status_idx").on(table.status),
+  })
+);
+
+// Dunning steps executed for a case (unique per step so cron reruns skip them)
+export const dunningSteps = pgTable(
+  "dunning_steps",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    dunningCaseId: uuid("dunning_case_id")
+      .references(() => dunningCases.id, { onDelete: "cascade" })
+      .notNull(),
+    step: varchar("step", { length: 50 }).notNull(), // e.g. 'email_day_0', 'suspension'
+    action: varchar("action", { length: 20 }).notNull(), // 'email', 'terminal_banner', 'suspension'
+    status: varchar("status", { length: 20 }).notNull(), // 'processing', 'completed', 'failed'
+    attempts: integer("attempts").default(1).notNull(),
+    error: text("error"),
+    executedAt: timestamp("executed_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    caseStepUnique: unique("dunning_steps_case_step_unique").on(
+      table.dunningCaseId,
+      table.step
+    ),
+  })
+);
+
+// Daily transaction usage per subscription (from terminal heartbeats)
+export const usageRecords = pgTable(
+  "usage_records",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    subscriptionId: uuid("subscription_id")
+      .references(() => subscriptions.id, { onDelete: "cascade" })
+      .notNull(),
+    customerId: uuid("customer_id")
+      .references(() => customers.id, { onDelete: "cascade" })
+      .notNull(),
+    usageDate: date("usage_date", { mode: "string" }).notNull(), // UTC day
+    transactionCount: integer("transaction_count").default(0).notNull(),
+    reportedCount: integer("reported_count").default(0).notNull(), // Sent to Stripe so far
+    reportedAt: timestamp("reported_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    subscriptionDateUnique: unique("usage_records_subscription_date_unique").on(
+      table.subscriptionId,
+      table.usageDate
+    ),
+    customerIdIdx: index("usage_records_customer_id_idx").on(table.customerId),
+  })
+);
+
+// Stripe reconciliation runs (scheduled comparison of billing rows with Stripe)
+export const reconciliationRuns = pgTable(
+  "reconciliation_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    trigger: varchar("trigger", { length: 20 }).notNull(), // 'cron', 'manual'
+    status: varchar("status", { length: 20 }).default("running").notNull(), // 'running', 'completed', 'failed'
+    checkedCount: integer("checked_count").default(0).notNull(),
+    driftCount: integer("drift_count").default(0).notNull(),
+    autoFixedCount: integer("auto_fixed_count").default(0).notNull(),
+    error: text("error"),
+    startedAt: timestamp("started_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => ({
+    startedAtIdx: index("reconciliation_runs_started_at_idx").on(
+      table.startedAt
+    ),
+  })
+);
+
+// Differences between a local billing row and Stripe found by reconciliation
+export const reconciliationDrifts = pgTable(
+  "reconciliation_drifts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    runId: uuid("run_id")
+      .references(() => reconciliationRuns.id, { onDelete: "cascade" })
+      .notNull(), // Run that last detected it
+    customerId: uuid("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    entityType: varchar("entity_type", { length: 20 }).notNull(), // 'subscription', 'invoice', 'payment', 'payment_method'
+    localId: uuid("local_id"), // Null for rows missing locally
+    stripeId: varchar("stripe_id", { length: 100 }).notNull(),
+    driftType: varchar("drift_type", { length: 30 }).notNull(), // 'missing_local', 'missing_stripe', 'status_mismatch', 'price_mismatch', 'field_mismatch'
+    field: varchar("field", { length: 50 }),
+    localValue: text("local_value"),
+    stripeValue: text("stripe_value"),
+    details: jsonb("details"), // e.g. Stripe snapshot for rows missing locally
+    status: varchar("status", { length: 20 }).default("open").notNull(), // 'open', 'auto_fixed', 'accepted_stripe', 'accepted_local', 'resolved'
+    resolvedBy: uuid("resolved_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    firstDetectedAt: timestamp("first_detected_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    lastDetectedAt: timestamp("last_detected_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    statusIdx: index("reconciliation_drifts_status_idx").on(table.status),
+    runIdIdx: index("reconciliation_drifts_run_id_idx").on(table.runId),
+    stripeIdIdx: index("reconciliation_drifts_stripe_id_idx").on(
+      table.stripeId
+    ),
+  })
+);
+
 // ============================================================================
 // CUSTOMER SUPPORT
 // ============================================================================
@@ -675,6 +1106,10 @@ export const subscriptionEvents = pgTable(
     licenseKey: varchar("license_key", { length: 100 }).notNull(),
     // Event type (subscription_cancelled, plan_changed, etc.)
     eventType: varchar("event_type", { length: 50 }).notNull(),
+    // Per-license sequence number (SSE id, resumed from via Last-Event-ID)
+    sequence: integer("sequence"),
+    // Terminals the event is for ({ machineIdHashes, group }), null = all
+    target: jsonb("target"),
     // Full event payload (JSON)
     payload: jsonb("payload").notNull(),
     // When the event was created
@@ -690,6 +1125,11 @@ export const subscriptionEvents = pgTable(
       table.licenseKey,
       table.createdAt
     ),
+    // Index for replaying events after a Last-Event-ID
+    licenseKeySequenceIdx: index("subscription_events_license_sequence_idx").on(
+      table.licenseKey,
+      table.sequence
+    ),
     // Index for cleanup job (find expired events)
     expiresAtIdx: index("subscription_events_expires_at_idx").on(
       table.expiresAt
@@ -925,7 +1365,7 @@ export const failurePatterns = pgTable(
     patternId: varchar("pattern_id", { length: 100 }).notNull(),
     // License key (null if system-wide pattern)
     licenseKey: varchar("license_key", { length: 100 }),
-    // Pattern type: timeout, network, parsing, rate_limit, etc.
+    // Pattern type: timeout, network, parsing, rate_limit, license_sharing, etc.
     patternType: varchar("pattern_type", { length: 50 }).notNull(),
     // Pattern description
     description: text("description").notNull(),
@@ -944,6 +1384,7 @@ export const failurePatterns = pgTable(
     // Pattern metadata (error codes, affected event types, etc.)
     metadata: jsonb("metadata"),
     // Status: active, resolved, monitoring
+    // (license_sharing findings are reviewed to confirmed or dismissed)
     status: varchar("status", { length: 20 }).notNull().default("active"),
     // Resolution notes
     resolutionNotes: text("resolution_notes"),
@@ -1252,6 +1693,7 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
   }),
   subscriptions: many(subscriptions),
   licenseKeys: many(licenseKeys),
+  locations: many(locations),
   payments: many(payments),
   subscriptionChanges: many(subscriptionChanges),
   supportTickets: many(supportTickets),
@@ -1293,16 +1735,39 @@ export const licenseKeysRelations = relations(licenseKeys, ({ one, many }) => ({
     fields: [licenseKeys.subscriptionId],
     references: [subscriptions.id],
   }),
+  location: one(locations, {
+    fields: [licenseKeys.locationId],
+    references: [locations.id],
+  }),
   activations: many(activations),
 }));
 
-export const activationsRelations = relations(activations, ({ one }) => ({
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [locations.customerId],
+    references: [customers.id],
+  }),
+  licenseKeys: many(licenseKeys),
+}));
+
+export const activationsRelations = relations(activations, ({ one, many }) => ({
   licenseKey: one(licenseKeys, {
     fields: [activations.licenseKey],
     references: [licenseKeys.licenseKey],
   }),
+  transferRequests: many(terminalTransferRequests),
 }));
 
+export const terminalTransferRequestsRelations = relations(
+  terminalTransferRequests,
+  ({ one }) => ({
+    activation: one(activations, {
+      fields: [terminalTransferRequests.activationId],
+      references: [activations.id],
+    }),
+  })
+);
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
   customer: one(customers, {
     fields: [payments.customerId],
@@ -1342,6 +1807,7 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
     references: [subscriptions.id],
   }),
   lineItems: many(invoiceLineItems),
+  creditNotes: many(creditNotes),
 }));
 
 export const invoiceLineItemsRelations = relations(
@@ -1354,6 +1820,17 @@ export const invoiceLineItemsRelations = relations(
   })
 );
 
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  customer: one(customers, {
+    fields: [creditNotes.customerId],
+    references: [customers.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -1387,10 +1864,20 @@ export type Subscription = typeof subscriptions.$inferSelect;
 export type NewSubscription = typeof subscriptions.$inferInsert;
 export type SubscriptionChange = typeof subscriptionChanges.$inferSelect;
 export type NewSubscriptionChange = typeof subscriptionChanges.$inferInsert;
+export type Location = typeof locations.$inferSelect;
+export type NewLocation = typeof locations.$inferInsert;
 export type LicenseKey = typeof licenseKeys.$inferSelect;
 export type NewLicenseKey = typeof licenseKeys.$inferInsert;
 export type Activation = typeof activations.$inferSelect;
 export type NewActivation = typeof activations.$inferInsert;
+export type TerminalConfigDocument = typeof terminalConfigs.$inferSelect;
+export type NewTerminalConfigDocument = typeof terminalConfigs.$inferInsert;
+export type TerminalCommand = typeof terminalCommands.$inferSelect;
+export type NewTerminalCommand = typeof terminalCommands.$inferInsert;
+export type TerminalTransferRequest =
+  typeof terminalTransferRequests.$inferSelect;
+export type NewTerminalTransferRequest =
+  typeof terminalTransferRequests.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type NewPayment = typeof payments.$inferInsert;
 export type PaymentMethod = typeof paymentMethods.$inferSelect;
@@ -1399,6 +1886,22 @@ export type Invoice = typeof invoices.$inferSelect;
 export type NewInvoice = typeof invoices.$inferInsert;
 export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 export type NewInvoiceLineItem = typeof invoiceLineItems.$inferInsert;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type NewCreditNote = typeof creditNotes.$inferInsert;
+export type PromotionCode = typeof promotionCodes.$inferSelect;
+export type NewPromotionCode = typeof promotionCodes.$inferInsert;
+export type DunningCase = typeof dunningCases.$inferSelect;
+export type NewDunningCase = typeof dunningCases.$inferInsert;
+export type DunningStep = typeof dunningSteps.$inferSelect;
+export type NewDunningStep = typeof dunningSteps.$inferInsert;
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type NewUsageRecord = typeof usageRecords.$inferInsert;
+
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type NewReconciliationRun = typeof reconciliationRuns.$inferInsert;
+
+export type ReconciliationDrift = typeof reconciliationDrifts.$inferSelect;
+export type NewReconciliationDrift = typeof reconciliationDrifts.$inferInsert;
 export type SupportTicket = typeof supportTickets.$inferSelect;
 export type NewSupportTicket = typeof supportTickets.$inferInsert;
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
@@ -6,11 +6,18 @@ import type { Transporter } from "nodemailer";
  * Provides standardized email sending functionality
  */
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
 export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
 }
 
 export interface SendEmailResult {
@@ -53,6 +60,7 @@ export async function sendEmail(options: EmailOptions): Promise<SendEmailResult>
       subject: options.subject,
       html: options.html,
       text: options.text || stripHtml(options.html),
+      attachments: options.attachments,
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -0,0 +1,77 @@
+import { sendEmail, type SendEmailResult } from "@/lib/email/sender";
+import {
+  createEmailTemplate,
+  createEmailButton,
+  createFallbackLink,
+  createExpiryNotice,
+  createHeading,
+  createParagraph,
+} from "@/lib/email/templates";
+
+/**
+ * Dunning Notifications
+ * Payment failure reminders sent on the dunning schedule
+ */
+
+interface PaymentFailedEmailData {
+  email: string;
+  userName?: string;
+  amountDue: number; // Cents
+  currency: string;
+  suspendsAt: Date;
+  paymentUrl: string; // Stripe hosted invoice, or the billing page
+  reminderNumber: number; // 1 for the first email after the failure
+  isFinalReminder: boolean;
+}
+
+function formatAmount(amountDue: number, currency: string): string {
+  return `${(amountDue / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+/**
+ * Send a payment failed reminder
+ * The first email reports the failure; later ones count down to suspension
+ */
+export async function sendPaymentFailedEmail(
+  data: PaymentFailedEmailData
+): Promise<SendEmailResult> {
+  const amount = formatAmount(data.amountDue, data.currency);
+  const greeting = data.userName ? `Hi ${data.userName},` : "Hi,";
+  const daysLeft = Math.max(
+    0,
+    Math.ceil((data.suspendsAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+  );
+
+  const title =
+    data.reminderNumber === 1
+      ? "Your Payment Failed"
+      : data.isFinalReminder
+      ? "Final Reminder: Payment Required"
+      : "Reminder: Payment Required";
+
+  const content = [
+    createHeading(title),
+    createParagraph(greeting),
+    createParagraph(
+      data.reminderNumber === 1
+        ? `We couldn't collect your aurswift subscription payment of <strong>${amount}</strong>. This usually means the card expired or the bank declined the charge.`
+        : `Your aurswift subscription payment of <strong>${amount}</strong> is still outstanding.`
+    ),
+    createParagraph(
+      `Please update your payment method or pay the invoice. If the payment isn't received, your terminals will be suspended on <strong>${data.suspendsAt.toDateString()}</strong>.`
+    ),
+    createEmailButton(data.paymentUrl, "Pay Now"),
+    createFallbackLink(data.paymentUrl),
+    createExpiryNotice(
+      daysLeft > 0
+        ? `${daysLeft} day${daysLeft === 1 ? "" : "s"} left before suspension. Already paid? You can ignore this email.`
+        : "Your terminals will be suspended shortly. Already paid? You can ignore this email."
+    ),
+  ].join("");
+
+  return sendEmail({
+    to: data.email,
+    subject: `${title} - aurswift`,
+    html: createEmailTemplate(content, title),
+  });
+}
@@ -0,0 +1,62 @@
+import { sendEmail, type SendEmailResult } from "@/lib/email/sender";
+import {
+  createEmailTemplate,
+  createEmailButton,
+  createFallbackLink,
+  createHeading,
+  createParagraph,
+} from "@/lib/email/templates";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
+
+/**
+ * Payment Receipts
+ * Sent when a subscription payment succeeds, with the PDF invoice attached
+ */
+
+interface PaymentReceiptEmailData {
+  email: string;
+  userName?: string;
+  invoiceNumber: string;
+  amountPaid: number; // Cents
+  currency: string;
+  pdf: Buffer;
+  pdfFilename: string;
+}
+
+/**
+ * Send a payment receipt with the invoice PDF attached
+ */
+export async function sendPaymentReceiptEmail(
+  data: PaymentReceiptEmailData
+): Promise<SendEmailResult> {
+  const amount = formatCurrencyAmount(data.amountPaid / 100, data.currency);
+  const greeting = data.userName ? `Hi ${data.userName},` : "Hi,";
+  const billingUrl = `${process.env.NEXTAUTH_URL}/dashboard/billing-history`;
+  const title = "Payment Received";
+
+  const content = [
+    createHeading(title),
+    createParagraph(greeting),
+    createParagraph(
+      `Thanks for your payment of <strong>${amount}</strong> for your aurswift subscription. Your invoice <strong>${data.invoiceNumber}</strong> is attached as a PDF for your records.`
+    ),
+    createParagraph(
+      "You can download past invoices and credit notes at any time from your billing history."
+    ),
+    createEmailButton(billingUrl, "View Billing History"),
+    createFallbackLink(billingUrl),
+  ].join("");
+
+  return sendEmail({
+    to: data.email,
+    subject: `Receipt for invoice ${data.invoiceNumber} - aurswift`,
+    html: createEmailTemplate(content, title),
+    attachments: [
+      {
+        filename: data.pdfFilename,
+        content: data.pdf,
+        contentType: "application/pdf",
+      },
+    ],
+  });
+}
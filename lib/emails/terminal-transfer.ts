@@ -0,0 +1,69 @@
+import { sendEmail, type SendEmailResult } from "@/lib/email/sender";
+import {
+  createEmailTemplate,
+  createEmailButton,
+  createFallbackLink,
+  createExpiryNotice,
+  createHeading,
+  createParagraph,
+} from "@/lib/email/templates";
+
+/**
+ * Terminal Transfer Notifications
+ * Asks the customer to approve a replacement machine taking over a terminal
+ */
+
+interface TerminalTransferEmailData {
+  email: string;
+  terminalName: string;
+  ipAddress?: string | null;
+  approvalToken: string;
+  expiresAt: Date;
+}
+
+// Terminal names come from the desktop app, so escape them before templating
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Send a terminal transfer approval request
+ */
+export async function sendTerminalTransferRequestEmail(
+  data: TerminalTransferEmailData
+): Promise<SendEmailResult> {
+  const approvalUrl = `${
+    process.env.NEXTAUTH_URL || "http://localhost:3000"
+  }/approve-transfer?token=${data.approvalToken}`;
+  const terminalName = escapeHtml(data.terminalName);
+
+  const content = [
+    createHeading("Approve Terminal Transfer"),
+    createParagraph(
+      `A new computer is asking to take over your terminal <strong>${terminalName}</strong>.`
+    ),
+    createParagraph(
+      `If you are replacing this terminal's PC, approve the transfer to move its activation to the new machine. The terminal keeps its name and history, and the transfer does not use one of your yearly deactivations.${
+        data.ipAddress
+          ? ` The request came from IP address ${escapeHtml(data.ipAddress)}.`
+          : ""
+      }`
+    ),
+    createEmailButton(approvalUrl, "Review Transfer"),
+    createFallbackLink(approvalUrl),
+    createExpiryNotice(
+      `This request expires on ${data.expiresAt.toUTCString()}. If you didn't expect it, reject it or ignore this email - the terminal stays on its current machine.`
+    ),
+  ].join("");
+
+  return sendEmail({
+    to: data.email,
+    subject: `Approve transfer of terminal "${data.terminalName}" - aurswift`,
+    html: createEmailTemplate(content, "Approve Terminal Transfer"),
+  });
+}
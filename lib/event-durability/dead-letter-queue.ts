@@ -10,9 +10,14 @@ import {
   deadLetterQueue,
   subscriptionEvents,
   eventRetryHistory,
-  eventAcknowledgments,
 } from "@/lib/db/schema";
 import { eq, and, lt, sql, desc } from "drizzle-orm";
+import { isFullyAcknowledged } from "@/lib/subscription-events/acknowledgments";
+import type { EventTarget } from "@/lib/subscription-events/types";
+import {
+  isCommandSettled,
+  markCommandUndelivered,
+} from "@/lib/license/terminal-commands";
 
 // Configuration
 const MAX_RETRY_ATTEMPTS = 5;
@@ -82,6 +87,10 @@ export async function moveToDeadLetterQueue(params: {
       status: "pending_review",
     });
 
+    if (params.eventType === "terminal_command") {
+      await markCommandUndelivered(params.eventId);
+    }
+
     console.log(`[DLQ] ✅ Event ${params.eventId} moved to dead letter queue`);
   } catch (error) {
     console.error("[DLQ] Failed to move event to dead letter queue:", error);
@@ -134,6 +143,7 @@ export async function getEventsNeedingRetry(): Promise<
     licenseKey: string;
     eventType: string;
     payload: Record<string, unknown>;
+    target: EventTarget | null;
     createdAt: Date;
     retryCount: number;
     lastRetryAt?: Date;
@@ -156,22 +166,21 @@ export async function getEventsNeedingRetry(): Promise<
     const eventsNeedingRetry = [];
 
     for (const event of events) {
-      // Check if event has successful acknowledgment
-      const acks = await db
-        .select()
-        .from(eventAcknowledgments)
-        .where(
-          and(
-            eq(eventAcknowledgments.eventId, event.eventId),
-            eq(eventAcknowledgments.status, "success")
-          )
-        )
-        .limit(1);
-
-      if (acks.length > 0) {
+      // Check if event has successful acknowledgment (from every targeted
+      // terminal, for a targeted event)
+      if (await isFullyAcknowledged(event)) {
         continue; // Event successfully processed
       }
 
+      // A command the terminal already failed (failed/skipped ack) or
+      // finished needs no more deliveries
+      if (
+        event.eventType === "terminal_command" &&
+        (await isCommandSettled(event.eventId))
+      ) {
+        continue;
+      }
+
       // Get retry history
       const retryHistory = await db
         .select()
@@ -207,6 +216,7 @@ export async function getEventsNeedingRetry(): Promise<
         licenseKey: event.licenseKey,
         eventType: event.eventType,
         payload: event.payload as Record<string, unknown>,
+        target: event.target as EventTarget | null,
         createdAt: event.createdAt,
         retryCount,
         lastRetryAt: lastRetry?.attemptedAt,
@@ -87,12 +87,19 @@ export async function processEventRetries(): Promise<{
               | "subscription_reactivated"
               | "subscription_updated"
               | "subscription_past_due"
+              | "subscription_payment_overdue"
               | "subscription_payment_succeeded"
+              | "subscription_paused"
+              | "subscription_resumed"
               | "license_revoked"
               | "license_reactivated"
-              | "plan_changed",
+              | "license_key_rotated"
+              | "plan_changed"
+              | "config_updated"
+              | "terminal_command",
             event.licenseKey,
-            event.payload as never // Type assertion needed - payload type depends on event type
+            event.payload as never, // Type assertion needed - payload type depends on event type
+            event.target || undefined
           );
 
           // Use the original event ID for idempotency
@@ -1,6 +1,7 @@
 /**
  * GitHub Releases API Integration
- * Fetches latest release information from GitHub repository
+ * Fetches release information from GitHub repository
+ * Pre-releases are published on the beta channel; everything else is stable.
  */
 
 // GitHub API Response Types
@@ -16,12 +17,18 @@ interface GitHubRelease {
   tag_name: string;
   name: string;
   published_at: string;
+  prerelease: boolean;
+  draft: boolean;
   assets: GitHubAsset[];
   body: string;
   html_url: string;
 }
 
 // Our API Types
+export type ReleaseChannel = "stable" | "beta";
+
+export const RELEASE_CHANNELS: ReleaseChannel[] = ["stable", "beta"];
+
 export interface ReleaseDownload {
   platform: string;
   url: string;
@@ -36,6 +43,12 @@ export interface ReleaseInfo {
   publishedAtFormatted: string;
   downloads: ReleaseDownload[];
   releaseUrl: string;
+  channel: ReleaseChannel;
+}
+
+export interface InstallableRelease {
+  release: ReleaseInfo | null; // Newest release the license may install
+  newerVersionAvailable: boolean; // Newer releases exist past update eligibility
 }
 
 /**
@@ -121,18 +134,14 @@ function parseRelease(release: GitHubRelease): ReleaseInfo {
     publishedAtFormatted: formatDate(release.published_at),
     downloads,
     releaseUrl: release.html_url,
+    channel: release.prerelease ? "beta" : "stable",
   };
 }
 
 /**
- * Fetch latest release from GitHub
+ * Call the GitHub API with auth (if configured) and error mapping
  */
-export async function fetchLatestRelease(
-  owner: string = "AurSwift",
-  repo: string = "AurSwift"
-): Promise<ReleaseInfo> {
-  const url = `https://api.github.com/repos/${owner}/${repo}/releases/latest`;
-
+async function fetchGitHub<T>(url: string): Promise<T> {
   try {
     const headers: HeadersInit = {
       Accept: "application/vnd.github.v3+json",
@@ -158,8 +167,7 @@ export async function fetchLatestRelease(
       throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
     }
 
-    const release: GitHubRelease = await response.json();
-    return parseRelease(release);
+    return (await response.json()) as T;
   } catch (error) {
     if (error instanceof Error) {
       throw error;
@@ -168,3 +176,62 @@ export async function fetchLatestRelease(
   }
 }
 
+/**
+ * Fetch latest release from GitHub
+ */
+export async function fetchLatestRelease(
+  owner: string = "AurSwift",
+  repo: string = "AurSwift"
+): Promise<ReleaseInfo> {
+  const release = await fetchGitHub<GitHubRelease>(
+    `https://api.github.com/repos/${owner}/${repo}/releases/latest`
+  );
+  return parseRelease(release);
+}
+
+/**
+ * Fetch recent releases for a channel from GitHub, newest first
+ * The beta channel includes stable releases as well as pre-releases.
+ */
+export async function fetchReleases(
+  owner: string = "AurSwift",
+  repo: string = "AurSwift",
+  channel: ReleaseChannel = "stable"
+): Promise<ReleaseInfo[]> {
+  const releases = await fetchGitHub<GitHubRelease[]>(
+    `https://api.github.com/repos/${owner}/${repo}/releases?per_page=30`
+  );
+
+  return releases
+    .filter((release) => !release.draft && release.published_at)
+    .filter((release) => channel === "beta" || !release.prerelease)
+    .sort(
+      (a, b) =>
+        new Date(b.published_at).getTime() - new Date(a.published_at).getTime()
+    )
+    .map(parseRelease);
+}
+
+/**
+ * Pick the newest release published on or before a license's update
+ * eligibility date
+ *
+ * @param releases - Releases sorted newest first (see fetchReleases)
+ * @param updatesUntil - End of update eligibility (null = all releases)
+ */
+export function selectInstallableRelease(
+  releases: ReleaseInfo[],
+  updatesUntil: Date | null
+): InstallableRelease {
+  const index = updatesUntil
+    ? releases.findIndex(
+        (release) => new Date(release.publishedAt) <= updatesUntil
+      )
+    : 0;
+  const release = index >= 0 ? (releases[index] ?? null) : null;
+
+  return {
+    release,
+    newerVersionAvailable: release ? index > 0 : releases.length > 0,
+  };
+}
@@ -0,0 +1,254 @@
+import { db } from "@/lib/db";
+import {
+  creditNotes,
+  customers,
+  invoiceLineItems,
+  invoices,
+  subscriptions,
+  type Customer,
+} from "@/lib/db/schema";
+import { and, asc, eq, type SQL } from "drizzle-orm";
+import { NotFoundError } from "@/lib/api/response-helpers";
+import { getPlanDisplayName } from "@/lib/stripe/plan-utils";
+import type {
+  InvoicePdfData,
+  InvoicePdfLine,
+  InvoicePdfParty,
+} from "./invoice-pdf";
+
+/**
+ * Invoice documents
+ *
+ * Builds invoice and credit note PDFs from the invoices, invoice_line_items
+ * and credit_notes tables rather than Stripe, so they carry our branding and
+ * the customer's profile details. Our company details are configured with
+ * INVOICE_COMPANY_NAME, INVOICE_COMPANY_ADDRESS (lines separated by "|"),
+ * INVOICE_COMPANY_EMAIL and INVOICE_COMPANY_VAT_NUMBER.
+ */
+
+// Line stored on credit_notes.lines (cents)
+export interface CreditNoteLine {
+  description: string;
+  quantity: number;
+  amount: number;
+  taxAmount: number;
+}
+
+interface BillingAddress {
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+function getSellerDetails(): InvoicePdfParty {
+  return {
+    name: process.env.INVOICE_COMPANY_NAME || "aurswift EPOS Solutions",
+    addressLines: (process.env.INVOICE_COMPANY_ADDRESS || "")
+      .split("|")
+      .map((line) => line.trim())
+      .filter(Boolean),
+    email: process.env.INVOICE_COMPANY_EMAIL || null,
+    taxId: process.env.INVOICE_COMPANY_VAT_NUMBER || null,
+  };
+}
+
+function getCustomerParty(customer: Customer): InvoicePdfParty {
+  const billingAddress = customer.billingAddress as BillingAddress | null;
+  const cityLine = [
+    billingAddress?.city,
+    billingAddress?.state,
+    billingAddress?.zipCode,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return {
+    name: customer.companyName || customer.email,
+    addressLines: [
+      billingAddress?.address,
+      cityLine,
+      billingAddress?.country,
+    ].filter((line): line is string => !!line),
+    email: customer.email,
+    taxId: customer.taxId,
+  };
+}
+
+function formatPeriod(start: Date | null, end: Date | null): string | null {
+  if (!start || !end) return null;
+  const options: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  };
+  return `${start.toLocaleDateString("en-US", options)} - ${end.toLocaleDateString("en-US", options)}`;
+}
+
+/**
+ * PDF data for an invoice
+ *
+ * @param invoiceId Our invoices.id
+ * @param customerId Restrict to this customer's invoices (customer routes)
+ * @throws NotFoundError if the invoice doesn't exist (or isn't theirs)
+ */
+export async function getInvoicePdfData(
+  invoiceId: string,
+  customerId?: string
+): Promise<InvoicePdfData> {
+  const conditions: SQL[] = [eq(invoices.id, invoiceId)];
+  if (customerId) conditions.push(eq(invoices.customerId, customerId));
+
+  const [row] = await db
+    .select({
+      invoice: invoices,
+      customer: customers,
+      planId: subscriptions.planId,
+    })
+    .from(invoices)
+    .innerJoin(customers, eq(invoices.customerId, customers.id))
+    .leftJoin(subscriptions, eq(invoices.subscriptionId, subscriptions.id))
+    .where(and(...conditions))
+    .limit(1);
+
+  if (!row) {
+    throw new NotFoundError("Invoice not found");
+  }
+
+  const { invoice, customer } = row;
+  const lineItems = await db
+    .select()
+    .from(invoiceLineItems)
+    .where(eq(invoiceLineItems.invoiceId, invoice.id))
+    .orderBy(asc(invoiceLineItems.createdAt));
+
+  const tax = invoice.tax || 0;
+  const lines: InvoicePdfLine[] =
+    lineItems.length > 0
+      ? lineItems.map((item) => ({
+          description: item.description,
+          period: formatPeriod(item.periodStart, item.periodEnd),
+          quantity: item.quantity,
+          amount: item.amount,
+          taxAmount: item.taxAmount,
+        }))
+      : [
+          // Invoices synced before line items were stored
+          {
+            description: row.planId
+              ? `${getPlanDisplayName(row.planId)} subscription`
+              : invoice.description || "Subscription",
+            period: formatPeriod(invoice.periodStart, invoice.periodEnd),
+            quantity: 1,
+            amount: invoice.subtotal,
+            taxAmount: tax,
+          },
+        ];
+
+  return {
+    kind: "invoice",
+    number: invoice.number || invoice.stripeInvoiceId,
+    issuedAt: invoice.createdAt,
+    dueDate: invoice.dueDate,
+    paidAt:
+      invoice.status === "paid" ? invoice.paidAt || invoice.updatedAt : null,
+    voided: invoice.status === "void",
+    currency: invoice.currency,
+    seller: getSellerDetails(),
+    customer: getCustomerParty(customer),
+    lines,
+    subtotal: invoice.subtotal,
+    discount: invoice.discount || 0,
+    promotionCode: invoice.promotionCode,
+    tax,
+    total: invoice.total,
+    reverseCharge: lineItems.some(
+      (item) => item.taxabilityReason === "reverse_charge"
+    ),
+  };
+}
+
+/**
+ * PDF data for a credit note
+ *
+ * @param creditNoteId Our credit_notes.id
+ * @param customerId Restrict to this customer's credit notes (customer routes)
+ * @throws NotFoundError if the credit note doesn't exist (or isn't theirs)
+ */
+export async function getCreditNotePdfData(
+  creditNoteId: string,
+  customerId?: string
+): Promise<InvoicePdfData> {
+  const conditions: SQL[] = [eq(creditNotes.id, creditNoteId)];
+  if (customerId) conditions.push(eq(creditNotes.customerId, customerId));
+
+  const [row] = await db
+    .select({
+      creditNote: creditNotes,
+      customer: customers,
+      invoiceNumber: invoices.number,
+    })
+    .from(creditNotes)
+    .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+    .leftJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+    .where(and(...conditions))
+    .limit(1);
+
+  if (!row) {
+    throw new NotFoundError("Credit note not found");
+  }
+
+  const { creditNote, customer } = row;
+  const storedLines = (creditNote.lines as CreditNoteLine[] | null) || [];
+
+  // Credits against a reverse-charged invoice carry the same wording
+  const [reverseChargeLine] = creditNote.invoiceId
+    ? await db
+        .select({ id: invoiceLineItems.id })
+        .from(invoiceLineItems)
+        .where(
+          and(
+            eq(invoiceLineItems.invoiceId, creditNote.invoiceId),
+            eq(invoiceLineItems.taxabilityReason, "reverse_charge")
+          )
+        )
+        .limit(1)
+    : [];
+
+  return {
+    kind: "credit_note",
+    number: creditNote.number,
+    issuedAt: creditNote.issuedAt,
+    voided: creditNote.status === "void",
+    relatedInvoiceNumber: row.invoiceNumber || creditNote.stripeInvoiceId,
+    currency: creditNote.currency,
+    seller: getSellerDetails(),
+    customer: getCustomerParty(customer),
+    lines:
+      storedLines.length > 0
+        ? storedLines
+        : [
+            {
+              description: "Credit",
+              quantity: 1,
+              amount: creditNote.subtotal,
+              taxAmount: creditNote.tax,
+            },
+          ],
+    subtotal: creditNote.subtotal,
+    discount: 0,
+    tax: creditNote.tax,
+    total: creditNote.total,
+    reverseCharge: !!reverseChargeLine,
+    memo: creditNote.memo,
+  };
+}
+
+/**
+ * Download filename for an invoice or credit note PDF
+ */
+export function getInvoicePdfFilename(data: InvoicePdfData): string {
+  const prefix = data.kind === "credit_note" ? "credit-note" : "invoice";
+  return `${prefix}-${data.number.replace(/[^A-Za-z0-9_-]/g, "")}.pdf`;
+}
@@ -0,0 +1,255 @@
+import { format } from "date-fns";
+import { formatCurrencyAmount } from "@/lib/stripe/currency";
+import { REVERSE_CHARGE_NOTICE } from "@/lib/stripe/tax-id-utils";
+import { PAGE_WIDTH, PdfDocument, wrapText } from "./pdf";
+
+/**
+ * Invoice PDF layout
+ * Renders invoices, receipts (paid invoices) and credit notes on A4
+ */
+
+export interface InvoicePdfParty {
+  name: string;
+  addressLines: string[];
+  email?: string | null;
+  taxId?: string | null;
+}
+
+export interface InvoicePdfLine {
+  description: string;
+  period?: string | null;
+  quantity: number;
+  amount: number; // Cents, net of tax
+  taxAmount: number; // Cents
+}
+
+export interface InvoicePdfData {
+  kind: "invoice" | "credit_note";
+  number: string;
+  issuedAt: Date;
+  dueDate?: Date | null;
+  paidAt?: Date | null;
+  voided?: boolean;
+  relatedInvoiceNumber?: string | null; // Credit notes: the invoice credited
+  currency: string;
+  seller: InvoicePdfParty;
+  customer: InvoicePdfParty;
+  lines: InvoicePdfLine[];
+  subtotal: number; // Cents, before discount and tax
+  discount: number;
+  promotionCode?: string | null;
+  tax: number;
+  total: number;
+  reverseCharge: boolean;
+  memo?: string | null;
+}
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const PAGE_BOTTOM = 770;
+const MUTED: [number, number, number] = [0.4, 0.4, 0.4];
+
+// Table columns (right edges for numeric columns)
+const COLUMNS = {
+  description: MARGIN + 8,
+  quantity: 330,
+  unit: 400,
+  tax: 470,
+  amount: RIGHT - 8,
+};
+
+function formatDate(date: Date): string {
+  return format(date, "d MMM yyyy");
+}
+
+function drawTableHeader(pdf: PdfDocument, y: number): number {
+  pdf.rect(MARGIN, y, RIGHT - MARGIN, 22);
+  const options = { size: 9, bold: true };
+  pdf.text("Description", COLUMNS.description, y + 15, options);
+  pdf.text("Qty", COLUMNS.quantity, y + 15, { ...options, align: "right" });
+  pdf.text("Unit", COLUMNS.unit, y + 15, { ...options, align: "right" });
+  pdf.text("Tax", COLUMNS.tax, y + 15, { ...options, align: "right" });
+  pdf.text("Amount", COLUMNS.amount, y + 15, { ...options, align: "right" });
+  return y + 36;
+}
+
+function drawParty(
+  pdf: PdfDocument,
+  party: InvoicePdfParty,
+  x: number,
+  y: number
+): number {
+  pdf.text(party.name, x, y, { size: 10, bold: true });
+  let lineY = y + 14;
+  const details = [
+    ...party.addressLines,
+    ...(party.email ? [party.email] : []),
+    ...(party.taxId ? [`VAT / Tax ID: ${party.taxId}`] : []),
+  ];
+  for (const detail of details) {
+    pdf.text(detail, x, lineY, { size: 9, color: MUTED });
+    lineY += 12;
+  }
+  return lineY;
+}
+
+/**
+ * Render an invoice or credit note as a PDF
+ */
+export function renderInvoicePdf(data: InvoicePdfData): Buffer {
+  const pdf = new PdfDocument();
+  const money = (cents: number) =>
+    formatCurrencyAmount(cents / 100, data.currency);
+  const title = data.kind === "credit_note" ? "CREDIT NOTE" : "INVOICE";
+
+  // Header: seller on the left, document details on the right
+  pdf.text(data.seller.name, MARGIN, 60, { size: 18, bold: true });
+  let headerY = 76;
+  for (const detail of [
+    ...data.seller.addressLines,
+    ...(data.seller.email ? [data.seller.email] : []),
+    ...(data.seller.taxId ? [`VAT No: ${data.seller.taxId}`] : []),
+  ]) {
+    pdf.text(detail, MARGIN, headerY, { size: 9, color: MUTED });
+    headerY += 12;
+  }
+
+  pdf.text(title, RIGHT, 60, { size: 20, bold: true, align: "right" });
+  const details: Array<[string, string]> = [
+    ["Number", data.number],
+    ["Date", formatDate(data.issuedAt)],
+  ];
+  if (data.relatedInvoiceNumber) {
+    details.push(["Credits invoice", data.relatedInvoiceNumber]);
+  }
+  if (data.paidAt) {
+    details.push(["Paid", formatDate(data.paidAt)]);
+  } else if (data.dueDate) {
+    details.push(["Due", formatDate(data.dueDate)]);
+  }
+  let detailY = 80;
+  for (const [label, value] of details) {
+    pdf.text(`${label}: ${value}`, RIGHT, detailY, {
+      size: 9,
+      align: "right",
+    });
+    detailY += 12;
+  }
+  if (data.paidAt || data.voided) {
+    pdf.text(data.voided ? "VOID" : "PAID", RIGHT, detailY + 8, {
+      size: 14,
+      bold: true,
+      align: "right",
+      color: data.voided ? [0.7, 0.1, 0.1] : [0.1, 0.5, 0.2],
+    });
+  }
+
+  // Customer
+  let y = Math.max(headerY, detailY + 20) + 20;
+  pdf.text(data.kind === "credit_note" ? "Credit to" : "Bill to", MARGIN, y, {
+    size: 9,
+    color: MUTED,
+  });
+  y = drawParty(pdf, data.customer, MARGIN, y + 14) + 20;
+
+  // Line items
+  y = drawTableHeader(pdf, y);
+  for (const line of data.lines) {
+    const descriptionLines = wrapText(line.description, 240, 9);
+    const rowHeight =
+      descriptionLines.length * 12 + (line.period ? 12 : 0) + 8;
+    if (y + rowHeight > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, 50);
+    }
+
+    descriptionLines.forEach((text, i) => {
+      pdf.text(text, COLUMNS.description, y + i * 12, { size: 9 });
+    });
+    if (line.period) {
+      const periodY = y + descriptionLines.length * 12;
+      pdf.text(line.period, COLUMNS.description, periodY, {
+        size: 8,
+        color: MUTED,
+      });
+    }
+    const unitAmount = Math.round(line.amount / (line.quantity || 1));
+    pdf.text(String(line.quantity), COLUMNS.quantity, y, {
+      size: 9,
+      align: "right",
+    });
+    pdf.text(money(unitAmount), COLUMNS.unit, y, { size: 9, align: "right" });
+    pdf.text(money(line.taxAmount), COLUMNS.tax, y, {
+      size: 9,
+      align: "right",
+    });
+    pdf.text(money(line.amount), COLUMNS.amount, y, {
+      size: 9,
+      align: "right",
+    });
+
+    y += rowHeight;
+    pdf.line(MARGIN, y - 10, RIGHT, y - 10, 0.9);
+  }
+
+  // Totals
+  const totals: Array<[string, string]> = [["Subtotal", money(data.subtotal)]];
+  if (data.discount > 0) {
+    totals.push([
+      data.promotionCode ? `Discount (${data.promotionCode})` : "Discount",
+      `-${money(data.discount)}`,
+    ]);
+  }
+  totals.push(["Tax", money(data.tax)]);
+  if (y + totals.length * 16 + 40 > PAGE_BOTTOM) {
+    pdf.addPage();
+    y = 50;
+  }
+  y += 6;
+  for (const [label, value] of totals) {
+    pdf.text(label, COLUMNS.tax, y, { size: 9, align: "right" });
+    pdf.text(value, COLUMNS.amount, y, { size: 9, align: "right" });
+    y += 16;
+  }
+  pdf.line(COLUMNS.quantity, y - 8, RIGHT, y - 8, 0.6);
+  pdf.text(
+    data.kind === "credit_note" ? "Total credited" : "Total",
+    COLUMNS.tax,
+    y + 6,
+    { size: 11, bold: true, align: "right" }
+  );
+  pdf.text(money(data.total), COLUMNS.amount, y + 6, {
+    size: 11,
+    bold: true,
+    align: "right",
+  });
+  y += 36;
+
+  // Notes
+  const notes = [
+    ...(data.reverseCharge ? [REVERSE_CHARGE_NOTICE] : []),
+    ...(data.memo ? [data.memo] : []),
+  ];
+  for (const note of notes) {
+    for (const text of wrapText(note, RIGHT - MARGIN, 9)) {
+      if (y > PAGE_BOTTOM) {
+        pdf.addPage();
+        y = 50;
+      }
+      pdf.text(text, MARGIN, y, { size: 9 });
+      y += 12;
+    }
+    y += 6;
+  }
+
+  if (y + 20 > PAGE_BOTTOM) {
+    pdf.addPage();
+    y = 50;
+  }
+  pdf.text("Thank you for your business!", MARGIN, y + 14, {
+    size: 9,
+    color: MUTED,
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,193 @@
+/**
+ * Minimal PDF writer
+ *
+ * Just enough of PDF 1.4 to lay out invoices: text in the standard Helvetica
+ * fonts (no embedding needed), rules and shaded boxes on A4 pages. Text is
+ * WinAnsi-encoded so £, € and accented Latin characters print; anything else
+ * is replaced with "?".
+ *
+ * Coordinates are in points with y measured from the TOP of the page.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+type Rgb = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+  color?: Rgb;
+}
+
+// Helvetica and Helvetica-Bold advance widths for ASCII 32-126 (1/1000 em)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+function toWinAnsi(char: string): number {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f; // "?"
+}
+
+/**
+ * Width of a string in points
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    total += code >= 0x20 && code <= 0x7e ? widths[code - 0x20] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Split text into lines no wider than maxWidth, breaking on spaces
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false
+): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measureText(candidate, size, bold) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// PDF string literal, kept 7-bit so the file can be built as ASCII
+function encodeString(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === "(" || char === ")" || char === "\\") {
+      encoded += `\\${char}`;
+    } else if (code > 0x7e) {
+      encoded += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      encoded += String.fromCharCode(code);
+    }
+  }
+  return `(${encoded})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  private get operations(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left =
+      options.align === "right" ? x - measureText(text, size, bold) : x;
+    const [r, g, b] = options.color ?? [0, 0, 0];
+
+    this.operations.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+      `BT /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td ${encodeString(text)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.8): void {
+    this.operations.push(
+      `${formatNumber(gray)} G 0.5 w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray = 0.95): void {
+    this.operations.push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1-4 are fixed; each page adds a page object and its content
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${this.pages
+        .map((_, i) => `${5 + i * 2} 0 R`)
+        .join(" ")}] /Count ${this.pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ];
+
+    for (const [i, operations] of this.pages.entries()) {
+      const content = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    }
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (const [i, object] of objects.entries()) {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "ascii");
+  }
+}
@@ -48,3 +48,42 @@ export const MAX_DEACTIVATIONS = 3;
  */
 export const HEARTBEAT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
+/**
+ * Activation grace period
+ * A new activation can replace another activated less than this long ago
+ * when the license is at its terminal limit (rebinding)
+ */
+export const ACTIVATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+
+/**
+ * Offline lease token settings
+ * Tokens are compact JWS (EdDSA) that terminals verify locally with the
+ * public key published at /api/license/public-key
+ */
+export const OFFLINE_LEASE_ISSUER = "aurswift-license-server";
+export const OFFLINE_LEASE_TOKEN_TYPE = "aurswift-lease+jwt";
+
+/**
+ * License key rotation overlap
+ * After a key is rotated the old key keeps resolving to the new one for this
+ * long, so terminals can pick up the new key before the old one is revoked
+ */
+export const LICENSE_ROTATION_OVERLAP_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+/**
+ * License types
+ * subscription: tied to a Stripe subscription (default)
+ * perpetual: one-off purchase that never expires, with updates until updatesUntil
+ * fixed_term: valid until expiresAt, no subscription (events, pop-ups)
+ */
+export const LICENSE_TYPES = ["subscription", "perpetual", "fixed_term"] as const;
+
+export type LicenseType = (typeof LICENSE_TYPES)[number];
+
+/**
+ * Terminal transfer requests
+ * How long the customer has to approve a replacement machine taking over a
+ * terminal's activation
+ */
+export const TERMINAL_TRANSFER_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -69,3 +69,123 @@ export function generateSecureRandom(length: number): string {
     .toUpperCase();
 }
 
+
+// ============================================================================
+// ED25519 SIGNING (Offline lease tokens)
+// ============================================================================
+
+/**
+ * Ed25519 private key (PKCS#8 PEM) used to sign offline lease tokens.
+ * Unlike the HMAC secret, the matching public key can be shipped to
+ * terminals so they can verify tokens without calling home.
+ */
+const LICENSE_SIGNING_PRIVATE_KEY = process.env.LICENSE_SIGNING_PRIVATE_KEY;
+
+let cachedSigningKey: crypto.KeyObject | null = null;
+
+/**
+ * Check whether an Ed25519 signing key is configured
+ */
+export function isSigningKeyConfigured(): boolean {
+  return !!LICENSE_SIGNING_PRIVATE_KEY;
+}
+
+/**
+ * Load the Ed25519 private key from the environment
+ * Supports PEM values stored with escaped newlines (common in .env files)
+ *
+ * @throws Error if LICENSE_SIGNING_PRIVATE_KEY is not configured or not Ed25519
+ */
+function getSigningKey(): crypto.KeyObject {
+  if (cachedSigningKey) return cachedSigningKey;
+
+  if (!LICENSE_SIGNING_PRIVATE_KEY) {
+    throw new Error(
+      "LICENSE_SIGNING_PRIVATE_KEY environment variable is required"
+    );
+  }
+
+  const key = crypto.createPrivateKey(
+    LICENSE_SIGNING_PRIVATE_KEY.replace(/\\n/g, "\n")
+  );
+
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error("LICENSE_SIGNING_PRIVATE_KEY must be an Ed25519 key");
+  }
+
+  cachedSigningKey = key;
+  return key;
+}
+
+/**
+ * Encode a buffer or string as base64url (no padding)
+ */
+export function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/**
+ * Sign data with the Ed25519 license signing key
+ *
+ * @param data - Data to sign
+ * @returns base64url-encoded signature
+ */
+export function signEd25519(data: string): string {
+  return base64UrlEncode(
+    crypto.sign(null, Buffer.from(data), getSigningKey())
+  );
+}
+
+/**
+ * Verify an Ed25519 signature against the license signing key
+ *
+ * @param data - Data that was signed
+ * @param signature - base64url-encoded signature
+ * @returns True if the signature is valid
+ */
+export function verifyEd25519(data: string, signature: string): boolean {
+  try {
+    const publicKey = crypto.createPublicKey(getSigningKey());
+    return crypto.verify(
+      null,
+      Buffer.from(data),
+      publicKey,
+      Buffer.from(signature, "base64url")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the public half of the signing key as a JWK
+ * The key ID is derived from the RFC 7638 thumbprint so it changes on rotation
+ *
+ * @returns Public JWK ({ kty: "OKP", crv: "Ed25519", x, kid, alg, use })
+ */
+export function getSigningPublicJwk(): {
+  kty: string;
+  crv: string;
+  x: string;
+  kid: string;
+  alg: "EdDSA";
+  use: "sig";
+} {
+  const jwk = crypto.createPublicKey(getSigningKey()).export({
+    format: "jwk",
+  }) as { kty: string; crv: string; x: string };
+
+  const thumbprint = crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }))
+    .digest();
+
+  return {
+    kty: jwk.kty,
+    crv: jwk.crv,
+    x: jwk.x,
+    kid: base64UrlEncode(thumbprint).substring(0, 16),
+    alg: "EdDSA",
+    use: "sig",
+  };
+}
@@ -0,0 +1,341 @@
+import { db } from "@/lib/db";
+import { customers, licenseKeys, subscriptions } from "@/lib/db/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { ValidationError } from "@/lib/api/response-helpers";
+import { publishPlanChanged } from "@/lib/subscription-events";
+
+/**
+ * Feature entitlements
+ *
+ * Typed, machine-readable capabilities the desktop app gates behaviour on.
+ * Unlike the marketing feature strings in lib/stripe/plans.ts these keys are
+ * a stable contract with the desktop app:
+ * - Each plan has a default set (PLAN_ENTITLEMENTS)
+ * - Admins can override individual keys per customer
+ *   (customers.entitlementOverrides)
+ * - Effective entitlements = plan defaults + customer overrides
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Entitlements {
+  advanced_reporting: boolean;
+  inventory_management: boolean;
+  employee_management: boolean;
+  batch_tracking: boolean;
+  expiry_tracking: boolean;
+  api_access: boolean;
+  multi_user: boolean;
+  max_users: number;
+}
+
+export type EntitlementKey = keyof Entitlements;
+
+export type EntitlementOverrides = Partial<Entitlements>;
+
+export interface EntitlementDefinition {
+  type: "boolean" | "number";
+  label: string;
+  description: string;
+}
+
+// ============================================================================
+// DEFINITIONS & PLAN DEFAULTS
+// ============================================================================
+
+export const ENTITLEMENT_DEFINITIONS: Record<
+  EntitlementKey,
+  EntitlementDefinition
+> = {
+  advanced_reporting: {
+    type: "boolean",
+    label: "Advanced reporting",
+    description: "Advanced reports and analytics dashboards",
+  },
+  inventory_management: {
+    type: "boolean",
+    label: "Inventory management",
+    description: "Stock levels, purchase orders and stock takes",
+  },
+  employee_management: {
+    type: "boolean",
+    label: "Employee management",
+    description: "Staff accounts, roles and shift tracking",
+  },
+  batch_tracking: {
+    type: "boolean",
+    label: "Batch tracking",
+    description: "Track stock by batch/lot number",
+  },
+  expiry_tracking: {
+    type: "boolean",
+    label: "Expiry tracking",
+    description: "Track and alert on product expiry dates",
+  },
+  api_access: {
+    type: "boolean",
+    label: "API access",
+    description: "Access to the public REST API",
+  },
+  multi_user: {
+    type: "boolean",
+    label: "Multiple users",
+    description: "More than one user can sign in on a terminal",
+  },
+  max_users: {
+    type: "number",
+    label: "Maximum users",
+    description: "Maximum number of user accounts",
+  },
+};
+
+export const ENTITLEMENT_KEYS = Object.keys(
+  ENTITLEMENT_DEFINITIONS
+) as EntitlementKey[];
+
+// Mirrors PLAN_FEATURES.limits in lib/stripe/plans.ts
+const PLAN_ENTITLEMENTS: Record<string, Entitlements> = {
+  basic: {
+    advanced_reporting: false,
+    inventory_management: true, // "Basic inventory management"
+    employee_management: false,
+    batch_tracking: false,
+    expiry_tracking: false,
+    api_access: false,
+    multi_user: false,
+    max_users: 1,
+  },
+  professional: {
+    advanced_reporting: true,
+    inventory_management: true,
+    employee_management: true,
+    batch_tracking: true,
+    expiry_tracking: true,
+    api_access: false,
+    multi_user: true,
+    max_users: 5,
+  },
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Get the default entitlements for a plan (falls back to basic)
+ */
+export function getPlanEntitlements(planId: string): Entitlements {
+  return { ...(PLAN_ENTITLEMENTS[planId] || PLAN_ENTITLEMENTS.basic) };
+}
+
+/**
+ * Get features based on plan
+ * Uses additive model: Professional includes all Basic features
+ */
+export function getPlanFeatures(planId: string): string[] {
+  // Base features for Basic plan
+  const basicFeatures: string[] = [
+    "single_terminal",
+    "basic_reporting",
+    "product_management",
+    "inventory_management",
+    "sales_processing",
+    "receipt_printing",
+  ];
+
+  // Additional features for Professional plan (additive model)
+  const professionalAdditionalFeatures: string[] = [
+    "multi_terminal",
+    "advanced_reporting",
+    "employee_management",
+    "batch_tracking",
+    "expiry_tracking",
+  ];
+
+  const features: Record<string, string[]> = {
+    basic: [...basicFeatures],
+    professional: [
+      ...basicFeatures, // Professional includes all Basic features
+      ...professionalAdditionalFeatures, // Plus Professional-specific features
+    ],
+  };
+
+  return features[planId] || features.basic;
+}
+
+/**
+ * Apply customer overrides on top of plan defaults
+ */
+export function resolveEntitlements(
+  planId: string,
+  overrides?: unknown
+): Entitlements {
+  return {
+    ...getPlanEntitlements(planId),
+    ...sanitizeEntitlementOverrides(overrides),
+  };
+}
+
+/**
+ * Get effective entitlements for a customer on a plan
+ */
+export async function getCustomerEntitlements(
+  customerId: string,
+  planId: string
+): Promise<Entitlements> {
+  const [customer] = await db
+    .select({ entitlementOverrides: customers.entitlementOverrides })
+    .from(customers)
+    .where(eq(customers.id, customerId))
+    .limit(1);
+
+  return resolveEntitlements(planId, customer?.entitlementOverrides);
+}
+
+/**
+ * Get the plan a customer's entitlements are based on
+ * Uses the most recent subscription, falling back to basic
+ */
+export async function getCustomerPlanId(customerId: string): Promise<string> {
+  const [subscription] = await db
+    .select({ planId: subscriptions.planId })
+    .from(subscriptions)
+    .where(eq(subscriptions.customerId, customerId))
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  return subscription?.planId || "basic";
+}
+
+/**
+ * Check whether two entitlement sets differ
+ */
+export function entitlementsChanged(
+  a: Entitlements,
+  b: Entitlements
+): boolean {
+  return ENTITLEMENT_KEYS.some((key) => a[key] !== b[key]);
+}
+
+// ============================================================================
+// OVERRIDES
+// ============================================================================
+
+/**
+ * Drop unknown keys and wrongly-typed values from stored overrides
+ */
+export function sanitizeEntitlementOverrides(
+  input: unknown
+): EntitlementOverrides {
+  if (!input || typeof input !== "object") return {};
+
+  const overrides: Record<string, boolean | number> = {};
+  for (const key of ENTITLEMENT_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined || value === null) continue;
+
+    const expectedType = ENTITLEMENT_DEFINITIONS[key].type;
+    if (expectedType === "boolean" && typeof value === "boolean") {
+      overrides[key] = value;
+    } else if (
+      expectedType === "number" &&
+      typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= 0
+    ) {
+      overrides[key] = value;
+    }
+  }
+
+  return overrides as EntitlementOverrides;
+}
+
+/**
+ * Validate overrides submitted by an admin
+ *
+ * @throws {ValidationError} On unknown keys or wrongly-typed values
+ */
+export function parseEntitlementOverrides(
+  input: unknown
+): EntitlementOverrides {
+  if (input === null || input === undefined) return {};
+
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new ValidationError("Overrides must be an object");
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!(key in ENTITLEMENT_DEFINITIONS)) {
+      throw new ValidationError(`Unknown entitlement: ${key}`);
+    }
+    if (value === null) continue;
+
+    const expectedType = ENTITLEMENT_DEFINITIONS[key as EntitlementKey].type;
+    const valid =
+      expectedType === "boolean"
+        ? typeof value === "boolean"
+        : typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+    if (!valid) {
+      throw new ValidationError(
+        `Entitlement ${key} must be a ${
+          expectedType === "boolean" ? "boolean" : "non-negative integer"
+        }`
+      );
+    }
+  }
+
+  return sanitizeEntitlementOverrides(input);
+}
+
+/**
+ * Replace a customer's entitlement overrides
+ * Pushes a plan_changed event to the customer's active license keys when the
+ * effective entitlements change.
+ *
+ * @returns Effective entitlements after the update
+ */
+export async function setCustomerEntitlementOverrides(
+  customerId: string,
+  planId: string,
+  overrides: EntitlementOverrides
+): Promise<Entitlements> {
+  const previous = await getCustomerEntitlements(customerId, planId);
+
+  await db
+    .update(customers)
+    .set({
+      entitlementOverrides:
+        Object.keys(overrides).length > 0 ? overrides : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(customers.id, customerId));
+
+  const entitlements = resolveEntitlements(planId, overrides);
+
+  if (entitlementsChanged(previous, entitlements)) {
+    const activeLicenses = await db
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.customerId, customerId),
+          eq(licenseKeys.isActive, true)
+        )
+      );
+
+    for (const { licenseKey } of activeLicenses) {
+      publishPlanChanged(licenseKey, {
+        previousPlanId: planId,
+        newPlanId: planId,
+        newFeatures: getPlanFeatures(planId),
+        entitlements,
+        effectiveAt: new Date(),
+      });
+    }
+  }
+
+  return entitlements;
+}
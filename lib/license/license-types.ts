@@ -0,0 +1,186 @@
+import { db } from "@/lib/db";
+import { licenseKeys, customers, type LicenseKey } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { NotFoundError, ValidationError } from "@/lib/api/response-helpers";
+import type { PlanId } from "@/lib/stripe/plans";
+import { generateLicenseKey, maskLicenseKey } from "./generator";
+import { LICENSE_TYPES, LICENSE_VERSION, type LicenseType } from "./constants";
+
+/**
+ * License types
+ *
+ * Subscription licenses follow their Stripe subscription's status. Standalone
+ * licenses (perpetual and fixed-term) have no subscription row and are judged
+ * on their own dates:
+ * - perpetual: never expires; updatesUntil limits which releases it may install
+ * - fixed_term: stops working at expiresAt
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StandaloneLicenseInput {
+  customerId: string;
+  planId: PlanId;
+  licenseType: Exclude<LicenseType, "subscription">;
+  maxTerminals: number;
+  expiresAt: Date | null;
+  updatesUntil: Date | null;
+  notes: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize a stored license type (unknown values count as subscription)
+ */
+export function getLicenseType(value: string | null | undefined): LicenseType {
+  return LICENSE_TYPES.includes(value as LicenseType)
+    ? (value as LicenseType)
+    : "subscription";
+}
+
+/**
+ * Whether a license's validity comes from a Stripe subscription
+ */
+export function isSubscriptionLicense(license: {
+  licenseType: string | null;
+}): boolean {
+  return getLicenseType(license.licenseType) === "subscription";
+}
+
+/**
+ * Whether a license is past its expiry date
+ * Perpetual licenses never expire, even if an expiry date was set.
+ */
+export function isLicenseExpired(
+  license: { licenseType: string | null; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (getLicenseType(license.licenseType) === "perpetual") return false;
+  return !!license.expiresAt && license.expiresAt < now;
+}
+
+function parseOptionalDate(value: unknown, field: string): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  const date = new Date(value as string);
+  if (typeof value !== "string" || isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Parse the admin request body for issuing a standalone license
+ *
+ * @throws {ValidationError} If a field is missing or invalid
+ */
+export function parseStandaloneLicenseInput(
+  input: unknown
+): StandaloneLicenseInput {
+  if (!input || typeof input !== "object") {
+    throw new ValidationError("Request body must be an object");
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (typeof body.customerId !== "string" || !body.customerId) {
+    throw new ValidationError("customerId is required");
+  }
+
+  if (body.planId !== "basic" && body.planId !== "professional") {
+    throw new ValidationError("planId must be basic or professional");
+  }
+
+  if (body.licenseType !== "perpetual" && body.licenseType !== "fixed_term") {
+    throw new ValidationError("licenseType must be perpetual or fixed_term");
+  }
+
+  const maxTerminals = body.maxTerminals ?? 1;
+  if (
+    typeof maxTerminals !== "number" ||
+    !Number.isInteger(maxTerminals) ||
+    maxTerminals < 1
+  ) {
+    throw new ValidationError("maxTerminals must be a positive integer");
+  }
+
+  const expiresAt = parseOptionalDate(body.expiresAt, "expiresAt");
+  const updatesUntil = parseOptionalDate(body.updatesUntil, "updatesUntil");
+
+  if (body.licenseType === "fixed_term") {
+    if (!expiresAt) {
+      throw new ValidationError("Fixed-term licenses require an expiry date");
+    }
+    if (expiresAt <= new Date()) {
+      throw new ValidationError("Expiry date must be in the future");
+    }
+  }
+
+  return {
+    customerId: body.customerId,
+    planId: body.planId,
+    licenseType: body.licenseType,
+    maxTerminals,
+    // Perpetual licenses never expire
+    expiresAt: body.licenseType === "perpetual" ? null : expiresAt,
+    updatesUntil,
+    notes:
+      typeof body.notes === "string" && body.notes.trim()
+        ? body.notes.trim()
+        : null,
+  };
+}
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+/**
+ * Issue a perpetual or fixed-term license that is not tied to a subscription
+ *
+ * @throws {NotFoundError} If the customer does not exist
+ */
+export async function issueStandaloneLicense(
+  input: StandaloneLicenseInput
+): Promise<LicenseKey> {
+  const [customer] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(eq(customers.id, input.customerId))
+    .limit(1);
+
+  if (!customer) {
+    throw new NotFoundError("Customer not found");
+  }
+
+  const licenseKey = generateLicenseKey(input.planId, customer.id);
+
+  const [license] = await db
+    .insert(licenseKeys)
+    .values({
+      customerId: customer.id,
+      licenseKey,
+      licenseType: input.licenseType,
+      maxTerminals: input.maxTerminals,
+      version: LICENSE_VERSION,
+      isActive: true,
+      issuedAt: new Date(),
+      expiresAt: input.expiresAt,
+      updatesUntil: input.updatesUntil,
+      notes: input.notes,
+    })
+    .returning();
+
+  console.log(
+    `[License Types] Issued ${input.licenseType} license ${maskLicenseKey(
+      licenseKey
+    )} to customer ${customer.id}`
+  );
+
+  return license;
+}
@@ -0,0 +1,564 @@
+import { db } from "@/lib/db";
+import {
+  locations,
+  licenseKeys,
+  activations,
+  subscriptions,
+} from "@/lib/db/schema";
+import { eq, and, or, desc, isNull, isNotNull, count, sum } from "drizzle-orm";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { publishLicenseRevoked } from "@/lib/subscription-events";
+import {
+  generateLicenseKey,
+  extractPlanFromKey,
+  maskLicenseKey,
+} from "./generator";
+import { LICENSE_VERSION } from "./constants";
+
+/**
+ * Customer locations
+ *
+ * Franchise customers run several stores under one subscription. Each
+ * location gets its own license key whose maxTerminals is carved out of the
+ * subscription's seats:
+ * - The subscription's main key (locationId = null) holds whatever seats are
+ *   not allocated to a location
+ * - Sum of maxTerminals across a subscription's active keys always equals
+ *   plan terminals + add-on seats (see allocateSubscriptionTerminals)
+ */
+
+type DbOrTransaction =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LocationInput {
+  name?: string;
+  address?: string | null;
+  maxTerminals?: number;
+}
+
+export interface LocationWithLicense {
+  id: string;
+  name: string;
+  address: string | null;
+  licenseKey: string | null;
+  maxTerminals: number;
+  activeTerminals: number;
+}
+
+export interface LicenseLocation {
+  id: string;
+  name: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getActiveSubscription(
+  tx: DbOrTransaction,
+  customerId: string
+) {
+  const [subscription] = await tx
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.customerId, customerId),
+        or(
+          eq(subscriptions.status, "active"),
+          eq(subscriptions.status, "trialing")
+        )
+      )
+    )
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  if (!subscription) {
+    throw new ValidationError(
+      "An active subscription is required to manage locations"
+    );
+  }
+
+  return subscription;
+}
+
+/**
+ * Lock and return the subscription's main (unallocated) license key
+ */
+async function lockMainLicense(tx: DbOrTransaction, subscriptionId: string) {
+  const [license] = await tx
+    .select()
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscriptionId),
+        eq(licenseKeys.isActive, true),
+        isNull(licenseKeys.locationId)
+      )
+    )
+    .for("update")
+    .limit(1);
+
+  if (!license) {
+    throw new NotFoundError("No license key found for subscription");
+  }
+
+  return license;
+}
+
+async function countActiveTerminals(
+  tx: DbOrTransaction,
+  licenseKey: string
+): Promise<number> {
+  const [result] = await tx
+    .select({ count: count() })
+    .from(activations)
+    .where(
+      and(eq(activations.licenseKey, licenseKey), eq(activations.isActive, true))
+    );
+
+  return result?.count || 0;
+}
+
+function validateMaxTerminals(maxTerminals: number): void {
+  if (!Number.isInteger(maxTerminals) || maxTerminals < 1) {
+    throw new ValidationError("A location needs at least 1 terminal seat");
+  }
+}
+
+/**
+ * Total seats currently allocated to locations on a subscription
+ */
+export async function getLocationAllocatedTerminals(
+  subscriptionId: string,
+  tx: DbOrTransaction = db
+): Promise<number> {
+  const [result] = await tx
+    .select({ total: sum(licenseKeys.maxTerminals) })
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscriptionId),
+        eq(licenseKeys.isActive, true),
+        isNotNull(licenseKeys.locationId)
+      )
+    );
+
+  return Number(result?.total || 0);
+}
+
+/**
+ * Apply a subscription's total seat count to its license keys
+ * Location keys keep their allocation; the main key gets the remainder.
+ *
+ * @returns maxTerminals of the main key
+ */
+export async function allocateSubscriptionTerminals(
+  subscriptionId: string,
+  totalTerminals: number,
+  tx: DbOrTransaction = db
+): Promise<number> {
+  const allocated = await getLocationAllocatedTerminals(subscriptionId, tx);
+  const mainTerminals = Math.max(0, totalTerminals - allocated);
+
+  if (allocated > totalTerminals) {
+    console.warn(
+      `[Locations] Subscription ${subscriptionId} has ${allocated} seats allocated to locations but only ${totalTerminals} in total`
+    );
+  }
+
+  await tx
+    .update(licenseKeys)
+    .set({ maxTerminals: mainTerminals, updatedAt: new Date() })
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscriptionId),
+        eq(licenseKeys.isActive, true),
+        isNull(licenseKeys.locationId)
+      )
+    );
+
+  return mainTerminals;
+}
+
+/**
+ * Get the location a license key belongs to (null for main keys)
+ */
+export async function getLicenseLocation(
+  locationId: string | null
+): Promise<LicenseLocation | null> {
+  if (!locationId) return null;
+
+  const [location] = await db
+    .select({ id: locations.id, name: locations.name })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+
+  return location || null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List a customer's locations with their license key and terminal usage
+ */
+export async function getCustomerLocations(
+  customerId: string
+): Promise<LocationWithLicense[]> {
+  const rows = await db
+    .select({
+      id: locations.id,
+      name: locations.name,
+      address: locations.address,
+      licenseKey: licenseKeys.licenseKey,
+      maxTerminals: licenseKeys.maxTerminals,
+    })
+    .from(locations)
+    .leftJoin(
+      licenseKeys,
+      and(
+        eq(licenseKeys.locationId, locations.id),
+        eq(licenseKeys.isActive, true)
+      )
+    )
+    .where(
+      and(eq(locations.customerId, customerId), isNull(locations.deletedAt))
+    )
+    .orderBy(locations.createdAt);
+
+  return Promise.all(
+    rows.map(async (row) => ({
+      id: row.id,
+      name: row.name,
+      address: row.address,
+      licenseKey: row.licenseKey,
+      maxTerminals: row.maxTerminals || 0,
+      activeTerminals: row.licenseKey
+        ? await countActiveTerminals(db, row.licenseKey)
+        : 0,
+    }))
+  );
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create a location with its own license key
+ * The location's seats are taken from the subscription's main key.
+ *
+ * @throws {ValidationError} If there is no active subscription or not enough free seats
+ */
+export async function createLocation(
+  customerId: string,
+  input: LocationInput
+): Promise<LocationWithLicense> {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new ValidationError("Location name is required");
+  }
+
+  const maxTerminals = input.maxTerminals ?? 1;
+  validateMaxTerminals(maxTerminals);
+
+  return db.transaction(async (tx) => {
+    const subscription = await getActiveSubscription(tx, customerId);
+    const mainLicense = await lockMainLicense(tx, subscription.id);
+
+    const mainActive = await countActiveTerminals(tx, mainLicense.licenseKey);
+    const freeSeats = mainLicense.maxTerminals - mainActive;
+    if (maxTerminals > freeSeats) {
+      throw new ValidationError(
+        `Only ${Math.max(0, freeSeats)} unassigned terminal seat(s) available. Deactivate terminals or add terminal seats first.`
+      );
+    }
+
+    const [location] = await tx
+      .insert(locations)
+      .values({
+        customerId,
+        name,
+        address: input.address?.trim() || null,
+      })
+      .returning();
+
+    const planId = extractPlanFromKey(mainLicense.licenseKey) || "basic";
+    const licenseKey = generateLicenseKey(planId, customerId);
+
+    await tx.insert(licenseKeys).values({
+      customerId,
+      subscriptionId: subscription.id,
+      locationId: location.id,
+      licenseKey,
+      maxTerminals,
+      version: LICENSE_VERSION,
+      isActive: true,
+      issuedAt: new Date(),
+      expiresAt: mainLicense.expiresAt,
+    });
+
+    await tx
+      .update(licenseKeys)
+      .set({
+        maxTerminals: mainLicense.maxTerminals - maxTerminals,
+        updatedAt: new Date(),
+      })
+      .where(eq(licenseKeys.id, mainLicense.id));
+
+    console.log(
+      `[Locations] Created location "${name}" for customer ${customerId} with ${maxTerminals} seat(s): ${maskLicenseKey(licenseKey)}`
+    );
+
+    return {
+      id: location.id,
+      name: location.name,
+      address: location.address,
+      licenseKey,
+      maxTerminals,
+      activeTerminals: 0,
+    };
+  });
+}
+
+/**
+ * Rename a location or move seats between it and the main key
+ *
+ * @throws {NotFoundError} If the location does not belong to the customer
+ * @throws {ValidationError} If the new allocation is not possible
+ */
+export async function updateLocation(
+  customerId: string,
+  locationId: string,
+  input: LocationInput
+): Promise<LocationWithLicense> {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new ValidationError("Location name is required");
+  }
+  if (input.maxTerminals !== undefined) {
+    validateMaxTerminals(input.maxTerminals);
+  }
+
+  return db.transaction(async (tx) => {
+    const [location] = await tx
+      .select()
+      .from(locations)
+      .where(
+        and(
+          eq(locations.id, locationId),
+          eq(locations.customerId, customerId),
+          isNull(locations.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+
+    const [locationLicense] = await tx
+      .select()
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.locationId, locationId),
+          eq(licenseKeys.isActive, true)
+        )
+      )
+      .for("update")
+      .limit(1);
+
+    let maxTerminals = locationLicense?.maxTerminals || 0;
+    const activeTerminals = locationLicense
+      ? await countActiveTerminals(tx, locationLicense.licenseKey)
+      : 0;
+
+    if (
+      input.maxTerminals !== undefined &&
+      input.maxTerminals !== maxTerminals
+    ) {
+      if (!locationLicense || !locationLicense.subscriptionId) {
+        throw new ConflictError("This location has no active license key");
+      }
+
+      const mainLicense = await lockMainLicense(
+        tx,
+        locationLicense.subscriptionId
+      );
+      const delta = input.maxTerminals - maxTerminals;
+
+      if (delta > 0) {
+        const mainActive = await countActiveTerminals(
+          tx,
+          mainLicense.licenseKey
+        );
+        const freeSeats = mainLicense.maxTerminals - mainActive;
+        if (delta > freeSeats) {
+          throw new ValidationError(
+            `Only ${Math.max(0, freeSeats)} unassigned terminal seat(s) available`
+          );
+        }
+      } else if (input.maxTerminals < activeTerminals) {
+        throw new ValidationError(
+          `${location.name} has ${activeTerminals} active terminals. Deactivate ${
+            activeTerminals - input.maxTerminals
+          } terminal(s) first.`
+        );
+      }
+
+      await tx
+        .update(licenseKeys)
+        .set({ maxTerminals: input.maxTerminals, updatedAt: new Date() })
+        .where(eq(licenseKeys.id, locationLicense.id));
+
+      await tx
+        .update(licenseKeys)
+        .set({
+          maxTerminals: mainLicense.maxTerminals - delta,
+          updatedAt: new Date(),
+        })
+        .where(eq(licenseKeys.id, mainLicense.id));
+
+      maxTerminals = input.maxTerminals;
+    }
+
+    const [updated] = await tx
+      .update(locations)
+      .set({
+        name: input.name?.trim() ?? location.name,
+        address:
+          input.address !== undefined
+            ? input.address?.trim() || null
+            : location.address,
+        updatedAt: new Date(),
+      })
+      .where(eq(locations.id, locationId))
+      .returning();
+
+    return {
+      id: updated.id,
+      name: updated.name,
+      address: updated.address,
+      licenseKey: locationLicense?.licenseKey || null,
+      maxTerminals,
+      activeTerminals,
+    };
+  });
+}
+
+/**
+ * Delete a location, revoking its license key and returning its seats to
+ * the main key
+ *
+ * @throws {NotFoundError} If the location does not belong to the customer
+ * @throws {ConflictError} If terminals are still active at the location
+ */
+export async function deleteLocation(
+  customerId: string,
+  locationId: string
+): Promise<void> {
+  const revokedKey = await db.transaction(async (tx) => {
+    const [location] = await tx
+      .select()
+      .from(locations)
+      .where(
+        and(
+          eq(locations.id, locationId),
+          eq(locations.customerId, customerId),
+          isNull(locations.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+
+    const [locationLicense] = await tx
+      .select()
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.locationId, locationId),
+          eq(licenseKeys.isActive, true)
+        )
+      )
+      .for("update")
+      .limit(1);
+
+    if (locationLicense) {
+      const activeTerminals = await countActiveTerminals(
+        tx,
+        locationLicense.licenseKey
+      );
+      if (activeTerminals > 0) {
+        throw new ConflictError(
+          `Deactivate the ${activeTerminals} terminal(s) at ${location.name} before removing it`
+        );
+      }
+
+      await tx
+        .update(licenseKeys)
+        .set({
+          isActive: false,
+          revokedAt: new Date(),
+          revocationReason: `Location "${location.name}" removed`,
+          updatedAt: new Date(),
+        })
+        .where(eq(licenseKeys.id, locationLicense.id));
+
+      if (locationLicense.subscriptionId) {
+        const [mainLicense] = await tx
+          .select()
+          .from(licenseKeys)
+          .where(
+            and(
+              eq(licenseKeys.subscriptionId, locationLicense.subscriptionId),
+              eq(licenseKeys.isActive, true),
+              isNull(licenseKeys.locationId)
+            )
+          )
+          .for("update")
+          .limit(1);
+
+        if (mainLicense) {
+          await tx
+            .update(licenseKeys)
+            .set({
+              maxTerminals:
+                mainLicense.maxTerminals + locationLicense.maxTerminals,
+              updatedAt: new Date(),
+            })
+            .where(eq(licenseKeys.id, mainLicense.id));
+        }
+      }
+    }
+
+    // Soft delete: the revoked key keeps its locationId, so it is never
+    // mistaken for a main key or brought back when the subscription recovers
+    await tx
+      .update(locations)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(locations.id, locationId));
+
+    return locationLicense?.licenseKey || null;
+  });
+
+  if (revokedKey) {
+    publishLicenseRevoked(revokedKey, {
+      reason: "This location was removed from the account",
+    });
+  }
+}
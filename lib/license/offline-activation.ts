@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import { getSigningPublicJwk, signEd25519 } from "./crypto";
+import type { ActivationResult, DeactivationResult } from "./validator";
+import type { OfflineLease } from "./offline-lease";
+import { ValidationError } from "@/lib/api/response-helpers";
+
+/**
+ * Offline activation (challenge/response files)
+ *
+ * For terminals with no network at all:
+ * 1. Terminal exports a request file, signed with HMAC-SHA256 keyed by the
+ *    license key (proves the terminal holds the key and the file is intact)
+ * 2. Customer uploads it on /dashboard/terminals
+ * 3. Server runs the normal activate/deactivate checks and returns a response
+ *    file signed with the Ed25519 license signing key
+ * 4. Terminal imports the response and verifies it with the pinned public key
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const OFFLINE_REQUEST_FORMAT = "aurswift-offline-request";
+export const OFFLINE_RESPONSE_FORMAT = "aurswift-offline-response";
+export const OFFLINE_FILE_VERSION = 1;
+
+// Request files older than this are rejected (prevents replaying old exports)
+const OFFLINE_REQUEST_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OfflineAction = "activate" | "deactivate";
+
+export interface OfflineRequestPayload {
+  action: OfflineAction;
+  licenseKey: string;
+  machineIdHash: string;
+  terminalName: string;
+  appVersion?: string;
+  createdAt: string; // ISO 8601
+  nonce: string;
+}
+
+export interface OfflineRequestFile {
+  format: typeof OFFLINE_REQUEST_FORMAT;
+  version: number;
+  payload: OfflineRequestPayload;
+  signature: string; // hex HMAC-SHA256(JSON(payload), licenseKey)
+}
+
+export interface OfflineResponsePayload {
+  action: OfflineAction;
+  requestNonce: string;
+  licenseKey: string;
+  machineIdHash: string;
+  issuedAt: string;
+  success: boolean;
+  message: string;
+  activation?: ActivationResult["data"];
+  offlineLease?: OfflineLease | null;
+  remainingDeactivations?: number;
+}
+
+export interface OfflineResponseFile {
+  format: typeof OFFLINE_RESPONSE_FORMAT;
+  version: number;
+  keyId: string;
+  payload: OfflineResponsePayload;
+  signature: string; // base64url Ed25519 over JSON(payload)
+}
+
+export class OfflineRequestError extends ValidationError {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineRequestError";
+  }
+}
+
+// ============================================================================
+// REQUEST PARSING
+// ============================================================================
+
+/**
+ * Compute the request signature a terminal attaches to its export
+ */
+export function signOfflineRequest(payload: OfflineRequestPayload): string {
+  return crypto
+    .createHmac("sha256", payload.licenseKey.toUpperCase().trim())
+    .update(JSON.stringify(payload))
+    .digest("hex");
+}
+
+/**
+ * Parse and verify an uploaded offline request file
+ *
+ * @param input - Parsed JSON from the uploaded file
+ * @returns Verified request payload (license key normalized)
+ * @throws {OfflineRequestError} If the file is malformed, tampered or stale
+ */
+export function parseOfflineRequest(input: unknown): OfflineRequestPayload {
+  if (!input || typeof input !== "object") {
+    throw new OfflineRequestError("Request file is empty or not valid JSON");
+  }
+
+  const file = input as Partial<OfflineRequestFile>;
+
+  if (file.format !== OFFLINE_REQUEST_FORMAT) {
+    throw new OfflineRequestError("Not an AurSwift offline request file");
+  }
+
+  if (file.version !== OFFLINE_FILE_VERSION) {
+    throw new OfflineRequestError(
+      `Unsupported request file version: ${file.version}`
+    );
+  }
+
+  const payload = file.payload;
+  if (
+    !payload ||
+    !payload.licenseKey ||
+    !payload.machineIdHash ||
+    !payload.nonce ||
+    !payload.createdAt ||
+    (payload.action !== "activate" && payload.action !== "deactivate")
+  ) {
+    throw new OfflineRequestError("Request file is missing required fields");
+  }
+
+  const expected = signOfflineRequest(payload);
+  const provided = typeof file.signature === "string" ? file.signature : "";
+
+  if (
+    provided.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
+  ) {
+    throw new OfflineRequestError(
+      "Request file signature is invalid. Export a new file from the terminal."
+    );
+  }
+
+  const createdAt = new Date(payload.createdAt);
+  if (
+    isNaN(createdAt.getTime()) ||
+    Date.now() - createdAt.getTime() > OFFLINE_REQUEST_MAX_AGE_MS
+  ) {
+    throw new OfflineRequestError(
+      "Request file has expired. Export a new file from the terminal."
+    );
+  }
+
+  return {
+    ...payload,
+    licenseKey: payload.licenseKey.toUpperCase().trim(),
+    terminalName: payload.terminalName || "Terminal",
+  };
+}
+
+// ============================================================================
+// RESPONSE BUILDING
+// ============================================================================
+
+/**
+ * Build a signed response file for an activation request
+ */
+export function buildActivationResponse(
+  request: OfflineRequestPayload,
+  result: ActivationResult,
+  offlineLease: OfflineLease | null
+): OfflineResponseFile {
+  return signOfflineResponse({
+    action: "activate",
+    requestNonce: request.nonce,
+    licenseKey: request.licenseKey,
+    machineIdHash: request.machineIdHash,
+    issuedAt: new Date().toISOString(),
+    success: result.success,
+    message: result.message,
+    activation: result.data,
+    offlineLease,
+  });
+}
+
+/**
+ * Build a signed response file for a deactivation request
+ */
+export function buildDeactivationResponse(
+  request: OfflineRequestPayload,
+  result: DeactivationResult
+): OfflineResponseFile {
+  return signOfflineResponse({
+    action: "deactivate",
+    requestNonce: request.nonce,
+    licenseKey: request.licenseKey,
+    machineIdHash: request.machineIdHash,
+    issuedAt: new Date().toISOString(),
+    success: result.success,
+    message: result.message,
+    remainingDeactivations: result.remainingDeactivations,
+  });
+}
+
+/**
+ * Sign a response payload with the Ed25519 license signing key
+ */
+function signOfflineResponse(
+  payload: OfflineResponsePayload
+): OfflineResponseFile {
+  return {
+    format: OFFLINE_RESPONSE_FORMAT,
+    version: OFFLINE_FILE_VERSION,
+    keyId: getSigningPublicJwk().kid,
+    payload,
+    signature: signEd25519(JSON.stringify(payload)),
+  };
+}
+
+/**
+ * Suggested download file name for a response file
+ */
+export function getOfflineResponseFileName(
+  request: OfflineRequestPayload
+): string {
+  const safeName = request.terminalName
+    .replace(/[^a-zA-Z0-9-_]+/g, "-")
+    .toLowerCase();
+  return `aurswift-${request.action}-${safeName || "terminal"}.response.json`;
+}
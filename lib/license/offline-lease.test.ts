@@ -0,0 +1,76 @@
+import { generateKeyPairSync } from "node:crypto";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+// The signing key is read when ./crypto loads, so the module is imported after
+// the key is set
+let issueOfflineLease: typeof import("./offline-lease").issueOfflineLease;
+let verifyOfflineLease: typeof import("./offline-lease").verifyOfflineLease;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const leaseParams = {
+  licenseKey: "AUR-PRO-V2-7A83B2D4-1F2E3D4C",
+  machineIdHash: "machine-hash-1",
+  planId: "professional",
+  features: ["inventory", "reports"],
+};
+
+beforeAll(async () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  process.env.LICENSE_SIGNING_PRIVATE_KEY = privateKey
+    .export({ type: "pkcs8", format: "pem" })
+    .toString();
+
+  ({ issueOfflineLease, verifyOfflineLease } = await import("./offline-lease"));
+});
+
+describe("offline leases", () => {
+  it("verifies a lease it issued", () => {
+    const lease = issueOfflineLease(leaseParams);
+    const payload = verifyOfflineLease(lease.token, leaseParams.machineIdHash);
+
+    expect(payload).toMatchObject(leaseParams);
+    expect(payload!.exp).toBe(
+      Math.floor(new Date(lease.expiresAt).getTime() / 1000)
+    );
+  });
+
+  it("rejects a lease bound to another machine", () => {
+    const lease = issueOfflineLease(leaseParams);
+
+    expect(verifyOfflineLease(lease.token, "machine-hash-2")).toBeNull();
+  });
+
+  it("rejects a tampered payload", () => {
+    const [header, , signature] = issueOfflineLease(leaseParams).token.split(
+      "."
+    );
+    const forged = Buffer.from(
+      JSON.stringify({ ...leaseParams, planId: "enterprise" })
+    ).toString("base64url");
+
+    expect(verifyOfflineLease(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it("rejects an expired lease", () => {
+    vi.useFakeTimers();
+    try {
+      const lease = issueOfflineLease({
+        ...leaseParams,
+        gracePeriodRemaining: DAY_MS,
+      });
+      vi.setSystemTime(Date.now() + 2 * DAY_MS);
+
+      expect(verifyOfflineLease(lease.token)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("caps the expiry at the license's own expiry", () => {
+    const licenseExpiresAt = new Date(Date.now() + DAY_MS);
+    const lease = issueOfflineLease({ ...leaseParams, licenseExpiresAt });
+
+    expect(new Date(lease.expiresAt)).toEqual(licenseExpiresAt);
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  base64UrlEncode,
+  getSigningPublicJwk,
+  isSigningKeyConfigured,
+  signEd25519,
+  verifyEd25519,
+} from "./crypto";
+import { OFFLINE_LEASE_ISSUER, OFFLINE_LEASE_TOKEN_TYPE } from "./constants";
+import { calculateGracePeriodEnd } from "@/lib/subscription/grace-period-helpers";
+import type { Entitlements } from "./entitlements";
+
+/**
+ * Offline lease tokens
+ *
+ * A lease is a compact JWS (header.payload.signature) signed with Ed25519.
+ * Terminals verify it locally with the published public key, so they can keep
+ * operating for GRACE_PERIOD_DAYS.offline without reaching the license server.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OfflineLeasePayload {
+  iss: string;
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+  licenseKey: string;
+  machineIdHash: string;
+  planId: string;
+  features: string[];
+  entitlements?: Entitlements;
+}
+
+export interface OfflineLease {
+  token: string;
+  expiresAt: string;
+  keyId: string;
+}
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+/**
+ * Check whether offline leases can be issued (signing key configured)
+ */
+export function isOfflineLeaseEnabled(): boolean {
+  return isSigningKeyConfigured();
+}
+
+/**
+ * Issue a signed offline lease for an activated terminal
+ * The lease never outlives the license key's own expiry date or the grace
+ * period the license has left
+ *
+ * @param params.licenseKey - Normalized license key
+ * @param params.machineIdHash - Machine the lease is bound to
+ * @param params.planId - Plan the license belongs to
+ * @param params.features - Features granted by the plan
+ * @param params.entitlements - Effective entitlements (plan defaults + overrides)
+ * @param params.licenseExpiresAt - License key expiry (if any)
+ * @param params.gracePeriodRemaining - Milliseconds before terminals are disabled (if known)
+ * @returns Signed lease token with its expiry
+ * @throws Error if LICENSE_SIGNING_PRIVATE_KEY is not configured
+ */
+export function issueOfflineLease(params: {
+  licenseKey: string;
+  machineIdHash: string;
+  planId: string;
+  features: string[];
+  entitlements?: Entitlements;
+  licenseExpiresAt?: Date | null;
+  gracePeriodRemaining?: number | null;
+}): OfflineLease {
+  const now = new Date();
+  let expiresAt = calculateGracePeriodEnd("offline", now);
+
+  if (params.licenseExpiresAt && params.licenseExpiresAt < expiresAt) {
+    expiresAt = params.licenseExpiresAt;
+  }
+
+  // e.g. a past_due subscription's terminals are suspended by dunning
+  if (
+    params.gracePeriodRemaining !== undefined &&
+    params.gracePeriodRemaining !== null &&
+    now.getTime() + params.gracePeriodRemaining < expiresAt.getTime()
+  ) {
+    expiresAt = new Date(now.getTime() + params.gracePeriodRemaining);
+  }
+
+  const { kid } = getSigningPublicJwk();
+
+  const header = {
+    alg: "EdDSA",
+    typ: OFFLINE_LEASE_TOKEN_TYPE,
+    kid,
+  };
+
+  const payload: OfflineLeasePayload = {
+    iss: OFFLINE_LEASE_ISSUER,
+    iat: Math.floor(now.getTime() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    licenseKey: params.licenseKey,
+    machineIdHash: params.machineIdHash,
+    planId: params.planId,
+    features: params.features,
+    entitlements: params.entitlements,
+  };
+
+  const signingInput = `${base64UrlEncode(
+    JSON.stringify(header)
+  )}.${base64UrlEncode(JSON.stringify(payload))}`;
+
+  return {
+    token: `${signingInput}.${signEd25519(signingInput)}`,
+    expiresAt: expiresAt.toISOString(),
+    keyId: kid,
+  };
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify an offline lease token
+ * Mirrors the check terminals perform locally (useful for support tooling)
+ *
+ * @param token - Compact lease token
+ * @param machineIdHash - Optional machine to check the lease is bound to
+ * @returns Decoded payload, or null if signature/expiry/binding is invalid
+ */
+export function verifyOfflineLease(
+  token: string,
+  machineIdHash?: string
+): OfflineLeasePayload | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  if (!verifyEd25519(`${encodedHeader}.${encodedPayload}`, signature)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    ) as OfflineLeasePayload;
+
+    if (payload.iss !== OFFLINE_LEASE_ISSUER) return null;
+    if (payload.exp * 1000 < Date.now()) return null;
+    if (machineIdHash && payload.machineIdHash !== machineIdHash) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,343 @@
+import { db } from "@/lib/db";
+import {
+  licenseKeys,
+  activations,
+  terminalSessions,
+  terminalConfigs,
+  terminalCommands,
+  terminalTransferRequests,
+  subscriptionEvents,
+} from "@/lib/db/schema";
+import { eq, and, isNull, isNotNull, lte } from "drizzle-orm";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  publishLicenseKeyRotated,
+  publishLicenseRevoked,
+} from "@/lib/subscription-events";
+import {
+  generateLicenseKey,
+  extractPlanFromKey,
+  maskLicenseKey,
+} from "./generator";
+import { LICENSE_ROTATION_OVERLAP_MS, LICENSE_VERSION } from "./constants";
+
+/**
+ * License key rotation
+ *
+ * Reissues a leaked key without making every terminal re-activate:
+ * 1. A new key is generated and all activations/terminal sessions move to it,
+ *    along with the terminal config history, command history, pending
+ *    transfer requests and persisted events (so replay after a reconnect
+ *    with the new key still finds them)
+ * 2. The old key stops being the "active" key but keeps resolving to the new
+ *    one until the overlap window ends (see resolveLicenseKey)
+ * 3. A license_key_rotated event on the old key's SSE channel tells connected
+ *    terminals to switch keys
+ * 4. The expiration cron revokes the old key once the overlap has passed
+ */
+
+// Rotated keys can chain if a key is rotated again inside the overlap window
+const MAX_ROTATION_HOPS = 5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RotateLicenseKeyOptions {
+  reason: string;
+  overlapMs?: number;
+}
+
+export interface RotateLicenseKeyResult {
+  previousLicenseKey: string;
+  newLicenseKey: string;
+  overlapEndsAt: Date;
+  movedActivations: number;
+  movedSessions: number;
+}
+
+export interface RotatedKeyRevocationResult {
+  processed: number;
+  revoked: number;
+  errors: string[];
+}
+
+// ============================================================================
+// ROTATION
+// ============================================================================
+
+/**
+ * Rotate a license key, moving its activations and terminal sessions to a
+ * freshly generated key
+ *
+ * @throws {NotFoundError} If the license does not exist
+ * @throws {ConflictError} If the license is revoked or already rotated
+ */
+export async function rotateLicenseKey(
+  licenseId: string,
+  options: RotateLicenseKeyOptions
+): Promise<RotateLicenseKeyResult> {
+  const reason = options.reason.trim();
+  if (!reason) {
+    throw new ValidationError("Rotation reason is required");
+  }
+
+  const overlapEndsAt = new Date(
+    Date.now() + (options.overlapMs ?? LICENSE_ROTATION_OVERLAP_MS)
+  );
+
+  const result = await db.transaction(async (tx) => {
+    const [license] = await tx
+      .select()
+      .from(licenseKeys)
+      .where(eq(licenseKeys.id, licenseId))
+      .for("update")
+      .limit(1);
+
+    if (!license) {
+      throw new NotFoundError("License key not found");
+    }
+
+    if (license.replacedByKey) {
+      throw new ConflictError("This license key has already been rotated");
+    }
+
+    if (!license.isActive || license.revokedAt) {
+      throw new ConflictError("Only active license keys can be rotated");
+    }
+
+    const planId = extractPlanFromKey(license.licenseKey) || "basic";
+    const newLicenseKey = generateLicenseKey(planId, license.customerId);
+
+    await tx.insert(licenseKeys).values({
+      customerId: license.customerId,
+      subscriptionId: license.subscriptionId,
+      locationId: license.locationId,
+      licenseKey: newLicenseKey,
+      licenseType: license.licenseType,
+      maxTerminals: license.maxTerminals,
+      activationCount: license.activationCount,
+      version: LICENSE_VERSION,
+      isActive: true,
+      issuedAt: new Date(),
+      expiresAt: license.expiresAt,
+      updatesUntil: license.updatesUntil,
+      // Event sequence and config versions continue from the old key's, so
+      // terminals resuming with a Last-Event-ID don't miss events. The
+      // license_key_rotated event on the old key takes the next number.
+      eventSequence: license.eventSequence + 1,
+      configVersion: license.configVersion,
+      notes: `Rotated from ${maskLicenseKey(license.licenseKey)}: ${reason}`,
+    });
+
+    // Move every activation (inactive ones too, so deactivation limits carry over)
+    const movedActivations = await tx
+      .update(activations)
+      .set({ licenseKey: newLicenseKey })
+      .where(eq(activations.licenseKey, license.licenseKey))
+      .returning({ id: activations.id });
+
+    const movedSessions = await tx
+      .update(terminalSessions)
+      .set({ licenseKey: newLicenseKey })
+      .where(eq(terminalSessions.licenseKey, license.licenseKey))
+      .returning({ id: terminalSessions.id });
+
+    // Terminal config history (license config and per-terminal overrides)
+    await tx
+      .update(terminalConfigs)
+      .set({ licenseKey: newLicenseKey })
+      .where(eq(terminalConfigs.licenseKey, license.licenseKey));
+
+    await tx
+      .update(terminalCommands)
+      .set({ licenseKey: newLicenseKey })
+      .where(eq(terminalCommands.licenseKey, license.licenseKey));
+
+    // Resolved requests keep the key they were made with
+    await tx
+      .update(terminalTransferRequests)
+      .set({ licenseKey: newLicenseKey, updatedAt: new Date() })
+      .where(
+        and(
+          eq(terminalTransferRequests.licenseKey, license.licenseKey),
+          eq(terminalTransferRequests.status, "pending")
+        )
+      );
+
+    await tx
+      .update(subscriptionEvents)
+      .set({ licenseKey: newLicenseKey })
+      .where(eq(subscriptionEvents.licenseKey, license.licenseKey));
+
+    // The old key is no longer the customer's active key, but stays usable
+    // (resolving to the new key) until the overlap ends
+    await tx
+      .update(licenseKeys)
+      .set({
+        isActive: false,
+        replacedByKey: newLicenseKey,
+        rotationOverlapEndsAt: overlapEndsAt,
+        revocationReason: `Key rotated: ${reason}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(licenseKeys.id, license.id));
+
+    return {
+      previousLicenseKey: license.licenseKey,
+      newLicenseKey,
+      overlapEndsAt,
+      movedActivations: movedActivations.length,
+      movedSessions: movedSessions.length,
+    };
+  });
+
+  // Push the new key to terminals still connected with the old one
+  publishLicenseKeyRotated(result.previousLicenseKey, {
+    newLicenseKey: result.newLicenseKey,
+    overlapEndsAt: result.overlapEndsAt,
+  });
+
+  console.log(
+    `[Rotation] Rotated ${maskLicenseKey(
+      result.previousLicenseKey
+    )} -> ${maskLicenseKey(result.newLicenseKey)} (${
+      result.movedActivations
+    } activations, ${result.movedSessions} sessions)`
+  );
+
+  return result;
+}
+
+/**
+ * Resolve a license key to the key terminals should currently use
+ * Rotated keys resolve to their replacement while the overlap window is open;
+ * anything else (including expired rotations) resolves to itself.
+ */
+export async function resolveLicenseKey(licenseKey: string): Promise<string> {
+  const now = new Date();
+  let currentKey = licenseKey.toUpperCase().trim();
+
+  for (let hop = 0; hop < MAX_ROTATION_HOPS; hop++) {
+    const [license] = await db
+      .select({
+        replacedByKey: licenseKeys.replacedByKey,
+        rotationOverlapEndsAt: licenseKeys.rotationOverlapEndsAt,
+        revokedAt: licenseKeys.revokedAt,
+      })
+      .from(licenseKeys)
+      .where(eq(licenseKeys.licenseKey, currentKey))
+      .limit(1);
+
+    if (
+      !license?.replacedByKey ||
+      license.revokedAt ||
+      !license.rotationOverlapEndsAt ||
+      license.rotationOverlapEndsAt <= now
+    ) {
+      return currentKey;
+    }
+
+    currentKey = license.replacedByKey;
+  }
+
+  return currentKey;
+}
+
+/**
+ * Keys this key replaced, newest first
+ * Events published on a rotated key during its overlap window (including the
+ * rotation notice itself) stay stored under that key.
+ */
+export async function getPreviousLicenseKeys(
+  licenseKey: string
+): Promise<string[]> {
+  const previousKeys: string[] = [];
+  let currentKey = licenseKey.toUpperCase().trim();
+
+  for (let hop = 0; hop < MAX_ROTATION_HOPS; hop++) {
+    const [previous] = await db
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(eq(licenseKeys.replacedByKey, currentKey))
+      .limit(1);
+
+    if (!previous) {
+      break;
+    }
+
+    previousKeys.push(previous.licenseKey);
+    currentKey = previous.licenseKey;
+  }
+
+  return previousKeys;
+}
+
+// ============================================================================
+// CRON: REVOKE ROTATED KEYS AFTER OVERLAP
+// ============================================================================
+
+/**
+ * Revoke rotated keys whose overlap window has ended
+ * The revocation reason recorded at rotation time is kept.
+ */
+export async function revokeExpiredRotatedKeys(): Promise<RotatedKeyRevocationResult> {
+  const now = new Date();
+  const result: RotatedKeyRevocationResult = {
+    processed: 0,
+    revoked: 0,
+    errors: [],
+  };
+
+  const expiredRotations = await db
+    .select()
+    .from(licenseKeys)
+    .where(
+      and(
+        isNotNull(licenseKeys.replacedByKey),
+        isNull(licenseKeys.revokedAt),
+        lte(licenseKeys.rotationOverlapEndsAt, now)
+      )
+    );
+
+  for (const license of expiredRotations) {
+    result.processed++;
+
+    try {
+      const revocationReason =
+        license.revocationReason || "Key rotated: overlap period ended";
+
+      await db
+        .update(licenseKeys)
+        .set({
+          isActive: false,
+          revokedAt: now,
+          revocationReason,
+          updatedAt: now,
+        })
+        .where(eq(licenseKeys.id, license.id));
+
+      publishLicenseRevoked(license.licenseKey, { reason: revocationReason });
+
+      result.revoked++;
+    } catch (error) {
+      result.errors.push(
+        `Failed to revoke rotated key ${maskLicenseKey(license.licenseKey)}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  if (result.processed > 0) {
+    console.log(
+      `[Rotation] Revoked ${result.revoked}/${result.processed} rotated keys after overlap`
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,366 @@
+import { randomUUID } from "crypto";
+import { db } from "@/lib/db";
+import {
+  activations,
+  licenseKeys,
+  terminalCommands,
+  type Activation,
+  type TerminalCommand,
+} from "@/lib/db/schema";
+import { eq, and, asc, desc, inArray, isNull } from "drizzle-orm";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  createSubscriptionEvent,
+  publishEvent,
+  type TerminalCommandEvent,
+} from "@/lib/subscription-events";
+import { resolveLicenseKey } from "./rotation";
+
+/**
+ * Terminal commands
+ *
+ * Support (from the admin licenses view) and customers (from the dashboard)
+ * queue commands for one terminal. Each command is sent as a terminal_command
+ * event targeted at the terminal, so it gets the event stream's delivery
+ * guarantees: replay on reconnect, and republishing by the retry job until
+ * it's acked (then the dead letter queue).
+ *
+ * Status: pending -> delivered (event acked) -> succeeded / failed (terminal
+ * reported the outcome). A failed ack fails the command and stops the retry
+ * job republishing it; a command whose event ends up in the dead letter
+ * queue is undelivered.
+ */
+
+export const TERMINAL_COMMANDS = [
+  "restart",
+  "upload_diagnostics",
+  "clear_cache",
+  "revalidate",
+] as const;
+export type TerminalCommandName = (typeof TERMINAL_COMMANDS)[number];
+
+// Clearing the cache can discard sales that haven't synced yet, so only
+// support sends it
+export const CUSTOMER_COMMANDS: readonly TerminalCommandName[] = [
+  "restart",
+  "upload_diagnostics",
+  "revalidate",
+];
+
+export const COMMAND_RESULT_STATUSES = ["succeeded", "failed"] as const;
+export type CommandResultStatus = (typeof COMMAND_RESULT_STATUSES)[number];
+
+// Commands still waiting on the terminal
+const OPEN_STATUSES = ["pending", "delivered"];
+
+const MAX_RESULT_BYTES = 64 * 1024;
+const RECENT_COMMANDS_LIMIT = 50;
+
+/**
+ * Validate a command name from a request body
+ */
+export function parseTerminalCommand(
+  command: unknown,
+  allowed: readonly TerminalCommandName[] = TERMINAL_COMMANDS
+): TerminalCommandName {
+  if (!allowed.includes(command as TerminalCommandName)) {
+    throw new ValidationError(`Invalid command. Must be: ${allowed.join(", ")}`);
+  }
+  return command as TerminalCommandName;
+}
+
+/**
+ * Queue a command for a terminal and send it
+ * Refuses a command the terminal hasn't finished a previous one of.
+ */
+export async function issueTerminalCommand(
+  terminal: Activation,
+  command: TerminalCommandName,
+  issuer: { userId: string | null; via: "admin" | "dashboard" }
+): Promise<TerminalCommand> {
+  if (!terminal.isActive || !terminal.machineIdHash) {
+    throw new ValidationError("Commands can only be sent to active terminals");
+  }
+
+  const [open] = await db
+    .select({ id: terminalCommands.id })
+    .from(terminalCommands)
+    .where(
+      and(
+        eq(terminalCommands.activationId, terminal.id),
+        eq(terminalCommands.command, command),
+        inArray(terminalCommands.status, OPEN_STATUSES)
+      )
+    )
+    .limit(1);
+
+  if (open) {
+    throw new ConflictError(
+      "This command is already waiting on the terminal"
+    );
+  }
+
+  const commandId = randomUUID();
+  const event = createSubscriptionEvent<TerminalCommandEvent>(
+    "terminal_command",
+    terminal.licenseKey,
+    {
+      commandId,
+      command,
+      issuedAt: new Date().toISOString(),
+    },
+    { machineIdHashes: [terminal.machineIdHash] }
+  );
+
+  const [queued] = await db
+    .insert(terminalCommands)
+    .values({
+      id: commandId,
+      activationId: terminal.id,
+      licenseKey: terminal.licenseKey,
+      machineIdHash: terminal.machineIdHash,
+      command,
+      eventId: event.id,
+      issuedBy: issuer.userId,
+      issuedVia: issuer.via,
+    })
+    .returning();
+
+  // Persisted before returning, so a terminal that's offline gets it on
+  // reconnect
+  await publishEvent(event);
+
+  console.log(
+    `[Terminal Commands] ${command} queued for terminal ${terminal.id} (${issuer.via})`
+  );
+  return queued;
+}
+
+/**
+ * Update a command from its event's acknowledgment
+ * Called for every recorded ack; acks for other events are ignored.
+ */
+export async function recordCommandDelivery(ack: {
+  eventId: string;
+  status: "success" | "failed" | "skipped";
+  errorMessage?: string | null;
+}): Promise<void> {
+  const now = new Date();
+  const delivered = ack.status === "success";
+
+  await db
+    .update(terminalCommands)
+    .set(
+      delivered
+        ? { status: "delivered", deliveredAt: now, updatedAt: now }
+        : {
+            status: "failed",
+            errorMessage:
+              ack.errorMessage ||
+              (ack.status === "skipped"
+                ? "Terminal skipped the command"
+                : "Terminal could not process the command"),
+            completedAt: now,
+            updatedAt: now,
+          }
+    )
+    .where(
+      and(
+        eq(terminalCommands.eventId, ack.eventId),
+        inArray(terminalCommands.status, ["pending", "undelivered"])
+      )
+    );
+}
+
+/**
+ * Whether a command has finished (including failed by its ack), so its
+ * event no longer needs republishing
+ */
+export async function isCommandSettled(eventId: string): Promise<boolean> {
+  const [command] = await db
+    .select({ completedAt: terminalCommands.completedAt })
+    .from(terminalCommands)
+    .where(eq(terminalCommands.eventId, eventId))
+    .limit(1);
+
+  return !!command?.completedAt;
+}
+
+/**
+ * Mark a command undelivered once its event is dead-lettered
+ * (no-op for other events)
+ */
+export async function markCommandUndelivered(eventId: string): Promise<void> {
+  await db
+    .update(terminalCommands)
+    .set({ status: "undelivered", updatedAt: new Date() })
+    .where(
+      and(
+        eq(terminalCommands.eventId, eventId),
+        eq(terminalCommands.status, "pending")
+      )
+    );
+}
+
+/**
+ * Record the outcome a terminal reports for one of its commands
+ */
+export async function recordCommandResult(report: {
+  licenseKey: string;
+  machineIdHash: string;
+  commandId: string;
+  status: CommandResultStatus;
+  result?: Record<string, unknown> | null;
+  errorMessage?: string | null;
+}): Promise<TerminalCommand> {
+  if (!COMMAND_RESULT_STATUSES.includes(report.status)) {
+    throw new ValidationError("Invalid status. Must be: succeeded or failed");
+  }
+  if (
+    report.result &&
+    Buffer.byteLength(JSON.stringify(report.result)) > MAX_RESULT_BYTES
+  ) {
+    throw new ValidationError("Command result is too large (64 KB max)");
+  }
+
+  const normalizedKey = await resolveLicenseKey(
+    report.licenseKey.toUpperCase().trim()
+  );
+
+  // The activation keeps its commands across a key rotation
+  const [command] = await db
+    .select({ command: terminalCommands })
+    .from(terminalCommands)
+    .innerJoin(activations, eq(terminalCommands.activationId, activations.id))
+    .where(
+      and(
+        eq(terminalCommands.id, report.commandId),
+        eq(terminalCommands.machineIdHash, report.machineIdHash),
+        eq(activations.licenseKey, normalizedKey)
+      )
+    )
+    .limit(1);
+
+  if (!command) {
+    throw new NotFoundError("Command not found for this terminal");
+  }
+
+  if (command.command.completedAt) {
+    throw new ConflictError(`This command already ${command.command.status}`);
+  }
+
+  const now = new Date();
+  const [updated] = await db
+    .update(terminalCommands)
+    .set({
+      status: report.status,
+      result: report.result ?? null,
+      errorMessage: report.errorMessage || null,
+      // A result also proves delivery if the ack was lost
+      deliveredAt: command.command.deliveredAt || now,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(terminalCommands.id, report.commandId),
+        isNull(terminalCommands.completedAt)
+      )
+    )
+    .returning();
+
+  // Another result (or a failed ack) got there first
+  if (!updated) {
+    throw new ConflictError("This command has already finished");
+  }
+
+  return updated;
+}
+
+/**
+ * Recent commands for one terminal, newest first
+ */
+export async function getTerminalCommands(
+  activationId: string
+): Promise<TerminalCommand[]> {
+  return db
+    .select()
+    .from(terminalCommands)
+    .where(eq(terminalCommands.activationId, activationId))
+    .orderBy(desc(terminalCommands.createdAt))
+    .limit(RECENT_COMMANDS_LIMIT);
+}
+
+/**
+ * A license's active terminals and their recent commands (admin view)
+ */
+export async function getLicenseCommandOverview(licenseId: string) {
+  const [license] = await db
+    .select({ licenseKey: licenseKeys.licenseKey })
+    .from(licenseKeys)
+    .where(eq(licenseKeys.id, licenseId))
+    .limit(1);
+
+  if (!license) {
+    throw new NotFoundError("License not found");
+  }
+
+  const terminals = await db
+    .select({
+      id: activations.id,
+      terminalName: activations.terminalName,
+      terminalGroup: activations.terminalGroup,
+      lastHeartbeat: activations.lastHeartbeat,
+    })
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, license.licenseKey),
+        eq(activations.isActive, true)
+      )
+    )
+    .orderBy(asc(activations.firstActivation));
+
+  const commands =
+    terminals.length > 0
+      ? await db
+          .select()
+          .from(terminalCommands)
+          .where(
+            inArray(
+              terminalCommands.activationId,
+              terminals.map((terminal) => terminal.id)
+            )
+          )
+          .orderBy(desc(terminalCommands.createdAt))
+          .limit(RECENT_COMMANDS_LIMIT)
+      : [];
+
+  return { licenseKey: license.licenseKey, terminals, commands };
+}
+
+/**
+ * Get an active terminal on a license by ID (admin view)
+ */
+export async function getLicenseTerminal(
+  licenseId: string,
+  activationId: string
+): Promise<Activation> {
+  const [terminal] = await db
+    .select({ activation: activations })
+    .from(activations)
+    .innerJoin(licenseKeys, eq(activations.licenseKey, licenseKeys.licenseKey))
+    .where(
+      and(eq(activations.id, activationId), eq(licenseKeys.id, licenseId))
+    )
+    .limit(1);
+
+  if (!terminal) {
+    throw new NotFoundError("Terminal not found on this license");
+  }
+  return terminal.activation;
+}
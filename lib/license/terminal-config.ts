@@ -0,0 +1,472 @@
+import { db } from "@/lib/db";
+import {
+  activations,
+  licenseKeys,
+  terminalConfigs,
+  type Activation,
+  type TerminalConfigDocument,
+} from "@/lib/db/schema";
+import { eq, and, asc, desc, sql } from "drizzle-orm";
+import { NotFoundError, ValidationError } from "@/lib/api/response-helpers";
+import { publishConfigUpdated } from "@/lib/subscription-events";
+import { resolveLicenseKey } from "./rotation";
+
+/**
+ * Terminal configuration
+ *
+ * POS settings (receipt text, tax rates, currency format, printer defaults)
+ * managed from the dashboard. Each license key has a config document, and a
+ * terminal can override whole sections of it. Every save takes the next
+ * version from the license key's counter, so a terminal's effective version
+ * (the newer of the two documents) only goes up.
+ *
+ * Saves are pushed to the affected terminals as config_updated events, and
+ * terminals report the version they applied in their heartbeat.
+ */
+
+export interface ReceiptSettings {
+  header: string;
+  footer: string;
+}
+
+export interface TaxRate {
+  name: string;
+  rate: number; // Percent, e.g. 20 for 20%
+  isDefault: boolean;
+}
+
+export interface CurrencyFormat {
+  code: string; // ISO 4217, upper case
+  symbolPosition: "before" | "after";
+  decimalSeparator: "." | ",";
+  thousandsSeparator: "," | "." | " " | "";
+  decimalPlaces: number;
+}
+
+export interface PrinterSettings {
+  paperWidth: 58 | 80; // mm
+  autoPrint: boolean;
+  copies: number;
+  openCashDrawer: boolean;
+}
+
+/**
+ * A config document (every section optional)
+ * Sections in a terminal override replace the license's section whole.
+ */
+export interface TerminalConfig {
+  receipt?: ReceiptSettings;
+  taxRates?: TaxRate[];
+  currency?: CurrencyFormat;
+  printer?: PrinterSettings;
+}
+
+export interface EffectiveTerminalConfig {
+  version: number; // 0 = nothing configured yet
+  config: TerminalConfig;
+}
+
+const MAX_RECEIPT_TEXT_LENGTH = 500;
+const MAX_TAX_RATES = 20;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseSection(value: unknown, name: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new ValidationError(`${name} must be an object`);
+  }
+  return value;
+}
+
+function parseText(value: unknown, name: string): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string" || value.length > MAX_RECEIPT_TEXT_LENGTH) {
+    throw new ValidationError(
+      `${name} must be text of up to ${MAX_RECEIPT_TEXT_LENGTH} characters`
+    );
+  }
+  return value;
+}
+
+function parseOneOf<T>(value: unknown, options: readonly T[], name: string): T {
+  if (!options.includes(value as T)) {
+    throw new ValidationError(
+      `${name} must be one of: ${options
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`
+    );
+  }
+  return value as T;
+}
+
+function parseInteger(
+  value: unknown,
+  min: number,
+  max: number,
+  name: string
+): number {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new ValidationError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function parseTaxRates(value: unknown): TaxRate[] {
+  if (!Array.isArray(value) || value.length > MAX_TAX_RATES) {
+    throw new ValidationError(
+      `taxRates must be a list of up to ${MAX_TAX_RATES} rates`
+    );
+  }
+
+  const taxRates = value.map((item, index): TaxRate => {
+    const taxRate = parseSection(item, `taxRates[${index}]`);
+    const name =
+      typeof taxRate.name === "string" ? taxRate.name.trim() : "";
+    if (!name || name.length > 50) {
+      throw new ValidationError(
+        `taxRates[${index}].name is required (up to 50 characters)`
+      );
+    }
+    if (
+      typeof taxRate.rate !== "number" ||
+      !Number.isFinite(taxRate.rate) ||
+      taxRate.rate < 0 ||
+      taxRate.rate > 100
+    ) {
+      throw new ValidationError(
+        `taxRates[${index}].rate must be a percentage from 0 to 100`
+      );
+    }
+    return { name, rate: taxRate.rate, isDefault: taxRate.isDefault === true };
+  });
+
+  if (taxRates.filter((taxRate) => taxRate.isDefault).length > 1) {
+    throw new ValidationError("Only one tax rate can be the default");
+  }
+  return taxRates;
+}
+
+/**
+ * Validate a config document from a request body
+ * Unknown sections and fields are dropped.
+ */
+export function parseTerminalConfig(input: unknown): TerminalConfig {
+  const body = parseSection(input, "config");
+  const config: TerminalConfig = {};
+
+  if (body.receipt !== undefined) {
+    const receipt = parseSection(body.receipt, "receipt");
+    config.receipt = {
+      header: parseText(receipt.header, "receipt.header"),
+      footer: parseText(receipt.footer, "receipt.footer"),
+    };
+  }
+
+  if (body.taxRates !== undefined) {
+    config.taxRates = parseTaxRates(body.taxRates);
+  }
+
+  if (body.currency !== undefined) {
+    const currency = parseSection(body.currency, "currency");
+    const code =
+      typeof currency.code === "string" ? currency.code.toUpperCase() : "";
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new ValidationError("currency.code must be a 3-letter ISO code");
+    }
+    config.currency = {
+      code,
+      symbolPosition: parseOneOf(
+        currency.symbolPosition,
+        ["before", "after"] as const,
+        "currency.symbolPosition"
+      ),
+      decimalSeparator: parseOneOf(
+        currency.decimalSeparator,
+        [".", ","] as const,
+        "currency.decimalSeparator"
+      ),
+      thousandsSeparator: parseOneOf(
+        currency.thousandsSeparator,
+        [",", ".", " ", ""] as const,
+        "currency.thousandsSeparator"
+      ),
+      decimalPlaces: parseInteger(
+        currency.decimalPlaces,
+        0,
+        3,
+        "currency.decimalPlaces"
+      ),
+    };
+    if (config.currency.decimalSeparator === config.currency.thousandsSeparator) {
+      throw new ValidationError(
+        "currency.decimalSeparator and thousandsSeparator must differ"
+      );
+    }
+  }
+
+  if (body.printer !== undefined) {
+    const printer = parseSection(body.printer, "printer");
+    config.printer = {
+      paperWidth: parseOneOf(
+        printer.paperWidth,
+        [58, 80] as const,
+        "printer.paperWidth"
+      ),
+      autoPrint: printer.autoPrint === true,
+      copies: parseInteger(printer.copies, 1, 5, "printer.copies"),
+      openCashDrawer: printer.openCashDrawer === true,
+    };
+  }
+
+  return config;
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+interface CurrentConfigDocuments {
+  license: TerminalConfigDocument | null;
+  overrides: Map<string, TerminalConfigDocument>; // By activation ID
+}
+
+/**
+ * Latest license document and latest override per terminal
+ */
+async function getCurrentConfigDocuments(
+  licenseKey: string
+): Promise<CurrentConfigDocuments> {
+  const documents = await db
+    .selectDistinctOn([terminalConfigs.activationId])
+    .from(terminalConfigs)
+    .where(eq(terminalConfigs.licenseKey, licenseKey))
+    .orderBy(terminalConfigs.activationId, desc(terminalConfigs.version));
+
+  const overrides = new Map<string, TerminalConfigDocument>();
+  let license: TerminalConfigDocument | null = null;
+  for (const document of documents) {
+    if (document.activationId) {
+      overrides.set(document.activationId, document);
+    } else {
+      license = document;
+    }
+  }
+  return { license, overrides };
+}
+
+function resolveEffectiveConfig(
+  documents: CurrentConfigDocuments,
+  activationId: string
+): EffectiveTerminalConfig {
+  const { license } = documents;
+  const override = documents.overrides.get(activationId);
+
+  return {
+    version: Math.max(license?.version ?? 0, override?.version ?? 0),
+    config: {
+      ...((license?.config as TerminalConfig | null) || {}),
+      ...((override?.config as TerminalConfig | null) || {}),
+    },
+  };
+}
+
+/**
+ * Save a new version of a license (or terminal override) document
+ */
+async function insertConfigDocument(
+  licenseKey: string,
+  activationId: string | null,
+  config: TerminalConfig | null,
+  createdBy: string | null
+): Promise<TerminalConfigDocument> {
+  return db.transaction(async (tx) => {
+    // Next version for this license (row lock keeps it monotonic)
+    const [license] = await tx
+      .update(licenseKeys)
+      .set({ configVersion: sql`${licenseKeys.configVersion} + 1` })
+      .where(eq(licenseKeys.licenseKey, licenseKey))
+      .returning({ configVersion: licenseKeys.configVersion });
+
+    if (!license) {
+      throw new NotFoundError("License key not found");
+    }
+
+    const [document] = await tx
+      .insert(terminalConfigs)
+      .values({
+        licenseKey,
+        activationId,
+        version: license.configVersion,
+        config,
+        createdBy,
+      })
+      .returning();
+    return document;
+  });
+}
+
+/**
+ * Push each terminal its effective config
+ * Only active terminals that have connected (and so have a machine ID) are
+ * sent one; the rest pick it up from GET config when they start.
+ */
+async function pushConfigUpdates(
+  licenseKey: string,
+  terminals: Activation[]
+): Promise<void> {
+  const documents = await getCurrentConfigDocuments(licenseKey);
+
+  for (const terminal of terminals) {
+    if (!terminal.isActive || !terminal.machineIdHash) continue;
+
+    publishConfigUpdated(
+      licenseKey,
+      resolveEffectiveConfig(documents, terminal.id),
+      { machineIdHashes: [terminal.machineIdHash] }
+    );
+  }
+}
+
+async function getActiveTerminals(licenseKey: string): Promise<Activation[]> {
+  return db
+    .select()
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, licenseKey),
+        eq(activations.isActive, true)
+      )
+    )
+    .orderBy(asc(activations.firstActivation));
+}
+
+/**
+ * Save a license's config document and push it to its terminals
+ */
+export async function saveLicenseConfig(
+  licenseKey: string,
+  config: TerminalConfig,
+  createdBy: string | null
+): Promise<TerminalConfigDocument> {
+  const document = await insertConfigDocument(
+    licenseKey,
+    null,
+    config,
+    createdBy
+  );
+
+  await pushConfigUpdates(licenseKey, await getActiveTerminals(licenseKey));
+  return document;
+}
+
+/**
+ * Save (or clear, with null) a terminal's override and push it to the terminal
+ */
+export async function saveTerminalConfigOverride(
+  terminal: Activation,
+  config: TerminalConfig | null,
+  createdBy: string | null
+): Promise<TerminalConfigDocument> {
+  if (!terminal.isActive) {
+    throw new ValidationError("This terminal is no longer active");
+  }
+
+  const document = await insertConfigDocument(
+    terminal.licenseKey,
+    terminal.id,
+    config,
+    createdBy
+  );
+
+  await pushConfigUpdates(terminal.licenseKey, [terminal]);
+  return document;
+}
+
+/**
+ * Effective config for one terminal
+ */
+export async function getEffectiveTerminalConfig(
+  licenseKey: string,
+  activationId: string
+): Promise<EffectiveTerminalConfig> {
+  return resolveEffectiveConfig(
+    await getCurrentConfigDocuments(licenseKey),
+    activationId
+  );
+}
+
+/**
+ * Effective config for a terminal by license key and machine
+ * (for the desktop app, which may still use a rotated key)
+ */
+export async function getTerminalConfigForMachine(
+  licenseKey: string,
+  machineIdHash: string
+): Promise<EffectiveTerminalConfig> {
+  const normalizedKey = await resolveLicenseKey(
+    licenseKey.toUpperCase().trim()
+  );
+
+  const [activation] = await db
+    .select({ id: activations.id })
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, normalizedKey),
+        eq(activations.machineIdHash, machineIdHash),
+        eq(activations.isActive, true)
+      )
+    )
+    .limit(1);
+
+  if (!activation) {
+    throw new NotFoundError("No active activation found for this device");
+  }
+
+  return getEffectiveTerminalConfig(normalizedKey, activation.id);
+}
+
+/**
+ * A license's config and where each of its terminals is up to
+ * A terminal is out of date until it reports the version it should be on.
+ */
+export async function getLicenseConfigOverview(licenseKey: string) {
+  const [documents, terminals] = await Promise.all([
+    getCurrentConfigDocuments(licenseKey),
+    getActiveTerminals(licenseKey),
+  ]);
+
+  return {
+    licenseKey,
+    version: documents.license?.version ?? 0,
+    config: (documents.license?.config as TerminalConfig | null) || {},
+    updatedAt: documents.license?.createdAt ?? null,
+    terminals: terminals.map((terminal) => {
+      const override = documents.overrides.get(terminal.id);
+      const { version } = resolveEffectiveConfig(documents, terminal.id);
+
+      return {
+        id: terminal.id,
+        terminalName: terminal.terminalName,
+        terminalGroup: terminal.terminalGroup,
+        lastHeartbeat: terminal.lastHeartbeat,
+        override: (override?.config as TerminalConfig | null) || null,
+        expectedVersion: version,
+        appliedVersion: terminal.appliedConfigVersion,
+        upToDate:
+          version === 0 || (terminal.appliedConfigVersion ?? 0) >= version,
+      };
+    }),
+  };
+}
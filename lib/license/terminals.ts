@@ -0,0 +1,152 @@
+import { db } from "@/lib/db";
+import {
+  activations,
+  licenseKeys,
+  subscriptions,
+  type Activation,
+} from "@/lib/db/schema";
+import { eq, and, or, desc } from "drizzle-orm";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+
+/**
+ * Customer terminals
+ *
+ * Dashboard actions on one terminal (an activation on one of the customer's
+ * license keys). Terminals can be put in a group (e.g. "tills", "kitchen")
+ * so events can be targeted at the whole group.
+ */
+
+const TERMINAL_GROUP_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,49}$/;
+
+/**
+ * Get the customer's usable license keys
+ * The active keys (main key + location keys) of the customer's active (or
+ * trialing) subscription.
+ */
+async function getCustomerLicenseKeys(customerId: string): Promise<string[]> {
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.customerId, customerId),
+        or(
+          eq(subscriptions.status, "active"),
+          eq(subscriptions.status, "trialing")
+        )
+      )
+    )
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  if (!subscription) {
+    throw new NotFoundError("No active subscription found");
+  }
+
+  // Main key + location keys
+  const subscriptionLicenses = await db
+    .select({ licenseKey: licenseKeys.licenseKey })
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscription.id),
+        eq(licenseKeys.isActive, true)
+      )
+    );
+
+  if (subscriptionLicenses.length === 0) {
+    throw new NotFoundError("No license key found for subscription");
+  }
+
+  return subscriptionLicenses.map((l) => l.licenseKey);
+}
+
+/**
+ * Check a license key is one of the customer's usable keys
+ * Returns the key in its stored (upper case) form.
+ */
+export async function getCustomerLicenseKey(
+  customerId: string,
+  licenseKey: string
+): Promise<string> {
+  const customerKeys = await getCustomerLicenseKeys(customerId);
+  const normalizedKey = licenseKey.toUpperCase().trim();
+
+  if (!customerKeys.includes(normalizedKey)) {
+    throw new ForbiddenError("This license key does not belong to you");
+  }
+  return normalizedKey;
+}
+
+/**
+ * Get one of the customer's terminals by activation ID
+ * The activation must be on one of the customer's usable license keys.
+ */
+export async function getCustomerTerminal(
+  customerId: string,
+  activationId: string
+): Promise<Activation> {
+  const customerKeys = await getCustomerLicenseKeys(customerId);
+
+  const [activation] = await db
+    .select()
+    .from(activations)
+    .where(eq(activations.id, activationId))
+    .limit(1);
+
+  if (!activation) {
+    throw new NotFoundError("Terminal not found");
+  }
+
+  if (!customerKeys.includes(activation.licenseKey)) {
+    throw new ForbiddenError("This terminal does not belong to your license");
+  }
+
+  return activation;
+}
+
+/**
+ * Normalise a terminal group name from a request body (null clears the group)
+ */
+export function normalizeTerminalGroup(group: unknown): string | null {
+  if (group === null || group === undefined) return null;
+  if (typeof group !== "string") {
+    throw new ValidationError("Group name must be a string");
+  }
+
+  const normalized = group.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (!TERMINAL_GROUP_PATTERN.test(normalized)) {
+    throw new ValidationError(
+      "Group names use letters, numbers, spaces, - and _ (up to 50 characters)"
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Put one of the customer's terminals in a group (or take it out)
+ */
+export async function setTerminalGroup(
+  customerId: string,
+  activationId: string,
+  group: unknown
+): Promise<Activation> {
+  const activation = await getCustomerTerminal(customerId, activationId);
+
+  const [updated] = await db
+    .update(activations)
+    .set({
+      terminalGroup: normalizeTerminalGroup(group),
+      updatedAt: new Date(),
+    })
+    .where(eq(activations.id, activation.id))
+    .returning();
+
+  return updated;
+}
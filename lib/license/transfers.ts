@@ -0,0 +1,540 @@
+import crypto from "crypto";
+import { db } from "@/lib/db";
+import {
+  activations,
+  customers,
+  licenseKeys,
+  terminalSessions,
+  terminalTransferRequests,
+  type TerminalTransferRequest,
+} from "@/lib/db/schema";
+import { eq, and, ne, desc, inArray } from "drizzle-orm";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "@/lib/api/response-helpers";
+import { sendTerminalTransferRequestEmail } from "@/lib/emails/terminal-transfer";
+import { validateLicenseKeyFormat, maskLicenseKey } from "./generator";
+import { resolveLicenseKey } from "./rotation";
+import { isLicenseExpired } from "./license-types";
+import { TERMINAL_TRANSFER_EXPIRY_MS } from "./constants";
+
+/**
+ * Terminal transfers
+ *
+ * Replacing a terminal's PC without spending one of the yearly deactivations:
+ * 1. The new machine asks to take over a named terminal (requestTerminalTransfer)
+ * 2. The customer gets an email with an approval link and sees the request on
+ *    /dashboard/terminals
+ * 3. Approval moves the existing activation row to the new machine, so the
+ *    terminal keeps its id, name and history and the old machine's next
+ *    heartbeat fails
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TransferResolution = "dashboard" | "email";
+
+export interface TerminalTransferRequestInput {
+  licenseKey: string;
+  machineIdHash: string;
+  terminalName: string;
+  ipAddress?: string;
+  location?: Record<string, unknown>;
+}
+
+export interface TerminalTransferResult {
+  success: boolean;
+  message: string;
+  data?: {
+    transferId: string;
+    status: string;
+    terminalName: string | null;
+    expiresAt: string;
+  };
+}
+
+export interface TerminalTransferSummary {
+  id: string;
+  activationId: string;
+  licenseKey: string;
+  terminalName: string | null;
+  ipAddress: string | null;
+  status: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hashApprovalToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toTransferResult(
+  transfer: TerminalTransferRequest,
+  message: string
+): TerminalTransferResult {
+  return {
+    success: true,
+    message,
+    data: {
+      transferId: transfer.id,
+      status: transfer.status,
+      terminalName: transfer.terminalName,
+      expiresAt: transfer.expiresAt.toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// TERMINAL SIDE
+// ============================================================================
+
+/**
+ * Ask to move a named terminal's activation to a new machine
+ * Any earlier pending request for the same terminal is cancelled.
+ */
+export async function requestTerminalTransfer(
+  input: TerminalTransferRequestInput
+): Promise<TerminalTransferResult> {
+  const formatValidation = validateLicenseKeyFormat(input.licenseKey);
+  if (!formatValidation.valid) {
+    return {
+      success: false,
+      message: formatValidation.error || "Invalid license key format",
+    };
+  }
+
+  const normalizedKey = await resolveLicenseKey(input.licenseKey);
+
+  const [license] = await db
+    .select()
+    .from(licenseKeys)
+    .where(eq(licenseKeys.licenseKey, normalizedKey))
+    .limit(1);
+
+  if (!license) {
+    return { success: false, message: "License key not found" };
+  }
+
+  if (!license.isActive || license.revokedAt || isLicenseExpired(license)) {
+    return { success: false, message: "This license key is no longer active" };
+  }
+
+  const activeActivations = await db
+    .select()
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, normalizedKey),
+        eq(activations.isActive, true)
+      )
+    );
+
+  if (activeActivations.some((a) => a.machineIdHash === input.machineIdHash)) {
+    return {
+      success: false,
+      message: "This device is already activated on this license",
+    };
+  }
+
+  const terminalName = input.terminalName.trim();
+  const activation = activeActivations.find(
+    (a) => a.terminalName?.toLowerCase() === terminalName.toLowerCase()
+  );
+
+  if (!activation) {
+    return {
+      success: false,
+      message: `No active terminal named "${terminalName}" on this license`,
+    };
+  }
+
+  const approvalToken = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + TERMINAL_TRANSFER_EXPIRY_MS);
+
+  const transfer = await db.transaction(async (tx) => {
+    await tx
+      .update(terminalTransferRequests)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(
+        and(
+          eq(terminalTransferRequests.activationId, activation.id),
+          eq(terminalTransferRequests.status, "pending")
+        )
+      );
+
+    const [created] = await tx
+      .insert(terminalTransferRequests)
+      .values({
+        activationId: activation.id,
+        licenseKey: normalizedKey,
+        machineIdHash: input.machineIdHash,
+        terminalName: activation.terminalName,
+        ipAddress: input.ipAddress || null,
+        location: input.location || null,
+        approvalTokenHash: hashApprovalToken(approvalToken),
+        expiresAt,
+      })
+      .returning();
+
+    return created;
+  });
+
+  const [customer] = await db
+    .select({ email: customers.email })
+    .from(customers)
+    .where(eq(customers.id, license.customerId))
+    .limit(1);
+
+  if (customer) {
+    // Best-effort - the request is still visible on the dashboard
+    const emailResult = await sendTerminalTransferRequestEmail({
+      email: customer.email,
+      terminalName: activation.terminalName || terminalName,
+      ipAddress: input.ipAddress,
+      approvalToken,
+      expiresAt,
+    });
+
+    if (!emailResult.success) {
+      console.error(
+        `[Transfers] Failed to send approval email for transfer ${transfer.id}:`,
+        emailResult.error
+      );
+    }
+  }
+
+  console.log(
+    `[Transfers] Transfer of "${activation.terminalName}" requested on ${maskLicenseKey(
+      normalizedKey
+    )} (transfer ${transfer.id})`
+  );
+
+  return toTransferResult(
+    transfer,
+    "Transfer requested. Waiting for the account owner to approve it."
+  );
+}
+
+/**
+ * Current status of a transfer, as seen by the machine that requested it
+ * Once approved the machine can activate with the license key as usual.
+ */
+export async function getTransferStatusForMachine(
+  transferId: string,
+  machineIdHash: string
+): Promise<TerminalTransferResult> {
+  const [transfer] = await db
+    .select()
+    .from(terminalTransferRequests)
+    .where(
+      and(
+        eq(terminalTransferRequests.id, transferId),
+        eq(terminalTransferRequests.machineIdHash, machineIdHash)
+      )
+    )
+    .limit(1);
+
+  if (!transfer) {
+    return { success: false, message: "Transfer request not found" };
+  }
+
+  if (transfer.status === "pending" && transfer.expiresAt <= new Date()) {
+    return toTransferResult(
+      { ...transfer, status: "expired" },
+      "Transfer request expired"
+    );
+  }
+
+  const messages: Record<string, string> = {
+    pending: "Waiting for the account owner to approve the transfer",
+    approved: "Transfer approved. Activate this device to continue.",
+    rejected: "Transfer was rejected by the account owner",
+    cancelled: "Transfer was replaced by a newer request",
+    expired: "Transfer request expired",
+  };
+
+  return toTransferResult(
+    transfer,
+    messages[transfer.status] || "Transfer request status unknown"
+  );
+}
+
+// ============================================================================
+// CUSTOMER SIDE
+// ============================================================================
+
+/**
+ * Pending, unexpired transfer requests for a set of license keys
+ */
+export async function getPendingTransfers(
+  licenseKeyValues: string[]
+): Promise<TerminalTransferSummary[]> {
+  if (licenseKeyValues.length === 0) return [];
+
+  const now = new Date();
+  const pending = await db
+    .select({
+      id: terminalTransferRequests.id,
+      activationId: terminalTransferRequests.activationId,
+      licenseKey: terminalTransferRequests.licenseKey,
+      terminalName: activations.terminalName,
+      ipAddress: terminalTransferRequests.ipAddress,
+      status: terminalTransferRequests.status,
+      expiresAt: terminalTransferRequests.expiresAt,
+      createdAt: terminalTransferRequests.createdAt,
+    })
+    .from(terminalTransferRequests)
+    .innerJoin(
+      activations,
+      eq(terminalTransferRequests.activationId, activations.id)
+    )
+    .where(
+      and(
+        inArray(activations.licenseKey, licenseKeyValues),
+        eq(terminalTransferRequests.status, "pending")
+      )
+    )
+    .orderBy(desc(terminalTransferRequests.createdAt));
+
+  return pending.filter((transfer) => transfer.expiresAt > now);
+}
+
+/**
+ * Load a transfer request for a dashboard action
+ *
+ * @throws {NotFoundError} If the transfer does not exist
+ * @throws {ForbiddenError} If the terminal belongs to another customer
+ */
+export async function getCustomerTransfer(
+  transferId: string,
+  customerId: string
+): Promise<TerminalTransferRequest> {
+  const [row] = await db
+    .select({
+      transfer: terminalTransferRequests,
+      customerId: licenseKeys.customerId,
+    })
+    .from(terminalTransferRequests)
+    .innerJoin(
+      activations,
+      eq(terminalTransferRequests.activationId, activations.id)
+    )
+    .innerJoin(licenseKeys, eq(activations.licenseKey, licenseKeys.licenseKey))
+    .where(eq(terminalTransferRequests.id, transferId))
+    .limit(1);
+
+  if (!row) {
+    throw new NotFoundError("Transfer request not found");
+  }
+
+  if (row.customerId !== customerId) {
+    throw new ForbiddenError("This terminal does not belong to your account");
+  }
+
+  return row.transfer;
+}
+
+/**
+ * Load a transfer request from an emailed approval token
+ *
+ * @throws {NotFoundError} If no transfer matches the token
+ */
+export async function getTransferByToken(
+  token: string
+): Promise<TerminalTransferRequest> {
+  const [transfer] = await db
+    .select()
+    .from(terminalTransferRequests)
+    .where(
+      eq(terminalTransferRequests.approvalTokenHash, hashApprovalToken(token))
+    )
+    .limit(1);
+
+  if (!transfer) {
+    throw new NotFoundError("Transfer request not found");
+  }
+
+  return transfer;
+}
+
+/**
+ * Approve a transfer, moving the activation to the requesting machine
+ * The activation row is updated in place (same id, name and first activation
+ * date) and nothing is deactivated, so the yearly deactivation limit is not
+ * touched.
+ *
+ * @throws {ConflictError} If the request is no longer pending, has expired,
+ * or the terminal/machine state changed since it was made
+ */
+export async function approveTerminalTransfer(
+  transferId: string,
+  resolvedVia: TransferResolution
+): Promise<TerminalTransferRequest> {
+  const { transfer, previousMachineIdHash } = await db.transaction(
+    async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(terminalTransferRequests)
+        .where(eq(terminalTransferRequests.id, transferId))
+        .for("update")
+        .limit(1);
+
+      if (!pending) {
+        throw new NotFoundError("Transfer request not found");
+      }
+
+      if (pending.status !== "pending") {
+        throw new ConflictError(`This transfer was already ${pending.status}`);
+      }
+
+      const now = new Date();
+      if (pending.expiresAt <= now) {
+        await tx
+          .update(terminalTransferRequests)
+          .set({ status: "expired", updatedAt: now })
+          .where(eq(terminalTransferRequests.id, pending.id));
+        throw new ConflictError("This transfer request has expired");
+      }
+
+      const [activation] = await tx
+        .select()
+        .from(activations)
+        .where(eq(activations.id, pending.activationId))
+        .for("update")
+        .limit(1);
+
+      if (!activation?.isActive) {
+        throw new ConflictError("This terminal is no longer active");
+      }
+
+      const [machineActivation] = await tx
+        .select({ id: activations.id })
+        .from(activations)
+        .where(
+          and(
+            eq(activations.licenseKey, activation.licenseKey),
+            eq(activations.machineIdHash, pending.machineIdHash),
+            eq(activations.isActive, true)
+          )
+        )
+        .limit(1);
+
+      if (machineActivation) {
+        throw new ConflictError(
+          "The new machine is already activated on this license"
+        );
+      }
+
+      await tx
+        .update(activations)
+        .set({
+          machineIdHash: pending.machineIdHash,
+          ipAddress: pending.ipAddress || activation.ipAddress,
+          lastHeartbeat: now,
+          updatedAt: now,
+          location: {
+            ...((activation.location as object) || {}),
+            ...((pending.location as object) || {}),
+            transferredAt: now.toISOString(),
+            transferredVia: resolvedVia,
+          },
+        })
+        .where(eq(activations.id, activation.id));
+
+      const [approved] = await tx
+        .update(terminalTransferRequests)
+        .set({
+          status: "approved",
+          resolvedAt: now,
+          resolvedVia,
+          updatedAt: now,
+        })
+        .where(eq(terminalTransferRequests.id, pending.id))
+        .returning();
+
+      // Other requests for this terminal are now stale
+      await tx
+        .update(terminalTransferRequests)
+        .set({ status: "cancelled", updatedAt: now })
+        .where(
+          and(
+            eq(terminalTransferRequests.activationId, activation.id),
+            eq(terminalTransferRequests.status, "pending"),
+            ne(terminalTransferRequests.id, pending.id)
+          )
+        );
+
+      // The old machine's live session no longer represents this terminal
+      if (activation.machineIdHash) {
+        await tx
+          .update(terminalSessions)
+          .set({ connectionStatus: "deactivated" })
+          .where(
+            and(
+              eq(terminalSessions.licenseKey, activation.licenseKey),
+              eq(terminalSessions.machineIdHash, activation.machineIdHash)
+            )
+          );
+      }
+
+      return {
+        transfer: approved,
+        previousMachineIdHash: activation.machineIdHash,
+      };
+    }
+  );
+
+  console.log(
+    `[Transfers] Transfer ${transfer.id} approved via ${resolvedVia}: "${transfer.terminalName}" moved from ${previousMachineIdHash?.substring(
+      0,
+      20
+    )}... to ${transfer.machineIdHash.substring(0, 20)}...`
+  );
+
+  return transfer;
+}
+
+/**
+ * Reject a pending transfer; the terminal stays on its current machine
+ *
+ * @throws {ConflictError} If the request is no longer pending
+ */
+export async function rejectTerminalTransfer(
+  transferId: string,
+  resolvedVia: TransferResolution
+): Promise<TerminalTransferRequest> {
+  const now = new Date();
+  const [rejected] = await db
+    .update(terminalTransferRequests)
+    .set({
+      status: "rejected",
+      resolvedAt: now,
+      resolvedVia,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(terminalTransferRequests.id, transferId),
+        eq(terminalTransferRequests.status, "pending")
+      )
+    )
+    .returning();
+
+  if (!rejected) {
+    throw new ConflictError("This transfer is no longer pending");
+  }
+
+  console.log(
+    `[Transfers] Transfer ${rejected.id} rejected via ${resolvedVia}`
+  );
+
+  return rejected;
+}
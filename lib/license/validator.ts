@@ -5,6 +5,7 @@ import {
   activations,
   subscriptions,
   customers,
+  type LicenseKey,
 } from "@/lib/db/schema";
 import { eq, and, sql, count } from "drizzle-orm";
 import {
@@ -12,7 +13,11 @@ import {
   LICENSE_KEY_FORMAT,
   MAX_DEACTIVATIONS,
   HEARTBEAT_TIMEOUT_MS,
+  ACTIVATION_GRACE_PERIOD_MS,
 } from "./constants";
+import { getDunningSuspensionDate } from "@/lib/subscription/dunning-config";
+import { getDunningStartDate } from "@/lib/subscription/dunning";
+import { recordTerminalTransactions } from "@/lib/subscription/usage";
 
 // ============================================================================
 // CONFIGURATION
@@ -27,9 +32,6 @@ const LICENSE_HMAC_SECRET = process.env.LICENSE_HMAC_SECRET;
 // Plan codes mapping (from constants)
 const PLAN_CODES = CODE_TO_PLAN;
 
-// Grace period for initial activation (24 hours) - allows rebinding within this window
-const ACTIVATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
-
 // Maximum deactivations per year
 const MAX_DEACTIVATIONS_PER_YEAR = 3;
 
@@ -64,11 +66,16 @@ export interface ActivationResult {
     maxTerminals: number;
     currentActivations: number;
     features: string[];
+    entitlements: Entitlements;
     expiresAt: string | null;
     subscriptionStatus: string;
     businessName: string | null;
     terminalName: string | null; // The actual terminal name saved to the database
     trialEnd: string | null; // Trial end date for trial subscriptions
+    location: LicenseLocation | null; // Store/site the license key belongs to
+    licenseType: LicenseType;
+    updatesUntil: string | null; // Last date covered by update eligibility
+    newLicenseKey?: string; // Set when the requested key has been rotated
   };
 }
 
@@ -80,10 +87,15 @@ export interface ValidationResult {
     planId: string;
     planName: string;
     features: string[];
+    entitlements: Entitlements;
     subscriptionStatus: string;
     expiresAt: string | null;
     daysUntilExpiry: number | null;
     trialEnd: string | null; // Trial end date for trial subscriptions
+    location: LicenseLocation | null; // Store/site the license key belongs to
+    licenseType: LicenseType;
+    updatesUntil: string | null; // Last date covered by update eligibility
+    newLicenseKey?: string; // Set when the requested key has been rotated
   };
 }
 
@@ -97,10 +109,27 @@ export interface HeartbeatResult {
     shouldDisable: boolean;
     gracePeriodRemaining: number | null;
     trialEnd: string | null; // Trial end date for trial subscriptions
+    entitlements?: Entitlements; // Omitted when the license is no longer valid
+    location?: LicenseLocation | null; // Store/site the license key belongs to
+    licenseType?: LicenseType;
+    updatesUntil?: string | null; // Last date covered by update eligibility
     heartbeatIntervalMs?: number; // Interval in milliseconds for next heartbeat
+    readOnly?: boolean; // Paused subscription: terminal may not record sales
+    resumesAt?: string | null; // When a paused subscription resumes
+    offlineLease?: OfflineLease | null; // Signed lease for offline operation
+    newLicenseKey?: string; // Set when the requested key has been rotated
+    configVersion?: number; // Terminal config version the terminal should be on
   };
 }
 
+export interface LicenseAccessStatus {
+  subscriptionStatus: string;
+  shouldDisable: boolean;
+  gracePeriodRemaining: number | null; // Milliseconds before terminals are disabled
+  trialEnd: Date | null;
+  resumesAt: Date | null; // When a paused subscription resumes
+}
+
 export interface DeactivationResult {
   success: boolean;
   message: string;
@@ -113,9 +142,29 @@ export interface DeactivationResult {
 
 // Import shared cryptographic functions
 import { calculateHmacSignature, hashMachineId } from "./crypto";
+import {
+  issueOfflineLease,
+  isOfflineLeaseEnabled,
+  type OfflineLease,
+} from "./offline-lease";
+import { resolveLicenseKey } from "./rotation";
+import {
+  getCustomerEntitlements,
+  getPlanFeatures,
+  resolveEntitlements,
+  type Entitlements,
+} from "./entitlements";
+import { getLicenseLocation, type LicenseLocation } from "./locations";
+import { getEffectiveTerminalConfig } from "./terminal-config";
+import {
+  getLicenseType,
+  isLicenseExpired,
+  isSubscriptionLicense,
+} from "./license-types";
+import type { LicenseType } from "./constants";
 
-// Export hashMachineId for external use
-export { hashMachineId };
+// Export hashMachineId and getPlanFeatures for external use
+export { hashMachineId, getPlanFeatures };
 
 /**
  * Mask license key for logging (security)
@@ -184,41 +233,6 @@ export function extractPlanFromKey(key: string): string | null {
   return PLAN_CODES[match[1]] || null;
 }
 
-/**
- * Get features based on plan
- * Uses additive model: Professional includes all Basic features
- */
-export function getPlanFeatures(planId: string): string[] {
-  // Base features for Basic plan
-  const basicFeatures: string[] = [
-    "single_terminal",
-    "basic_reporting",
-    "product_management",
-    "sales_processing",
-    "receipt_printing",
-  ];
-
-  // Additional features for Professional plan (additive model)
-  const professionalAdditionalFeatures: string[] = [
-    "multi_terminal",
-    "advanced_reporting",
-    "inventory_management",
-    "employee_management",
-    "batch_tracking",
-    "expiry_tracking",
-  ];
-
-  const features: Record<string, string[]> = {
-    basic: [...basicFeatures],
-    professional: [
-      ...basicFeatures, // Professional includes all Basic features
-      ...professionalAdditionalFeatures, // Plus Professional-specific features
-    ],
-  };
-
-  return features[planId] || features.basic;
-}
-
 // ============================================================================
 // LICENSE ACTIVATION (with Transaction & Row Locking)
 // ============================================================================
@@ -242,10 +256,15 @@ export async function activateLicense(
     };
   }
 
-  const normalizedKey = licenseKey.toUpperCase().trim();
+  const requestedKey = licenseKey.toUpperCase().trim();
 
   // Use database transaction with row locking to prevent race conditions
   try {
+    // A rotated key keeps working during its overlap window
+    const normalizedKey = await resolveLicenseKey(requestedKey);
+    const newLicenseKey =
+      normalizedKey !== requestedKey ? normalizedKey : undefined;
+
     return await db.transaction(async (tx) => {
       // Step 2: Find and LOCK license row (SELECT ... FOR UPDATE)
       const [license] = await tx
@@ -282,19 +301,21 @@ export async function activateLicense(
       }
 
       // Step 4: Check expiration
-      if (license.expiresAt && new Date(license.expiresAt) < new Date()) {
+      if (isLicenseExpired(license)) {
         return {
           success: false,
-          message:
-            "This license key has expired. Please renew your subscription.",
+          message: isSubscriptionLicense(license)
+            ? "This license key has expired. Please renew your subscription."
+            : "This license has reached the end of its term. Please contact support to extend it.",
         };
       }
 
-      // Step 5: Check subscription status
+      // Step 5: Check subscription status (perpetual and fixed-term licenses
+      // have no subscription to check)
       let subscriptionStatus = "active";
       let businessName: string | null = null;
       let trialEnd: Date | null = null;
-      if (license.subscriptionId) {
+      if (license.subscriptionId && isSubscriptionLicense(license)) {
         const [subscription] = await tx
           .select()
           .from(subscriptions)
@@ -330,6 +351,10 @@ export async function activateLicense(
         businessName = customer.companyName;
       }
 
+      const licenseLocation = await getLicenseLocation(license.locationId);
+      const licenseType = getLicenseType(license.licenseType);
+      const updatesUntil = license.updatesUntil?.toISOString() || null;
+
       // Step 6: Get existing activations with lock
       const existingActivations = await tx
         .select()
@@ -372,12 +397,20 @@ export async function activateLicense(
             maxTerminals: license.maxTerminals,
             currentActivations: existingActivations.length,
             features: getPlanFeatures(planId),
+            entitlements: resolveEntitlements(
+              planId,
+              customer?.entitlementOverrides
+            ),
             expiresAt: license.expiresAt?.toISOString() || null,
             subscriptionStatus,
             businessName,
             terminalName:
               terminalName || existingMachineActivation.terminalName, // Use updated or existing terminal name
             trialEnd: trialEnd?.toISOString() || null,
+            location: licenseLocation,
+            licenseType,
+            updatesUntil,
+            newLicenseKey,
           },
         };
       }
@@ -428,11 +461,19 @@ export async function activateLicense(
             maxTerminals: license.maxTerminals,
             currentActivations: existingActivations.length,
             features: getPlanFeatures(planId),
+            entitlements: resolveEntitlements(
+              planId,
+              customer?.entitlementOverrides
+            ),
             expiresAt: license.expiresAt?.toISOString() || null,
             subscriptionStatus,
             businessName,
             terminalName,
             trialEnd: trialEnd?.toISOString() || null,
+            location: licenseLocation,
+            licenseType,
+            updatesUntil,
+            newLicenseKey,
           },
         };
       }
@@ -450,7 +491,7 @@ export async function activateLicense(
         if (!graceActivation) {
           return {
             success: false,
-            message: `Maximum terminal limit reached (${license.maxTerminals}). Deactivate another device first or upgrade your plan.`,
+            message: `Maximum terminal limit reached (${license.maxTerminals}). Deactivate another device first, add terminal seats, or upgrade your plan.`,
           };
         }
 
@@ -496,11 +537,19 @@ export async function activateLicense(
           maxTerminals: license.maxTerminals,
           currentActivations: existingActivations.length + 1,
           features: getPlanFeatures(planId),
+          entitlements: resolveEntitlements(
+            planId,
+            customer?.entitlementOverrides
+          ),
           expiresAt: license.expiresAt?.toISOString() || null,
           subscriptionStatus,
           businessName,
           terminalName: newActivation.terminalName, // Include the actual terminal name saved to DB
           trialEnd: trialEnd?.toISOString() || null,
+          location: licenseLocation,
+          licenseType,
+          updatesUntil,
+          newLicenseKey,
         },
       };
     });
@@ -533,7 +582,8 @@ export async function validateLicense(
     };
   }
 
-  const normalizedKey = licenseKey.toUpperCase().trim();
+  const requestedKey = licenseKey.toUpperCase().trim();
+  const normalizedKey = await resolveLicenseKey(requestedKey);
 
   // Step 2: Find license in database
   const [license] = await db
@@ -559,10 +609,18 @@ export async function validateLicense(
     };
   }
 
+  // Fixed-term licenses stop validating at the end of their term
+  if (!isSubscriptionLicense(license) && isLicenseExpired(license)) {
+    return {
+      success: false,
+      message: "License key has expired",
+    };
+  }
+
   // Step 4: Check subscription if linked
   let subscriptionStatus = "active";
   let trialEnd: Date | null = null;
-  if (license.subscriptionId) {
+  if (license.subscriptionId && isSubscriptionLicense(license)) {
     const [subscription] = await db
       .select()
       .from(subscriptions)
@@ -577,8 +635,9 @@ export async function validateLicense(
   }
 
   // Step 5: Calculate expiry info
+  const licenseType = getLicenseType(license.licenseType);
   let daysUntilExpiry: number | null = null;
-  if (license.expiresAt) {
+  if (license.expiresAt && licenseType !== "perpetual") {
     const expiresAt = new Date(license.expiresAt);
     const now = new Date();
     daysUntilExpiry = Math.ceil(
@@ -609,6 +668,10 @@ export async function validateLicense(
   }
 
   const planId = extractPlanFromKey(normalizedKey) || "basic";
+  const entitlements = await getCustomerEntitlements(
+    license.customerId,
+    planId
+  );
 
   return {
     success: true,
@@ -618,10 +681,16 @@ export async function validateLicense(
       planId,
       planName: planId.charAt(0).toUpperCase() + planId.slice(1),
       features: getPlanFeatures(planId),
+      entitlements,
       subscriptionStatus,
       expiresAt: license.expiresAt?.toISOString() || null,
       daysUntilExpiry,
       trialEnd: trialEnd?.toISOString() || null,
+      location: await getLicenseLocation(license.locationId),
+      licenseType,
+      updatesUntil: license.updatesUntil?.toISOString() || null,
+      newLicenseKey:
+        normalizedKey !== requestedKey ? normalizedKey : undefined,
     },
   };
 }
@@ -631,80 +700,35 @@ export async function validateLicense(
 // ============================================================================
 
 /**
- * Process heartbeat from desktop app
- * Grace period is now calculated from subscription cancellation date, not last heartbeat
+ * Work out whether a license's terminals may keep running
+ * Grace periods run from the cancellation date, trial end or start of
+ * dunning. Shared by heartbeats and offline lease requests, so no lease is
+ * issued to a terminal its heartbeat would disable.
  */
-export async function processHeartbeat(
-  licenseKey: string,
-  machineIdHash: string,
-  metadata?: {
-    appVersion?: string;
-    sessionCount?: number;
-    transactionCount?: number;
-  }
-): Promise<HeartbeatResult> {
-  const normalizedKey = licenseKey.toUpperCase().trim();
-
-  // Find the activation
-  const [activation] = await db
-    .select()
-    .from(activations)
-    .where(
-      and(
-        eq(activations.licenseKey, normalizedKey),
-        eq(activations.machineIdHash, machineIdHash),
-        eq(activations.isActive, true)
-      )
-    )
-    .limit(1);
-
-  if (!activation) {
-    return {
-      success: false,
-      message: "No active activation found for this device",
-      data: {
-        isValid: false,
-        planId: "",
-        subscriptionStatus: "unknown",
-        shouldDisable: true,
-        gracePeriodRemaining: null,
-        trialEnd: null,
-        heartbeatIntervalMs: 15 * 60 * 1000, // Default interval
-      },
-    };
-  }
-
-  // Find the license
-  const [license] = await db
-    .select()
-    .from(licenseKeys)
-    .where(eq(licenseKeys.licenseKey, normalizedKey))
-    .limit(1);
-
-  if (!license || !license.isActive || license.revokedAt) {
-    return {
-      success: false,
-      message: "License is no longer valid",
-      data: {
-        isValid: false,
-        planId: "",
-        subscriptionStatus: "revoked",
-        shouldDisable: true,
-        gracePeriodRemaining: null,
-        trialEnd: null,
-        heartbeatIntervalMs: 15 * 60 * 1000, // Default interval
-      },
-    };
-  }
-
-  // Check subscription status
+export async function getLicenseAccessStatus(
+  license: LicenseKey
+): Promise<LicenseAccessStatus> {
   let subscriptionStatus = "active";
   let shouldDisable = false;
   let trialEnd: Date | null = null;
   let gracePeriodRemaining: number | null =
     OFFLINE_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
-
-  if (license.subscriptionId) {
+  let resumesAt: Date | null = null;
+  const licenseType = getLicenseType(license.licenseType);
+
+  if (licenseType === "fixed_term") {
+    // FIXED TERM: No subscription; the license stops at the end of its term
+    if (isLicenseExpired(license)) {
+      subscriptionStatus = "expired";
+      shouldDisable = true;
+      gracePeriodRemaining = 0;
+    } else if (license.expiresAt) {
+      gracePeriodRemaining = Math.min(
+        gracePeriodRemaining,
+        license.expiresAt.getTime() - Date.now()
+      );
+    }
+  } else if (license.subscriptionId && licenseType === "subscription") {
     const [subscription] = await db
       .select()
       .from(subscriptions)
@@ -773,14 +797,17 @@ export async function processHeartbeat(
           }
         }
       } else if (subscriptionStatus === "past_due") {
-        // PAST DUE: Shorter grace period (3 days) for payment failures
-        const lastPaymentAttempt = subscription.currentPeriodEnd
-          ? new Date(subscription.currentPeriodEnd)
-          : new Date();
-
-        const pastDueGracePeriodEnd = new Date(
-          lastPaymentAttempt.getTime() + 3 * 24 * 60 * 60 * 1000
-        );
+        // PAST DUE: Terminals keep working until the dunning schedule
+        // suspends them (counted from the first failure of the open case)
+        const dunningStartedAt = await getDunningStartDate(subscription.id);
+
+        const pastDueGracePeriodEnd = dunningStartedAt
+          ? getDunningSuspensionDate(dunningStartedAt)
+          : getDunningSuspensionDate(
+              subscription.currentPeriodEnd
+                ? new Date(subscription.currentPeriodEnd)
+                : new Date()
+            );
 
         if (now > pastDueGracePeriodEnd) {
           shouldDisable = true;
@@ -789,10 +816,102 @@ export async function processHeartbeat(
           gracePeriodRemaining =
             pastDueGracePeriodEnd.getTime() - now.getTime();
         }
+      } else if (subscriptionStatus === "paused") {
+        // PAUSED: Terminal stays usable read-only until the scheduled resume
+        resumesAt = subscription.resumesAt;
       }
     }
   }
 
+  return {
+    subscriptionStatus,
+    shouldDisable,
+    gracePeriodRemaining,
+    trialEnd,
+    resumesAt,
+  };
+}
+
+/**
+ * Process heartbeat from desktop app
+ * Grace period is now calculated from subscription cancellation date, not last heartbeat
+ * Fixed-term licenses are disabled once their term ends; perpetual licenses
+ * have no subscription and stay valid.
+ */
+export async function processHeartbeat(
+  licenseKey: string,
+  machineIdHash: string,
+  metadata?: {
+    appVersion?: string;
+    sessionCount?: number;
+    transactionCount?: number;
+    configVersion?: number; // Terminal config version the terminal has applied
+  }
+): Promise<HeartbeatResult> {
+  const requestedKey = licenseKey.toUpperCase().trim();
+  const normalizedKey = await resolveLicenseKey(requestedKey);
+
+  // Find the activation
+  const [activation] = await db
+    .select()
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, normalizedKey),
+        eq(activations.machineIdHash, machineIdHash),
+        eq(activations.isActive, true)
+      )
+    )
+    .limit(1);
+
+  if (!activation) {
+    return {
+      success: false,
+      message: "No active activation found for this device",
+      data: {
+        isValid: false,
+        planId: "",
+        subscriptionStatus: "unknown",
+        shouldDisable: true,
+        gracePeriodRemaining: null,
+        trialEnd: null,
+        heartbeatIntervalMs: 15 * 60 * 1000, // Default interval
+      },
+    };
+  }
+
+  // Find the license
+  const [license] = await db
+    .select()
+    .from(licenseKeys)
+    .where(eq(licenseKeys.licenseKey, normalizedKey))
+    .limit(1);
+
+  if (!license || !license.isActive || license.revokedAt) {
+    return {
+      success: false,
+      message: "License is no longer valid",
+      data: {
+        isValid: false,
+        planId: "",
+        subscriptionStatus: "revoked",
+        shouldDisable: true,
+        gracePeriodRemaining: null,
+        trialEnd: null,
+        heartbeatIntervalMs: 15 * 60 * 1000, // Default interval
+      },
+    };
+  }
+
+  const {
+    subscriptionStatus,
+    shouldDisable,
+    gracePeriodRemaining,
+    trialEnd,
+    resumesAt,
+  } = await getLicenseAccessStatus(license);
+  const licenseType = getLicenseType(license.licenseType);
+
   // Update heartbeat
   await db
     .update(activations)
@@ -804,10 +923,38 @@ export async function processHeartbeat(
             lastMetadata: metadata,
           }
         : activation.location,
+      ...(typeof metadata?.configVersion === "number" && {
+        appliedConfigVersion: metadata.configVersion,
+      }),
     })
     .where(eq(activations.id, activation.id));
 
+  // Usage billing: count transactions since this terminal's last heartbeat
+  if (
+    license.subscriptionId &&
+    licenseType === "subscription" &&
+    metadata?.transactionCount !== undefined
+  ) {
+    try {
+      await recordTerminalTransactions(
+        activation,
+        {
+          subscriptionId: license.subscriptionId,
+          customerId: license.customerId,
+        },
+        metadata.transactionCount
+      );
+    } catch (error) {
+      // Log but don't fail - the next heartbeat's counter still covers it
+      console.error("[Heartbeat] Failed to record transaction usage:", error);
+    }
+  }
+
   const planId = extractPlanFromKey(normalizedKey) || "basic";
+  const entitlements = await getCustomerEntitlements(
+    license.customerId,
+    planId
+  );
 
   // Determine heartbeat interval based on trial status
   // Trial period: 2 minutes for faster sync
@@ -815,6 +962,37 @@ export async function processHeartbeat(
   const isInTrial = subscriptionStatus === "trialing" && trialEnd && new Date(trialEnd) > new Date();
   const heartbeatIntervalMs = isInTrial ? 2 * 60 * 1000 : 15 * 60 * 1000;
 
+  // Hand back a signed offline lease so the terminal can keep working
+  // (and prove its entitlement locally) if connectivity drops
+  let offlineLease: OfflineLease | null = null;
+  if (!shouldDisable && isOfflineLeaseEnabled()) {
+    try {
+      offlineLease = issueOfflineLease({
+        licenseKey: normalizedKey,
+        machineIdHash,
+        planId,
+        features: getPlanFeatures(planId),
+        entitlements,
+        licenseExpiresAt: license.expiresAt,
+        gracePeriodRemaining,
+      });
+    } catch (error) {
+      // Log but don't fail - the terminal keeps its previous lease
+      console.error("[Heartbeat] Failed to issue offline lease:", error);
+    }
+  }
+
+  // Lets a terminal that missed a config_updated event fetch its config
+  let configVersion: number | undefined;
+  try {
+    ({ version: configVersion } = await getEffectiveTerminalConfig(
+      normalizedKey,
+      activation.id
+    ));
+  } catch (error) {
+    console.error("[Heartbeat] Failed to look up config version:", error);
+  }
+
   return {
     success: true,
     message: "Heartbeat recorded",
@@ -825,7 +1003,17 @@ export async function processHeartbeat(
       shouldDisable,
       gracePeriodRemaining,
       trialEnd: trialEnd?.toISOString() || null,
+      entitlements,
+      location: await getLicenseLocation(license.locationId),
+      licenseType,
+      updatesUntil: license.updatesUntil?.toISOString() || null,
       heartbeatIntervalMs,
+      readOnly: subscriptionStatus === "paused",
+      resumesAt: resumesAt?.toISOString() || null,
+      offlineLease,
+      newLicenseKey:
+        normalizedKey !== requestedKey ? normalizedKey : undefined,
+      configVersion,
     },
   };
 }
@@ -866,7 +1054,7 @@ export async function deactivateLicense(
   licenseKey: string,
   machineIdHash: string
 ): Promise<DeactivationResult> {
-  const normalizedKey = licenseKey.toUpperCase().trim();
+  const normalizedKey = await resolveLicenseKey(licenseKey);
 
   // Check deactivation limit
   const deactivationsThisYear = await getDeactivationCountThisYear(
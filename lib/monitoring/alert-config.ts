@@ -48,7 +48,8 @@ export type AlertType =
   | "failure_rate_critical"
   | "failure_rate_warning"
   | "stale_sessions_warning"
-  | "pattern_detected";
+  | "pattern_detected"
+  | "license_sharing_suspected";
 
 export interface Alert {
   id: string;
@@ -13,6 +13,7 @@ import {
 import { eq, gte, sql } from "drizzle-orm";
 import { sendAlert } from "./alert-manager";
 import { ALERT_THRESHOLDS } from "./alert-config";
+import { LICENSE_SHARING_PATTERN_TYPE } from "@/lib/analytics/activation-anomaly-detector";
 
 /**
  * Monitor health scores and send alerts for critical/degraded licenses
@@ -209,11 +210,13 @@ export async function monitorFailurePatterns(): Promise<{
   let alertCount = 0;
 
   // Get active critical patterns
+  // License sharing findings alert once when detected and wait in the admin
+  // review queue instead of re-alerting every run
   const criticalPatterns = await db
     .select()
     .from(failurePatterns)
     .where(
-      sql`${failurePatterns.status} = 'active' AND ${failurePatterns.severity} in ('high', 'critical')`
+      sql`${failurePatterns.status} = 'active' AND ${failurePatterns.severity} in ('high', 'critical') AND ${failurePatterns.patternType} <> ${LICENSE_SHARING_PATTERN_TYPE}`
     );
 
   for (const pattern of criticalPatterns) {
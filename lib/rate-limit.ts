@@ -143,6 +143,31 @@ export const API_RATE_LIMITS = {
     maxRequests: 12,
   },
 
+  offlineLease: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 6,
+  },
+
+  transfer: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 5,
+  },
+
+  updates: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 10,
+  },
+
+  config: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 10,
+  },
+
+  commandResult: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 20,
+  },
+
   deactivate: {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxRequests: 3,
@@ -154,6 +179,11 @@ export const API_RATE_LIMITS = {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 60, // 60 requests per minute per IP
   },
+
+  promotionCodes: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 20, // Slows down guessing codes
+  },
 } as const;
 
 // Keep backward compatibility
@@ -0,0 +1,96 @@
+/**
+ * Billing countries
+ *
+ * The profile page stores the billing country as free text, so customers
+ * may have entered an ISO code ("GB"), a common alias ("UK") or an English
+ * name ("United Kingdom"). These helpers map all of them to ISO 3166-1
+ * alpha-2 codes for currency, tax and Stripe address purposes.
+ *
+ * Client-safe: no Stripe or database imports.
+ */
+
+// EU member states (ISO 3166-1 alpha-2 code and English name)
+export const EU_COUNTRIES: Record<string, string> = {
+  AT: "AUSTRIA",
+  BE: "BELGIUM",
+  BG: "BULGARIA",
+  HR: "CROATIA",
+  CY: "CYPRUS",
+  CZ: "CZECHIA",
+  DK: "DENMARK",
+  EE: "ESTONIA",
+  FI: "FINLAND",
+  FR: "FRANCE",
+  DE: "GERMANY",
+  GR: "GREECE",
+  HU: "HUNGARY",
+  IE: "IRELAND",
+  IT: "ITALY",
+  LV: "LATVIA",
+  LT: "LITHUANIA",
+  LU: "LUXEMBOURG",
+  MT: "MALTA",
+  NL: "NETHERLANDS",
+  PL: "POLAND",
+  PT: "PORTUGAL",
+  RO: "ROMANIA",
+  SK: "SLOVAKIA",
+  SI: "SLOVENIA",
+  ES: "SPAIN",
+  SE: "SWEDEN",
+};
+
+// Other countries we bill, plus aliases seen in free-text addresses
+const COUNTRY_ALIASES: Record<string, string> = {
+  UK: "GB",
+  "UNITED KINGDOM": "GB",
+  "GREAT BRITAIN": "GB",
+  ENGLAND: "GB",
+  SCOTLAND: "GB",
+  WALES: "GB",
+  "NORTHERN IRELAND": "GB",
+  "CZECH REPUBLIC": "CZ",
+  EL: "GR",
+  AUSTRALIA: "AU",
+  "NEW ZEALAND": "NZ",
+  CANADA: "CA",
+  "UNITED STATES": "US",
+  "UNITED STATES OF AMERICA": "US",
+  USA: "US",
+  SWITZERLAND: "CH",
+  NORWAY: "NO",
+};
+
+/**
+ * ISO 3166-1 alpha-2 code for a billing country (ISO code or English name)
+ *
+ * @returns Uppercase two-letter code, or null if the country isn't recognised
+ *
+ * @example
+ * normalizeCountryCode("United Kingdom");
+ * // Returns: "GB"
+ */
+export function normalizeCountryCode(country?: string | null): string | null {
+  const normalized = country?.trim().toUpperCase().replace(/\s+/g, " ");
+  if (!normalized) return null;
+
+  if (normalized in COUNTRY_ALIASES) {
+    return COUNTRY_ALIASES[normalized];
+  }
+
+  const euCode = Object.keys(EU_COUNTRIES).find(
+    (code) => EU_COUNTRIES[code] === normalized
+  );
+  if (euCode) return euCode;
+
+  // Any other two-letter value is assumed to already be an ISO code
+  return /^[A-Z]{2}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Whether a billing country is an EU member state
+ */
+export function isEuCountry(country?: string | null): boolean {
+  const code = normalizeCountryCode(country);
+  return !!code && code in EU_COUNTRIES;
+}
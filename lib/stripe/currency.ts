@@ -0,0 +1,130 @@
+/**
+ * Billing currencies
+ *
+ * Plans are sold in USD, GBP and EUR, each with its own Stripe Price per
+ * plan and billing cycle. USD prices use the original environment variables;
+ * the other currencies use the same names with a currency suffix, e.g.
+ * STRIPE_PRICE_ID_BASIC_MONTHLY_GBP.
+ *
+ * Revenue is reported in a single currency (REPORTING_CURRENCY, default USD)
+ * using the rates in EXCHANGE_RATE_<CURRENCY>_USD.
+ *
+ * Client-safe: no Stripe or database imports.
+ */
+
+import { isEuCountry, normalizeCountryCode } from "./countries";
+
+export type Currency = "usd" | "gbp" | "eur";
+
+export const SUPPORTED_CURRENCIES: Currency[] = ["usd", "gbp", "eur"];
+
+export const DEFAULT_CURRENCY: Currency = "usd";
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  usd: "USD ($)",
+  gbp: "GBP (£)",
+  eur: "EUR (€)",
+};
+
+// Fallback rates (1 unit = N USD) when EXCHANGE_RATE_<CURRENCY>_USD isn't set
+const DEFAULT_USD_RATES: Record<Currency, number> = {
+  usd: 1,
+  gbp: 1.27,
+  eur: 1.08,
+};
+
+/**
+ * Type guard for supported currency codes (lowercase, as Stripe uses them)
+ */
+export function isSupportedCurrency(value: unknown): value is Currency {
+  return (
+    typeof value === "string" &&
+    (SUPPORTED_CURRENCIES as string[]).includes(value)
+  );
+}
+
+/**
+ * Normalise a currency code from a request or Stripe object
+ *
+ * @returns Lowercase currency code, or null if it isn't supported
+ */
+export function normalizeCurrency(value?: string | null): Currency | null {
+  const currency = value?.trim().toLowerCase();
+  return isSupportedCurrency(currency) ? currency : null;
+}
+
+/**
+ * Billing currency for a country (ISO code or English name)
+ * UK customers pay in GBP, EU customers in EUR, everyone else in USD
+ */
+export function getCurrencyForCountry(country?: string | null): Currency {
+  const code = normalizeCountryCode(country);
+  if (code === "GB") return "gbp";
+  if (isEuCountry(code)) return "eur";
+  return DEFAULT_CURRENCY;
+}
+
+/**
+ * Environment variable holding a price ID in a given currency
+ *
+ * @example
+ * getPriceEnvVarName("STRIPE_PRICE_ID_BASIC_MONTHLY", "gbp");
+ * // Returns: "STRIPE_PRICE_ID_BASIC_MONTHLY_GBP"
+ */
+export function getPriceEnvVarName(base: string, currency: Currency): string {
+  return currency === DEFAULT_CURRENCY
+    ? base
+    : `${base}_${currency.toUpperCase()}`;
+}
+
+/**
+ * Format an amount (in major units, e.g. dollars) with its currency symbol
+ *
+ * @example
+ * formatCurrencyAmount(29, "gbp");
+ * // Returns: "£29.00"
+ */
+export function formatCurrencyAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency.toUpperCase()}`;
+  }
+}
+
+/**
+ * Currency revenue stats are normalised to (server-side only)
+ */
+export function getReportingCurrency(): Currency {
+  return normalizeCurrency(process.env.REPORTING_CURRENCY) || DEFAULT_CURRENCY;
+}
+
+/**
+ * Value of one unit of a currency in USD (server-side only)
+ */
+function getUsdRate(currency: Currency): number {
+  const configured = Number(
+    process.env[`EXCHANGE_RATE_${currency.toUpperCase()}_USD`]
+  );
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_USD_RATES[currency];
+}
+
+/**
+ * Convert an amount into the reporting currency
+ * Unsupported currencies are treated as already being in the reporting currency
+ */
+export function convertToReportingCurrency(
+  amount: number,
+  currency: string
+): number {
+  const from = normalizeCurrency(currency);
+  const to = getReportingCurrency();
+  if (!from || from === to) return amount;
+
+  return (amount * getUsdRate(from)) / getUsdRate(to);
+}
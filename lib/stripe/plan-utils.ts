@@ -1,4 +1,5 @@
-import type { PlanId } from "./plans";
+import type { PlanId, BillingCycle } from "./plans";
+import { SUPPORTED_CURRENCIES, getPriceEnvVarName } from "./currency";
 
 /**
  * Plan display name mapping
@@ -209,10 +210,36 @@ export function calculateAnnualDiscountPercent(plan: {
 // ============================================================================
 
 /**
- * Map of Stripe Price IDs to Plan IDs
+ * Plan and billing cycle behind each price environment variable
+ * Each variable also has a per-currency variant (e.g. ..._MONTHLY_GBP)
+ */
+const PRICE_ENV_VARS: Array<{
+  envVar: string;
+  planId: PlanId;
+  cycle: BillingCycle;
+}> = [
+  { envVar: "STRIPE_PRICE_ID_BASIC_MONTHLY", planId: "basic", cycle: "monthly" },
+  { envVar: "STRIPE_PRICE_ID_BASIC_ANNUAL", planId: "basic", cycle: "annual" },
+  {
+    envVar: "STRIPE_PRICE_ID_PRO_MONTHLY",
+    planId: "professional",
+    cycle: "monthly",
+  },
+  {
+    envVar: "STRIPE_PRICE_ID_PRO_ANNUAL",
+    planId: "professional",
+    cycle: "annual",
+  },
+];
+
+/**
+ * Map of Stripe Price IDs to Plan IDs and billing cycles
  * Built from environment variables
  */
-let PRICE_TO_PLAN_MAP: Record<string, PlanId> | null = null;
+let PRICE_TO_PLAN_MAP: Record<
+  string,
+  { planId: PlanId; cycle: BillingCycle }
+> | null = null;
 
 /**
  * Initialize the price-to-plan mapping from environment variables
@@ -225,20 +252,13 @@ function initializePriceMapping(): void {
 
   PRICE_TO_PLAN_MAP = {};
 
-  // Basic plan
-  if (process.env.STRIPE_PRICE_ID_BASIC_MONTHLY) {
-    PRICE_TO_PLAN_MAP[process.env.STRIPE_PRICE_ID_BASIC_MONTHLY] = "basic";
-  }
-  if (process.env.STRIPE_PRICE_ID_BASIC_ANNUAL) {
-    PRICE_TO_PLAN_MAP[process.env.STRIPE_PRICE_ID_BASIC_ANNUAL] = "basic";
-  }
-
-  // Professional plan
-  if (process.env.STRIPE_PRICE_ID_PRO_MONTHLY) {
-    PRICE_TO_PLAN_MAP[process.env.STRIPE_PRICE_ID_PRO_MONTHLY] = "professional";
-  }
-  if (process.env.STRIPE_PRICE_ID_PRO_ANNUAL) {
-    PRICE_TO_PLAN_MAP[process.env.STRIPE_PRICE_ID_PRO_ANNUAL] = "professional";
+  for (const { envVar, planId, cycle } of PRICE_ENV_VARS) {
+    for (const currency of SUPPORTED_CURRENCIES) {
+      const priceId = process.env[getPriceEnvVarName(envVar, currency)];
+      if (priceId) {
+        PRICE_TO_PLAN_MAP[priceId] = { planId, cycle };
+      }
+    }
   }
 }
 
@@ -256,7 +276,7 @@ function initializePriceMapping(): void {
 export function getPlanIdFromPriceId(priceId: string): PlanId {
   initializePriceMapping();
 
-  const planId = PRICE_TO_PLAN_MAP![priceId];
+  const planId = PRICE_TO_PLAN_MAP![priceId]?.planId;
 
   if (!planId) {
     console.error(
@@ -307,21 +327,6 @@ export function isValidPriceId(priceId: string): boolean {
 export function getBillingCycleFromPriceId(
   priceId: string
 ): "monthly" | "annual" | null {
-  // Check monthly prices
-  if (
-    priceId === process.env.STRIPE_PRICE_ID_BASIC_MONTHLY ||
-    priceId === process.env.STRIPE_PRICE_ID_PRO_MONTHLY
-  ) {
-    return "monthly";
-  }
-
-  // Check annual prices
-  if (
-    priceId === process.env.STRIPE_PRICE_ID_BASIC_ANNUAL ||
-    priceId === process.env.STRIPE_PRICE_ID_PRO_ANNUAL
-  ) {
-    return "annual";
-  }
-
-  return null;
+  initializePriceMapping();
+  return PRICE_TO_PLAN_MAP![priceId]?.cycle || null;
 }
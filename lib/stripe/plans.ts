@@ -1,5 +1,13 @@
 import { stripe } from "./client";
-import type Stripe from "stripe";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  getCurrencyForCountry,
+  getPriceEnvVarName,
+  normalizeCurrency,
+  type Currency,
+} from "./currency";
+import { ValidationError } from "@/lib/api/response-helpers";
 
 export type PlanId = "basic" | "professional";
 export type BillingCycle = "monthly" | "annual";
@@ -15,16 +23,28 @@ export interface PlanFeatures {
   };
 }
 
+export interface PlanPrice {
+  amount: number; // Major units (e.g. dollars)
+  stripePriceId: string;
+}
+
+// Monthly and annual price of a plan in one currency
+export type PlanPriceSet = Record<BillingCycle, PlanPrice>;
+
 export interface Plan {
   id: PlanId;
   name: string;
   description: string;
+  // Prices in `currency` (see getPlans)
+  currency: Currency;
   priceMonthly: number;
   priceAnnual: number;
   annualDiscountPercent: number;
   stripePriceIdMonthly: string;
   stripePriceIdAnnual: string;
   stripeProductId: string;
+  // Every configured currency; the default currency is always present
+  prices: Partial<Record<Currency, PlanPriceSet>>;
   features: PlanFeatures;
   popular?: boolean;
 }
@@ -84,75 +104,162 @@ let cachedPlans: Record<PlanId, Plan> | null = null;
 let cacheTimestamp: number = 0;
 const CACHE_TTL = 1000 * 60 * 15; // 15 minutes
 
+/**
+ * Build a plan from its per-currency prices, priced in the default currency
+ */
+function buildPlan(
+  id: PlanId,
+  details: { name: string; description: string; stripeProductId: string },
+  prices: Partial<Record<Currency, PlanPriceSet>>
+): Plan {
+  const defaultPrices = prices[DEFAULT_CURRENCY]!;
+
+  return localizePlan(
+    {
+      id,
+      name: details.name,
+      description: details.description,
+      currency: DEFAULT_CURRENCY,
+      priceMonthly: defaultPrices.monthly.amount,
+      priceAnnual: defaultPrices.annual.amount,
+      annualDiscountPercent: 0,
+      stripePriceIdMonthly: defaultPrices.monthly.stripePriceId,
+      stripePriceIdAnnual: defaultPrices.annual.stripePriceId,
+      stripeProductId: details.stripeProductId,
+      prices,
+      features: PLAN_FEATURES[id],
+      popular: POPULAR_PLANS.includes(id),
+    },
+    DEFAULT_CURRENCY
+  );
+}
+
+/**
+ * Price a plan in one of its configured currencies
+ */
+function localizePlan(plan: Plan, currency: Currency): Plan {
+  const prices = plan.prices[currency];
+  if (!prices) {
+    throw new Error(`Plan ${plan.id} has no ${currency.toUpperCase()} prices`);
+  }
+
+  // Calculate annual discount percent
+  const monthlyTotal = prices.monthly.amount * 12;
+  const annualDiscountPercent =
+    monthlyTotal > 0
+      ? Math.round(((monthlyTotal - prices.annual.amount) / monthlyTotal) * 100)
+      : 0;
+
+  return {
+    ...plan,
+    currency,
+    priceMonthly: prices.monthly.amount,
+    priceAnnual: prices.annual.amount,
+    annualDiscountPercent,
+    stripePriceIdMonthly: prices.monthly.stripePriceId,
+    stripePriceIdAnnual: prices.annual.stripePriceId,
+  };
+}
+
 /**
  * Fallback: Fetch plans using Price IDs from environment variables
  * This is used when products don't have metadata.planId set
+ *
+ * USD prices are required; GBP/EUR prices are optional and use the same
+ * variable names with a currency suffix (see lib/stripe/currency.ts)
  */
 async function fetchPlansFromEnvPriceIds(): Promise<Record<PlanId, Plan>> {
-  const priceIdMap: Record<PlanId, { monthly?: string; annual?: string }> = {
+  const envVarMap: Record<PlanId, { monthly: string; annual: string }> = {
     basic: {
-      monthly: process.env.STRIPE_PRICE_ID_BASIC_MONTHLY,
-      annual: process.env.STRIPE_PRICE_ID_BASIC_ANNUAL,
+      monthly: "STRIPE_PRICE_ID_BASIC_MONTHLY",
+      annual: "STRIPE_PRICE_ID_BASIC_ANNUAL",
     },
     professional: {
-      monthly: process.env.STRIPE_PRICE_ID_PRO_MONTHLY,
-      annual: process.env.STRIPE_PRICE_ID_PRO_ANNUAL,
+      monthly: "STRIPE_PRICE_ID_PRO_MONTHLY",
+      annual: "STRIPE_PRICE_ID_PRO_ANNUAL",
     },
   };
 
   const plans: Partial<Record<PlanId, Plan>> = {};
 
-  for (const [planId, priceIds] of Object.entries(priceIdMap)) {
+  for (const [planId, envVars] of Object.entries(envVarMap)) {
     const id = planId as PlanId;
 
-    if (!priceIds.monthly || !priceIds.annual) {
+    if (!process.env[envVars.monthly] || !process.env[envVars.annual]) {
       console.warn(`Missing Price IDs for ${planId} in environment variables`);
       continue;
     }
 
     try {
-      // Fetch both prices
-      const [monthlyPrice, annualPrice] = await Promise.all([
-        stripe.prices.retrieve(priceIds.monthly),
-        stripe.prices.retrieve(priceIds.annual),
-      ]);
-
-      // Get product from monthly price
-      const productId =
-        typeof monthlyPrice.product === "string"
-          ? monthlyPrice.product
-          : monthlyPrice.product.id;
+      const prices: Partial<Record<Currency, PlanPriceSet>> = {};
+      let productId: string | null = null;
+
+      for (const currency of SUPPORTED_CURRENCIES) {
+        const monthlyPriceId =
+          process.env[getPriceEnvVarName(envVars.monthly, currency)];
+        const annualPriceId =
+          process.env[getPriceEnvVarName(envVars.annual, currency)];
+
+        if (!monthlyPriceId || !annualPriceId) continue;
+
+        // Fetch both prices
+        const [monthlyPrice, annualPrice] = await Promise.all([
+          stripe.prices.retrieve(monthlyPriceId),
+          stripe.prices.retrieve(annualPriceId),
+        ]);
+
+        if (
+          monthlyPrice.currency !== currency ||
+          annualPrice.currency !== currency
+        ) {
+          console.warn(
+            `${planId} ${currency.toUpperCase()} Price IDs are not priced in ${currency.toUpperCase()}, skipping`
+          );
+          continue;
+        }
 
-      const product = await stripe.products.retrieve(productId);
+        // Get product from the default currency's monthly price
+        if (currency === DEFAULT_CURRENCY) {
+          productId =
+            typeof monthlyPrice.product === "string"
+              ? monthlyPrice.product
+              : monthlyPrice.product.id;
+        }
 
-      // Convert prices from cents to dollars
-      const priceMonthly = (monthlyPrice.unit_amount || 0) / 100;
-      const priceAnnual = (annualPrice.unit_amount || 0) / 100;
+        // Convert prices from cents to dollars
+        prices[currency] = {
+          monthly: {
+            amount: (monthlyPrice.unit_amount || 0) / 100,
+            stripePriceId: monthlyPrice.id,
+          },
+          annual: {
+            amount: (annualPrice.unit_amount || 0) / 100,
+            stripePriceId: annualPrice.id,
+          },
+        };
+      }
 
-      // Calculate annual discount percent
-      const monthlyTotal = priceMonthly * 12;
-      const annualDiscountPercent =
-        monthlyTotal > 0
-          ? Math.round(((monthlyTotal - priceAnnual) / monthlyTotal) * 100)
-          : 0;
+      if (!productId || !prices[DEFAULT_CURRENCY]) {
+        continue;
+      }
+
+      const product = await stripe.products.retrieve(productId);
 
       // Build plan object
-      plans[id] = {
+      plans[id] = buildPlan(
         id,
-        name: product.deleted ? PLAN_NAMES[id] : product.name || PLAN_NAMES[id],
-        description:
-          product.deleted || !product.description
-            ? PLAN_DESCRIPTIONS[id]
-            : product.description,
-        priceMonthly,
-        priceAnnual,
-        annualDiscountPercent,
-        stripePriceIdMonthly: monthlyPrice.id,
-        stripePriceIdAnnual: annualPrice.id,
-        stripeProductId: productId,
-        features: PLAN_FEATURES[id],
-        popular: POPULAR_PLANS.includes(id),
-      };
+        {
+          name: product.deleted
+            ? PLAN_NAMES[id]
+            : product.name || PLAN_NAMES[id],
+          description:
+            product.deleted || !product.description
+              ? PLAN_DESCRIPTIONS[id]
+              : product.description,
+          stripeProductId: productId,
+        },
+        prices
+      );
     } catch (error) {
       console.error(`Error fetching plan ${planId} from Price IDs:`, error);
     }
@@ -209,62 +316,66 @@ async function fetchPlansFromStripe(): Promise<Record<PlanId, Plan>> {
       }
 
       // Fetch all prices for this product
-      const prices = await stripe.prices.list({
+      const productPrices = await stripe.prices.list({
         product: product.id,
         active: true,
+        limit: 100,
       });
 
-      // Find monthly and annual prices
-      let monthlyPrice: Stripe.Price | null = null;
-      let annualPrice: Stripe.Price | null = null;
+      // Group monthly and annual prices by currency
+      const prices: Partial<Record<Currency, Partial<PlanPriceSet>>> = {};
 
-      for (const price of prices.data) {
+      for (const price of productPrices.data) {
         if (price.type !== "recurring") continue;
 
+        const currency = normalizeCurrency(price.currency);
+        if (!currency) continue;
+
         const interval = price.recurring?.interval;
-        if (interval === "month") {
-          monthlyPrice = price;
-        } else if (interval === "year") {
-          annualPrice = price;
+        const cycle: BillingCycle | null =
+          interval === "month"
+            ? "monthly"
+            : interval === "year"
+            ? "annual"
+            : null;
+        if (!cycle) continue;
+
+        // Convert prices from cents to dollars
+        prices[currency] = {
+          ...prices[currency],
+          [cycle]: {
+            amount: (price.unit_amount || 0) / 100,
+            stripePriceId: price.id,
+          },
+        };
+      }
+
+      // Only keep currencies with both a monthly and an annual price
+      const completePrices: Partial<Record<Currency, PlanPriceSet>> = {};
+      for (const [currency, priceSet] of Object.entries(prices)) {
+        if (priceSet?.monthly && priceSet.annual) {
+          completePrices[currency as Currency] = priceSet as PlanPriceSet;
         }
       }
 
-      // Skip if we don't have both prices
-      if (!monthlyPrice || !annualPrice) {
+      // Skip if we don't have both prices in the default currency
+      if (!completePrices[DEFAULT_CURRENCY]) {
         console.warn(
-          `Product ${product.id} (${planId}) missing monthly or annual price`
+          `Product ${product.id} (${planId}) missing monthly or annual ${DEFAULT_CURRENCY.toUpperCase()} price`
         );
         continue;
       }
 
-      // Convert prices from cents to dollars
-      const priceMonthly = (monthlyPrice.unit_amount || 0) / 100;
-      const priceAnnual = (annualPrice.unit_amount || 0) / 100;
-
-      // Calculate annual discount percent
-      const monthlyTotal = priceMonthly * 12;
-      const annualDiscountPercent =
-        monthlyTotal > 0
-          ? Math.round(((monthlyTotal - priceAnnual) / monthlyTotal) * 100)
-          : 0;
-
-      // Get features for this plan
-      const features = PLAN_FEATURES[planId];
-
       // Build plan object
-      plans[planId] = {
-        id: planId,
-        name: product.name,
-        description: product.description || "",
-        priceMonthly,
-        priceAnnual,
-        annualDiscountPercent,
-        stripePriceIdMonthly: monthlyPrice.id,
-        stripePriceIdAnnual: annualPrice.id,
-        stripeProductId: product.id,
-        features,
-        popular: POPULAR_PLANS.includes(planId),
-      };
+      plans[planId] = buildPlan(
+        planId,
+        {
+          name: product.name,
+          description: product.description || "",
+          stripeProductId: product.id,
+        },
+        completePrices
+      );
     }
 
     // Validate we have all required plans
@@ -322,24 +433,81 @@ function isValidPlanId(id: string): id is PlanId {
 }
 
 /**
- * Get all plans (fetched from Stripe)
+ * Get all plans (fetched from Stripe), priced in the given currency
  */
-export async function getPlans(): Promise<Record<PlanId, Plan>> {
-  return fetchPlansFromStripe();
+export async function getPlans(
+  currency: Currency = DEFAULT_CURRENCY
+): Promise<Record<PlanId, Plan>> {
+  const plans = await fetchPlansFromStripe();
+  if (currency === DEFAULT_CURRENCY) {
+    return plans;
+  }
+
+  const localized: Partial<Record<PlanId, Plan>> = {};
+  for (const [planId, plan] of Object.entries(plans)) {
+    localized[planId as PlanId] = localizePlan(plan, currency);
+  }
+
+  return localized as Record<PlanId, Plan>;
 }
 
 /**
- * Get a specific plan by ID
+ * Get a specific plan by ID, priced in the given currency
  */
-export async function getPlan(planId: PlanId): Promise<Plan> {
-  const plans = await getPlans();
+export async function getPlan(
+  planId: PlanId,
+  currency: Currency = DEFAULT_CURRENCY
+): Promise<Plan> {
+  const plans = await fetchPlansFromStripe();
   const plan = plans[planId];
 
   if (!plan) {
     throw new Error(`Plan not found: ${planId}`);
   }
 
-  return plan;
+  return localizePlan(plan, currency);
+}
+
+/**
+ * Currencies every plan has monthly and annual prices in
+ */
+export async function getAvailableCurrencies(): Promise<Currency[]> {
+  const plans = Object.values(await fetchPlansFromStripe());
+
+  return SUPPORTED_CURRENCIES.filter((currency) =>
+    plans.every((plan) => plan.prices[currency])
+  );
+}
+
+/**
+ * Choose the billing currency for a customer
+ *
+ * An explicit choice (e.g. the /pricing selector) wins and must be available;
+ * otherwise the billing country decides, falling back to the default currency
+ * when that country's prices aren't configured.
+ *
+ * @throws ValidationError if the requested currency isn't available
+ */
+export async function resolveCurrency(options: {
+  requested?: string | null;
+  country?: string | null;
+}): Promise<Currency> {
+  const available = await getAvailableCurrencies();
+
+  if (options.requested) {
+    const requested = normalizeCurrency(options.requested);
+    if (!requested || !available.includes(requested)) {
+      throw new ValidationError(
+        `Pricing in ${options.requested.toUpperCase()} is not available`
+      );
+    }
+    return requested;
+  }
+
+  const countryCurrency = getCurrencyForCountry(options.country);
+  return available.includes(countryCurrency)
+    ? countryCurrency
+    : DEFAULT_CURRENCY;
 }
 
 /**
@@ -347,25 +515,29 @@ export async function getPlan(planId: PlanId): Promise<Plan> {
  */
 export async function getPrice(
   planId: PlanId,
-  cycle: BillingCycle
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
 ): Promise<number> {
-  const plan = await getPlan(planId);
+  const plan = await getPlan(planId, currency);
   return cycle === "monthly" ? plan.priceMonthly : plan.priceAnnual;
 }
 
 /**
- * Get Stripe Price ID for a plan and billing cycle
+ * Get Stripe Price ID for a plan, billing cycle and currency
  */
 export async function getStripePriceId(
   planId: PlanId,
-  cycle: BillingCycle
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
 ): Promise<string> {
-  const plan = await getPlan(planId);
+  const plan = await getPlan(planId, currency);
   const priceId =
     cycle === "monthly" ? plan.stripePriceIdMonthly : plan.stripePriceIdAnnual;
 
   if (!priceId) {
-    throw new Error(`Stripe Price ID not found for plan ${planId} (${cycle})`);
+    throw new Error(
+      `Stripe Price ID not found for plan ${planId} (${cycle}, ${currency})`
+    );
   }
 
   return priceId;
@@ -374,8 +546,11 @@ export async function getStripePriceId(
 /**
  * Calculate annual savings for a plan
  */
-export async function calculateAnnualSavings(planId: PlanId): Promise<number> {
-  const plan = await getPlan(planId);
+export async function calculateAnnualSavings(
+  planId: PlanId,
+  currency: Currency = DEFAULT_CURRENCY
+): Promise<number> {
+  const plan = await getPlan(planId, currency);
   const monthlyTotal = plan.priceMonthly * 12;
   return monthlyTotal - plan.priceAnnual;
 }
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import { ValidationError } from "@/lib/api/response-helpers";
+import { parsePromotionCodeInput } from "./promotion-codes";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/stripe/client", () => ({ stripe: {} }));
+
+const validBody = {
+  code: " spring-25 ",
+  percentOff: 25,
+  duration: "once",
+};
+
+describe("parsePromotionCodeInput", () => {
+  it("normalizes a percent-off code", () => {
+    expect(parsePromotionCodeInput(validBody)).toEqual({
+      code: "SPRING-25",
+      description: null,
+      percentOff: 25,
+      amountOff: null,
+      currency: "usd",
+      duration: "once",
+      durationInMonths: null,
+      maxRedemptions: null,
+      expiresAt: null,
+    });
+  });
+
+  it("converts an amount off to cents", () => {
+    const input = parsePromotionCodeInput({
+      code: "TENOFF",
+      amountOff: "10.50",
+      currency: "GBP",
+      duration: "repeating",
+      durationInMonths: 3,
+      maxRedemptions: "100",
+    });
+
+    expect(input.amountOff).toBe(1050);
+    expect(input.percentOff).toBeNull();
+    expect(input.currency).toBe("gbp");
+    expect(input.durationInMonths).toBe(3);
+    expect(input.maxRedemptions).toBe(100);
+  });
+
+  it("rejects invalid codes", () => {
+    expect(() => parsePromotionCodeInput({ ...validBody, code: "AB" })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, code: "NO SPACES" })
+    ).toThrow(ValidationError);
+  });
+
+  it("needs exactly one of percent or amount off", () => {
+    expect(() =>
+      parsePromotionCodeInput({ code: "NONE", duration: "once" })
+    ).toThrow("Provide either a percent or an amount off");
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, amountOff: 5 })
+    ).toThrow("Provide either a percent or an amount off");
+  });
+
+  it.each([0, 101, 12.5, "abc"])("rejects %s percent off", (percentOff) => {
+    expect(() => parsePromotionCodeInput({ ...validBody, percentOff })).toThrow(
+      "Percent off must be between 1 and 100"
+    );
+  });
+
+  it("rejects a non-positive amount off", () => {
+    expect(() =>
+      parsePromotionCodeInput({ code: "ZERO", amountOff: 0, duration: "once" })
+    ).toThrow("Amount off must be greater than 0");
+  });
+
+  it("rejects unknown currencies and durations", () => {
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, currency: "JPY" })
+    ).toThrow("Currency must be USD, GBP or EUR");
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, duration: "weekly" })
+    ).toThrow("Duration must be once, repeating or forever");
+  });
+
+  it("needs a number of months for repeating codes", () => {
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, duration: "repeating" })
+    ).toThrow("Repeating codes need a number of months");
+  });
+
+  it("rejects invalid max redemptions", () => {
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, maxRedemptions: 0 })
+    ).toThrow("Max redemptions must be a positive number");
+  });
+
+  it("rejects an expiry date in the past", () => {
+    expect(() =>
+      parsePromotionCodeInput({ ...validBody, expiresAt: "2000-01-01" })
+    ).toThrow("Expiry date must be in the future");
+  });
+});
@@ -0,0 +1,395 @@
+import type Stripe from "stripe";
+import { stripe } from "./client";
+import { db } from "@/lib/db";
+import { promotionCodes, type PromotionCode } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  DEFAULT_CURRENCY,
+  formatCurrencyAmount,
+  normalizeCurrency,
+  type Currency,
+} from "./currency";
+
+/**
+ * Promotion codes
+ *
+ * Each code is a Stripe coupon plus a customer-facing promotion code, created
+ * and retired from the admin panel and mirrored in the promotion_codes table.
+ * Codes are validated server-side (our row + Stripe's redemption state) before
+ * they are applied to a checkout or plan change.
+ */
+
+export const PROMOTION_CODE_DURATIONS = ["once", "repeating", "forever"] as const;
+
+export type PromotionCodeDuration = (typeof PROMOTION_CODE_DURATIONS)[number];
+
+// Discount recorded on subscriptions.metadata.discount
+export interface AppliedDiscount {
+  code: string;
+  stripePromotionCodeId: string;
+  stripeCouponId: string;
+  percentOff: number | null;
+  amountOff: number | null; // Cents
+  duration: string;
+  durationInMonths: number | null;
+  appliedAt: string;
+}
+
+export interface PromotionCodeInput {
+  code: string;
+  description: string | null;
+  percentOff: number | null;
+  amountOff: number | null; // Cents
+  currency: Currency; // Prices an amount-off code applies to
+  duration: PromotionCodeDuration;
+  durationInMonths: number | null;
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,50}$/;
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Validate an admin's request body for a new promotion code
+ */
+export function parsePromotionCodeInput(
+  body: Record<string, unknown>
+): PromotionCodeInput {
+  const code =
+    typeof body.code === "string" ? normalizePromotionCode(body.code) : "";
+  if (!CODE_PATTERN.test(code)) {
+    throw new ValidationError(
+      "Code must be 3-50 characters: letters, numbers, dashes or underscores"
+    );
+  }
+
+  const percentOff =
+    body.percentOff === undefined || body.percentOff === null
+      ? null
+      : Number(body.percentOff);
+  const amountOff =
+    body.amountOff === undefined || body.amountOff === null
+      ? null
+      : Math.round(Number(body.amountOff) * 100);
+
+  if ((percentOff === null) === (amountOff === null)) {
+    throw new ValidationError("Provide either a percent or an amount off");
+  }
+  // Stored as a whole number (promotion_codes.percent_off is an integer)
+  if (
+    percentOff !== null &&
+    (!Number.isInteger(percentOff) || percentOff < 1 || percentOff > 100)
+  ) {
+    throw new ValidationError("Percent off must be between 1 and 100");
+  }
+  if (amountOff !== null && (!Number.isFinite(amountOff) || amountOff <= 0)) {
+    throw new ValidationError("Amount off must be greater than 0");
+  }
+
+  const currency = body.currency
+    ? normalizeCurrency(String(body.currency))
+    : DEFAULT_CURRENCY;
+  if (!currency) {
+    throw new ValidationError("Currency must be USD, GBP or EUR");
+  }
+
+  const duration = body.duration as PromotionCodeDuration;
+  if (!PROMOTION_CODE_DURATIONS.includes(duration)) {
+    throw new ValidationError("Duration must be once, repeating or forever");
+  }
+
+  const durationInMonths =
+    duration === "repeating" ? Number(body.durationInMonths) : null;
+  if (
+    durationInMonths !== null &&
+    (!Number.isInteger(durationInMonths) || durationInMonths < 1)
+  ) {
+    throw new ValidationError("Repeating codes need a number of months");
+  }
+
+  const maxRedemptions =
+    body.maxRedemptions === undefined ||
+    body.maxRedemptions === null ||
+    body.maxRedemptions === ""
+      ? null
+      : Number(body.maxRedemptions);
+  if (
+    maxRedemptions !== null &&
+    (!Number.isInteger(maxRedemptions) || maxRedemptions < 1)
+  ) {
+    throw new ValidationError("Max redemptions must be a positive number");
+  }
+
+  const expiresAt = body.expiresAt ? new Date(String(body.expiresAt)) : null;
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    throw new ValidationError("Expiry date must be in the future");
+  }
+
+  return {
+    code,
+    description:
+      typeof body.description === "string" && body.description.trim()
+        ? body.description.trim()
+        : null,
+    percentOff,
+    amountOff,
+    currency,
+    duration,
+    durationInMonths,
+    maxRedemptions,
+    expiresAt,
+  };
+}
+
+/**
+ * Create the Stripe coupon + promotion code and store the mirror row
+ */
+export async function createPromotionCode(
+  input: PromotionCodeInput,
+  createdBy: string
+): Promise<PromotionCode> {
+  const [existing] = await db
+    .select({ id: promotionCodes.id })
+    .from(promotionCodes)
+    .where(eq(promotionCodes.code, input.code))
+    .limit(1);
+
+  if (existing) {
+    throw new ConflictError(`Promotion code ${input.code} already exists`);
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: input.description || input.code,
+    duration: input.duration,
+    ...(input.durationInMonths
+      ? { duration_in_months: input.durationInMonths }
+      : {}),
+    ...(input.percentOff !== null
+      ? { percent_off: input.percentOff }
+      : { amount_off: input.amountOff!, currency: input.currency }),
+  });
+
+  let stripePromotionCode: Stripe.PromotionCode | null = null;
+  try {
+    stripePromotionCode = await stripe.promotionCodes.create({
+      promotion: { type: "coupon", coupon: coupon.id },
+      code: input.code,
+      ...(input.maxRedemptions
+        ? { max_redemptions: input.maxRedemptions }
+        : {}),
+      ...(input.expiresAt
+        ? { expires_at: Math.floor(input.expiresAt.getTime() / 1000) }
+        : {}),
+    });
+
+    const [promotionCode] = await db
+      .insert(promotionCodes)
+      .values({
+        ...input,
+        stripeCouponId: coupon.id,
+        stripePromotionCodeId: stripePromotionCode.id,
+        createdBy,
+      })
+      .returning();
+
+    return promotionCode;
+  } catch (error) {
+    // Don't leave a redeemable code behind that admins can't see
+    try {
+      if (stripePromotionCode) {
+        await stripe.promotionCodes.update(stripePromotionCode.id, {
+          active: false,
+        });
+      }
+      await stripe.coupons.del(coupon.id);
+    } catch (cleanupError) {
+      console.error(
+        `[Promotion Codes] Failed to clean up Stripe coupon ${coupon.id}:`,
+        cleanupError
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Retire a promotion code
+ * Deactivates it in Stripe; discounts already applied keep running
+ */
+export async function retirePromotionCode(
+  promotionCodeId: string
+): Promise<PromotionCode> {
+  const [promotionCode] = await db
+    .select()
+    .from(promotionCodes)
+    .where(eq(promotionCodes.id, promotionCodeId))
+    .limit(1);
+
+  if (!promotionCode) {
+    throw new NotFoundError("Promotion code not found");
+  }
+
+  if (!promotionCode.isActive) {
+    return promotionCode;
+  }
+
+  await stripe.promotionCodes.update(promotionCode.stripePromotionCodeId, {
+    active: false,
+  });
+
+  const [retired] = await db
+    .update(promotionCodes)
+    .set({ isActive: false, retiredAt: new Date(), updatedAt: new Date() })
+    .where(eq(promotionCodes.id, promotionCodeId))
+    .returning();
+
+  return retired;
+}
+
+/**
+ * Look up a code a customer entered and make sure it can still be redeemed
+ * Throws ValidationError with a customer-facing message otherwise
+ *
+ * Fixed-amount codes only apply to prices in the coupon's currency.
+ */
+export async function findValidPromotionCode(
+  code: string,
+  currency?: string
+): Promise<PromotionCode> {
+  const [promotionCode] = await db
+    .select()
+    .from(promotionCodes)
+    .where(eq(promotionCodes.code, normalizePromotionCode(code)))
+    .limit(1);
+
+  if (
+    !promotionCode ||
+    !promotionCode.isActive ||
+    (promotionCode.expiresAt && promotionCode.expiresAt <= new Date())
+  ) {
+    throw new ValidationError("This promotion code is invalid or has expired");
+  }
+
+  if (
+    currency &&
+    promotionCode.amountOff !== null &&
+    promotionCode.currency.toLowerCase() !== currency.toLowerCase()
+  ) {
+    throw new ValidationError(
+      `This promotion code can only be used with ${promotionCode.currency.toUpperCase()} prices`
+    );
+  }
+
+  // Stripe owns the redemption count
+  const stripePromotionCode = await stripe.promotionCodes.retrieve(
+    promotionCode.stripePromotionCodeId
+  );
+  if (
+    !stripePromotionCode.active ||
+    (stripePromotionCode.max_redemptions !== null &&
+      stripePromotionCode.times_redeemed >=
+        stripePromotionCode.max_redemptions)
+  ) {
+    throw new ValidationError("This promotion code is no longer available");
+  }
+
+  return promotionCode;
+}
+
+/**
+ * Discount (in dollars) a code takes off an amount (in dollars)
+ */
+export function calculateDiscountAmount(
+  promotionCode: Pick<PromotionCode, "percentOff" | "amountOff">,
+  amount: number
+): number {
+  const discount =
+    promotionCode.percentOff !== null
+      ? (amount * promotionCode.percentOff) / 100
+      : (promotionCode.amountOff || 0) / 100;
+
+  return Math.round(Math.min(amount, discount) * 100) / 100;
+}
+
+/**
+ * Human-readable summary, e.g. "20% off for 3 months"
+ */
+export function describePromotionCode(
+  promotionCode: Pick<
+    PromotionCode,
+    "percentOff" | "amountOff" | "currency" | "duration" | "durationInMonths"
+  >
+): string {
+  const amount =
+    promotionCode.percentOff !== null
+      ? `${promotionCode.percentOff}% off`
+      : `${formatCurrencyAmount(
+          (promotionCode.amountOff || 0) / 100,
+          promotionCode.currency
+        )} off`;
+
+  switch (promotionCode.duration) {
+    case "once":
+      return `${amount} your next invoice`;
+    case "repeating":
+      return `${amount} for ${promotionCode.durationInMonths} month${
+        promotionCode.durationInMonths === 1 ? "" : "s"
+      }`;
+    default:
+      return `${amount} forever`;
+  }
+}
+
+export function toAppliedDiscount(promotionCode: PromotionCode): AppliedDiscount {
+  return {
+    code: promotionCode.code,
+    stripePromotionCodeId: promotionCode.stripePromotionCodeId,
+    stripeCouponId: promotionCode.stripeCouponId,
+    percentOff: promotionCode.percentOff,
+    amountOff: promotionCode.amountOff,
+    duration: promotionCode.duration,
+    durationInMonths: promotionCode.durationInMonths,
+    appliedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Resolve the discount on a Stripe subscription (retrieved with
+ * expand: ["discounts"]) to one of our promotion codes
+ */
+export async function getAppliedDiscount(
+  discounts: Array<string | Stripe.Discount> | undefined
+): Promise<AppliedDiscount | null> {
+  for (const discount of discounts || []) {
+    if (typeof discount === "string" || !discount.promotion_code) continue;
+
+    const stripePromotionCodeId =
+      typeof discount.promotion_code === "string"
+        ? discount.promotion_code
+        : discount.promotion_code.id;
+
+    const [promotionCode] = await db
+      .select()
+      .from(promotionCodes)
+      .where(eq(promotionCodes.stripePromotionCodeId, stripePromotionCodeId))
+      .limit(1);
+
+    if (promotionCode) {
+      return {
+        ...toAppliedDiscount(promotionCode),
+        appliedAt: new Date(discount.start * 1000).toISOString(),
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,307 @@
+import type Stripe from "stripe";
+import { findPlanItem } from "./terminal-seats";
+
+/**
+ * Stripe access for reconciliation
+ *
+ * Reconciliation only talks to Stripe through ReconciliationStripeClient,
+ * which returns the few fields it compares. createStripeReconciliationClient
+ * wraps the real API; createInMemoryReconciliationClient serves fixed
+ * records so runs can be exercised locally without Stripe.
+ *
+ * get* methods return null when the object doesn't exist in Stripe.
+ */
+
+export interface StripeSubscriptionRecord {
+  id: string;
+  stripeCustomerId: string;
+  status: Stripe.Subscription.Status;
+  paused: boolean; // pause_collection set
+  planItemId: string | null;
+  planPriceId: string | null;
+  cancelAtPeriodEnd: boolean;
+  currentPeriodEnd: Date | null;
+}
+
+export interface StripeInvoiceRecord {
+  id: string;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string | null;
+  number: string | null;
+  status: string;
+  subtotal: number; // Cents
+  total: number;
+  amountDue: number;
+  amountPaid: number;
+  amountRemaining: number;
+  currency: string;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  createdAt: Date;
+}
+
+export interface StripePaymentRecord {
+  id: string;
+  // Normalised: 'succeeded', 'pending', 'failed'
+  status: "succeeded" | "pending" | "failed";
+  amount: number; // Cents
+  currency: string;
+}
+
+export interface StripePaymentMethodRecord {
+  id: string;
+  stripeCustomerId: string | null; // Null once detached
+  expMonth: number | null;
+  expYear: number | null;
+}
+
+export interface ReconciliationStripeClient {
+  listSubscriptions(): Promise<StripeSubscriptionRecord[]>;
+  listInvoices(createdSince: Date): Promise<StripeInvoiceRecord[]>;
+  getSubscription(id: string): Promise<StripeSubscriptionRecord | null>;
+  getInvoice(id: string): Promise<StripeInvoiceRecord | null>;
+  // Payment intent, charge or invoice ID (as stored on payments)
+  getPayment(id: string): Promise<StripePaymentRecord | null>;
+  getPaymentMethod(id: string): Promise<StripePaymentMethodRecord | null>;
+  // "Accept local" for a plan price drift
+  updateSubscriptionPlanPrice(
+    subscriptionId: string,
+    planItemId: string,
+    priceId: string
+  ): Promise<void>;
+}
+
+function getId(value: string | { id: string } | null | undefined) {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toDate(timestamp: number | null | undefined): Date | null {
+  return timestamp && timestamp > 0 ? new Date(timestamp * 1000) : null;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as Stripe.errors.StripeError)?.code === "resource_missing";
+}
+
+async function orNull<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+function toSubscriptionRecord(
+  subscription: Stripe.Subscription
+): StripeSubscriptionRecord {
+  const planItem = findPlanItem(subscription.items.data);
+  // Billing periods live on the items in this API version
+  const currentPeriodEnd =
+    (planItem as { current_period_end?: number } | undefined)
+      ?.current_period_end ??
+    (subscription as unknown as { current_period_end?: number })
+      .current_period_end;
+
+  return {
+    id: subscription.id,
+    stripeCustomerId: getId(subscription.customer)!,
+    status: subscription.status,
+    paused: !!subscription.pause_collection,
+    planItemId: planItem?.id || null,
+    planPriceId: planItem?.price.id || null,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    currentPeriodEnd: toDate(currentPeriodEnd),
+  };
+}
+
+function toInvoiceRecord(invoice: Stripe.Invoice): StripeInvoiceRecord {
+  const subscription = (
+    invoice as unknown as {
+      subscription?: string | { id: string } | null;
+      parent?: {
+        subscription_details?: { subscription?: string | { id: string } };
+      } | null;
+    }
+  );
+
+  return {
+    id: invoice.id!,
+    stripeCustomerId: getId(invoice.customer)!,
+    stripeSubscriptionId:
+      getId(subscription.subscription) ||
+      getId(subscription.parent?.subscription_details?.subscription),
+    number: invoice.number,
+    status: invoice.status || "draft",
+    subtotal: invoice.subtotal,
+    total: invoice.total,
+    amountDue: invoice.amount_due,
+    amountPaid: invoice.amount_paid,
+    amountRemaining: invoice.amount_remaining,
+    currency: invoice.currency,
+    hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+    invoicePdf: invoice.invoice_pdf || null,
+    periodStart: toDate(invoice.period_start),
+    periodEnd: toDate(invoice.period_end),
+    createdAt: new Date(invoice.created * 1000),
+  };
+}
+
+function toPaymentStatus(
+  status: string
+): StripePaymentRecord["status"] {
+  if (status === "succeeded" || status === "paid") return "succeeded";
+  if (
+    status === "failed" ||
+    status === "canceled" ||
+    status === "void" ||
+    status === "uncollectible"
+  ) {
+    return "failed";
+  }
+  return "pending";
+}
+
+/**
+ * Reconciliation client backed by the Stripe API
+ */
+export function createStripeReconciliationClient(
+  stripe: Stripe
+): ReconciliationStripeClient {
+  return {
+    async listSubscriptions() {
+      const records: StripeSubscriptionRecord[] = [];
+      for await (const subscription of stripe.subscriptions.list({
+        status: "all",
+        limit: 100,
+      })) {
+        records.push(toSubscriptionRecord(subscription));
+      }
+      return records;
+    },
+
+    async listInvoices(createdSince) {
+      const records: StripeInvoiceRecord[] = [];
+      for await (const invoice of stripe.invoices.list({
+        created: { gte: Math.floor(createdSince.getTime() / 1000) },
+        limit: 100,
+      })) {
+        records.push(toInvoiceRecord(invoice));
+      }
+      return records;
+    },
+
+    async getSubscription(id) {
+      const subscription = await orNull(stripe.subscriptions.retrieve(id));
+      return subscription ? toSubscriptionRecord(subscription) : null;
+    },
+
+    async getInvoice(id) {
+      const invoice = await orNull(stripe.invoices.retrieve(id));
+      return invoice ? toInvoiceRecord(invoice) : null;
+    },
+
+    async getPayment(id) {
+      if (id.startsWith("pi_")) {
+        const intent = await orNull(stripe.paymentIntents.retrieve(id));
+        return intent
+          ? {
+              id,
+              status: toPaymentStatus(intent.status),
+              amount: intent.amount,
+              currency: intent.currency,
+            }
+          : null;
+      }
+      if (id.startsWith("ch_") || id.startsWith("py_")) {
+        const charge = await orNull(stripe.charges.retrieve(id));
+        return charge
+          ? {
+              id,
+              status: toPaymentStatus(charge.status),
+              amount: charge.amount,
+              currency: charge.currency,
+            }
+          : null;
+      }
+      if (id.startsWith("in_")) {
+        const invoice = await orNull(stripe.invoices.retrieve(id));
+        return invoice
+          ? {
+              id,
+              status: toPaymentStatus(invoice.status || "draft"),
+              amount: invoice.total,
+              currency: invoice.currency,
+            }
+          : null;
+      }
+      throw new Error(`Unsupported Stripe payment ID: ${id}`);
+    },
+
+    async getPaymentMethod(id) {
+      const paymentMethod = await orNull(stripe.paymentMethods.retrieve(id));
+      return paymentMethod
+        ? {
+            id,
+            stripeCustomerId: getId(paymentMethod.customer),
+            expMonth: paymentMethod.card?.exp_month ?? null,
+            expYear: paymentMethod.card?.exp_year ?? null,
+          }
+        : null;
+    },
+
+    async updateSubscriptionPlanPrice(subscriptionId, planItemId, priceId) {
+      await stripe.subscriptions.update(subscriptionId, {
+        items: [{ id: planItemId, price: priceId }],
+        proration_behavior: "none",
+      });
+    },
+  };
+}
+
+/**
+ * Reconciliation client serving fixed records (local runs and tests)
+ *
+ * Plan price updates are applied to the in-memory subscription.
+ */
+export function createInMemoryReconciliationClient(data: {
+  subscriptions?: StripeSubscriptionRecord[];
+  invoices?: StripeInvoiceRecord[];
+  payments?: StripePaymentRecord[];
+  paymentMethods?: StripePaymentMethodRecord[];
+}): ReconciliationStripeClient {
+  const subscriptions = data.subscriptions || [];
+  const invoices = data.invoices || [];
+  const payments = data.payments || [];
+  const paymentMethods = data.paymentMethods || [];
+
+  return {
+    async listSubscriptions() {
+      return subscriptions;
+    },
+    async listInvoices(createdSince) {
+      return invoices.filter((invoice) => invoice.createdAt >= createdSince);
+    },
+    async getSubscription(id) {
+      return subscriptions.find((s) => s.id === id) || null;
+    },
+    async getInvoice(id) {
+      return invoices.find((i) => i.id === id) || null;
+    },
+    async getPayment(id) {
+      return payments.find((p) => p.id === id) || null;
+    },
+    async getPaymentMethod(id) {
+      return paymentMethods.find((pm) => pm.id === id) || null;
+    },
+    async updateSubscriptionPlanPrice(subscriptionId, planItemId, priceId) {
+      const subscription = subscriptions.find((s) => s.id === subscriptionId);
+      if (subscription && subscription.planItemId === planItemId) {
+        subscription.planPriceId = priceId;
+      }
+    },
+  };
+}
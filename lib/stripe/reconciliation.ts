@@ -0,0 +1,1072 @@
+import { db } from "@/lib/db";
+import {
+  customers,
+  invoices,
+  payments,
+  paymentMethods,
+  reconciliationDrifts,
+  reconciliationRuns,
+  subscriptions,
+  type ReconciliationDrift,
+} from "@/lib/db/schema";
+import { and, eq, gte, isNotNull, isNull, ne } from "drizzle-orm";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import { getPlan } from "./plans";
+import {
+  getBillingCycleFromPriceId,
+  getPlanIdFromPriceIdSafe,
+} from "./plan-utils";
+import { calculateMaxTerminals } from "./terminal-seats";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import { stripe } from "./client";
+import {
+  createStripeReconciliationClient,
+  type ReconciliationStripeClient,
+  type StripeInvoiceRecord,
+  type StripePaymentRecord,
+  type StripeSubscriptionRecord,
+} from "./reconciliation-client";
+import { getLicenseKeysForSubscription } from "@/lib/subscription-events";
+import {
+  notifyPlanChanged,
+  reissuePlanLicenseKeys,
+} from "@/lib/subscription/plan-changes";
+import {
+  applySubscriptionStatusChange,
+  cancelSubscription,
+  publishReactivatedLicenses,
+  publishSubscriptionStatusChange,
+} from "./webhook-handlers";
+
+/**
+ * Stripe reconciliation
+ *
+ * Webhooks keep local billing rows in step with Stripe, but a missed or
+ * failed event leaves them drifting. A scheduled run compares every local
+ * subscription, invoice, payment and payment method that has a Stripe ID
+ * with Stripe (and lists recent Stripe subscriptions and invoices to find
+ * rows missing locally), then records each difference as a drift:
+ *
+ * - Safe fixes are applied straight away and stored as "auto_fixed": local
+ *   mirrors of Stripe data (invoice status and amounts, period dates, the
+ *   cancel-at-period-end flag, card expiry, detached cards, pending payments
+ *   that settled)
+ * - Everything else (subscription status and plan price, missing rows,
+ *   completed payments Stripe disagrees with) stays "open" for an admin to
+ *   accept the Stripe or the local value. An accepted subscription status
+ *   goes through the same license handling as the subscription webhooks
+ *
+ * A drift found again by a later run is updated rather than duplicated, and
+ * an open drift a run no longer finds is marked "resolved".
+ */
+
+export const DRIFT_TYPES = [
+  "missing_local",
+  "missing_stripe",
+  "status_mismatch",
+  "price_mismatch",
+  "field_mismatch",
+] as const;
+export type DriftType = (typeof DRIFT_TYPES)[number];
+
+export type DriftEntityType =
+  | "subscription"
+  | "invoice"
+  | "payment"
+  | "payment_method";
+
+export type DriftResolution = "accept_stripe" | "accept_local";
+
+export interface ReconciliationResult {
+  runId: string;
+  checked: number;
+  drifts: number;
+  autoFixed: number;
+  resolved: number;
+  errors: string[];
+}
+
+interface DetectedDrift {
+  entityType: DriftEntityType;
+  localId: string | null;
+  stripeId: string;
+  customerId: string | null;
+  driftType: DriftType;
+  field?: string;
+  localValue?: string | number | boolean | Date | null;
+  stripeValue?: string | number | boolean | Date | null;
+  details?: Record<string, unknown>;
+  // Safe fix applied during the run
+  fix?: () => Promise<void>;
+}
+
+interface RunContext {
+  client: ReconciliationStripeClient;
+  result: ReconciliationResult;
+  // "entityType:stripeId" of every row checked without an error
+  checked: Set<string>;
+  customerIdsByStripeId: Map<string, string>;
+}
+
+// How far back Stripe invoices are listed to find ones missing locally
+const MISSING_INVOICE_LOOKBACK_DAYS = 30;
+
+// Period end differences below this are clock noise
+const PERIOD_END_TOLERANCE_MS = 60 * 1000;
+
+const PAYMENT_ID_PREFIXES = ["pi_", "ch_", "py_", "in_"];
+
+function toText(value: DetectedDrift["localValue"]): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// ============================================================================
+// DRIFT RECORDING
+// ============================================================================
+
+async function recordDrift(
+  ctx: RunContext,
+  drift: DetectedDrift
+): Promise<void> {
+  const now = new Date();
+  let status = "open";
+
+  if (drift.fix) {
+    try {
+      await drift.fix();
+      status = "auto_fixed";
+      ctx.result.autoFixed++;
+    } catch (error) {
+      ctx.result.errors.push(
+        `Failed to fix ${drift.entityType} ${drift.stripeId} (${
+          drift.field || drift.driftType
+        }): ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  const values = {
+    runId: ctx.result.runId,
+    customerId: drift.customerId,
+    localId: drift.localId,
+    localValue: toText(drift.localValue),
+    stripeValue: toText(drift.stripeValue),
+    details: drift.details || null,
+    status,
+    resolvedAt: status === "auto_fixed" ? now : null,
+    lastDetectedAt: now,
+  };
+
+  // Found by an earlier run and still open: refresh it
+  const [existing] = await db
+    .select({ id: reconciliationDrifts.id })
+    .from(reconciliationDrifts)
+    .where(
+      and(
+        eq(reconciliationDrifts.entityType, drift.entityType),
+        eq(reconciliationDrifts.stripeId, drift.stripeId),
+        eq(reconciliationDrifts.driftType, drift.driftType),
+        drift.field
+          ? eq(reconciliationDrifts.field, drift.field)
+          : isNull(reconciliationDrifts.field),
+        eq(reconciliationDrifts.status, "open")
+      )
+    )
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(reconciliationDrifts)
+      .set(values)
+      .where(eq(reconciliationDrifts.id, existing.id));
+  } else {
+    await db.insert(reconciliationDrifts).values({
+      ...values,
+      entityType: drift.entityType,
+      stripeId: drift.stripeId,
+      driftType: drift.driftType,
+      field: drift.field || null,
+    });
+  }
+
+  ctx.result.drifts++;
+}
+
+async function checkRow(
+  ctx: RunContext,
+  entityType: DriftEntityType,
+  stripeId: string,
+  check: () => Promise<DetectedDrift[]>
+): Promise<void> {
+  ctx.result.checked++;
+  try {
+    const drifts = await check();
+    for (const drift of drifts) {
+      await recordDrift(ctx, drift);
+    }
+    ctx.checked.add(`${entityType}:${stripeId}`);
+  } catch (error) {
+    ctx.result.errors.push(
+      `Failed to reconcile ${entityType} ${stripeId}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * Local status for a Stripe subscription (as the subscription webhook maps it)
+ */
+function toLocalSubscriptionStatus(record: StripeSubscriptionRecord): string {
+  if (record.paused) return "paused";
+  if (["active", "trialing", "past_due"].includes(record.status)) {
+    return record.status;
+  }
+  return "cancelled";
+}
+
+function normalizeLocalSubscriptionStatus(status: string | null): string {
+  return status === "canceled" ? "cancelled" : status || "";
+}
+
+async function reconcileSubscriptions(ctx: RunContext): Promise<void> {
+  const localSubscriptions = await db
+    .select()
+    .from(subscriptions)
+    .where(isNotNull(subscriptions.stripeSubscriptionId));
+
+  for (const local of localSubscriptions) {
+    const stripeId = local.stripeSubscriptionId!;
+    await checkRow(ctx, "subscription", stripeId, async () => {
+      const base = {
+        entityType: "subscription" as const,
+        localId: local.id,
+        stripeId,
+        customerId: local.customerId,
+      };
+      const localStatus = normalizeLocalSubscriptionStatus(local.status);
+      const record = await ctx.client.getSubscription(stripeId);
+
+      if (!record) {
+        return localStatus === "cancelled"
+          ? []
+          : [
+              {
+                ...base,
+                driftType: "missing_stripe",
+                localValue: localStatus,
+              },
+            ];
+      }
+
+      const drifts: DetectedDrift[] = [];
+      const stripeStatus = toLocalSubscriptionStatus(record);
+      if (stripeStatus !== localStatus) {
+        drifts.push({
+          ...base,
+          driftType: "status_mismatch",
+          field: "status",
+          localValue: localStatus,
+          stripeValue: stripeStatus,
+        });
+      }
+
+      const localPriceId = (local.metadata as Record<string, unknown> | null)
+        ?.stripePriceId as string | undefined;
+      if (
+        localPriceId &&
+        record.planPriceId &&
+        localPriceId !== record.planPriceId
+      ) {
+        drifts.push({
+          ...base,
+          driftType: "price_mismatch",
+          field: "planPriceId",
+          localValue: localPriceId,
+          stripeValue: record.planPriceId,
+          details: { planItemId: record.planItemId },
+        });
+      }
+
+      if (record.cancelAtPeriodEnd !== local.cancelAtPeriodEnd) {
+        drifts.push({
+          ...base,
+          driftType: "field_mismatch",
+          field: "cancelAtPeriodEnd",
+          localValue: local.cancelAtPeriodEnd,
+          stripeValue: record.cancelAtPeriodEnd,
+          fix: async () => {
+            await db
+              .update(subscriptions)
+              .set({
+                cancelAtPeriodEnd: record.cancelAtPeriodEnd,
+                updatedAt: new Date(),
+              })
+              .where(eq(subscriptions.id, local.id));
+          },
+        });
+      }
+
+      const periodEnd = record.currentPeriodEnd;
+      if (
+        periodEnd &&
+        Math.abs(periodEnd.getTime() - (local.currentPeriodEnd?.getTime() || 0)) >
+          PERIOD_END_TOLERANCE_MS
+      ) {
+        drifts.push({
+          ...base,
+          driftType: "field_mismatch",
+          field: "currentPeriodEnd",
+          localValue: local.currentPeriodEnd,
+          stripeValue: periodEnd,
+          fix: async () => {
+            await db
+              .update(subscriptions)
+              .set({
+                currentPeriodEnd: periodEnd,
+                nextBillingDate: periodEnd,
+                updatedAt: new Date(),
+              })
+              .where(eq(subscriptions.id, local.id));
+          },
+        });
+      }
+
+      return drifts;
+    });
+  }
+
+  // Live Stripe subscriptions of our customers that we have no row for
+  const localStripeIds = new Set(
+    localSubscriptions.map((s) => s.stripeSubscriptionId)
+  );
+  const stripeSubscriptions = await ctx.client.listSubscriptions();
+  for (const record of stripeSubscriptions) {
+    const customerId = ctx.customerIdsByStripeId.get(record.stripeCustomerId);
+    if (
+      !customerId ||
+      localStripeIds.has(record.id) ||
+      toLocalSubscriptionStatus(record) === "cancelled"
+    ) {
+      continue;
+    }
+
+    await checkRow(ctx, "subscription", record.id, async () => [
+      {
+        entityType: "subscription",
+        localId: null,
+        stripeId: record.id,
+        customerId,
+        driftType: "missing_local",
+        stripeValue: record.status,
+        details: {
+          planPriceId: record.planPriceId,
+          currentPeriodEnd: record.currentPeriodEnd?.toISOString() || null,
+        },
+      },
+    ]);
+  }
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+const INVOICE_AMOUNT_FIELDS = [
+  ["total", "total"],
+  ["amountDue", "amountDue"],
+  ["amountPaid", "amountPaid"],
+  ["amountRemaining", "amountRemaining"],
+] as const;
+
+async function reconcileInvoices(ctx: RunContext): Promise<void> {
+  const localInvoices = await db.select().from(invoices);
+
+  for (const local of localInvoices) {
+    await checkRow(ctx, "invoice", local.stripeInvoiceId, async () => {
+      const base = {
+        entityType: "invoice" as const,
+        localId: local.id,
+        stripeId: local.stripeInvoiceId,
+        customerId: local.customerId,
+      };
+      const record = await ctx.client.getInvoice(local.stripeInvoiceId);
+
+      if (!record) {
+        return [
+          { ...base, driftType: "missing_stripe", localValue: local.status },
+        ];
+      }
+
+      // The invoice row mirrors Stripe, so Stripe's values are always right
+      const drifts: DetectedDrift[] = [];
+      if (record.status !== local.status) {
+        drifts.push({
+          ...base,
+          driftType: "status_mismatch",
+          field: "status",
+          localValue: local.status,
+          stripeValue: record.status,
+          fix: async () => {
+            await db
+              .update(invoices)
+              .set({
+                status: record.status,
+                paidAt:
+                  record.status === "paid"
+                    ? local.paidAt || new Date()
+                    : local.paidAt,
+                updatedAt: new Date(),
+              })
+              .where(eq(invoices.id, local.id));
+          },
+        });
+      }
+
+      for (const [field, recordField] of INVOICE_AMOUNT_FIELDS) {
+        const localAmount = local[field] ?? 0;
+        const stripeAmount = record[recordField];
+        if (localAmount !== stripeAmount) {
+          drifts.push({
+            ...base,
+            driftType: "price_mismatch",
+            field,
+            localValue: localAmount,
+            stripeValue: stripeAmount,
+            fix: async () => {
+              await db
+                .update(invoices)
+                .set({ [field]: stripeAmount, updatedAt: new Date() })
+                .where(eq(invoices.id, local.id));
+            },
+          });
+        }
+      }
+
+      return drifts;
+    });
+  }
+
+  // Recent finalized Stripe invoices of our customers that we have no row for
+  const localStripeIds = new Set(localInvoices.map((i) => i.stripeInvoiceId));
+  const since = new Date(
+    Date.now() - MISSING_INVOICE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+  );
+  const stripeInvoices = await ctx.client.listInvoices(since);
+  for (const record of stripeInvoices) {
+    const customerId = ctx.customerIdsByStripeId.get(record.stripeCustomerId);
+    if (
+      !customerId ||
+      localStripeIds.has(record.id) ||
+      record.status === "draft"
+    ) {
+      continue;
+    }
+
+    await checkRow(ctx, "invoice", record.id, async () => [
+      {
+        entityType: "invoice",
+        localId: null,
+        stripeId: record.id,
+        customerId,
+        driftType: "missing_local",
+        stripeValue: record.status,
+        details: { invoice: record },
+      },
+    ]);
+  }
+}
+
+// ============================================================================
+// PAYMENTS
+// ============================================================================
+
+function toStripePaymentStatus(
+  localStatus: string | null
+): StripePaymentRecord["status"] {
+  if (
+    localStatus === "completed" ||
+    localStatus === "refunded" ||
+    localStatus === "partially_refunded"
+  ) {
+    return "succeeded";
+  }
+  return localStatus === "failed" ? "failed" : "pending";
+}
+
+function toLocalPaymentStatus(status: StripePaymentRecord["status"]): string {
+  return status === "succeeded" ? "completed" : status;
+}
+
+async function reconcilePayments(ctx: RunContext): Promise<void> {
+  // Refund rows are recorded from Stripe refunds and checked via the payment
+  const localPayments = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        isNotNull(payments.stripePaymentId),
+        isNull(payments.refundedPaymentId)
+      )
+    );
+
+  for (const local of localPayments) {
+    const stripeId = local.stripePaymentId!;
+    if (!PAYMENT_ID_PREFIXES.some((prefix) => stripeId.startsWith(prefix))) {
+      continue;
+    }
+
+    await checkRow(ctx, "payment", stripeId, async () => {
+      const base = {
+        entityType: "payment" as const,
+        localId: local.id,
+        stripeId,
+        customerId: local.customerId,
+      };
+      const record = await ctx.client.getPayment(stripeId);
+
+      if (!record) {
+        return [
+          { ...base, driftType: "missing_stripe", localValue: local.status },
+        ];
+      }
+
+      const drifts: DetectedDrift[] = [];
+      const localStatus = toStripePaymentStatus(local.status);
+      if (record.status !== localStatus) {
+        const stripeStatus = toLocalPaymentStatus(record.status);
+        drifts.push({
+          ...base,
+          driftType: "status_mismatch",
+          field: "status",
+          localValue: local.status,
+          stripeValue: stripeStatus,
+          // A pending payment that settled either way just missed its webhook
+          fix:
+            localStatus === "pending"
+              ? async () => {
+                  await db
+                    .update(payments)
+                    .set({
+                      status: stripeStatus,
+                      paidAt:
+                        record.status === "succeeded"
+                          ? local.paidAt || new Date()
+                          : local.paidAt,
+                    })
+                    .where(eq(payments.id, local.id));
+                }
+              : undefined,
+        });
+      }
+
+      const localAmount = Math.round(parseFloat(local.amount) * 100);
+      if (localAmount !== record.amount) {
+        drifts.push({
+          ...base,
+          driftType: "price_mismatch",
+          field: "amount",
+          localValue: localAmount,
+          stripeValue: record.amount,
+        });
+      }
+
+      return drifts;
+    });
+  }
+}
+
+// ============================================================================
+// PAYMENT METHODS
+// ============================================================================
+
+async function reconcilePaymentMethods(ctx: RunContext): Promise<void> {
+  const localPaymentMethods = await db
+    .select()
+    .from(paymentMethods)
+    .where(eq(paymentMethods.isActive, true));
+
+  for (const local of localPaymentMethods) {
+    const stripeId = local.stripePaymentMethodId;
+    await checkRow(ctx, "payment_method", stripeId, async () => {
+      const base = {
+        entityType: "payment_method" as const,
+        localId: local.id,
+        stripeId,
+        customerId: local.customerId,
+      };
+      const record = await ctx.client.getPaymentMethod(stripeId);
+
+      // Deleted or detached in Stripe: it can't be charged any more
+      if (!record || record.stripeCustomerId !== local.stripeCustomerId) {
+        return [
+          {
+            ...base,
+            driftType: "missing_stripe",
+            localValue: local.stripeCustomerId,
+            stripeValue: record?.stripeCustomerId || null,
+            fix: async () => {
+              await db
+                .update(paymentMethods)
+                .set({ isActive: false, isDefault: false, updatedAt: new Date() })
+                .where(eq(paymentMethods.id, local.id));
+            },
+          },
+        ];
+      }
+
+      if (
+        record.expMonth !== null &&
+        record.expYear !== null &&
+        (record.expMonth !== local.expMonth || record.expYear !== local.expYear)
+      ) {
+        return [
+          {
+            ...base,
+            driftType: "field_mismatch",
+            field: "expiry",
+            localValue: `${local.expMonth}/${local.expYear}`,
+            stripeValue: `${record.expMonth}/${record.expYear}`,
+            fix: async () => {
+              await db
+                .update(paymentMethods)
+                .set({
+                  expMonth: record.expMonth,
+                  expYear: record.expYear,
+                  updatedAt: new Date(),
+                })
+                .where(eq(paymentMethods.id, local.id));
+            },
+          },
+        ];
+      }
+
+      return [];
+    });
+  }
+}
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+/**
+ * Compare local billing rows with Stripe and record the drift
+ *
+ * @param options.client Stripe access (defaults to the Stripe API)
+ * @throws {ConflictError} If another run is in progress
+ */
+export async function runReconciliation(
+  options: {
+    trigger?: "cron" | "manual";
+    client?: ReconciliationStripeClient;
+  } = {}
+): Promise<ReconciliationResult> {
+  const staleBefore = new Date(Date.now() - 60 * 60 * 1000);
+  const [running] = await db
+    .select({ id: reconciliationRuns.id })
+    .from(reconciliationRuns)
+    .where(
+      and(
+        eq(reconciliationRuns.status, "running"),
+        gte(reconciliationRuns.startedAt, staleBefore)
+      )
+    )
+    .limit(1);
+  if (running) {
+    throw new ConflictError("A reconciliation run is already in progress");
+  }
+
+  const [run] = await db
+    .insert(reconciliationRuns)
+    .values({ trigger: options.trigger || "cron" })
+    .returning();
+
+  const ctx: RunContext = {
+    client: options.client || createStripeReconciliationClient(stripe),
+    result: {
+      runId: run.id,
+      checked: 0,
+      drifts: 0,
+      autoFixed: 0,
+      resolved: 0,
+      errors: [],
+    },
+    checked: new Set(),
+    customerIdsByStripeId: new Map(),
+  };
+
+  try {
+    const customerRows = await db
+      .select({ id: customers.id, stripeCustomerId: customers.stripeCustomerId })
+      .from(customers)
+      .where(isNotNull(customers.stripeCustomerId));
+    for (const customer of customerRows) {
+      ctx.customerIdsByStripeId.set(customer.stripeCustomerId!, customer.id);
+    }
+
+    await reconcileSubscriptions(ctx);
+    await reconcileInvoices(ctx);
+    await reconcilePayments(ctx);
+    await reconcilePaymentMethods(ctx);
+
+    // Open drifts this run checked and no longer found have gone away
+    const stillOpen = await db
+      .select()
+      .from(reconciliationDrifts)
+      .where(
+        and(
+          eq(reconciliationDrifts.status, "open"),
+          ne(reconciliationDrifts.runId, run.id)
+        )
+      );
+    for (const drift of stillOpen) {
+      if (!ctx.checked.has(`${drift.entityType}:${drift.stripeId}`)) continue;
+      await db
+        .update(reconciliationDrifts)
+        .set({ status: "resolved", resolvedAt: new Date() })
+        .where(eq(reconciliationDrifts.id, drift.id));
+      ctx.result.resolved++;
+    }
+
+    await db
+      .update(reconciliationRuns)
+      .set({
+        status: "completed",
+        checkedCount: ctx.result.checked,
+        driftCount: ctx.result.drifts,
+        autoFixedCount: ctx.result.autoFixed,
+        error: ctx.result.errors.length > 0 ? ctx.result.errors.join("\n") : null,
+        completedAt: new Date(),
+      })
+      .where(eq(reconciliationRuns.id, run.id));
+  } catch (error) {
+    await db
+      .update(reconciliationRuns)
+      .set({
+        status: "failed",
+        checkedCount: ctx.result.checked,
+        driftCount: ctx.result.drifts,
+        autoFixedCount: ctx.result.autoFixed,
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+      })
+      .where(eq(reconciliationRuns.id, run.id));
+    throw error;
+  }
+
+  console.log(
+    `[Reconciliation] Checked ${ctx.result.checked} rows: ${ctx.result.drifts} drifts (${ctx.result.autoFixed} auto-fixed), ${ctx.result.resolved} resolved, ${ctx.result.errors.length} errors`
+  );
+
+  return ctx.result;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Whether a drift can be resolved by taking Stripe's side
+ */
+export function canAcceptStripe(
+  drift: Pick<ReconciliationDrift, "entityType" | "driftType">
+): boolean {
+  // Subscriptions come with license keys; they're created by checkout only
+  return !(
+    drift.entityType === "subscription" && drift.driftType === "missing_local"
+  );
+}
+
+async function applySubscriptionPrice(
+  drift: ReconciliationDrift
+): Promise<void> {
+  const priceId = drift.stripeValue!;
+  const planId = getPlanIdFromPriceIdSafe(priceId);
+  const billingCycle = getBillingCycleFromPriceId(priceId);
+  if (!planId || !billingCycle) {
+    throw new ValidationError(`Stripe price ${priceId} isn't a known plan`);
+  }
+
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.id, drift.localId!))
+    .limit(1);
+  if (!subscription) {
+    throw new NotFoundError("Subscription not found");
+  }
+
+  const plan = await getPlan(
+    planId,
+    normalizeCurrency(subscription.currency) || DEFAULT_CURRENCY
+  );
+  const planChanged = subscription.planId !== planId;
+  const oldLicenseKeys = planChanged
+    ? await getLicenseKeysForSubscription(subscription.id)
+    : [];
+
+  const reissued = await db.transaction(async (tx) => {
+    await tx
+      .update(subscriptions)
+      .set({
+        planId,
+        billingCycle,
+        price: (billingCycle === "monthly"
+          ? plan.priceMonthly
+          : plan.priceAnnual
+        ).toString(),
+        metadata: {
+          ...((subscription.metadata as Record<string, unknown>) || {}),
+          stripePriceId: priceId,
+        },
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, subscription.id));
+
+    // Keys embed the plan, so a different plan needs new keys
+    return planChanged
+      ? reissuePlanLicenseKeys(tx, subscription, planId, {
+          maxTerminals: calculateMaxTerminals(
+            plan.features.maxTerminals,
+            subscription.additionalTerminals
+          ),
+          migrateActivations: false,
+        })
+      : null;
+  });
+
+  if (reissued) {
+    await notifyPlanChanged(subscription, planId, oldLicenseKeys, reissued);
+  }
+}
+
+/**
+ * Take Stripe's subscription status the way the subscription webhooks would,
+ * so license keys are revoked or reactivated and terminals are told
+ */
+async function applySubscriptionStatus(
+  drift: ReconciliationDrift
+): Promise<void> {
+  const status = drift.stripeValue || "cancelled";
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.id, drift.localId!))
+    .limit(1);
+  if (!subscription) {
+    throw new NotFoundError("Subscription not found");
+  }
+
+  if (status === "cancelled") {
+    await cancelSubscription(
+      subscription,
+      "Subscription cancelled in Stripe (reconciliation)"
+    );
+    return;
+  }
+
+  const { reactivatedLicenses, statusChanged } = await db.transaction(
+    async (tx) => {
+      await tx
+        .update(subscriptions)
+        .set({
+          status,
+          pausedAt:
+            status === "paused" ? subscription.pausedAt || new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(subscriptions.id, subscription.id));
+
+      return applySubscriptionStatusChange(tx, subscription, status);
+    }
+  );
+
+  publishReactivatedLicenses(reactivatedLicenses);
+  if (statusChanged) {
+    await publishSubscriptionStatusChange(subscription, {
+      previousStatus: subscription.status,
+      newStatus: status,
+      planId: subscription.planId,
+      trialEnd: subscription.trialEnd,
+      resumesAt: subscription.resumesAt,
+    });
+  }
+}
+
+async function importInvoice(drift: ReconciliationDrift): Promise<void> {
+  const record = (drift.details as { invoice?: StripeInvoiceRecord } | null)
+    ?.invoice;
+  if (!record || !drift.customerId) {
+    throw new ValidationError("Drift has no Stripe invoice to import");
+  }
+
+  const [subscription] = record.stripeSubscriptionId
+    ? await db
+        .select({ id: subscriptions.id })
+        .from(subscriptions)
+        .where(
+          eq(subscriptions.stripeSubscriptionId, record.stripeSubscriptionId)
+        )
+        .limit(1)
+    : [];
+  const toDate = (value: Date | string | null) =>
+    value ? new Date(value) : null;
+
+  await db
+    .insert(invoices)
+    .values({
+      customerId: drift.customerId,
+      subscriptionId: subscription?.id || null,
+      stripeInvoiceId: record.id,
+      stripeCustomerId: record.stripeCustomerId,
+      stripeSubscriptionId: record.stripeSubscriptionId,
+      number: record.number,
+      status: record.status,
+      subtotal: record.subtotal,
+      total: record.total,
+      amountDue: record.amountDue,
+      amountPaid: record.amountPaid,
+      amountRemaining: record.amountRemaining,
+      currency: record.currency,
+      hostedInvoiceUrl: record.hostedInvoiceUrl,
+      invoicePdf: record.invoicePdf,
+      periodStart: toDate(record.periodStart),
+      periodEnd: toDate(record.periodEnd),
+      paidAt: record.status === "paid" ? new Date() : null,
+    })
+    .onConflictDoNothing({ target: invoices.stripeInvoiceId });
+}
+
+/**
+ * Make the local row match Stripe
+ */
+async function acceptStripe(drift: ReconciliationDrift): Promise<void> {
+  const localId = drift.localId!;
+  const key = `${drift.entityType}:${drift.driftType}`;
+
+  switch (key) {
+    case "subscription:status_mismatch":
+    case "subscription:missing_stripe":
+      return applySubscriptionStatus(drift);
+    case "subscription:price_mismatch":
+      return applySubscriptionPrice(drift);
+    case "invoice:missing_local":
+      return importInvoice(drift);
+    case "invoice:missing_stripe":
+      await db
+        .update(invoices)
+        .set({ status: "void", updatedAt: new Date() })
+        .where(eq(invoices.id, localId));
+      return;
+    case "payment:status_mismatch":
+      await db
+        .update(payments)
+        .set({ status: drift.stripeValue })
+        .where(eq(payments.id, localId));
+      return;
+    case "payment:price_mismatch":
+      await db
+        .update(payments)
+        .set({ amount: (Number(drift.stripeValue) / 100).toFixed(2) })
+        .where(eq(payments.id, localId));
+      return;
+    case "payment:missing_stripe":
+      await db
+        .update(payments)
+        .set({ status: "failed" })
+        .where(eq(payments.id, localId));
+      return;
+    default:
+      throw new ValidationError(`Can't accept Stripe's value for ${key}`);
+  }
+}
+
+/**
+ * Make Stripe match the local row where Stripe can be written to; otherwise
+ * the local row is kept as the record of truth and the drift is closed
+ */
+async function acceptLocal(
+  drift: ReconciliationDrift,
+  client: ReconciliationStripeClient
+): Promise<void> {
+  if (
+    drift.entityType === "subscription" &&
+    drift.driftType === "price_mismatch"
+  ) {
+    const planItemId = (drift.details as { planItemId?: string } | null)
+      ?.planItemId;
+    if (!planItemId || !drift.localValue) {
+      throw new ValidationError("Drift has no plan item to update in Stripe");
+    }
+    await client.updateSubscriptionPlanPrice(
+      drift.stripeId,
+      planItemId,
+      drift.localValue
+    );
+  }
+}
+
+/**
+ * Resolve an open drift by taking Stripe's or the local side
+ *
+ * @throws {NotFoundError} If the drift doesn't exist
+ * @throws {ConflictError} If it's no longer open
+ */
+export async function resolveDrift(
+  driftId: string,
+  resolution: DriftResolution,
+  resolvedBy: string,
+  client?: ReconciliationStripeClient
+): Promise<ReconciliationDrift> {
+  if (resolution !== "accept_stripe" && resolution !== "accept_local") {
+    throw new ValidationError(
+      'Resolution must be "accept_stripe" or "accept_local"'
+    );
+  }
+
+  const [drift] = await db
+    .select()
+    .from(reconciliationDrifts)
+    .where(eq(reconciliationDrifts.id, driftId))
+    .limit(1);
+
+  if (!drift) {
+    throw new NotFoundError("Drift not found");
+  }
+  if (drift.status !== "open") {
+    throw new ConflictError(`Drift is already ${drift.status.replace("_", " ")}`);
+  }
+
+  if (resolution === "accept_stripe") {
+    if (!canAcceptStripe(drift)) {
+      throw new ValidationError(
+        "Subscriptions missing locally can't be imported from Stripe"
+      );
+    }
+    await acceptStripe(drift);
+  } else {
+    await acceptLocal(drift, client || createStripeReconciliationClient(stripe));
+  }
+
+  const [resolved] = await db
+    .update(reconciliationDrifts)
+    .set({
+      status: resolution === "accept_stripe" ? "accepted_stripe" : "accepted_local",
+      resolvedBy,
+      resolvedAt: new Date(),
+    })
+    .where(eq(reconciliationDrifts.id, drift.id))
+    .returning();
+
+  return resolved;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseRefundInput } from "./refunds";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/stripe/client", () => ({ stripe: {} }));
+
+describe("parseRefundInput", () => {
+  it("treats a missing amount as a full refund", () => {
+    expect(parseRefundInput({ reason: "duplicate" })).toEqual({
+      amount: null,
+      reason: "duplicate",
+      note: null,
+    });
+    expect(parseRefundInput({ amount: "", reason: "duplicate" }).amount).toBe(
+      null
+    );
+  });
+
+  it("converts a partial amount to cents", () => {
+    expect(
+      parseRefundInput({
+        amount: "12.34",
+        reason: "requested_by_customer",
+        note: "  Charged twice  ",
+      })
+    ).toEqual({
+      amount: 1234,
+      reason: "requested_by_customer",
+      note: "Charged twice",
+    });
+  });
+
+  it.each([0, -5, "abc"])("rejects an amount of %s", (amount) => {
+    expect(() => parseRefundInput({ amount, reason: "duplicate" })).toThrow(
+      "Refund amount must be greater than 0"
+    );
+  });
+
+  it("rejects unknown reasons", () => {
+    expect(() => parseRefundInput({ reason: "changed_mind" })).toThrow(
+      "Reason must be requested_by_customer, duplicate or fraudulent"
+    );
+  });
+
+  it("limits the note to 500 characters", () => {
+    expect(() =>
+      parseRefundInput({ reason: "fraudulent", note: "x".repeat(501) })
+    ).toThrow("Note must be 500 characters or fewer");
+  });
+});
@@ -0,0 +1,299 @@
+import type Stripe from "stripe";
+import { stripe } from "./client";
+import { db } from "@/lib/db";
+import { payments, type Payment } from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { NotFoundError, ValidationError } from "@/lib/api/response-helpers";
+import { formatCurrencyAmount } from "./currency";
+
+/**
+ * Refunds
+ *
+ * Admins refund a payment in full or in part from the customer page. Invoice
+ * payments are refunded through a Stripe credit note so the invoice shows the
+ * credit; other payments are refunded against their payment intent. Each
+ * refund is recorded as a negative `payments` row (paymentType "refund")
+ * pointing at the payment it refunds, whether it was made here or in Stripe
+ * (charge.refunded webhook).
+ */
+
+export const REFUND_REASONS = [
+  "requested_by_customer",
+  "duplicate",
+  "fraudulent",
+] as const;
+
+export type RefundReason = (typeof REFUND_REASONS)[number];
+
+export interface RefundInput {
+  amount: number | null; // Cents, null for everything not yet refunded
+  reason: RefundReason;
+  note: string | null;
+}
+
+export interface RefundRecord {
+  customerId: string;
+  refundedPayment: Payment | null; // Null when Stripe's refund has no match
+  stripeRefundId: string;
+  amount: number; // Cents, positive
+  currency: string;
+  reason: string | null;
+}
+
+type DbOrTransaction =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+/**
+ * Validate an admin's request body for a refund
+ */
+export function parseRefundInput(body: Record<string, unknown>): RefundInput {
+  const amount =
+    body.amount === undefined || body.amount === null || body.amount === ""
+      ? null
+      : Math.round(Number(body.amount) * 100);
+  if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+    throw new ValidationError("Refund amount must be greater than 0");
+  }
+
+  const reason = body.reason as RefundReason;
+  if (!REFUND_REASONS.includes(reason)) {
+    throw new ValidationError(
+      "Reason must be requested_by_customer, duplicate or fraudulent"
+    );
+  }
+
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+  if (note.length > 500) {
+    throw new ValidationError("Note must be 500 characters or fewer");
+  }
+
+  return { amount, reason, note: note || null };
+}
+
+/**
+ * Total already refunded against a payment, in cents
+ */
+export async function getRefundedAmount(
+  paymentId: string,
+  tx: DbOrTransaction = db
+): Promise<number> {
+  const [row] = await tx
+    .select({
+      amount: sql<string>`COALESCE(SUM(-CAST(${payments.amount} AS DECIMAL)), 0)`,
+    })
+    .from(payments)
+    .where(
+      and(
+        eq(payments.refundedPaymentId, paymentId),
+        eq(payments.paymentType, "refund")
+      )
+    );
+
+  return toCents(row?.amount || "0");
+}
+
+/**
+ * Record a Stripe refund as a negative payment and update the refunded
+ * payment's status. Idempotent on the Stripe refund ID: the admin refund
+ * and the charge.refunded webhook can record the same refund concurrently,
+ * and the unique index on refund rows keeps it to one row.
+ */
+export async function recordRefund(record: RefundRecord): Promise<Payment> {
+  return db.transaction(async (tx) => {
+    const [inserted] = await tx
+      .insert(payments)
+      .values({
+        customerId: record.customerId,
+        subscriptionId: record.refundedPayment?.subscriptionId || null,
+        paymentType: "refund",
+        amount: (-record.amount / 100).toFixed(2),
+        currency: record.currency.toUpperCase(),
+        status: "completed",
+        stripePaymentId: record.stripeRefundId,
+        paidAt: new Date(),
+        refundedPaymentId: record.refundedPayment?.id || null,
+        refundReason: record.reason,
+      })
+      .onConflictDoNothing({
+        target: payments.stripePaymentId,
+        where: sql`${payments.paymentType} = 'refund'`,
+      })
+      .returning();
+
+    if (!inserted) {
+      const [existing] = await tx
+        .select()
+        .from(payments)
+        .where(
+          and(
+            eq(payments.stripePaymentId, record.stripeRefundId),
+            eq(payments.paymentType, "refund")
+          )
+        )
+        .limit(1);
+      return existing;
+    }
+
+    if (record.refundedPayment) {
+      const refunded = await getRefundedAmount(record.refundedPayment.id, tx);
+      await tx
+        .update(payments)
+        .set({
+          status:
+            refunded >= toCents(record.refundedPayment.amount)
+              ? "refunded"
+              : "partially_refunded",
+        })
+        .where(eq(payments.id, record.refundedPayment.id));
+    }
+
+    return inserted;
+  });
+}
+
+/**
+ * Stripe invoice a payment was for, if any. Invoice payments store the
+ * invoice ID when Stripe didn't give us a payment intent.
+ */
+export async function getInvoiceIdForPayment(
+  stripePaymentId: string
+): Promise<string | null> {
+  if (stripePaymentId.startsWith("in_")) return stripePaymentId;
+  if (!stripePaymentId.startsWith("pi_")) return null;
+
+  const invoicePayments = await stripe.invoicePayments.list({
+    payment: { type: "payment_intent", payment_intent: stripePaymentId },
+    limit: 1,
+  });
+  const invoice = invoicePayments.data[0]?.invoice;
+  if (!invoice) return null;
+  return typeof invoice === "string" ? invoice : invoice.id || null;
+}
+
+// Credit notes only accept some of the refund reasons
+function getCreditNoteReason(
+  reason: RefundReason
+): Stripe.CreditNoteCreateParams.Reason | undefined {
+  return reason === "requested_by_customer" ? undefined : reason;
+}
+
+/**
+ * Refund one of a customer's payments in Stripe and record it
+ *
+ * @throws NotFoundError if the payment isn't the customer's
+ * @throws ValidationError if it can't be refunded or Stripe rejects the refund
+ */
+export async function refundPayment(
+  customerId: string,
+  paymentId: string,
+  input: RefundInput,
+  refundedBy: string
+): Promise<{ refund: Payment; payment: Payment }> {
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.id, paymentId), eq(payments.customerId, customerId)))
+    .limit(1);
+
+  if (!payment) {
+    throw new NotFoundError("Payment not found");
+  }
+  if (payment.paymentType === "refund") {
+    throw new ValidationError("Refunds can't be refunded");
+  }
+  if (
+    payment.status !== "completed" &&
+    payment.status !== "partially_refunded"
+  ) {
+    throw new ValidationError("Only completed payments can be refunded");
+  }
+  if (!payment.stripePaymentId) {
+    throw new ValidationError(
+      "This payment has no Stripe payment to refund against"
+    );
+  }
+
+  const refundable =
+    toCents(payment.amount) - (await getRefundedAmount(payment.id));
+  if (refundable <= 0) {
+    throw new ValidationError("This payment has already been fully refunded");
+  }
+  const amount = input.amount ?? refundable;
+  if (amount > refundable) {
+    throw new ValidationError(
+      `Refund can't exceed ${formatCurrencyAmount(refundable / 100, payment.currency)}`
+    );
+  }
+
+  const metadata = {
+    paymentId: payment.id,
+    customerId,
+    refundedBy,
+    reason: input.reason,
+  };
+
+  let stripeRefundId: string;
+  try {
+    const invoiceId = await getInvoiceIdForPayment(payment.stripePaymentId);
+
+    if (invoiceId) {
+      const creditNote = await stripe.creditNotes.create({
+        invoice: invoiceId,
+        amount,
+        refund_amount: amount,
+        reason: getCreditNoteReason(input.reason),
+        memo: input.note || undefined,
+        metadata,
+      });
+      const refund = creditNote.refunds[0]?.refund;
+      stripeRefundId = refund
+        ? typeof refund === "string"
+          ? refund
+          : refund.id
+        : creditNote.id;
+    } else if (payment.stripePaymentId.startsWith("pi_")) {
+      const refund = await stripe.refunds.create({
+        payment_intent: payment.stripePaymentId,
+        amount,
+        reason: input.reason,
+        metadata: { ...metadata, note: input.note || "" },
+      });
+      stripeRefundId = refund.id;
+    } else {
+      throw new ValidationError(
+        "This payment has no Stripe payment to refund against"
+      );
+    }
+  } catch (error) {
+    if (
+      (error as Stripe.errors.StripeError).type === "StripeInvalidRequestError"
+    ) {
+      throw new ValidationError(
+        `Stripe rejected the refund: ${(error as Error).message}`
+      );
+    }
+    throw error;
+  }
+
+  const refund = await recordRefund({
+    customerId,
+    refundedPayment: payment,
+    stripeRefundId,
+    amount,
+    currency: payment.currency,
+    reason: input.reason,
+  });
+
+  const [updated] = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.id, payment.id))
+    .limit(1);
+
+  return { refund, payment: updated };
+}
@@ -0,0 +1,235 @@
+/**
+ * Tax ID validation
+ *
+ * Checks a customer's tax ID against the format used in their billing
+ * country and converts it to the Stripe tax ID type and value format, so it
+ * can be attached to the Stripe customer for automatic tax and shown on
+ * invoices.
+ *
+ * Client-safe: no Stripe or database imports.
+ */
+
+import { EU_COUNTRIES, normalizeCountryCode } from "./countries";
+
+export type TaxIdType =
+  | "eu_vat"
+  | "gb_vat"
+  | "au_abn"
+  | "nz_gst"
+  | "ca_bn"
+  | "us_ein"
+  | "ch_vat"
+  | "no_vat";
+
+export type TaxIdValidation =
+  | { valid: true; type: TaxIdType; value: string }
+  | { valid: false; error: string };
+
+/**
+ * Wording shown on invoices where the customer accounts for VAT
+ * (EU B2B supplies under Article 196 of the VAT Directive)
+ */
+export const REVERSE_CHARGE_NOTICE =
+  "Reverse charge: VAT to be accounted for by the recipient (Article 196, Council Directive 2006/112/EC)";
+
+// EU VAT number formats, excluding the country prefix
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  GR: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// Example shown as the input placeholder for each country
+const TAX_ID_EXAMPLES: Record<string, string> = {
+  GB: "GB123456789",
+  AU: "12 345 678 901",
+  NZ: "123-456-789",
+  CA: "123456789",
+  US: "12-3456789",
+  CH: "CHE-123.456.789 MWST",
+  NO: "123456789MVA",
+  AT: "ATU12345678",
+  BE: "BE0123456789",
+  CY: "CY12345678X",
+  DK: "DK12345678",
+  ES: "ESA1234567Z",
+  FI: "FI12345678",
+  FR: "FRAB123456789",
+  HR: "HR12345678901",
+  HU: "HU12345678",
+  IE: "IE1234567T",
+  IT: "IT12345678901",
+  LU: "LU12345678",
+  LV: "LV12345678901",
+  MT: "MT12345678",
+  NL: "NL123456789B01",
+  PL: "PL1234567890",
+  SE: "SE123456789012",
+  SI: "SI12345678",
+  SK: "SK1234567890",
+};
+
+/**
+ * Australian Business Number checksum (weighted modulus 89)
+ */
+function isValidAbn(abn: string): boolean {
+  const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+  const digits = abn.split("").map(Number);
+  digits[0] -= 1;
+  const sum = digits.reduce((total, digit, i) => total + digit * weights[i], 0);
+  return sum % 89 === 0;
+}
+
+/**
+ * Validate a tax ID for a billing country (ISO code or English name)
+ *
+ * Spaces, dots and dashes are ignored. EU VAT numbers may be entered with or
+ * without their country prefix (Greece uses "EL").
+ *
+ * @example
+ * validateTaxId("de 123 456 789", "Germany");
+ * // Returns: { valid: true, type: "eu_vat", value: "DE123456789" }
+ */
+export function validateTaxId(
+  taxId: string,
+  country?: string | null
+): TaxIdValidation {
+  if (!country?.trim()) {
+    return {
+      valid: false,
+      error: "Enter your billing country before adding a tax ID",
+    };
+  }
+
+  const countryCode = normalizeCountryCode(country);
+  const compact = taxId.toUpperCase().replace(/[\s.\-]/g, "");
+  if (!compact) {
+    return { valid: false, error: "Tax ID is required" };
+  }
+
+  if (countryCode && countryCode in EU_COUNTRIES) {
+    const prefix = countryCode === "GR" ? "EL" : countryCode;
+    const body = compact.startsWith(prefix)
+      ? compact.slice(prefix.length)
+      : compact;
+    if (!EU_VAT_FORMATS[countryCode].test(body)) {
+      return {
+        valid: false,
+        error: `Enter a valid ${prefix} VAT number (e.g. ${getTaxIdExample(countryCode)})`,
+      };
+    }
+    return { valid: true, type: "eu_vat", value: `${prefix}${body}` };
+  }
+
+  switch (countryCode) {
+    case "GB": {
+      const body = compact.startsWith("GB") ? compact.slice(2) : compact;
+      if (!/^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/.test(body)) {
+        return {
+          valid: false,
+          error: "Enter a valid UK VAT number (e.g. GB123456789)",
+        };
+      }
+      return { valid: true, type: "gb_vat", value: `GB${body}` };
+    }
+    case "AU":
+      if (!/^\d{11}$/.test(compact) || !isValidAbn(compact)) {
+        return {
+          valid: false,
+          error: "Enter a valid 11-digit Australian Business Number",
+        };
+      }
+      return { valid: true, type: "au_abn", value: compact };
+    case "NZ":
+      if (!/^\d{8,9}$/.test(compact)) {
+        return { valid: false, error: "Enter a valid 8 or 9-digit GST number" };
+      }
+      return { valid: true, type: "nz_gst", value: compact };
+    case "CA":
+      // Business Number, optionally followed by a program account (RT0001)
+      if (!/^\d{9}([A-Z]{2}\d{4})?$/.test(compact)) {
+        return { valid: false, error: "Enter a valid 9-digit Business Number" };
+      }
+      return { valid: true, type: "ca_bn", value: compact.slice(0, 9) };
+    case "US":
+      if (!/^\d{9}$/.test(compact)) {
+        return {
+          valid: false,
+          error: "Enter a valid EIN (e.g. 12-3456789)",
+        };
+      }
+      return {
+        valid: true,
+        type: "us_ein",
+        value: `${compact.slice(0, 2)}-${compact.slice(2)}`,
+      };
+    case "CH": {
+      const match = compact.match(/^CHE(\d{9})(MWST|TVA|IVA)?$/);
+      if (!match) {
+        return {
+          valid: false,
+          error: "Enter a valid Swiss VAT number (e.g. CHE-123.456.789 MWST)",
+        };
+      }
+      const digits = match[1];
+      return {
+        valid: true,
+        type: "ch_vat",
+        value: `CHE-${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6)} ${match[2] || "MWST"}`,
+      };
+    }
+    case "NO": {
+      const match = compact.match(/^(?:NO)?(\d{9})(?:MVA)?$/);
+      if (!match) {
+        return {
+          valid: false,
+          error: "Enter a valid Norwegian VAT number (e.g. 123456789MVA)",
+        };
+      }
+      return { valid: true, type: "no_vat", value: `${match[1]}MVA` };
+    }
+    default:
+      return {
+        valid: false,
+        error: "Tax IDs aren't supported for your billing country",
+      };
+  }
+}
+
+/**
+ * Placeholder example of a tax ID for a billing country
+ */
+export function getTaxIdExample(country?: string | null): string | null {
+  const countryCode = normalizeCountryCode(country);
+  if (!countryCode) return null;
+  if (countryCode in TAX_ID_EXAMPLES) return TAX_ID_EXAMPLES[countryCode];
+  // Remaining EU states use nine digits after the prefix
+  if (countryCode in EU_COUNTRIES) {
+    return `${countryCode === "GR" ? "EL" : countryCode}123456789`;
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+import type Stripe from "stripe";
+import { stripe } from "./client";
+import { db } from "@/lib/db";
+import { customers, invoiceLineItems, type Customer } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { ValidationError } from "@/lib/api/response-helpers";
+import { normalizeCountryCode } from "./countries";
+import type { TaxIdType } from "./tax-id-utils";
+
+/**
+ * Tax
+ *
+ * Checkout and subscription invoices can use Stripe Tax (automatic tax), which
+ * works out VAT/GST from the customer's address and tax ID. The profile page
+ * is the source of truth for both, so they are pushed to the Stripe customer
+ * whenever they change. Tax calculated by Stripe is stored per invoice line
+ * item, including the reason it was (or wasn't) charged, so billing history
+ * can show net/tax/gross and reverse-charge wording.
+ */
+
+interface BillingAddress {
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+// Invoice fields needed to store tax (webhook payloads and API objects)
+export interface InvoiceTaxData {
+  id: string;
+  tax?: number | null;
+  total_taxes?: Array<{ amount: number }> | null;
+  lines?: {
+    data: Stripe.InvoiceLineItem[];
+    has_more: boolean;
+  };
+}
+
+/**
+ * Whether checkout charges tax through Stripe Tax
+ * Needs Stripe Tax activated with registrations, so it's opt-in
+ * (STRIPE_AUTOMATIC_TAX=true).
+ */
+export function isAutomaticTaxEnabled(): boolean {
+  return process.env.STRIPE_AUTOMATIC_TAX === "true";
+}
+
+/**
+ * Push a customer's billing address and tax ID to their Stripe customer
+ *
+ * Only the tax ID this app attached (customers.stripeTaxId) is replaced or
+ * removed; IDs added in Stripe directly are left alone, as is everything
+ * when the profile holds a legacy tax ID without a type. Throws
+ * ValidationError if Stripe rejects the tax ID, before anything is changed.
+ * Does nothing until the customer has a Stripe customer (checkout calls
+ * this again once it creates one).
+ *
+ * @returns Stripe tax ID (txi_...) this app has attached, or null
+ */
+export async function syncCustomerTaxDetails(
+  customer: Customer
+): Promise<string | null> {
+  if (!customer.stripeCustomerId) return null;
+
+  let stripeTaxId = customer.stripeTaxId;
+
+  if (customer.taxId && customer.taxIdType) {
+    const existing = await stripe.customers.listTaxIds(
+      customer.stripeCustomerId,
+      { limit: 100 }
+    );
+    const current = existing.data.find(
+      (taxId) =>
+        taxId.type === customer.taxIdType && taxId.value === customer.taxId
+    );
+
+    if (current) {
+      stripeTaxId = current.id;
+    } else {
+      try {
+        const created = await stripe.customers.createTaxId(
+          customer.stripeCustomerId,
+          {
+            type: customer.taxIdType as TaxIdType,
+            value: customer.taxId,
+          }
+        );
+        stripeTaxId = created.id;
+      } catch (error) {
+        // Stripe has stricter checks for some formats (e.g. checksums)
+        if (
+          (error as Stripe.errors.StripeError).type ===
+          "StripeInvalidRequestError"
+        ) {
+          throw new ValidationError(
+            `Tax ID was rejected: ${(error as Error).message}`
+          );
+        }
+        throw error;
+      }
+    }
+  } else if (!customer.taxId) {
+    stripeTaxId = null;
+  }
+  // else a legacy free-text tax ID, which Stripe can't take without a type
+
+  const billingAddress = customer.billingAddress as BillingAddress | null;
+  const country = normalizeCountryCode(billingAddress?.country);
+
+  await stripe.customers.update(customer.stripeCustomerId, {
+    name: customer.companyName || undefined,
+    ...(country
+      ? {
+          address: {
+            line1: billingAddress?.address || undefined,
+            city: billingAddress?.city || undefined,
+            state: billingAddress?.state || undefined,
+            postal_code: billingAddress?.zipCode || undefined,
+            country,
+          },
+        }
+      : {}),
+  });
+
+  // Remove the ID we attached before, once its replacement has been accepted
+  if (customer.stripeTaxId && customer.stripeTaxId !== stripeTaxId) {
+    try {
+      await stripe.customers.deleteTaxId(
+        customer.stripeCustomerId,
+        customer.stripeTaxId
+      );
+    } catch (error) {
+      // Already removed in Stripe
+      if ((error as Stripe.errors.StripeError).statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  if (stripeTaxId !== customer.stripeTaxId) {
+    await db
+      .update(customers)
+      .set({ stripeTaxId, updatedAt: new Date() })
+      .where(eq(customers.id, customer.id));
+  }
+
+  return stripeTaxId;
+}
+
+/**
+ * Total tax on an invoice in cents
+ * Newer API versions report tax in total_taxes rather than tax
+ */
+export function getInvoiceTaxAmount(invoice: InvoiceTaxData): number {
+  if (invoice.total_taxes) {
+    return invoice.total_taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  }
+  return invoice.tax || 0;
+}
+
+/**
+ * Replace the stored line items for an invoice, with the tax on each line
+ *
+ * Webhook payloads include the first page of lines; longer invoices are
+ * fetched from the API.
+ *
+ * @param invoiceId Our invoices.id
+ * @param invoice Stripe invoice
+ */
+export async function syncInvoiceLineItems(
+  invoiceId: string,
+  invoice: InvoiceTaxData
+): Promise<void> {
+  let lines = invoice.lines?.data;
+  if (!lines || invoice.lines?.has_more) {
+    lines = [];
+    for await (const line of stripe.invoices.listLineItems(invoice.id, {
+      limit: 100,
+    })) {
+      lines.push(line);
+    }
+  }
+
+  const values = lines.map((line) => {
+    const quantity = line.quantity || 1;
+    const price = line.pricing?.price_details?.price;
+    const taxes = line.taxes || [];
+    // A line has one taxability reason in practice; prefer the one that applied
+    const taxabilityReason =
+      taxes.find((tax) => tax.amount > 0)?.taxability_reason ||
+      taxes[0]?.taxability_reason ||
+      null;
+
+    return {
+      invoiceId,
+      description: line.description || "Subscription",
+      quantity,
+      unitAmount: Math.round(line.amount / quantity),
+      amount: line.amount,
+      taxAmount: taxes.reduce((sum, tax) => sum + tax.amount, 0),
+      taxabilityReason,
+      currency: line.currency,
+      stripeLineItemId: line.id,
+      stripePriceId: typeof price === "string" ? price : price?.id || null,
+      periodStart: line.period?.start
+        ? new Date(line.period.start * 1000)
+        : null,
+      periodEnd: line.period?.end ? new Date(line.period.end * 1000) : null,
+    };
+  });
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, invoiceId));
+    if (values.length > 0) {
+      await tx.insert(invoiceLineItems).values(values);
+    }
+  });
+}
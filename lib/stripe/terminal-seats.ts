@@ -0,0 +1,133 @@
+import { stripe } from "./client";
+import type { BillingCycle } from "./plans";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  getPriceEnvVarName,
+  type Currency,
+} from "./currency";
+import { isUsagePriceId } from "./usage-billing";
+
+/**
+ * Terminal seat add-ons
+ *
+ * Extra terminals beyond a plan's maxTerminals are sold as a second
+ * subscription item using a per-seat recurring price. The item quantity is
+ * the number of additional terminals, so a license's maxTerminals is always
+ * plan.features.maxTerminals + seat quantity.
+ *
+ * Environment:
+ * - STRIPE_PRICE_ID_TERMINAL_SEAT_MONTHLY
+ * - STRIPE_PRICE_ID_TERMINAL_SEAT_ANNUAL
+ * (plus _GBP / _EUR variants; seats must match the plan's currency)
+ */
+
+// Upper bound on add-on seats bought through the dashboard
+export const MAX_ADDITIONAL_TERMINALS = 20;
+
+// Minimal shape of a subscription item we need (Stripe object or webhook payload)
+export interface SeatSubscriptionItem {
+  id?: string;
+  quantity?: number | null;
+  price: {
+    id: string;
+  };
+}
+
+const SEAT_PRICE_ENV_VARS: Record<BillingCycle, string> = {
+  monthly: "STRIPE_PRICE_ID_TERMINAL_SEAT_MONTHLY",
+  annual: "STRIPE_PRICE_ID_TERMINAL_SEAT_ANNUAL",
+};
+
+/**
+ * Get the Stripe Price ID for a terminal seat in the given billing cycle
+ */
+export function getTerminalSeatPriceId(
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
+): string | null {
+  const priceId =
+    process.env[getPriceEnvVarName(SEAT_PRICE_ENV_VARS[cycle], currency)];
+
+  return priceId || null;
+}
+
+/**
+ * Whether terminal seat add-ons are configured for the given billing cycle
+ */
+export function isTerminalSeatsEnabled(
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
+): boolean {
+  return getTerminalSeatPriceId(cycle, currency) !== null;
+}
+
+/**
+ * Check if a Stripe Price ID is a terminal seat price (any cycle or currency)
+ */
+export function isTerminalSeatPriceId(priceId: string): boolean {
+  return SUPPORTED_CURRENCIES.some(
+    (currency) =>
+      priceId === getTerminalSeatPriceId("monthly", currency) ||
+      priceId === getTerminalSeatPriceId("annual", currency)
+  );
+}
+
+/**
+ * Get the price of one terminal seat (in major units) for a billing cycle
+ */
+export async function getTerminalSeatPrice(
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
+): Promise<number> {
+  const priceId = getTerminalSeatPriceId(cycle, currency);
+  if (!priceId) {
+    throw new Error(
+      `Terminal seat price is not configured (${cycle}, ${currency})`
+    );
+  }
+
+  const price = await stripe.prices.retrieve(priceId);
+  return (price.unit_amount || 0) / 100;
+}
+
+/**
+ * Find the plan item on a subscription (the item that is not a seat add-on
+ * or transaction usage)
+ */
+export function findPlanItem<T extends SeatSubscriptionItem>(
+  items: T[]
+): T | undefined {
+  return items.find(
+    (item) =>
+      !isTerminalSeatPriceId(item.price.id) && !isUsagePriceId(item.price.id)
+  );
+}
+
+/**
+ * Find the terminal seat add-on item on a subscription, if any
+ */
+export function findTerminalSeatItem<T extends SeatSubscriptionItem>(
+  items: T[]
+): T | undefined {
+  return items.find((item) => isTerminalSeatPriceId(item.price.id));
+}
+
+/**
+ * Number of additional terminals purchased on a subscription
+ */
+export function getAdditionalTerminalCount(
+  items: SeatSubscriptionItem[]
+): number {
+  return findTerminalSeatItem(items)?.quantity || 0;
+}
+
+/**
+ * Total terminals allowed for a plan plus purchased add-on seats
+ */
+export function calculateMaxTerminals(
+  planMaxTerminals: number,
+  additionalTerminals: number
+): number {
+  return planMaxTerminals + Math.max(0, additionalTerminals);
+}
@@ -0,0 +1,205 @@
+import type Stripe from "stripe";
+import { stripe } from "./client";
+import type { BillingCycle, PlanId } from "./plans";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  getPriceEnvVarName,
+  type Currency,
+} from "./currency";
+
+/**
+ * Transaction usage billing
+ *
+ * Plans in USAGE_BILLING_PLANS carry a metered subscription item priced per
+ * transaction. The price is backed by a Stripe billing meter that sums the
+ * meter events we send for the customer, and is usually graduated: a free
+ * first tier is the plan's included transactions and later tiers are the
+ * overage rate.
+ *
+ * Environment:
+ * - STRIPE_PRICE_ID_TRANSACTION_USAGE_MONTHLY
+ * - STRIPE_PRICE_ID_TRANSACTION_USAGE_ANNUAL
+ * (plus _GBP / _EUR variants; usage must match the plan's currency)
+ * - STRIPE_TRANSACTION_METER_EVENT (defaults to "pos_transactions")
+ */
+
+export const USAGE_BILLING_PLANS: PlanId[] = ["professional"];
+
+// Minimal shape of a subscription item we need (Stripe object or webhook payload)
+export interface UsageSubscriptionItem {
+  id?: string;
+  price: {
+    id: string;
+  };
+}
+
+export interface UsagePricing {
+  includedTransactions: number;
+  billingScheme: Stripe.Price.BillingScheme;
+  tiersMode: Stripe.Price.TiersMode | null;
+  tiers: Stripe.Price.Tier[];
+  unitAmount: number; // Cents, may be fractional (per_unit prices)
+}
+
+const USAGE_PRICE_ENV_VARS: Record<BillingCycle, string> = {
+  monthly: "STRIPE_PRICE_ID_TRANSACTION_USAGE_MONTHLY",
+  annual: "STRIPE_PRICE_ID_TRANSACTION_USAGE_ANNUAL",
+};
+
+const PRICING_CACHE_TTL = 1000 * 60 * 15; // 15 minutes
+const pricingCache = new Map<
+  string,
+  { pricing: UsagePricing; cachedAt: number }
+>();
+
+export function getTransactionMeterEventName(): string {
+  return process.env.STRIPE_TRANSACTION_METER_EVENT || "pos_transactions";
+}
+
+/**
+ * Get the Stripe Price ID for transaction usage in the given billing cycle
+ */
+export function getUsagePriceId(
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
+): string | null {
+  const priceId =
+    process.env[getPriceEnvVarName(USAGE_PRICE_ENV_VARS[cycle], currency)];
+
+  return priceId || null;
+}
+
+/**
+ * Whether a plan is billed for transaction usage in a cycle and currency
+ */
+export function isUsageBillingEnabled(
+  planId: string | null,
+  cycle: BillingCycle,
+  currency: Currency = DEFAULT_CURRENCY
+): boolean {
+  return (
+    !!planId &&
+    USAGE_BILLING_PLANS.includes(planId as PlanId) &&
+    getUsagePriceId(cycle, currency) !== null
+  );
+}
+
+/**
+ * Check if a Stripe Price ID is a transaction usage price (any cycle or currency)
+ */
+export function isUsagePriceId(priceId: string): boolean {
+  return SUPPORTED_CURRENCIES.some(
+    (currency) =>
+      priceId === getUsagePriceId("monthly", currency) ||
+      priceId === getUsagePriceId("annual", currency)
+  );
+}
+
+/**
+ * Find the transaction usage item on a subscription, if any
+ */
+export function findUsageItem<T extends UsageSubscriptionItem>(
+  items: T[]
+): T | undefined {
+  return items.find((item) => isUsagePriceId(item.price.id));
+}
+
+function parseCents(amount: number | null, decimal: string | null): number {
+  return decimal !== null ? parseFloat(decimal) : amount || 0;
+}
+
+/**
+ * Included transactions and rates for a usage price (cached for 15 minutes)
+ */
+export async function getUsagePricing(priceId: string): Promise<UsagePricing> {
+  const cached = pricingCache.get(priceId);
+  if (cached && Date.now() - cached.cachedAt < PRICING_CACHE_TTL) {
+    return cached.pricing;
+  }
+
+  const price = await stripe.prices.retrieve(priceId, { expand: ["tiers"] });
+  const tiers = price.tiers || [];
+
+  // A free first tier of a graduated price is the included allowance
+  const [firstTier] = tiers;
+  const includedTransactions =
+    price.tiers_mode === "graduated" &&
+    firstTier?.up_to &&
+    !parseCents(firstTier.unit_amount, firstTier.unit_amount_decimal) &&
+    !parseCents(firstTier.flat_amount, firstTier.flat_amount_decimal)
+      ? firstTier.up_to
+      : 0;
+
+  const pricing: UsagePricing = {
+    includedTransactions,
+    billingScheme: price.billing_scheme,
+    tiersMode: price.tiers_mode,
+    tiers,
+    unitAmount: parseCents(price.unit_amount, price.unit_amount_decimal),
+  };
+
+  pricingCache.set(priceId, { pricing, cachedAt: Date.now() });
+  return pricing;
+}
+
+/**
+ * Charge for a number of transactions under a usage price, in cents
+ */
+export function calculateUsageCharge(
+  pricing: UsagePricing,
+  transactions: number
+): number {
+  if (transactions <= 0) return 0;
+
+  if (pricing.billingScheme !== "tiered" || pricing.tiers.length === 0) {
+    return Math.round(transactions * pricing.unitAmount);
+  }
+
+  if (pricing.tiersMode === "volume") {
+    const tier =
+      pricing.tiers.find((t) => t.up_to === null || transactions <= t.up_to) ||
+      pricing.tiers[pricing.tiers.length - 1];
+    return Math.round(
+      transactions * parseCents(tier.unit_amount, tier.unit_amount_decimal) +
+        parseCents(tier.flat_amount, tier.flat_amount_decimal)
+    );
+  }
+
+  // Graduated: each tier prices the transactions that fall inside it
+  let charge = 0;
+  let previousUpTo = 0;
+  for (const tier of pricing.tiers) {
+    if (transactions <= previousUpTo) break;
+    const upTo = tier.up_to ?? Infinity;
+    const inTier = Math.min(transactions, upTo) - previousUpTo;
+    charge +=
+      inTier * parseCents(tier.unit_amount, tier.unit_amount_decimal) +
+      parseCents(tier.flat_amount, tier.flat_amount_decimal);
+    previousUpTo = upTo;
+  }
+  return Math.round(charge);
+}
+
+/**
+ * Send transactions to the Stripe billing meter
+ *
+ * @param identifier Unique per batch of transactions; Stripe ignores a
+ * repeated identifier, so a retried report is never billed twice
+ */
+export async function reportTransactionUsage(
+  stripeCustomerId: string,
+  transactions: number,
+  identifier: string,
+  timestamp: Date
+): Promise<void> {
+  await stripe.billing.meterEvents.create({
+    event_name: getTransactionMeterEventName(),
+    payload: {
+      stripe_customer_id: stripeCustomerId,
+      value: String(transactions),
+    },
+    identifier,
+    timestamp: Math.floor(timestamp.getTime() / 1000),
+  });
+}
@@ -3,13 +3,30 @@ import {
   customers,
   subscriptions,
   licenseKeys,
+  locations,
   subscriptionChanges,
   paymentMethods,
   invoices,
+  creditNotes,
+  payments,
+  users,
+  type LicenseKey,
+  type Subscription,
 } from "@/lib/db/schema";
-import { eq, and, or, sql, desc } from "drizzle-orm";
+import { eq, and, or, ne, sql, desc, isNull, inArray } from "drizzle-orm";
 import { generateLicenseKey } from "@/lib/license/generator";
 import { getPlan, type PlanId } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
+import { getInvoiceTaxAmount, syncInvoiceLineItems } from "@/lib/stripe/tax";
+import {
+  getPlanIdFromPriceIdSafe,
+  isValidPlanId,
+} from "@/lib/stripe/plan-utils";
+import {
+  findPlanItem,
+  getAdditionalTerminalCount,
+  calculateMaxTerminals,
+} from "@/lib/stripe/terminal-seats";
 import {
   createPaymentFromCheckoutSession,
   createPaymentFromInvoice,
@@ -21,13 +38,38 @@ import {
   publishSubscriptionCancelled,
   publishSubscriptionReactivated,
   publishSubscriptionUpdated,
+  publishSubscriptionPaused,
+  publishSubscriptionResumed,
   publishSubscriptionPastDue,
   publishPaymentSucceeded,
   publishLicenseReactivated,
   publishLicenseRevoked,
 } from "@/lib/subscription-events";
 import { getPlanFeatures } from "@/lib/license/validator";
+import {
+  getDunningStartDate,
+  openDunningCase,
+  processDunningCase,
+  recoverDunningCase,
+  voidDunningCases,
+} from "@/lib/subscription/dunning";
+import { getDunningSuspensionDate } from "@/lib/subscription/dunning-config";
+import { getCustomerEntitlements } from "@/lib/license/entitlements";
+import { allocateSubscriptionTerminals } from "@/lib/license/locations";
+import {
+  getAppliedDiscount,
+  type AppliedDiscount,
+} from "@/lib/stripe/promotion-codes";
 import { withTransaction } from "@/lib/stripe/webhook-helpers";
+import {
+  getInvoicePdfData,
+  getInvoicePdfFilename,
+  type CreditNoteLine,
+} from "@/lib/invoices/documents";
+import { renderInvoicePdf } from "@/lib/invoices/invoice-pdf";
+import { sendPaymentReceiptEmail } from "@/lib/emails/payment-receipts";
+import { getInvoiceIdForPayment, recordRefund } from "@/lib/stripe/refunds";
+import { applyScheduledPlanChange } from "@/lib/subscription/plan-changes";
 
 // ============================================================================
 // TYPE DEFINITIONS FOR STRIPE WEBHOOK DATA
@@ -39,6 +81,7 @@ export interface CheckoutSessionData {
     customerId?: string;
     planId?: string;
     billingCycle?: "monthly" | "annual";
+    currency?: string;
   };
   subscription?: string;
   payment_intent?: string;
@@ -56,9 +99,14 @@ export interface StripeSubscriptionData {
   canceled_at: number | null;
   trial_start: number | null;
   trial_end: number | null;
+  currency?: string;
+  pause_collection?: Stripe.Subscription.PauseCollection | null;
   latest_invoice?: string | Stripe.Invoice | null;
+  discounts?: Array<string | Stripe.Discount>;
   items: {
     data: Array<{
+      id: string;
+      quantity?: number | null;
       price: {
         id: string;
       };
@@ -87,11 +135,43 @@ export interface StripeInvoiceData {
   period_start: number;
   period_end: number;
   metadata?: Stripe.Metadata;
+  total_discount_amounts?: Array<{ amount: number }> | null;
+  total_taxes?: Array<{ amount: number }> | null;
+  lines?: {
+    data: Stripe.InvoiceLineItem[];
+    has_more: boolean;
+  };
   status_transitions?: {
     paid_at?: number | null;
   };
 }
 
+export interface StripeCreditNoteData {
+  id: string;
+  number: string;
+  invoice: string | Stripe.Invoice;
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer;
+  status: Stripe.CreditNote.Status;
+  reason: Stripe.CreditNote.Reason | null;
+  total: number;
+  total_taxes?: Array<{ amount: number }> | null;
+  currency: string;
+  memo: string | null;
+  created: number;
+  voided_at: number | null;
+  lines?: {
+    data: Stripe.CreditNoteLineItem[];
+  };
+}
+
+export interface StripeChargeData {
+  id: string;
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null;
+  payment_intent: string | Stripe.PaymentIntent | null;
+  amount_refunded: number;
+  currency: string;
+}
+
 export interface StripePaymentMethodData {
   id: string;
   customer: string | Stripe.Customer;
@@ -135,9 +215,13 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
   }
 
   const stripeSubscription = (await stripe.subscriptions.retrieve(
-    subscriptionId
+    subscriptionId,
+    { expand: ["discounts"] }
   )) as unknown as StripeSubscriptionData;
 
+  // Promotion code applied at checkout (recorded on the subscription)
+  const discount = await getAppliedDiscount(stripeSubscription.discounts);
+
   // Get customer
   const [customer] = await db
     .select()
@@ -170,10 +254,27 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
     );
   }
 
-  const plan = await getPlan(planId);
+  // Price in the currency the customer checked out in
+  const currency =
+    normalizeCurrency(stripeSubscription.currency) ||
+    normalizeCurrency(session.metadata?.currency) ||
+    DEFAULT_CURRENCY;
+  const plan = await getPlan(planId, currency);
   const price =
     billingCycle === "monthly" ? plan.priceMonthly : plan.priceAnnual;
 
+  // Terminal limit = plan terminals + any seat add-ons bought at checkout
+  const additionalTerminals = getAdditionalTerminalCount(
+    stripeSubscription.items.data
+  );
+  const maxTerminals = calculateMaxTerminals(
+    plan.features.maxTerminals,
+    additionalTerminals
+  );
+  const planItem =
+    findPlanItem(stripeSubscription.items.data) ||
+    stripeSubscription.items.data[0];
+
   // Calculate billing period dates - handle undefined/null timestamps
   const currentPeriodStart = stripeSubscription.current_period_start
     ? new Date(stripeSubscription.current_period_start * 1000)
@@ -266,6 +367,7 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
           planType: planId, // Keep for backward compatibility
           billingCycle,
           price: price.toString(),
+          currency,
           status:
             stripeSubscription.status === "trialing" ? "trialing" : "active",
           currentPeriodStart,
@@ -276,19 +378,28 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
           autoRenew: !stripeSubscription.cancel_at_period_end,
           stripeSubscriptionId: subscriptionId,
           stripeCustomerId: stripeSubscription.customer as string,
+          additionalTerminals,
           metadata: {
-            stripePriceId: stripeSubscription.items.data[0].price.id,
+            stripePriceId: planItem.price.id,
+            ...(discount ? { discount } : {}),
           },
           createdAt: new Date(),
           updatedAt: new Date(),
         })
         .returning();
 
-      // Check for existing license key
+      // Check for existing license key (location keys are managed
+      // separately; perpetual and fixed-term keys are left alone)
       const [existingLicense] = await tx
         .select()
         .from(licenseKeys)
-        .where(eq(licenseKeys.customerId, customer.id))
+        .where(
+          and(
+            eq(licenseKeys.customerId, customer.id),
+            eq(licenseKeys.licenseType, "subscription"),
+            isNull(licenseKeys.locationId)
+          )
+        )
         .orderBy(desc(licenseKeys.createdAt))
         .limit(1);
 
@@ -308,7 +419,7 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
           .update(licenseKeys)
           .set({
             subscriptionId: subscriptionRecord.id,
-            maxTerminals: plan.features.maxTerminals,
+            maxTerminals,
             isActive: true,
           })
           .where(eq(licenseKeys.id, existingLicense.id));
@@ -334,7 +445,12 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
               revokedAt: new Date(),
               revocationReason: `Upgraded to ${planId} plan`,
             })
-            .where(eq(licenseKeys.id, existingLicense.id));
+            .where(
+              and(
+                eq(licenseKeys.id, existingLicense.id),
+                eq(licenseKeys.licenseType, "subscription")
+              )
+            );
 
           console.log(
             `[Webhook] Deactivated old license due to plan tier change: ${existingPlanCode} → ${currentPlanCode}`
@@ -347,7 +463,7 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
           customerId: customer.id,
           subscriptionId: subscriptionRecord.id,
           licenseKey: licenseKey,
-          maxTerminals: plan.features.maxTerminals,
+          maxTerminals,
           isActive: true,
           version: "2.0",
           issuedAt: new Date(),
@@ -407,6 +523,7 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
         previousPlanId,
         newPlanId,
         newFeatures: plan.features.features,
+        entitlements: await getCustomerEntitlements(customer.id, newPlanId),
         effectiveAt: new Date(),
       });
     }
@@ -618,6 +735,258 @@ export async function handleCheckoutCompleted(session: CheckoutSessionData) {
   );
 }
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface SubscriptionStatusChangeResult {
+  reactivatedLicenses: LicenseKey[];
+  statusChanged: boolean;
+}
+
+/**
+ * Record a subscription's move to a new (local) status
+ * Call inside the transaction that writes subscriptions.status. Keys revoked
+ * while the subscription was cancelled or past due are reactivated when it
+ * becomes active or trialing again (rotated keys and the keys of removed
+ * locations stay retired).
+ */
+export async function applySubscriptionStatusChange(
+  tx: DbTransaction,
+  existingSubscription: Subscription,
+  newStatus: string
+): Promise<SubscriptionStatusChangeResult> {
+  const previousStatus = existingSubscription.status;
+  const wasInactive = previousStatus
+    ? ["cancelled", "past_due"].includes(previousStatus)
+    : false;
+  const isNowActive = ["active", "trialing"].includes(newStatus);
+
+  let reactivatedLicenses: LicenseKey[] = [];
+
+  if (wasInactive && isNowActive) {
+    // Reactivate previously revoked licenses
+    reactivatedLicenses = await tx
+      .update(licenseKeys)
+      .set({
+        isActive: true,
+        revokedAt: null,
+        revocationReason: null,
+      })
+      .where(
+        and(
+          eq(licenseKeys.subscriptionId, existingSubscription.id),
+          eq(licenseKeys.isActive, false),
+          isNull(licenseKeys.replacedByKey), // Rotated keys stay retired
+          // So do the keys of removed locations
+          or(
+            isNull(licenseKeys.locationId),
+            inArray(
+              licenseKeys.locationId,
+              tx
+                .select({ id: locations.id })
+                .from(locations)
+                .where(isNull(locations.deletedAt))
+            )
+          )
+        )
+      )
+      .returning();
+
+    if (reactivatedLicenses.length > 0) {
+      console.log(
+        `✅ Reactivated ${reactivatedLicenses.length} license(s) for subscription ${existingSubscription.id}`
+      );
+
+      // Log reactivation
+      await tx.insert(subscriptionChanges).values({
+        subscriptionId: existingSubscription.id,
+        customerId: existingSubscription.customerId,
+        changeType: "license_reactivated",
+        reason: `Subscription restored from ${previousStatus} to ${newStatus}`,
+        effectiveDate: new Date(),
+        createdAt: new Date(),
+        metadata: {
+          previousStatus,
+          newStatus,
+          reactivatedLicenseCount: reactivatedLicenses.length,
+          licenseKeys: reactivatedLicenses.map((l) => l.id),
+        },
+      });
+    }
+  }
+
+  // Status Change Logging
+  const statusChanged = previousStatus !== newStatus;
+  if (statusChanged) {
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId: existingSubscription.id,
+      customerId: existingSubscription.customerId,
+      changeType: "status_change",
+      reason: `Status changed from ${previousStatus} to ${newStatus}`,
+      effectiveDate: new Date(),
+      createdAt: new Date(),
+      metadata: { previousStatus, newStatus },
+    });
+  }
+
+  return { reactivatedLicenses, statusChanged };
+}
+
+/**
+ * Send license_reactivated for keys applySubscriptionStatusChange reactivated
+ */
+export function publishReactivatedLicenses(licenses: LicenseKey[]): void {
+  for (const license of licenses) {
+    const planId = license.licenseKey.includes("-BAS-")
+      ? "basic"
+      : license.licenseKey.includes("-PRO-")
+      ? "professional"
+      : "basic"; // Default to basic if unknown format
+
+    publishLicenseReactivated(license.licenseKey, {
+      planId,
+      features: getPlanFeatures(planId),
+    });
+  }
+}
+
+/**
+ * Tell a subscription's terminals about a status change (after commit)
+ */
+export async function publishSubscriptionStatusChange(
+  existingSubscription: Subscription,
+  change: {
+    previousStatus: string | null;
+    newStatus: string;
+    planId: string | null;
+    trialEnd: Date | null;
+    resumesAt: Date | null;
+  }
+): Promise<void> {
+  const { previousStatus, newStatus, planId, trialEnd, resumesAt } = change;
+  const licenseKeysList = await getLicenseKeysForSubscription(
+    existingSubscription.id
+  );
+
+  const shouldDisable = ["cancelled", "past_due"].includes(newStatus);
+  let gracePeriodRemaining: number | null = null;
+  if (newStatus === "cancelled") {
+    gracePeriodRemaining = 7 * 24 * 60 * 60 * 1000;
+  } else if (newStatus === "past_due") {
+    // Suspension is counted from the start of dunning (the first failed
+    // payment), which may open after this webhook
+    const dunningStartedAt =
+      (await getDunningStartDate(existingSubscription.id)) || new Date();
+    gracePeriodRemaining = Math.max(
+      0,
+      getDunningSuspensionDate(dunningStartedAt).getTime() - Date.now()
+    );
+  }
+
+  for (const licenseKey of licenseKeysList) {
+    // Paused/resumed from the Stripe dashboard: toggle read-only mode
+    if (newStatus === "paused" && resumesAt) {
+      publishSubscriptionPaused(licenseKey, {
+        pausedAt: new Date(),
+        resumesAt,
+      });
+      continue;
+    }
+    if (previousStatus === "paused" && newStatus === "active") {
+      publishSubscriptionResumed(licenseKey, {
+        subscriptionStatus: newStatus,
+        planId: planId || "basic",
+      });
+      continue;
+    }
+
+    publishSubscriptionUpdated(licenseKey, {
+      previousStatus: previousStatus || "unknown",
+      newStatus,
+      shouldDisable,
+      gracePeriodRemaining,
+      trialEnd: trialEnd?.toISOString() || null, // Include trial end date
+    });
+  }
+}
+
+/**
+ * Cancel a subscription locally and revoke its license keys
+ * Open dunning cases are voided; terminals get subscription_cancelled and
+ * license_revoked.
+ */
+export async function cancelSubscription(
+  existingSubscription: Subscription,
+  reason: string
+): Promise<void> {
+  // Execute DB updates in transaction
+  const licensesToRevoke = await withTransaction(async (tx) => {
+    // Update subscription status
+    await tx
+      .update(subscriptions)
+      .set({
+        status: "cancelled",
+        canceledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, existingSubscription.id));
+
+    // Get active license keys before revoking
+    const licenses = await tx
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(
+        and(
+          eq(licenseKeys.subscriptionId, existingSubscription.id),
+          eq(licenseKeys.isActive, true)
+        )
+      );
+
+    // Revoke license keys
+    await tx
+      .update(licenseKeys)
+      .set({
+        isActive: false,
+        revokedAt: new Date(),
+        revocationReason: "Subscription cancelled",
+      })
+      .where(eq(licenseKeys.subscriptionId, existingSubscription.id));
+
+    // Log change
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId: existingSubscription.id,
+      customerId: existingSubscription.customerId,
+      changeType: "cancellation",
+      reason,
+      effectiveDate: new Date(),
+      createdAt: new Date(),
+    });
+
+    return licenses;
+  });
+
+  // Nothing left to collect on a cancelled subscription
+  await voidDunningCases(existingSubscription.id);
+
+  // =========================================================================
+  // POST-TRANSACTION NOTIFICATIONS (SSE)
+  // =========================================================================
+  const gracePeriodEnd = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days grace
+
+  for (const license of licensesToRevoke) {
+    // Send BOTH cancellation and revocation events
+    publishSubscriptionCancelled(license.licenseKey, {
+      cancelledAt: new Date(),
+      cancelImmediately: true,
+      gracePeriodEnd,
+      reason,
+    });
+
+    publishLicenseRevoked(license.licenseKey, {
+      reason: "Subscription cancelled - immediate deactivation",
+    });
+  }
+}
+
 export async function handleSubscriptionUpdated(
   subscription: StripeSubscriptionData
 ) {
@@ -643,16 +1012,21 @@ export async function handleSubscriptionUpdated(
   if (!existingSubscription) return;
 
   const previousStatus = existingSubscription.status;
-  const newStatus = subscription.status;
+  // Stripe keeps a subscription with pause_collection "active"
+  const newStatus = subscription.pause_collection
+    ? "paused"
+    : subscription.status;
 
   // Determine internal status
   const internalStatus =
-    subscription.status === "active"
+    newStatus === "active"
       ? "active"
-      : subscription.status === "trialing"
+      : newStatus === "trialing"
       ? "trialing"
-      : subscription.status === "past_due"
+      : newStatus === "past_due"
       ? "past_due"
+      : newStatus === "paused"
+      ? "paused"
       : "cancelled";
 
   // Track trial_end changes for logging
@@ -673,6 +1047,32 @@ export async function handleSubscriptionUpdated(
     );
   }
 
+  // Recompute the terminal limit from the plan item + seat add-on quantity
+  const additionalTerminals = getAdditionalTerminalCount(
+    subscription.items.data
+  );
+  const planItem = findPlanItem(subscription.items.data);
+  const currentPlanId =
+    (planItem && getPlanIdFromPriceIdSafe(planItem.price.id)) ||
+    existingSubscription.planId;
+
+  let maxTerminals: number | null = null;
+  if (isValidPlanId(currentPlanId)) {
+    try {
+      const currentPlan = await getPlan(currentPlanId);
+      maxTerminals = calculateMaxTerminals(
+        currentPlan.features.maxTerminals,
+        additionalTerminals
+      );
+    } catch (error) {
+      // Keep existing limits rather than failing the whole webhook
+      console.error(
+        `Could not recompute maxTerminals for subscription ${existingSubscription.id}:`,
+        error
+      );
+    }
+  }
+
   // Execute DB updates in transaction
   const result = await withTransaction(async (tx) => {
     // Update subscription - safely handle dates
@@ -702,74 +1102,38 @@ export async function handleSubscriptionUpdated(
         canceledAt: subscription.canceled_at
           ? new Date(subscription.canceled_at * 1000)
           : null,
+        additionalTerminals,
+        pausedAt:
+          internalStatus === "paused"
+            ? existingSubscription.pausedAt || new Date()
+            : null,
+        resumesAt: subscription.pause_collection?.resumes_at
+          ? new Date(subscription.pause_collection.resumes_at * 1000)
+          : null,
         updatedAt: new Date(),
       })
       .where(eq(subscriptions.id, existingSubscription.id));
 
-    // License Reactivation Logic
-    const wasInactive = previousStatus
-      ? ["cancelled", "past_due"].includes(previousStatus)
-      : false;
-    const isNowActive = ["active", "trialing"].includes(newStatus);
-
-    let reactivatedLicenses: (typeof licenseKeys.$inferSelect)[] = [];
-
-    if (wasInactive && isNowActive) {
-      // Reactivate previously revoked licenses
-      reactivatedLicenses = await tx
-        .update(licenseKeys)
-        .set({
-          isActive: true,
-          revokedAt: null,
-          revocationReason: null,
-        })
-        .where(
-          and(
-            eq(licenseKeys.subscriptionId, existingSubscription.id),
-            eq(licenseKeys.isActive, false)
-          )
-        )
-        .returning();
-
-      if (reactivatedLicenses.length > 0) {
-        console.log(
-          `✅ Reactivated ${reactivatedLicenses.length} license(s) for subscription ${existingSubscription.id}`
-        );
+    const statusChange = await applySubscriptionStatusChange(
+      tx,
+      existingSubscription,
+      internalStatus
+    );
 
-        // Log reactivation
-        await tx.insert(subscriptionChanges).values({
-          subscriptionId: existingSubscription.id,
-          customerId: existingSubscription.customerId,
-          changeType: "license_reactivated",
-          reason: `Subscription restored from ${previousStatus} to ${newStatus}`,
-          effectiveDate: new Date(),
-          createdAt: new Date(),
-          metadata: {
-            previousStatus,
-            newStatus,
-            reactivatedLicenseCount: reactivatedLicenses.length,
-            licenseKeys: reactivatedLicenses.map((l) => l.id),
-          },
-        });
-      }
-    }
+    // Terminal Seat Sync (plan + add-on seats, minus seats allocated to locations)
+    if (maxTerminals !== null) {
+      const mainTerminals = await allocateSubscriptionTerminals(
+        existingSubscription.id,
+        maxTerminals,
+        tx
+      );
 
-    // Status Change Logging
-    let statusChanged = false;
-    if (previousStatus !== newStatus) {
-      statusChanged = true;
-      await tx.insert(subscriptionChanges).values({
-        subscriptionId: existingSubscription.id,
-        customerId: existingSubscription.customerId,
-        changeType: "status_change",
-        reason: `Status changed from ${previousStatus} to ${newStatus}`,
-        effectiveDate: new Date(),
-        createdAt: new Date(),
-        metadata: { previousStatus, newStatus },
-      });
+      console.log(
+        `🖥️ Synced maxTerminals to ${maxTerminals} (${additionalTerminals} add-on seats, ${mainTerminals} on main key) for subscription ${existingSubscription.id}`
+      );
     }
 
-    return { reactivatedLicenses, statusChanged };
+    return statusChange;
   });
 
   // =========================================================================
@@ -778,33 +1142,29 @@ export async function handleSubscriptionUpdated(
   const { reactivatedLicenses, statusChanged } = result;
 
   // 1. Notify about license reactivation
-  if (reactivatedLicenses.length > 0) {
-    for (const license of reactivatedLicenses) {
-      const planId = license.licenseKey.includes("-BAS-")
-        ? "basic"
-        : license.licenseKey.includes("-PRO-")
-        ? "professional"
-        : "basic"; // Default to basic if unknown format
-
-      publishLicenseReactivated(license.licenseKey, {
-        planId,
-        features: getPlanFeatures(planId),
-      });
-    }
-  }
+  publishReactivatedLicenses(reactivatedLicenses);
+
+  // 2. Apply a plan change scheduled for this renewal (reissues license
+  // keys and notifies terminals itself)
+  const currentPriceId = planItem?.price.id;
+  const appliedScheduledChange = await applyScheduledPlanChange(
+    existingSubscription.id,
+    currentPriceId,
+    additionalTerminals
+  );
 
-  // 2. Notify about plan change (if price changed)
-  const currentPriceId = subscription.items.data[0]?.price.id;
+  // 3. Notify about plan change (if price changed)
   const previousPriceId = (existingSubscription.metadata as any)?.stripePriceId as
     | string
     | undefined;
 
-  if (currentPriceId && previousPriceId && currentPriceId !== previousPriceId) {
+  if (
+    !appliedScheduledChange &&
+    currentPriceId &&
+    previousPriceId &&
+    currentPriceId !== previousPriceId
+  ) {
     // Plan changed - detect which plans
-    const { getPlanIdFromPriceIdSafe } = await import(
-      "@/lib/stripe/plan-utils"
-    );
-
     const newPlanId = getPlanIdFromPriceIdSafe(currentPriceId);
     const previousPlanId = getPlanIdFromPriceIdSafe(previousPriceId);
 
@@ -818,6 +1178,10 @@ export async function handleSubscriptionUpdated(
       );
 
       const { publishPlanChanged } = await import("@/lib/subscription-events");
+      const entitlements = await getCustomerEntitlements(
+        existingSubscription.customerId,
+        newPlanId
+      );
 
       for (const licenseKey of licenseKeysList) {
         const { getPlan } = await import("@/lib/stripe/plans");
@@ -827,32 +1191,24 @@ export async function handleSubscriptionUpdated(
           previousPlanId,
           newPlanId,
           newFeatures: getPlanFeatures(newPlanId),
+          entitlements,
           effectiveAt: new Date(),
         });
       }
     }
   }
 
-  // 3. Notify about status change
+  // 4. Notify about status change
   if (statusChanged) {
-    const licenseKeysList = await getLicenseKeysForSubscription(
-      existingSubscription.id
-    );
-
-    const shouldDisable = ["cancelled", "past_due"].includes(internalStatus);
-    const gracePeriodRemaining = shouldDisable
-      ? (internalStatus === "cancelled" ? 7 : 3) * 24 * 60 * 60 * 1000
-      : null;
-
-    for (const licenseKey of licenseKeysList) {
-      publishSubscriptionUpdated(licenseKey, {
-        previousStatus: previousStatus || "unknown",
-        newStatus: internalStatus,
-        shouldDisable,
-        gracePeriodRemaining,
-        trialEnd: newTrialEnd?.toISOString() || null, // Include trial end date
-      });
-    }
+    await publishSubscriptionStatusChange(existingSubscription, {
+      previousStatus,
+      newStatus: internalStatus,
+      planId: currentPlanId,
+      trialEnd: newTrialEnd,
+      resumesAt: subscription.pause_collection?.resumes_at
+        ? new Date(subscription.pause_collection.resumes_at * 1000)
+        : null,
+    });
   }
 }
 
@@ -870,70 +1226,7 @@ export async function handleSubscriptionDeleted(
 
   if (!existingSubscription) return;
 
-  // Execute DB updates in transaction
-  const licensesToRevoke = await withTransaction(async (tx) => {
-    // Update subscription status
-    await tx
-      .update(subscriptions)
-      .set({
-        status: "cancelled",
-        canceledAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(subscriptions.id, existingSubscription.id));
-
-    // Get active license keys before revoking
-    const licenses = await tx
-      .select({ licenseKey: licenseKeys.licenseKey })
-      .from(licenseKeys)
-      .where(
-        and(
-          eq(licenseKeys.subscriptionId, existingSubscription.id),
-          eq(licenseKeys.isActive, true)
-        )
-      );
-
-    // Revoke license keys
-    await tx
-      .update(licenseKeys)
-      .set({
-        isActive: false,
-        revokedAt: new Date(),
-        revocationReason: "Subscription cancelled",
-      })
-      .where(eq(licenseKeys.subscriptionId, existingSubscription.id));
-
-    // Log change
-    await tx.insert(subscriptionChanges).values({
-      subscriptionId: existingSubscription.id,
-      customerId: existingSubscription.customerId,
-      changeType: "cancellation",
-      reason: "Subscription deleted in Stripe",
-      effectiveDate: new Date(),
-      createdAt: new Date(),
-    });
-
-    return licenses;
-  });
-
-  // =========================================================================
-  // POST-TRANSACTION NOTIFICATIONS (SSE)
-  // =========================================================================
-  const gracePeriodEnd = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days grace
-
-  for (const license of licensesToRevoke) {
-    // Send BOTH cancellation and revocation events
-    publishSubscriptionCancelled(license.licenseKey, {
-      cancelledAt: new Date(),
-      cancelImmediately: true,
-      gracePeriodEnd,
-      reason: "Subscription deleted in Stripe",
-    });
-
-    publishLicenseRevoked(license.licenseKey, {
-      reason: "Subscription cancelled - immediate deactivation",
-    });
-  }
+  await cancelSubscription(existingSubscription, "Subscription deleted in Stripe");
 }
 
 export async function handlePaymentSucceeded(invoice: StripeInvoiceData) {
@@ -989,6 +1282,12 @@ export async function handlePaymentSucceeded(invoice: StripeInvoiceData) {
     return true;
   });
 
+  // Dunning: the invoice is paid, stop reminders and restore suspended keys
+  await recoverDunningCase(invoice.id);
+
+  // Receipt with our PDF invoice attached
+  await sendPaymentReceipt(invoice, subscription.customerId);
+
   // 🔔 SSE: Notify desktop apps if status changed from past_due to active
   if (previousStatus === "past_due") {
     const licenseKeysList = await getLicenseKeysForSubscription(
@@ -1011,6 +1310,56 @@ export async function handlePaymentSucceeded(invoice: StripeInvoiceData) {
   }
 }
 
+/**
+ * Email the customer their paid invoice as a PDF
+ * Failures are logged, not thrown, so Stripe doesn't redeliver the payment
+ */
+async function sendPaymentReceipt(
+  invoice: StripeInvoiceData,
+  customerId: string
+) {
+  // Nothing to receipt for trial starts and fully discounted invoices
+  if (!invoice.amount_paid) return;
+
+  try {
+    // invoice.paid may arrive after this event; store the paid invoice first
+    await handleInvoiceCreatedOrUpdated(invoice);
+
+    const [record] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(eq(invoices.stripeInvoiceId, invoice.id))
+      .limit(1);
+    const [recipient] = await db
+      .select({ email: customers.email, name: users.name })
+      .from(customers)
+      .leftJoin(users, eq(customers.userId, users.id))
+      .where(eq(customers.id, customerId))
+      .limit(1);
+    if (!record || !recipient) return;
+
+    const document = await getInvoicePdfData(record.id);
+    const result = await sendPaymentReceiptEmail({
+      email: recipient.email,
+      userName: recipient.name || undefined,
+      invoiceNumber: document.number,
+      amountPaid: invoice.amount_paid,
+      currency: invoice.currency,
+      pdf: renderInvoicePdf(document),
+      pdfFilename: getInvoicePdfFilename(document),
+    });
+
+    if (!result.success) {
+      console.error(
+        `Failed to send receipt for invoice ${invoice.id}:`,
+        result.error
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to send receipt for invoice ${invoice.id}:`, error);
+  }
+}
+
 export async function handlePaymentFailed(invoice: StripeInvoiceData) {
   const subscriptionId = invoice.subscription;
   if (!subscriptionId) return;
@@ -1085,10 +1434,16 @@ export async function handlePaymentFailed(invoice: StripeInvoiceData) {
   // POST-TRANSACTION NOTIFICATIONS (SSE)
   // =========================================================================
 
+  // Dunning: open a case for this invoice and send the day 0 email
+  // (steps are recorded, so Stripe retries of this webhook don't resend)
+  const dunningCase = await openDunningCase(subscription, invoice);
+  await processDunningCase(dunningCase);
+
   // 🔔 SSE: Notify desktop apps about payment failure / past due status
   const licenseKeysList = await getLicenseKeysForSubscription(subscription.id);
-  const pastDueGracePeriodEnd = new Date(
-    Date.now() + 3 * 24 * 60 * 60 * 1000 // 3 days grace for past_due
+  // Terminals keep working until the dunning schedule suspends them
+  const pastDueGracePeriodEnd = getDunningSuspensionDate(
+    dunningCase.startedAt
   );
 
   for (const licenseKey of licenseKeysList) {
@@ -1105,7 +1460,10 @@ export async function handlePaymentFailed(invoice: StripeInvoiceData) {
         previousStatus: previousStatus || "unknown",
         newStatus: "past_due",
         shouldDisable: true,
-        gracePeriodRemaining: 3 * 24 * 60 * 60 * 1000,
+        gracePeriodRemaining: Math.max(
+          0,
+          pastDueGracePeriodEnd.getTime() - Date.now()
+        ),
       });
     }
   }
@@ -1434,6 +1792,7 @@ export async function handleInvoiceCreatedOrUpdated(
 
   // Find subscription if exists
   let subscriptionId: string | null = null;
+  let subscriptionDiscount: AppliedDiscount | null = null;
   if (invoice.subscription) {
     const subId =
       typeof invoice.subscription === "string"
@@ -1445,10 +1804,23 @@ export async function handleInvoiceCreatedOrUpdated(
       .where(eq(subscriptions.stripeSubscriptionId, subId))
       .limit(1);
     subscriptionId = sub?.id || null;
+    subscriptionDiscount =
+      ((sub?.metadata as { discount?: AppliedDiscount } | null)?.discount) ||
+      null;
   }
 
+  // Promotion code discount shown in billing history
+  const discount = (invoice.total_discount_amounts || []).reduce(
+    (sum, entry) => sum + entry.amount,
+    0
+  );
+  const promotionCode =
+    discount > 0 ? subscriptionDiscount?.code || null : null;
+
+  const tax = getInvoiceTaxAmount(invoice);
+
   // Upsert invoice
-  await db
+  const [invoiceRecord] = await db
     .insert(invoices)
     .values({
       customerId: customer.id,
@@ -1462,7 +1834,9 @@ export async function handleInvoiceCreatedOrUpdated(
       number: invoice.number || null,
       status: invoice.status || "open",
       subtotal: invoice.subtotal || 0,
-      tax: invoice.tax || 0,
+      tax,
+      discount,
+      promotionCode,
       total: invoice.total || 0,
       amountDue: invoice.amount_due || 0,
       amountPaid: invoice.amount_paid || 0,
@@ -1493,6 +1867,7 @@ export async function handleInvoiceCreatedOrUpdated(
       target: invoices.stripeInvoiceId,
       set: {
         status: invoice.status || "open",
+        tax,
         amountPaid: invoice.amount_paid || 0,
         amountRemaining: invoice.amount_remaining || 0,
         paidAt:
@@ -1501,7 +1876,11 @@ export async function handleInvoiceCreatedOrUpdated(
             : null,
         updatedAt: new Date(),
       },
-    });
+    })
+    .returning({ id: invoices.id });
+
+  // Per-line net and tax amounts for billing history
+  await syncInvoiceLineItems(invoiceRecord.id, invoice);
 
   console.log(`✅ Invoice synced: ${invoice.id} (${invoice.status})`);
 }
@@ -1532,3 +1911,158 @@ export async function handleInvoicePaymentFailed(invoice: StripeInvoiceData) {
 
   console.log(`⚠️ Invoice payment failed: ${invoice.id}`);
 }
+
+// ============================================================================
+// CREDIT NOTE HANDLERS
+// ============================================================================
+
+export async function handleCreditNoteCreatedOrUpdated(
+  creditNote: StripeCreditNoteData
+) {
+  const stripeCustomerId =
+    typeof creditNote.customer === "string"
+      ? creditNote.customer
+      : creditNote.customer.id;
+  const stripeInvoiceId =
+    typeof creditNote.invoice === "string"
+      ? creditNote.invoice
+      : creditNote.invoice.id;
+
+  const [customer] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(eq(customers.stripeCustomerId, stripeCustomerId))
+    .limit(1);
+
+  if (!customer) {
+    console.warn(
+      `Credit note event for unknown customer: ${stripeCustomerId}`
+    );
+    return;
+  }
+
+  const [invoice] = await db
+    .select({ id: invoices.id })
+    .from(invoices)
+    .where(eq(invoices.stripeInvoiceId, stripeInvoiceId))
+    .limit(1);
+
+  const tax = (creditNote.total_taxes || []).reduce(
+    (sum, entry) => sum + entry.amount,
+    0
+  );
+  const lines: CreditNoteLine[] = (creditNote.lines?.data || []).map(
+    (line) => ({
+      description: line.description || "Credit",
+      quantity: line.quantity || 1,
+      amount: line.amount,
+      taxAmount: (line.taxes || []).reduce((sum, t) => sum + t.amount, 0),
+    })
+  );
+
+  const values = {
+    status: creditNote.status,
+    reason: creditNote.reason,
+    subtotal: creditNote.total - tax,
+    tax,
+    total: creditNote.total,
+    currency: creditNote.currency,
+    lines,
+    memo: creditNote.memo,
+    voidedAt: creditNote.voided_at
+      ? new Date(creditNote.voided_at * 1000)
+      : null,
+  };
+
+  await db
+    .insert(creditNotes)
+    .values({
+      ...values,
+      customerId: customer.id,
+      invoiceId: invoice?.id || null,
+      stripeCreditNoteId: creditNote.id,
+      stripeInvoiceId,
+      number: creditNote.number,
+      issuedAt: new Date(creditNote.created * 1000),
+    })
+    .onConflictDoUpdate({
+      target: creditNotes.stripeCreditNoteId,
+      set: { ...values, updatedAt: new Date() },
+    });
+
+  console.log(
+    `✅ Credit note synced: ${creditNote.id} (${creditNote.status})`
+  );
+}
+
+// ============================================================================
+// REFUND HANDLERS
+// ============================================================================
+
+/**
+ * Sync refunds made in Stripe (or from the admin console) to payments.
+ * Each refund is recorded once, keyed on its Stripe refund ID.
+ */
+export async function handleChargeRefunded(charge: StripeChargeData) {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent?.id ?? null;
+  const stripeCustomerId =
+    typeof charge.customer === "string"
+      ? charge.customer
+      : charge.customer?.id ?? null;
+
+  // Invoice payments are stored under the invoice ID when Stripe gave us no
+  // payment intent
+  let refundedPayment: typeof payments.$inferSelect | undefined;
+  if (paymentIntentId) {
+    const invoiceId = await getInvoiceIdForPayment(paymentIntentId);
+    const stripePaymentIds = invoiceId
+      ? [paymentIntentId, invoiceId]
+      : [paymentIntentId];
+    [refundedPayment] = await db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          or(...stripePaymentIds.map((id) => eq(payments.stripePaymentId, id))),
+          ne(payments.paymentType, "refund")
+        )
+      )
+      .limit(1);
+  }
+
+  let customerId = refundedPayment?.customerId;
+  if (!customerId && stripeCustomerId) {
+    const [customer] = await db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(eq(customers.stripeCustomerId, stripeCustomerId))
+      .limit(1);
+    customerId = customer?.id;
+  }
+
+  if (!customerId) {
+    console.warn(`Refund for unknown customer on charge: ${charge.id}`);
+    return;
+  }
+
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  for (const refund of refunds.data) {
+    if (refund.status !== "succeeded" && refund.status !== "pending") continue;
+
+    await recordRefund({
+      customerId,
+      refundedPayment: refundedPayment ?? null,
+      stripeRefundId: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason: refund.metadata?.reason || refund.reason,
+    });
+  }
+
+  console.log(
+    `✅ Refunds synced for charge ${charge.id} (${charge.amount_refunded} ${charge.currency} refunded)`
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Event Acknowledgments
+ *
+ * Records that a terminal processed (or failed to process) an event.
+ * Shared by POST /api/events/acknowledge and inline WebSocket acks.
+ *
+ * A targeted event expects acks from its targeted terminals only; acks from
+ * any other terminal are refused. Acks on terminal_command events also
+ * update the command's delivery status.
+ */
+
+import { db } from "@/lib/db";
+import {
+  eventAcknowledgments,
+  subscriptionEvents,
+  type EventAcknowledgment,
+  type SubscriptionEvent as SubscriptionEventRecord,
+} from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import type { EventTarget } from "./types";
+import { recordCommandDelivery } from "@/lib/license/terminal-commands";
+
+export const ACKNOWLEDGMENT_STATUSES = ["success", "failed", "skipped"] as const;
+export type AcknowledgmentStatus = (typeof ACKNOWLEDGMENT_STATUSES)[number];
+
+export type AcknowledgmentResult =
+  | { outcome: "recorded" | "duplicate"; acknowledgment: EventAcknowledgment }
+  | { outcome: "not_targeted"; acknowledgment: null };
+
+/**
+ * Machines expected to acknowledge an event (null = any terminal)
+ */
+export function getExpectedAcknowledgers(
+  event: Pick<SubscriptionEventRecord, "target">
+): string[] | null {
+  const target = event.target as EventTarget | null;
+  return target ? target.machineIdHashes || [] : null;
+}
+
+/**
+ * Record an acknowledgment, once per event and machine
+ */
+export async function recordEventAcknowledgment(ack: {
+  eventId: string;
+  licenseKey: string;
+  machineIdHash?: string | null;
+  status: AcknowledgmentStatus;
+  errorMessage?: string | null;
+  processingTimeMs?: number | null;
+}): Promise<AcknowledgmentResult> {
+  const { eventId, licenseKey, machineIdHash, status } = ack;
+
+  console.log(
+    `[Event ACK] Received acknowledgment for ${eventId} from ${licenseKey.substring(
+      0,
+      15
+    )}... - Status: ${status}`
+  );
+
+  // Check if event exists in subscription_events table
+  const event = await db
+    .select()
+    .from(subscriptionEvents)
+    .where(eq(subscriptionEvents.eventId, eventId))
+    .limit(1);
+
+  if (event.length === 0) {
+    console.warn(
+      `[Event ACK] Event ${eventId} not found in subscription_events table`
+    );
+    // Don't fail - event might be old and cleaned up
+  } else {
+    const expected = getExpectedAcknowledgers(event[0]);
+    if (expected && !expected.includes(machineIdHash || "")) {
+      console.warn(
+        `[Event ACK] Event ${eventId} isn't targeted at this machine, ignoring ack`
+      );
+      return { outcome: "not_targeted", acknowledgment: null };
+    }
+  }
+
+  // Check if already acknowledged by this machine
+  const existingAck = await db
+    .select()
+    .from(eventAcknowledgments)
+    .where(
+      and(
+        eq(eventAcknowledgments.eventId, eventId),
+        eq(eventAcknowledgments.machineIdHash, machineIdHash || "")
+      )
+    )
+    .limit(1);
+
+  if (existingAck.length > 0) {
+    console.log(
+      `[Event ACK] Event ${eventId} already acknowledged by this machine`
+    );
+    return { outcome: "duplicate", acknowledgment: existingAck[0] };
+  }
+
+  // Insert acknowledgment
+  const acknowledgment = await db
+    .insert(eventAcknowledgments)
+    .values({
+      eventId,
+      licenseKey,
+      machineIdHash: machineIdHash || null,
+      status,
+      errorMessage: ack.errorMessage || null,
+      processingTimeMs: ack.processingTimeMs || null,
+    })
+    .returning();
+
+  console.log(`[Event ACK] ✅ Acknowledgment recorded: ${acknowledgment[0].id}`);
+
+  // If status is "failed" and this is a critical event, trigger retry mechanism
+  if (status === "failed") {
+    console.warn(
+      `[Event ACK] ⚠️ Event ${eventId} processing failed: ${ack.errorMessage}`
+    );
+    // Retry mechanism will pick this up in background job
+  }
+
+  // Commands track delivery through their event's ack
+  if (event[0]?.eventType === "terminal_command") {
+    await recordCommandDelivery({
+      eventId,
+      status,
+      errorMessage: ack.errorMessage,
+    });
+  }
+
+  return { outcome: "recorded", acknowledgment: acknowledgment[0] };
+}
+
+/**
+ * Whether an event has all the successful acks it expects
+ * One from every targeted terminal, or any one for a license-wide event.
+ */
+export async function isFullyAcknowledged(
+  event: Pick<SubscriptionEventRecord, "eventId" | "target">
+): Promise<boolean> {
+  const acks = await db
+    .select({ machineIdHash: eventAcknowledgments.machineIdHash })
+    .from(eventAcknowledgments)
+    .where(
+      and(
+        eq(eventAcknowledgments.eventId, event.eventId),
+        eq(eventAcknowledgments.status, "success")
+      )
+    );
+
+  const expected = getExpectedAcknowledgers(event);
+  if (!expected) {
+    return acks.length > 0;
+  }
+  return expected.every((machineIdHash) =>
+    acks.some((ack) => ack.machineIdHash === machineIdHash)
+  );
+}
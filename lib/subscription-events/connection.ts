@@ -0,0 +1,369 @@
+/**
+ * Event Stream Connections
+ *
+ * Shared by the SSE stream and the WebSocket transport: validates the
+ * license key (and machine) a terminal connects with, builds the events
+ * sent as soon as it's connected, and replays persisted events after the
+ * terminal's Last-Event-ID before switching to live ones.
+ */
+
+import { db } from "@/lib/db";
+import {
+  licenseKeys,
+  activations,
+  subscriptions,
+  subscriptionEvents,
+  eventAcknowledgments,
+  type SubscriptionEvent as SubscriptionEventRecord,
+} from "@/lib/db/schema";
+import { eq, and, or, asc, gt, inArray, isNull, sql } from "drizzle-orm";
+import {
+  createSubscriptionEvent,
+  isEventForMachine,
+  type EventTarget,
+  type SubscriptionEvent,
+  type LicenseKeyRotatedEvent,
+  type SubscriptionPausedEvent,
+} from "./types";
+import { subscribeToLicense } from "./redis-publisher";
+import {
+  resolveLicenseKey,
+  getPreviousLicenseKeys,
+} from "@/lib/license/rotation";
+
+// Heartbeat interval (30 seconds)
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Connection timeout (5 minutes of no activity)
+export const CONNECTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Most events replayed on a reconnect (persisted events expire after 24h)
+const MAX_REPLAY_EVENTS = 500;
+
+export interface EventConnectionValidation {
+  valid: boolean;
+  error?: string;
+  licenseKey?: string;
+  rotation?: LicenseKeyRotatedEvent["data"];
+  pause?: SubscriptionPausedEvent["data"];
+}
+
+/**
+ * Generate a unique connection ID (for logging and heartbeats)
+ */
+export function generateConnectionId(): string {
+  return `conn_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Validate license key and machine (optional)
+ * A rotated key is resolved to its replacement during the overlap window;
+ * the key actually validated is returned as `licenseKey`. A paused
+ * subscription is returned as `pause` so the terminal goes read-only.
+ */
+export async function validateEventConnection(
+  licenseKey: string,
+  machineIdHash?: string
+): Promise<EventConnectionValidation> {
+  const requestedKey = licenseKey.toUpperCase().trim();
+  const normalizedKey = await resolveLicenseKey(requestedKey);
+
+  console.log(
+    `[Events] Validating license: ${normalizedKey.substring(
+      0,
+      15
+    )}..., machineId: ${machineIdHash?.substring(0, 20)}...`
+  );
+
+  // Check license exists and is active
+  const [license] = await db
+    .select()
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.licenseKey, normalizedKey),
+        eq(licenseKeys.isActive, true)
+      )
+    )
+    .limit(1);
+
+  if (!license) {
+    console.log(
+      `[Events] License not found or inactive: ${normalizedKey.substring(
+        0,
+        15
+      )}...`
+    );
+    return { valid: false, error: "License key not found or inactive" };
+  }
+
+  console.log(`[Events] License found: ${license.id}`);
+
+  // If machine hash provided, verify it's activated
+  if (machineIdHash) {
+    // First, check what activations exist for this license
+    const allActivations = await db
+      .select()
+      .from(activations)
+      .where(eq(activations.licenseKey, normalizedKey));
+
+    console.log(
+      `[Events] Found ${allActivations.length} activations for license:`,
+      allActivations.map((a) => ({
+        machineIdHash: a.machineIdHash?.substring(0, 20) + "...",
+        isActive: a.isActive,
+      }))
+    );
+
+    const [activation] = await db
+      .select()
+      .from(activations)
+      .where(
+        and(
+          eq(activations.licenseKey, normalizedKey),
+          eq(activations.machineIdHash, machineIdHash),
+          eq(activations.isActive, true)
+        )
+      )
+      .limit(1);
+
+    if (!activation) {
+      console.log(
+        `[Events] Machine not activated. Looking for: ${machineIdHash?.substring(
+          0,
+          20
+        )}...`
+      );
+      return { valid: false, error: "Machine not activated for this license" };
+    }
+
+    console.log(`[Events] Machine activation found: ${activation.id}`);
+  }
+
+  let pause: SubscriptionPausedEvent["data"] | undefined;
+  if (license.subscriptionId) {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.id, license.subscriptionId))
+      .limit(1);
+
+    if (subscription?.status === "paused" && subscription.resumesAt) {
+      pause = {
+        pausedAt: (
+          subscription.pausedAt || subscription.updatedAt
+        ).toISOString(),
+        resumesAt: subscription.resumesAt.toISOString(),
+        readOnly: true,
+      };
+    }
+  }
+
+  if (normalizedKey !== requestedKey) {
+    const [rotatedLicense] = await db
+      .select()
+      .from(licenseKeys)
+      .where(eq(licenseKeys.licenseKey, requestedKey))
+      .limit(1);
+
+    return {
+      valid: true,
+      licenseKey: normalizedKey,
+      pause,
+      rotation: {
+        rotatedAt: rotatedLicense.updatedAt.toISOString(),
+        previousLicenseKey: requestedKey,
+        newLicenseKey: normalizedKey,
+        overlapEndsAt:
+          rotatedLicense.rotationOverlapEndsAt?.toISOString() ||
+          new Date().toISOString(),
+      },
+    };
+  }
+
+  return { valid: true, licenseKey: normalizedKey, pause };
+}
+
+/**
+ * Events sent when a terminal connects
+ * A connection heartbeat, then the key rotation and pause the terminal may
+ * have missed while offline.
+ */
+export function getConnectionEvents(
+  licenseKey: string,
+  validation: EventConnectionValidation,
+  connectionId: string
+): SubscriptionEvent[] {
+  const events: SubscriptionEvent[] = [
+    createSubscriptionEvent("heartbeat_ack", licenseKey, {
+      serverTime: new Date().toISOString(),
+      connectionId,
+    }),
+  ];
+
+  // Connected with a rotated key: hand over the new key straight away
+  // (the original rotation event may have been missed while offline)
+  if (validation.rotation) {
+    events.push(
+      createSubscriptionEvent<LicenseKeyRotatedEvent>(
+        "license_key_rotated",
+        validation.rotation.previousLicenseKey,
+        validation.rotation
+      )
+    );
+  }
+
+  // Subscription paused while the terminal was offline: stay read-only
+  if (validation.pause) {
+    events.push(
+      createSubscriptionEvent<SubscriptionPausedEvent>(
+        "subscription_paused",
+        licenseKey,
+        validation.pause
+      )
+    );
+  }
+
+  return events;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Parse a Last-Event-ID (the sequence of the last event the terminal got)
+ * IDs from before sequences existed aren't numeric and are ignored.
+ */
+export function parseLastEventId(
+  value: string | null | undefined
+): number | null {
+  const trimmed = value?.trim();
+  return trimmed && /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+function toSubscriptionEvent(
+  record: SubscriptionEventRecord
+): SubscriptionEvent {
+  return {
+    id: record.eventId,
+    type: record.eventType,
+    timestamp: record.createdAt.toISOString(),
+    licenseKey: record.licenseKey,
+    sequence: record.sequence ?? undefined,
+    ...(record.target ? { target: record.target as EventTarget } : {}),
+    data: record.payload,
+  } as SubscriptionEvent;
+}
+
+/**
+ * Persisted events after a sequence, oldest first
+ * Skips events targeted at other terminals and ones this machine already
+ * acknowledged (failed ones are replayed).
+ */
+export async function getReplayEvents(
+  licenseKey: string,
+  afterSequence: number,
+  machineIdHash?: string | null
+): Promise<SubscriptionEvent[]> {
+  // Sequences carry over on rotation, so the old keys' events interleave cleanly
+  const licenseKeysToReplay = [
+    licenseKey,
+    ...(await getPreviousLicenseKeys(licenseKey)),
+  ];
+
+  const rows = await db
+    .select({ event: subscriptionEvents })
+    .from(subscriptionEvents)
+    .leftJoin(
+      eventAcknowledgments,
+      and(
+        eq(eventAcknowledgments.eventId, subscriptionEvents.eventId),
+        eq(eventAcknowledgments.machineIdHash, machineIdHash || ""),
+        inArray(eventAcknowledgments.status, ["success", "skipped"])
+      )
+    )
+    .where(
+      and(
+        inArray(subscriptionEvents.licenseKey, licenseKeysToReplay),
+        gt(subscriptionEvents.sequence, afterSequence),
+        gt(subscriptionEvents.expiresAt, new Date()),
+        isNull(eventAcknowledgments.id),
+        machineIdHash
+          ? or(
+              isNull(subscriptionEvents.target),
+              sql`${subscriptionEvents.target}->'machineIdHashes' @> ${JSON.stringify(
+                [machineIdHash]
+              )}::jsonb`
+            )
+          : isNull(subscriptionEvents.target)
+      )
+    )
+    .orderBy(asc(subscriptionEvents.sequence))
+    .limit(MAX_REPLAY_EVENTS);
+
+  return rows.map((row) => toSubscriptionEvent(row.event));
+}
+
+/**
+ * Subscribe to live events, first replaying those after lastSequence
+ * Live events arriving during the replay are held back and delivered after
+ * it (minus any the replay already covered), so nothing is lost or repeated.
+ * If the replay fails the connection carries on with live events.
+ * Events targeted at other terminals are dropped.
+ *
+ * @returns Cleanup function to unsubscribe
+ */
+export async function subscribeWithReplay(
+  licenseKey: string,
+  options: { lastSequence: number | null; machineIdHash?: string | null },
+  callback: (event: SubscriptionEvent) => void
+): Promise<() => void> {
+  const { lastSequence, machineIdHash } = options;
+  if (lastSequence === null) {
+    return subscribeToLicense(licenseKey, (event) => {
+      if (isEventForMachine(event, machineIdHash)) callback(event);
+    });
+  }
+
+  let held: SubscriptionEvent[] | null = [];
+  const unsubscribe = subscribeToLicense(licenseKey, (event) => {
+    if (!isEventForMachine(event, machineIdHash)) return;
+    if (held) {
+      held.push(event);
+    } else {
+      callback(event);
+    }
+  });
+
+  let replayedUpTo = lastSequence;
+  try {
+    const events = await getReplayEvents(
+      licenseKey,
+      lastSequence,
+      machineIdHash
+    );
+    for (const event of events) {
+      callback(event);
+      replayedUpTo = Math.max(replayedUpTo, event.sequence ?? 0);
+    }
+    console.log(
+      `[Events] Replayed ${events.length} events after ${lastSequence} for ${licenseKey.substring(
+        0,
+        15
+      )}...`
+    );
+  } catch (error) {
+    console.error("[Events] Failed to replay events:", error);
+  }
+
+  const pending = held;
+  held = null;
+  for (const event of pending) {
+    if (event.sequence === undefined || event.sequence > replayedUpTo) {
+      callback(event);
+    }
+  }
+
+  return unsubscribe;
+}
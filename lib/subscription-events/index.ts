@@ -23,10 +23,15 @@ export {
   publishSubscriptionReactivated,
   publishSubscriptionUpdated,
   publishSubscriptionPastDue,
+  publishPaymentOverdue,
   publishPaymentSucceeded,
+  publishSubscriptionPaused,
+  publishSubscriptionResumed,
   publishLicenseRevoked,
   publishLicenseReactivated,
+  publishLicenseKeyRotated,
   publishPlanChanged,
+  publishConfigUpdated,
   getLicenseKeysForSubscription,
   broadcastToSubscription,
 } from "./redis-publisher";
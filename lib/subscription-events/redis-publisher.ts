@@ -6,7 +6,7 @@
  *
  * Architecture:
  * - In production (Redis configured): Events published to Redis, all server
- *   instances receive and forward to their connected SSE clients
+ *   instances receive and forward to their connected SSE and WebSocket clients
  * - In development (no Redis): Falls back to in-memory EventEmitter which
  *   works for single-instance deployments
  *
@@ -23,11 +23,18 @@ import {
   SubscriptionEvent,
   createSubscriptionEvent,
   generateEventId,
+  type EventTarget,
   type SubscriptionEventType,
 } from "./types";
 import { db } from "@/lib/db";
-import { subscriptionEvents, licenseKeys } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  subscriptionEvents,
+  licenseKeys,
+  activations,
+} from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import type { Entitlements } from "@/lib/license/entitlements";
+import type { TerminalConfig } from "@/lib/license/terminal-config";
 
 // ============================================================================
 // CHANNEL NAMING
@@ -49,18 +56,21 @@ function getChannelName(licenseKey: string): string {
  * Used in development or single-instance deployments
  */
 class InMemoryEventEmitter extends EventEmitter {
-  private static instance: InMemoryEventEmitter;
-
   private constructor() {
     super();
     this.setMaxListeners(1000);
   }
 
   static getInstance(): InMemoryEventEmitter {
-    if (!InMemoryEventEmitter.instance) {
-      InMemoryEventEmitter.instance = new InMemoryEventEmitter();
+    // Kept on globalThis: the custom server (WebSocket transport) and Next's
+    // route bundles each load their own copy of this module
+    const globalForEvents = globalThis as {
+      subscriptionEventEmitter?: InMemoryEventEmitter;
+    };
+    if (!globalForEvents.subscriptionEventEmitter) {
+      globalForEvents.subscriptionEventEmitter = new InMemoryEventEmitter();
     }
-    return InMemoryEventEmitter.instance;
+    return globalForEvents.subscriptionEventEmitter;
   }
 }
 
@@ -71,41 +81,92 @@ const fallbackEmitter = InMemoryEventEmitter.getInstance();
 // ============================================================================
 
 /**
- * Publish an event to all subscribers of a license key
- * Uses Redis if configured, otherwise falls back to in-memory
- * Persists events to database for 24-hour replay capability
+ * Add a target group's active terminals to its machineIdHashes
  */
-export async function publishEvent(event: SubscriptionEvent): Promise<void> {
-  const channel = getChannelName(event.licenseKey);
-  const serializedEvent = JSON.stringify(event);
+async function resolveEventTarget(
+  licenseKey: string,
+  target: EventTarget
+): Promise<EventTarget> {
+  const members = await db
+    .select({ machineIdHash: activations.machineIdHash })
+    .from(activations)
+    .where(
+      and(
+        eq(activations.licenseKey, licenseKey.toUpperCase()),
+        eq(activations.terminalGroup, target.group!),
+        eq(activations.isActive, true)
+      )
+    );
 
-  console.log(`[SSE Publisher] Publishing ${event.type} to ${channel}`);
+  const machineIdHashes = new Set(target.machineIdHashes || []);
+  for (const member of members) {
+    if (member.machineIdHash) machineIdHashes.add(member.machineIdHash);
+  }
+  return { ...target, machineIdHashes: [...machineIdHashes] };
+}
 
-  // Step 1: Persist to database for event replay (24hr TTL)
-  try {
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour TTL
-
-    await db.insert(subscriptionEvents).values({
-      eventId: event.id,
-      licenseKey: event.licenseKey,
-      eventType: event.type,
-      payload: event.data,
-      createdAt: new Date(event.timestamp),
-      expiresAt,
-    });
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
-    console.log(
-      `[SSE Publisher] ✅ Persisted to DB: ${
-        event.id
-      } (expires: ${expiresAt.toISOString()})`
-    );
-  } catch (error) {
-    // Log but don't fail - persistence is best-effort
-    console.error("[SSE Publisher] ⚠️ Failed to persist event to DB:", error);
+/**
+ * Number an event and persist it for replay (24hr TTL)
+ * A republished event (retry job) keeps the sequence it was first given.
+ */
+async function persistEvent(
+  tx: DbTransaction,
+  event: SubscriptionEvent
+): Promise<void> {
+  const [existing] = await tx
+    .select({ sequence: subscriptionEvents.sequence })
+    .from(subscriptionEvents)
+    .where(eq(subscriptionEvents.eventId, event.id))
+    .limit(1);
+
+  if (existing) {
+    event.sequence = existing.sequence ?? undefined;
+    return;
+  }
+
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour TTL
+
+  // Next sequence number for this license. The row stays locked until the
+  // transaction commits, after the event has been published.
+  const [license] = await tx
+    .update(licenseKeys)
+    .set({ eventSequence: sql`${licenseKeys.eventSequence} + 1` })
+    .where(eq(licenseKeys.licenseKey, event.licenseKey.toUpperCase()))
+    .returning({ eventSequence: licenseKeys.eventSequence });
+  if (license) {
+    event.sequence = license.eventSequence;
   }
 
-  // Step 2: Try Redis publish
+  await tx.insert(subscriptionEvents).values({
+    eventId: event.id,
+    licenseKey: event.licenseKey,
+    eventType: event.type,
+    sequence: event.sequence ?? null,
+    target: event.target ?? null,
+    payload: event.data,
+    createdAt: new Date(event.timestamp),
+    expiresAt,
+  });
+
+  console.log(
+    `[SSE Publisher] ✅ Persisted to DB: ${
+      event.id
+    } (expires: ${expiresAt.toISOString()})`
+  );
+}
+
+/**
+ * Send an event to subscribers via Redis, or in-memory as a fallback
+ */
+async function deliverEvent(
+  channel: string,
+  event: SubscriptionEvent
+): Promise<void> {
+  // Try Redis publish
+  const serializedEvent = JSON.stringify(event);
   const publisher = getPublisher();
   if (publisher) {
     try {
@@ -121,11 +182,46 @@ export async function publishEvent(event: SubscriptionEvent): Promise<void> {
     }
   }
 
-  // Step 3: Fallback to in-memory
+  // Fallback to in-memory
   fallbackEmitter.emit(channel, event);
   console.log(`[SSE Publisher] Published via in-memory fallback: ${event.id}`);
 }
 
+/**
+ * Publish an event to all subscribers of a license key
+ * (connections filter targeted events down to their terminals)
+ * Uses Redis if configured, otherwise falls back to in-memory
+ * Persists events to database for 24-hour replay capability
+ */
+export async function publishEvent(event: SubscriptionEvent): Promise<void> {
+  const channel = getChannelName(event.licenseKey);
+
+  console.log(`[SSE Publisher] Publishing ${event.type} to ${channel}`);
+
+  // Not best-effort: without its members a group event reaches no terminal
+  if (event.target?.group) {
+    event.target = await resolveEventTarget(event.licenseKey, event.target);
+  }
+
+  let delivered = false;
+  try {
+    // Published while the license row is locked, so concurrent events
+    // reach subscribers in sequence order
+    await db.transaction(async (tx) => {
+      await persistEvent(tx, event);
+      await deliverEvent(channel, event);
+      delivered = true;
+    });
+  } catch (error) {
+    // Log but don't fail - persistence is best-effort
+    console.error("[SSE Publisher] ⚠️ Failed to persist event to DB:", error);
+  }
+
+  if (!delivered) {
+    await deliverEvent(channel, event);
+  }
+}
+
 /**
  * Synchronous version of publishEvent for backward compatibility
  * Logs warning if Redis publish fails
@@ -222,9 +318,10 @@ export function getSubscriberCount(licenseKey: string): number {
 export function publishGenericEvent(
   licenseKey: string,
   eventType: SubscriptionEventType,
-  data: any
+  data: any,
+  target?: EventTarget
 ): void {
-  const event = createSubscriptionEvent(eventType, licenseKey, data);
+  const event = createSubscriptionEvent(eventType, licenseKey, data, target);
   publishEventSync(event);
 }
 
@@ -344,13 +441,19 @@ export function publishLicenseRevoked(
   licenseKey: string,
   data: {
     reason: string;
-  }
+  },
+  target?: EventTarget
 ): void {
-  const event = createSubscriptionEvent("license_revoked", licenseKey, {
-    revokedAt: new Date().toISOString(),
-    reason: data.reason,
-    shouldDisable: true,
-  });
+  const event = createSubscriptionEvent(
+    "license_revoked",
+    licenseKey,
+    {
+      revokedAt: new Date().toISOString(),
+      reason: data.reason,
+      shouldDisable: true,
+    },
+    target
+  );
   publishEventSync(event);
 }
 
@@ -372,6 +475,85 @@ export function publishLicenseReactivated(
   publishEventSync(event);
 }
 
+/**
+ * Publish payment overdue banner event
+ */
+export function publishPaymentOverdue(
+  licenseKey: string,
+  data: {
+    amountDue: number;
+    currency: string;
+    suspendsAt: Date;
+  }
+): void {
+  const event = createSubscriptionEvent(
+    "subscription_payment_overdue",
+    licenseKey,
+    {
+      message: `Your subscription payment is overdue. Terminals will be suspended on ${data.suspendsAt.toDateString()} unless payment is received.`,
+      amountDue: data.amountDue,
+      currency: data.currency,
+      suspendsAt: data.suspendsAt.toISOString(),
+    }
+  );
+  publishEventSync(event);
+}
+
+/**
+ * Publish subscription paused event
+ */
+export function publishSubscriptionPaused(
+  licenseKey: string,
+  data: {
+    pausedAt: Date;
+    resumesAt: Date;
+  }
+): void {
+  const event = createSubscriptionEvent("subscription_paused", licenseKey, {
+    pausedAt: data.pausedAt.toISOString(),
+    resumesAt: data.resumesAt.toISOString(),
+    readOnly: true,
+  });
+  publishEventSync(event);
+}
+
+/**
+ * Publish subscription resumed event
+ */
+export function publishSubscriptionResumed(
+  licenseKey: string,
+  data: {
+    subscriptionStatus: string;
+    planId: string;
+  }
+): void {
+  const event = createSubscriptionEvent("subscription_resumed", licenseKey, {
+    resumedAt: new Date().toISOString(),
+    subscriptionStatus: data.subscriptionStatus,
+    planId: data.planId,
+  });
+  publishEventSync(event);
+}
+
+/**
+ * Publish license key rotated event
+ */
+export function publishLicenseKeyRotated(
+  licenseKey: string,
+  data: {
+    newLicenseKey: string;
+    overlapEndsAt: Date;
+  }
+): void {
+  const event = createSubscriptionEvent("license_key_rotated", licenseKey, {
+    rotatedAt: new Date().toISOString(),
+    previousLicenseKey: licenseKey,
+    newLicenseKey: data.newLicenseKey,
+    overlapEndsAt: data.overlapEndsAt.toISOString(),
+  });
+  publishEventSync(event);
+}
+
 /**
  * Publish plan changed event
  */
@@ -381,6 +563,7 @@ export function publishPlanChanged(
     previousPlanId: string;
     newPlanId: string;
     newFeatures: string[];
+    entitlements?: Entitlements;
     effectiveAt: Date;
   }
 ): void {
@@ -388,11 +571,36 @@ export function publishPlanChanged(
     previousPlanId: data.previousPlanId,
     newPlanId: data.newPlanId,
     newFeatures: data.newFeatures,
+    entitlements: data.entitlements,
     effectiveAt: data.effectiveAt.toISOString(),
   });
   publishEventSync(event);
 }
 
+/**
+ * Publish config updated event (a terminal's effective config)
+ */
+export function publishConfigUpdated(
+  licenseKey: string,
+  data: {
+    version: number;
+    config: TerminalConfig;
+  },
+  target?: EventTarget
+): void {
+  const event = createSubscriptionEvent(
+    "config_updated",
+    licenseKey,
+    {
+      version: data.version,
+      config: data.config,
+      updatedAt: new Date().toISOString(),
+    },
+    target
+  );
+  publishEventSync(event);
+}
+
 // ============================================================================
 // UTILITY: GET ALL LICENSE KEYS FOR A SUBSCRIPTION
 // ============================================================================
@@ -2,9 +2,14 @@
  * Subscription Events Types
  *
  * Shared type definitions for real-time subscription event notifications
- * between the web API and desktop app via SSE (Server-Sent Events).
+ * between the web API and desktop app via SSE (Server-Sent Events) or
+ * WebSocket.
  */
 
+import type { Entitlements } from "@/lib/license/entitlements";
+import type { TerminalConfig } from "@/lib/license/terminal-config";
+import type { TerminalCommandName } from "@/lib/license/terminal-commands";
+
 // ============================================================================
 // EVENT TYPES
 // ============================================================================
@@ -17,10 +22,16 @@ export type SubscriptionEventType =
   | "subscription_reactivated"
   | "subscription_updated"
   | "subscription_past_due"
+  | "subscription_payment_overdue"
   | "subscription_payment_succeeded"
+  | "subscription_paused"
+  | "subscription_resumed"
   | "license_revoked"
   | "license_reactivated"
+  | "license_key_rotated"
   | "plan_changed"
+  | "config_updated"
+  | "terminal_command"
   | "heartbeat_ack"
   | "terminal_added"
   | "terminal_removed"
@@ -29,6 +40,15 @@ export type SubscriptionEventType =
   | "state_sync"
   | "deactivation_broadcast"; // Server acknowledgment for connection health
 
+/**
+ * Terminals an event is meant for
+ * A group is resolved to its terminals' machineIdHashes when published.
+ */
+export interface EventTarget {
+  machineIdHashes?: string[];
+  group?: string;
+}
+
 /**
  * Base event structure
  */
@@ -37,6 +57,8 @@ export interface BaseSubscriptionEvent {
   type: SubscriptionEventType;
   timestamp: string; // ISO 8601
   licenseKey: string;
+  sequence?: number; // Per-license sequence, set once the event is persisted
+  target?: EventTarget; // Absent = every terminal on the license
 }
 
 /**
@@ -91,6 +113,20 @@ export interface SubscriptionPastDueEvent extends BaseSubscriptionEvent {
   };
 }
 
+/**
+ * Payment overdue event (dunning)
+ * Terminals should show a persistent banner until payment succeeds
+ */
+export interface SubscriptionPaymentOverdueEvent extends BaseSubscriptionEvent {
+  type: "subscription_payment_overdue";
+  data: {
+    message: string;
+    amountDue: number;
+    currency: string;
+    suspendsAt: string;
+  };
+}
+
 /**
  * Payment succeeded event
  */
@@ -105,6 +141,32 @@ export interface SubscriptionPaymentSucceededEvent
   };
 }
 
+/**
+ * Subscription paused event
+ * Terminals should switch to read-only mode (no new sales) until resumed
+ */
+export interface SubscriptionPausedEvent extends BaseSubscriptionEvent {
+  type: "subscription_paused";
+  data: {
+    pausedAt: string;
+    resumesAt: string;
+    readOnly: boolean;
+  };
+}
+
+/**
+ * Subscription resumed event
+ * Terminals leave read-only mode
+ */
+export interface SubscriptionResumedEvent extends BaseSubscriptionEvent {
+  type: "subscription_resumed";
+  data: {
+    resumedAt: string;
+    subscriptionStatus: string;
+    planId: string;
+  };
+}
+
 /**
  * License revoked event
  */
@@ -129,6 +191,21 @@ export interface LicenseReactivatedEvent extends BaseSubscriptionEvent {
   };
 }
 
+/**
+ * License key rotated event
+ * Sent on the old key's channel; terminals should store newLicenseKey and
+ * reconnect with it before overlapEndsAt, when the old key is revoked
+ */
+export interface LicenseKeyRotatedEvent extends BaseSubscriptionEvent {
+  type: "license_key_rotated";
+  data: {
+    rotatedAt: string;
+    previousLicenseKey: string;
+    newLicenseKey: string;
+    overlapEndsAt: string;
+  };
+}
+
 /**
  * Plan changed event
  */
@@ -138,10 +215,40 @@ export interface PlanChangedEvent extends BaseSubscriptionEvent {
     previousPlanId: string;
     newPlanId: string;
     newFeatures: string[];
+    entitlements?: Entitlements; // Effective entitlements after the change
     effectiveAt: string;
   };
 }
 
+/**
+ * Config updated event
+ * Targeted at each affected terminal with its effective config (license
+ * document plus any override); the terminal reports the version it applied
+ * in its next heartbeat
+ */
+export interface ConfigUpdatedEvent extends BaseSubscriptionEvent {
+  type: "config_updated";
+  data: {
+    version: number;
+    config: TerminalConfig;
+    updatedAt: string;
+  };
+}
+
+/**
+ * Terminal command event
+ * Targeted at one terminal. Acking the event marks the command delivered;
+ * the terminal then reports the outcome with a command result.
+ */
+export interface TerminalCommandEvent extends BaseSubscriptionEvent {
+  type: "terminal_command";
+  data: {
+    commandId: string;
+    command: TerminalCommandName;
+    issuedAt: string;
+  };
+}
+
 /**
  * Heartbeat acknowledgment (sent periodically to keep connection alive)
  */
@@ -175,10 +282,16 @@ export type SubscriptionEvent =
   | SubscriptionReactivatedEvent
   | SubscriptionUpdatedEvent
   | SubscriptionPastDueEvent
+  | SubscriptionPaymentOverdueEvent
   | SubscriptionPaymentSucceededEvent
+  | SubscriptionPausedEvent
+  | SubscriptionResumedEvent
   | LicenseRevokedEvent
   | LicenseReactivatedEvent
+  | LicenseKeyRotatedEvent
   | PlanChangedEvent
+  | ConfigUpdatedEvent
+  | TerminalCommandEvent
   | HeartbeatAckEvent
   | CoordinationEvent;
 
@@ -199,24 +312,43 @@ export function generateEventId(): string {
 export function createSubscriptionEvent<T extends SubscriptionEvent>(
   type: T["type"],
   licenseKey: string,
-  data: T["data"]
+  data: T["data"],
+  target?: EventTarget
 ): T {
   return {
     id: generateEventId(),
     type,
     timestamp: new Date().toISOString(),
     licenseKey,
+    ...(target && { target }),
     data,
   } as T;
 }
 
+/**
+ * Whether an event should be delivered to a terminal
+ * Targeted events only go to connections that identified their machine.
+ */
+export function isEventForMachine(
+  event: SubscriptionEvent,
+  machineIdHash: string | null | undefined
+): boolean {
+  if (!event.target) return true;
+  return (
+    !!machineIdHash &&
+    (event.target.machineIdHashes || []).includes(machineIdHash)
+  );
+}
+
 /**
  * Serialize event for SSE transmission
  */
 export function serializeEvent(event: SubscriptionEvent): string {
-  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(
-    event
-  )}\n\n`;
+  // The SSE id is the sequence, so reconnects can resume from Last-Event-ID.
+  // Unpersisted events (heartbeats) have none; without an id line the client
+  // keeps its last one.
+  const id = event.sequence !== undefined ? `id: ${event.sequence}\n` : "";
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
 }
 
 /**
@@ -229,3 +361,84 @@ export function parseEventData(data: string): SubscriptionEvent | null {
     return null;
   }
 }
+
+// ============================================================================
+// WEBSOCKET MESSAGES
+// ============================================================================
+
+/**
+ * Messages a terminal sends over the WebSocket transport
+ * requestId is echoed back on the matching reply.
+ */
+export type WebSocketClientMessage =
+  | {
+      type: "ack";
+      requestId?: string;
+      eventId: string;
+      status?: "success" | "failed" | "skipped";
+      errorMessage?: string;
+      processingTimeMs?: number;
+    }
+  | {
+      type: "heartbeat";
+      requestId?: string;
+      appVersion?: string;
+      sessionCount?: number;
+      transactionCount?: number;
+      configVersion?: number;
+    }
+  | {
+      type: "command_result";
+      requestId?: string;
+      commandId: string;
+      status: "succeeded" | "failed";
+      result?: Record<string, unknown>;
+      errorMessage?: string;
+    }
+  | {
+      type: "state_sync";
+      requestId?: string;
+      action: "initiate" | "acknowledge";
+      syncType?: string;
+      payload?: Record<string, unknown>;
+      targetMachineIdHashes?: string[];
+      syncId?: string;
+    };
+
+/**
+ * Messages the server sends over the WebSocket transport
+ * Events carry the same envelope as the SSE stream.
+ */
+export type WebSocketServerMessage =
+  | {
+      type: "event";
+      event: SubscriptionEvent;
+    }
+  | {
+      type: "reply";
+      requestId: string | null;
+      success: boolean;
+      data?: unknown;
+      error?: string;
+    };
+
+/**
+ * Serialize a message for WebSocket transmission
+ */
+export function serializeSocketMessage(message: WebSocketServerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Parse a WebSocket message from a terminal
+ */
+export function parseSocketMessage(
+  data: string
+): WebSocketClientMessage | null {
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === "string" ? message : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * WebSocket Event Transport
+ *
+ * Bidirectional alternative to the SSE stream on the same URL
+ * (/api/events/[licenseKey]?machineId=...). Terminals receive the same
+ * SubscriptionEvent envelopes, and send acks, heartbeats, command results
+ * and state-sync messages over the socket instead of separate HTTP calls. Like SSE, a
+ * reconnect resumes from Last-Event-ID (header or ?lastEventId=).
+ *
+ * Next route handlers can't accept upgrades, so this is attached by the
+ * custom server (server.ts). Deployments without it serve SSE only, which
+ * stays the fallback for terminals whose upgrade fails.
+ *
+ * Events come from the same Redis fan-out (or in-memory fallback) as SSE.
+ */
+
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  createSubscriptionEvent,
+  parseSocketMessage,
+  serializeSocketMessage,
+  type SubscriptionEvent,
+  type WebSocketClientMessage,
+  type WebSocketServerMessage,
+} from "./types";
+import {
+  validateEventConnection,
+  getConnectionEvents,
+  generateConnectionId,
+  parseLastEventId,
+  subscribeWithReplay,
+  HEARTBEAT_INTERVAL_MS,
+  CONNECTION_TIMEOUT_MS,
+} from "./connection";
+import {
+  recordEventAcknowledgment,
+  ACKNOWLEDGMENT_STATUSES,
+} from "./acknowledgments";
+import { processHeartbeat } from "@/lib/license/validator";
+import {
+  createRateLimitKey,
+  checkRateLimit,
+  LICENSE_RATE_LIMITS,
+} from "@/lib/rate-limit";
+import { recordCommandResult } from "@/lib/license/terminal-commands";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/api/response-helpers";
+import {
+  synchronizeTerminalState,
+  acknowledgeStateSync,
+} from "@/lib/terminal-coordination/coordination-system";
+
+const EVENTS_PATH = /^\/api\/events\/([^/]+)\/?$/;
+
+const wss = new WebSocketServer({ noServer: true });
+
+interface SocketConnection {
+  connectionId: string;
+  licenseKey: string;
+  machineIdHash: string | null;
+  lastSequence: number | null;
+}
+
+type Reply = Omit<
+  Extract<WebSocketServerMessage, { type: "reply" }>,
+  "type" | "requestId"
+>;
+
+// ============================================================================
+// UPGRADE
+// ============================================================================
+
+/**
+ * Handle an HTTP upgrade if it's for the event stream
+ * Returns false for any other path so the caller can pass it on.
+ */
+export function handleEventSocketUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): boolean {
+  const url = new URL(request.url || "/", "http://localhost");
+  const match = url.pathname.match(EVENTS_PATH);
+  if (!match) return false;
+
+  const licenseKey = decodeURIComponent(match[1]);
+  const machineIdHash = url.searchParams.get("machineId");
+  // Clients that can't set headers on the upgrade pass ?lastEventId=
+  const lastSequence = parseLastEventId(
+    (request.headers["last-event-id"] as string | undefined) ||
+      url.searchParams.get("lastEventId")
+  );
+
+  upgrade(request, socket, head, {
+    licenseKey,
+    machineIdHash,
+    lastSequence,
+  }).catch((error) => {
+    console.error("[WS] Upgrade failed:", error);
+    rejectUpgrade(socket, 500, "Internal server error");
+  });
+
+  return true;
+}
+
+async function upgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  params: Omit<SocketConnection, "connectionId">
+): Promise<void> {
+  const { licenseKey, machineIdHash } = params;
+  const validation = await validateEventConnection(
+    licenseKey,
+    machineIdHash || undefined
+  );
+  if (!validation.valid) {
+    console.error("[WS] ❌ Validation failed:", validation.error);
+    rejectUpgrade(socket, 401, validation.error || "Unauthorized");
+    return;
+  }
+
+  const connection: SocketConnection = {
+    connectionId: generateConnectionId(),
+    licenseKey: validation.licenseKey || licenseKey.toUpperCase(),
+    machineIdHash,
+    lastSequence: params.lastSequence,
+  };
+
+  wss.handleUpgrade(request, socket, head, (ws) => {
+    console.log(
+      `[WS] Client connected: ${
+        connection.connectionId
+      } for license ${connection.licenseKey.substring(0, 15)}...`
+    );
+
+    for (const event of getConnectionEvents(
+      connection.licenseKey,
+      validation,
+      connection.connectionId
+    )) {
+      send(ws, { type: "event", event });
+    }
+
+    serveConnection(ws, connection);
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, error: string): void {
+  const body = JSON.stringify({ error });
+  socket.write(
+    `HTTP/1.1 ${status} ${status === 401 ? "Unauthorized" : "Error"}\r\n` +
+      "Content-Type: application/json\r\n" +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      "Connection: close\r\n\r\n" +
+      body
+  );
+  socket.destroy();
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+function send(ws: WebSocket, message: WebSocketServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(serializeSocketMessage(message));
+  }
+}
+
+function serveConnection(ws: WebSocket, connection: SocketConnection): void {
+  const { connectionId, licenseKey } = connection;
+  let lastActivity = Date.now();
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+
+  // Replays events missed since the Last-Event-ID before going live
+  subscribeWithReplay(
+    licenseKey,
+    {
+      lastSequence: connection.lastSequence,
+      machineIdHash: connection.machineIdHash,
+    },
+    (event: SubscriptionEvent) => {
+      lastActivity = Date.now();
+      send(ws, { type: "event", event });
+      console.log(`[WS] Sent ${event.type} to ${connectionId}`);
+    }
+  ).then((cleanup) => {
+    if (closed) {
+      cleanup();
+    } else {
+      unsubscribe = cleanup;
+    }
+  });
+
+  const heartbeatInterval = setInterval(() => {
+    if (Date.now() - lastActivity > CONNECTION_TIMEOUT_MS) {
+      console.log(`[WS] Connection timeout: ${connectionId}`);
+      ws.close(1000, "Connection timeout");
+      return;
+    }
+
+    send(ws, {
+      type: "event",
+      event: createSubscriptionEvent("heartbeat_ack", licenseKey, {
+        serverTime: new Date().toISOString(),
+        connectionId,
+      }),
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  ws.on("message", (data: RawData) => {
+    lastActivity = Date.now();
+
+    const message = parseSocketMessage(data.toString());
+    if (!message) {
+      send(ws, {
+        type: "reply",
+        requestId: null,
+        success: false,
+        error: "Invalid message",
+      });
+      return;
+    }
+
+    handleClientMessage(connection, message)
+      .catch((error): Reply => {
+        console.error(`[WS] Failed to handle ${message.type}:`, error);
+        return { success: false, error: `Failed to process ${message.type}` };
+      })
+      .then((reply) => {
+        send(ws, {
+          type: "reply",
+          requestId: message.requestId || null,
+          ...reply,
+        });
+      });
+  });
+
+  ws.on("close", () => {
+    console.log(`[WS] Client disconnected: ${connectionId}`);
+    closed = true;
+    clearInterval(heartbeatInterval);
+    unsubscribe?.();
+  });
+
+  ws.on("error", (error) => {
+    console.error(`[WS] Socket error on ${connectionId}:`, error);
+  });
+}
+
+// ============================================================================
+// CLIENT MESSAGES
+// ============================================================================
+
+/**
+ * Handle a message from a terminal
+ * Mirrors POST /api/events/acknowledge, /api/license/heartbeat,
+ * /api/license/commands/result and /api/terminals/sync for the connection's
+ * license key and machine.
+ */
+async function handleClientMessage(
+  connection: SocketConnection,
+  message: WebSocketClientMessage
+): Promise<Reply> {
+  const { licenseKey, machineIdHash } = connection;
+
+  switch (message.type) {
+    case "ack": {
+      const status = message.status || "success";
+      if (!message.eventId) {
+        return { success: false, error: "eventId is required" };
+      }
+      if (!ACKNOWLEDGMENT_STATUSES.includes(status)) {
+        return {
+          success: false,
+          error: "Invalid status. Must be: success, failed, or skipped",
+        };
+      }
+
+      const { outcome, acknowledgment } = await recordEventAcknowledgment({
+        eventId: message.eventId,
+        licenseKey,
+        machineIdHash,
+        status,
+        errorMessage: message.errorMessage,
+        processingTimeMs: message.processingTimeMs,
+      });
+      if (outcome === "not_targeted") {
+        return {
+          success: false,
+          error: "Event is not targeted at this terminal",
+        };
+      }
+      return { success: true, data: { acknowledgment } };
+    }
+
+    case "heartbeat": {
+      if (!machineIdHash) {
+        return {
+          success: false,
+          error: "Connect with machineId to send heartbeats",
+        };
+      }
+
+      // Shares the HTTP heartbeat's limit
+      const rateLimitResult = checkRateLimit(
+        createRateLimitKey("heartbeat", licenseKey, machineIdHash),
+        LICENSE_RATE_LIMITS.heartbeat
+      );
+      if (!rateLimitResult.allowed) {
+        return {
+          success: false,
+          error: "Heartbeat rate limit exceeded. Reduce heartbeat frequency.",
+          data: { retryAfter: rateLimitResult.retryAfter },
+        };
+      }
+
+      const result = await processHeartbeat(licenseKey, machineIdHash, {
+        appVersion: message.appVersion,
+        sessionCount: message.sessionCount,
+        transactionCount: message.transactionCount,
+        configVersion: message.configVersion,
+      });
+      return result.success
+        ? { success: true, data: result }
+        : { success: false, error: result.message, data: result.data };
+    }
+
+    case "command_result": {
+      if (!machineIdHash || !message.commandId) {
+        return {
+          success: false,
+          error: "commandId is required and the connection needs a machineId",
+        };
+      }
+
+      try {
+        const command = await recordCommandResult({
+          licenseKey,
+          machineIdHash,
+          commandId: message.commandId,
+          status: message.status,
+          result: message.result,
+          errorMessage: message.errorMessage,
+        });
+        return { success: true, data: { status: command.status } };
+      } catch (error) {
+        if (
+          error instanceof ValidationError ||
+          error instanceof NotFoundError ||
+          error instanceof ConflictError
+        ) {
+          return { success: false, error: error.message };
+        }
+        throw error;
+      }
+    }
+
+    case "state_sync": {
+      if (message.action === "initiate") {
+        if (!message.syncType || !message.payload) {
+          return { success: false, error: "syncType and payload are required" };
+        }
+
+        const syncId = await synchronizeTerminalState(
+          licenseKey,
+          message.syncType,
+          machineIdHash,
+          message.payload,
+          message.targetMachineIdHashes
+        );
+        return { success: true, data: { syncId } };
+      }
+
+      if (message.action === "acknowledge") {
+        if (!message.syncId || !machineIdHash) {
+          return {
+            success: false,
+            error: "syncId is required and the connection needs a machineId",
+          };
+        }
+
+        await acknowledgeStateSync(message.syncId, machineIdHash);
+        return { success: true };
+      }
+
+      return {
+        success: false,
+        error: "Invalid action. Use: initiate or acknowledge",
+      };
+    }
+
+    default:
+      return {
+        success: false,
+        error: `Unknown message type: ${(message as { type: string }).type}`,
+      };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Dunning Configuration
+ * Schedule of reminders and enforcement after a subscription payment fails
+ */
+
+export type DunningAction = "email" | "terminal_banner" | "suspension";
+
+export interface DunningStepConfig {
+  step: string; // Stable ID recorded in dunning_steps - don't rename live steps
+  day: number; // Days after the first payment failure
+  action: DunningAction;
+}
+
+/**
+ * Steps run in order; the suspension step must come last
+ */
+export const DUNNING_SCHEDULE: DunningStepConfig[] = [
+  { step: "email_day_0", day: 0, action: "email" },
+  { step: "email_day_1", day: 1, action: "email" },
+  { step: "email_day_3", day: 3, action: "email" },
+  { step: "terminal_banner", day: 5, action: "terminal_banner" },
+  { step: "suspension", day: 7, action: "suspension" },
+];
+
+/**
+ * Days after the first payment failure until terminals are suspended
+ */
+export const DUNNING_SUSPENSION_DAY =
+  DUNNING_SCHEDULE.find((step) => step.action === "suspension")?.day ?? 7;
+
+/**
+ * Date the suspension step runs for a case that started at startedAt
+ */
+export function getDunningSuspensionDate(startedAt: Date): Date {
+  return new Date(
+    startedAt.getTime() + DUNNING_SUSPENSION_DAY * 24 * 60 * 60 * 1000
+  );
+}
@@ -0,0 +1,478 @@
+import { db } from "@/lib/db";
+import {
+  dunningCases,
+  dunningSteps,
+  subscriptions,
+  subscriptionChanges,
+  licenseKeys,
+  customers,
+  users,
+  type DunningCase,
+} from "@/lib/db/schema";
+import { eq, and, asc, inArray, isNull, sql } from "drizzle-orm";
+import { sendPaymentFailedEmail } from "@/lib/emails/dunning-notifications";
+import {
+  publishPaymentOverdue,
+  publishLicenseRevoked,
+  publishLicenseReactivated,
+  getLicenseKeysForSubscription,
+} from "@/lib/subscription-events";
+import { getPlanFeatures } from "@/lib/license/entitlements";
+import { extractPlanFromKey } from "@/lib/license/generator";
+import {
+  DUNNING_SCHEDULE,
+  getDunningSuspensionDate,
+  type DunningStepConfig,
+} from "./dunning-config";
+
+/**
+ * Dunning
+ *
+ * Each unpaid subscription invoice opens a dunning case (handlePaymentFailed).
+ * The expiration cron walks open cases through DUNNING_SCHEDULE: reminder
+ * emails, then a payment banner on terminals, then suspension of the
+ * subscription's license keys. Every step is recorded in dunning_steps, so
+ * rerunning the cron (or a replayed webhook) never repeats a step.
+ *
+ * A case is recovered when the invoice is paid (licenses suspended by dunning
+ * are restored) and voided when the subscription is cancelled.
+ */
+
+export const DUNNING_SUSPENSION_REASON = "Suspended for non-payment";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cases still being chased (suspended cases wait for payment)
+export const OPEN_DUNNING_STATUSES = ["active", "suspended"];
+
+export interface DunningRunResult {
+  processed: number;
+  stepsCompleted: number;
+  stepsFailed: number;
+  resolved: number;
+  errors: string[];
+}
+
+// ============================================================================
+// CASES
+// ============================================================================
+
+/**
+ * Open (or refresh) the dunning case for a failed invoice
+ * Stripe retries fire payment_failed again; day 0 stays the first failure.
+ */
+export async function openDunningCase(
+  subscription: { id: string; customerId: string },
+  invoice: {
+    id: string;
+    amount_due: number;
+    currency: string;
+    hosted_invoice_url?: string | null;
+  }
+): Promise<DunningCase> {
+  const [dunningCase] = await db
+    .insert(dunningCases)
+    .values({
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      stripeInvoiceId: invoice.id,
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+      hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+      startedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: dunningCases.stripeInvoiceId,
+      set: {
+        amountDue: invoice.amount_due,
+        hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return dunningCase;
+}
+
+/**
+ * Start of dunning for a subscription: its oldest open case (null if none)
+ */
+export async function getDunningStartDate(
+  subscriptionId: string
+): Promise<Date | null> {
+  const [dunningCase] = await db
+    .select({ startedAt: dunningCases.startedAt })
+    .from(dunningCases)
+    .where(
+      and(
+        eq(dunningCases.subscriptionId, subscriptionId),
+        inArray(dunningCases.status, OPEN_DUNNING_STATUSES)
+      )
+    )
+    .orderBy(asc(dunningCases.startedAt))
+    .limit(1);
+
+  return dunningCase?.startedAt || null;
+}
+
+/**
+ * Mark the dunning case for a paid invoice as recovered
+ * Restores license keys that dunning suspended.
+ */
+export async function recoverDunningCase(
+  stripeInvoiceId: string
+): Promise<DunningCase | null> {
+  const [dunningCase] = await db
+    .select()
+    .from(dunningCases)
+    .where(eq(dunningCases.stripeInvoiceId, stripeInvoiceId))
+    .limit(1);
+
+  if (!dunningCase || !OPEN_DUNNING_STATUSES.includes(dunningCase.status)) {
+    return null;
+  }
+
+  return resolveDunningCase(dunningCase, "recovered");
+}
+
+/**
+ * Void open dunning cases for a subscription that has been cancelled
+ */
+export async function voidDunningCases(subscriptionId: string): Promise<void> {
+  await db
+    .update(dunningCases)
+    .set({ status: "void", resolvedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(dunningCases.subscriptionId, subscriptionId),
+        inArray(dunningCases.status, OPEN_DUNNING_STATUSES)
+      )
+    );
+}
+
+async function resolveDunningCase(
+  dunningCase: DunningCase,
+  status: "recovered" | "void"
+): Promise<DunningCase> {
+  const now = new Date();
+
+  const { resolved, restoredLicenses } = await db.transaction(async (tx) => {
+    const [resolved] = await tx
+      .update(dunningCases)
+      .set({ status, resolvedAt: now, updatedAt: now })
+      .where(eq(dunningCases.id, dunningCase.id))
+      .returning();
+
+    let restoredLicenses: (typeof licenseKeys.$inferSelect)[] = [];
+    if (status === "recovered" && dunningCase.status === "suspended") {
+      restoredLicenses = await tx
+        .update(licenseKeys)
+        .set({
+          isActive: true,
+          revokedAt: null,
+          revocationReason: null,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(licenseKeys.subscriptionId, dunningCase.subscriptionId),
+            eq(licenseKeys.revocationReason, DUNNING_SUSPENSION_REASON),
+            isNull(licenseKeys.replacedByKey)
+          )
+        )
+        .returning();
+    }
+
+    return { resolved, restoredLicenses };
+  });
+
+  for (const license of restoredLicenses) {
+    const planId = extractPlanFromKey(license.licenseKey) || "basic";
+    publishLicenseReactivated(license.licenseKey, {
+      planId,
+      features: getPlanFeatures(planId),
+    });
+  }
+
+  console.log(
+    `[Dunning] Case ${dunningCase.id} ${status}${
+      restoredLicenses.length > 0
+        ? ` (${restoredLicenses.length} license(s) restored)`
+        : ""
+    }`
+  );
+
+  return resolved;
+}
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+/**
+ * Record a step before running it
+ * Returns false if the step already ran (or is running); failed steps are
+ * claimed again so the next run retries them.
+ */
+async function claimStep(
+  dunningCaseId: string,
+  step: DunningStepConfig,
+  status: "processing" | "skipped" = "processing"
+): Promise<boolean> {
+  const [claimed] = await db
+    .insert(dunningSteps)
+    .values({
+      dunningCaseId,
+      step: step.step,
+      action: step.action,
+      status,
+    })
+    .onConflictDoUpdate({
+      target: [dunningSteps.dunningCaseId, dunningSteps.step],
+      set: {
+        status,
+        attempts: sql`${dunningSteps.attempts} + 1`,
+        error: null,
+        executedAt: new Date(),
+      },
+      setWhere: eq(dunningSteps.status, "failed"),
+    })
+    .returning({ id: dunningSteps.id });
+
+  return !!claimed;
+}
+
+async function finishStep(
+  dunningCaseId: string,
+  step: DunningStepConfig,
+  error?: string
+): Promise<void> {
+  await db
+    .update(dunningSteps)
+    .set({
+      status: error ? "failed" : "completed",
+      error: error || null,
+    })
+    .where(
+      and(
+        eq(dunningSteps.dunningCaseId, dunningCaseId),
+        eq(dunningSteps.step, step.step)
+      )
+    );
+}
+
+async function sendDunningEmail(
+  dunningCase: DunningCase,
+  step: DunningStepConfig
+): Promise<void> {
+  const [recipient] = await db
+    .select({ email: customers.email, name: users.name })
+    .from(customers)
+    .leftJoin(users, eq(customers.userId, users.id))
+    .where(eq(customers.id, dunningCase.customerId))
+    .limit(1);
+
+  if (!recipient?.email) {
+    throw new Error("Customer has no email address");
+  }
+
+  const emailSteps = DUNNING_SCHEDULE.filter((s) => s.action === "email");
+  const reminderIndex = emailSteps.findIndex((s) => s.step === step.step);
+
+  const result = await sendPaymentFailedEmail({
+    email: recipient.email,
+    userName: recipient.name || undefined,
+    amountDue: dunningCase.amountDue,
+    currency: dunningCase.currency,
+    suspendsAt: getDunningSuspensionDate(dunningCase.startedAt),
+    paymentUrl:
+      dunningCase.hostedInvoiceUrl ||
+      `${process.env.NEXTAUTH_URL}/dashboard/billing`,
+    reminderNumber: reminderIndex + 1,
+    isFinalReminder: reminderIndex === emailSteps.length - 1,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to send email");
+  }
+}
+
+async function showTerminalBanner(dunningCase: DunningCase): Promise<void> {
+  const licenseKeysList = await getLicenseKeysForSubscription(
+    dunningCase.subscriptionId
+  );
+
+  for (const key of licenseKeysList) {
+    publishPaymentOverdue(key, {
+      amountDue: dunningCase.amountDue,
+      currency: dunningCase.currency.toUpperCase(),
+      suspendsAt: getDunningSuspensionDate(dunningCase.startedAt),
+    });
+  }
+}
+
+async function suspendForNonPayment(dunningCase: DunningCase): Promise<void> {
+  const now = new Date();
+
+  const suspendedLicenses = await db.transaction(async (tx) => {
+    const suspended = await tx
+      .update(licenseKeys)
+      .set({
+        isActive: false,
+        revokedAt: now,
+        revocationReason: DUNNING_SUSPENSION_REASON,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(licenseKeys.subscriptionId, dunningCase.subscriptionId),
+          eq(licenseKeys.isActive, true)
+        )
+      )
+      .returning();
+
+    await tx
+      .update(dunningCases)
+      .set({ status: "suspended", updatedAt: now })
+      .where(eq(dunningCases.id, dunningCase.id));
+
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId: dunningCase.subscriptionId,
+      customerId: dunningCase.customerId,
+      changeType: "dunning_suspension",
+      reason: DUNNING_SUSPENSION_REASON,
+      effectiveDate: now,
+      metadata: {
+        stripeInvoiceId: dunningCase.stripeInvoiceId,
+        amountDue: dunningCase.amountDue,
+        suspendedLicenseCount: suspended.length,
+      },
+    });
+
+    return suspended;
+  });
+
+  for (const license of suspendedLicenses) {
+    publishLicenseRevoked(license.licenseKey, {
+      reason: DUNNING_SUSPENSION_REASON,
+    });
+  }
+}
+
+/**
+ * Run every step of the schedule that is due for a case
+ * Only the latest due email is sent, so a late run doesn't send a burst of
+ * reminders; earlier ones are recorded as skipped.
+ */
+export async function processDunningCase(
+  dunningCase: DunningCase,
+  now: Date = new Date()
+): Promise<{ completed: number; failed: number; resolved: boolean }> {
+  const result = { completed: 0, failed: 0, resolved: false };
+
+  const [subscription] = await db
+    .select({ status: subscriptions.status })
+    .from(subscriptions)
+    .where(eq(subscriptions.id, dunningCase.subscriptionId))
+    .limit(1);
+
+  // Paid another way (or cancelled) since the case was opened
+  if (
+    !subscription ||
+    subscription.status === "active" ||
+    subscription.status === "cancelled"
+  ) {
+    await resolveDunningCase(
+      dunningCase,
+      subscription?.status === "active" ? "recovered" : "void"
+    );
+    result.resolved = true;
+    return result;
+  }
+
+  if (dunningCase.status !== "active") {
+    return result;
+  }
+
+  const elapsedDays = (now.getTime() - dunningCase.startedAt.getTime()) / DAY_MS;
+  const dueSteps = DUNNING_SCHEDULE.filter((step) => step.day <= elapsedDays);
+  const latestEmail = dueSteps.filter((step) => step.action === "email").pop();
+
+  for (const step of dueSteps) {
+    if (step.action === "email" && step !== latestEmail) {
+      await claimStep(dunningCase.id, step, "skipped");
+      continue;
+    }
+
+    if (!(await claimStep(dunningCase.id, step))) continue;
+
+    try {
+      if (step.action === "email") {
+        await sendDunningEmail(dunningCase, step);
+      } else if (step.action === "terminal_banner") {
+        await showTerminalBanner(dunningCase);
+      } else {
+        await suspendForNonPayment(dunningCase);
+      }
+
+      await finishStep(dunningCase.id, step);
+      result.completed++;
+    } catch (error) {
+      await finishStep(
+        dunningCase.id,
+        step,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+/**
+ * Advance all active dunning cases along the schedule
+ */
+export async function runDunning(): Promise<DunningRunResult> {
+  const result: DunningRunResult = {
+    processed: 0,
+    stepsCompleted: 0,
+    stepsFailed: 0,
+    resolved: 0,
+    errors: [],
+  };
+
+  const openCases = await db
+    .select()
+    .from(dunningCases)
+    .where(inArray(dunningCases.status, OPEN_DUNNING_STATUSES));
+
+  for (const dunningCase of openCases) {
+    result.processed++;
+
+    try {
+      const caseResult = await processDunningCase(dunningCase);
+      result.stepsCompleted += caseResult.completed;
+      result.stepsFailed += caseResult.failed;
+      if (caseResult.resolved) result.resolved++;
+    } catch (error) {
+      result.errors.push(
+        `Failed to process dunning case ${dunningCase.id}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  if (result.processed > 0) {
+    console.log(
+      `[Dunning] Processed ${result.processed} cases: ${result.stepsCompleted} steps completed, ${result.stepsFailed} failed, ${result.resolved} resolved`
+    );
+  }
+
+  return result;
+}
@@ -1,4 +1,5 @@
 import type { Subscription } from "@/lib/db/schema";
+import { DUNNING_SUSPENSION_DAY } from "./dunning-config";
 
 /**
  * Grace period types for different subscription scenarios
@@ -11,7 +12,7 @@ export type GracePeriodType = "trial" | "cancellation" | "past_due" | "offline";
 export const GRACE_PERIOD_DAYS = {
   trial: 7, // 7 days after trial ends
   cancellation: 7, // 7 days after cancellation
-  past_due: 3, // 3 days for payment failures
+  past_due: DUNNING_SUSPENSION_DAY, // Until the dunning schedule suspends terminals
   offline: 7, // 7 days for offline/heartbeat grace
 } as const;
 
@@ -0,0 +1,229 @@
+import { db } from "@/lib/db";
+import {
+  subscriptions,
+  subscriptionChanges,
+  type Subscription,
+} from "@/lib/db/schema";
+import { eq, and, lte } from "drizzle-orm";
+import { stripe } from "@/lib/stripe/client";
+import { ConflictError, ValidationError } from "@/lib/api/response-helpers";
+import {
+  publishSubscriptionPaused,
+  publishSubscriptionResumed,
+  getLicenseKeysForSubscription,
+} from "@/lib/subscription-events";
+
+/**
+ * Subscription pause
+ *
+ * Seasonal businesses can pause billing for up to MAX_PAUSE_MONTHS:
+ * 1. Stripe's pause_collection voids invoices until resumes_at
+ * 2. The subscription is marked "paused" and terminals get a
+ *    subscription_paused event telling them to go read-only
+ * 3. The expiration cron resumes it on the chosen date (customers can also
+ *    resume early from the dashboard)
+ */
+
+export const MAX_PAUSE_MONTHS = 3;
+
+export interface PausedSubscriptionResumeResult {
+  processed: number;
+  resumed: number;
+  errors: string[];
+}
+
+/**
+ * Latest resume date allowed for a pause starting now
+ */
+export function getMaxResumeDate(from: Date = new Date()): Date {
+  const maxResumeDate = new Date(from);
+  maxResumeDate.setMonth(maxResumeDate.getMonth() + MAX_PAUSE_MONTHS);
+  return maxResumeDate;
+}
+
+/**
+ * Pause billing until resumesAt
+ *
+ * @throws {ValidationError} If the resume date is outside the allowed window
+ * @throws {ConflictError} If the subscription can't be paused
+ */
+export async function pauseSubscription(
+  subscription: Subscription,
+  resumesAt: Date,
+  options: { pausedBy: string; reason?: string }
+): Promise<Subscription> {
+  if (!subscription.stripeSubscriptionId) {
+    throw new ConflictError("Subscription is not billed through Stripe");
+  }
+  if (subscription.status !== "active") {
+    throw new ConflictError("Only active subscriptions can be paused");
+  }
+  if (subscription.cancelAtPeriodEnd) {
+    throw new ConflictError(
+      "Subscription is scheduled for cancellation and can't be paused"
+    );
+  }
+
+  const now = new Date();
+  if (isNaN(resumesAt.getTime()) || resumesAt <= now) {
+    throw new ValidationError("Resume date must be in the future");
+  }
+  if (resumesAt > getMaxResumeDate(now)) {
+    throw new ValidationError(
+      `Subscriptions can be paused for up to ${MAX_PAUSE_MONTHS} months`
+    );
+  }
+
+  await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+    pause_collection: {
+      behavior: "void",
+      resumes_at: Math.floor(resumesAt.getTime() / 1000),
+    },
+  });
+
+  const paused = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(subscriptions)
+      .set({
+        status: "paused",
+        pausedAt: now,
+        resumesAt,
+        updatedAt: now,
+      })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      changeType: "pause",
+      reason: options.reason || "Subscription paused by customer",
+      effectiveDate: now,
+      metadata: {
+        pausedBy: options.pausedBy,
+        resumesAt: resumesAt.toISOString(),
+      },
+    });
+
+    return updated;
+  });
+
+  // 🔔 SSE: Terminals go read-only until the subscription resumes
+  const licenseKeysList = await getLicenseKeysForSubscription(subscription.id);
+  for (const key of licenseKeysList) {
+    publishSubscriptionPaused(key, { pausedAt: now, resumesAt });
+  }
+
+  return paused;
+}
+
+/**
+ * Resume a paused subscription and restart billing
+ *
+ * @throws {ConflictError} If the subscription is not paused
+ */
+export async function resumeSubscription(
+  subscription: Subscription,
+  options: { resumedBy: string; reason?: string }
+): Promise<Subscription> {
+  if (subscription.status !== "paused") {
+    throw new ConflictError("Subscription is not paused");
+  }
+
+  if (subscription.stripeSubscriptionId) {
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      pause_collection: "",
+    });
+  }
+
+  const now = new Date();
+  const resumed = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(subscriptions)
+      .set({
+        status: "active",
+        pausedAt: null,
+        resumesAt: null,
+        updatedAt: now,
+      })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      changeType: "resume",
+      reason: options.reason || "Subscription resumed by customer",
+      effectiveDate: now,
+      metadata: {
+        resumedBy: options.resumedBy,
+        pausedAt: subscription.pausedAt?.toISOString() || null,
+        scheduledResumeAt: subscription.resumesAt?.toISOString() || null,
+      },
+    });
+
+    return updated;
+  });
+
+  // 🔔 SSE: Terminals leave read-only mode
+  const licenseKeysList = await getLicenseKeysForSubscription(subscription.id);
+  for (const key of licenseKeysList) {
+    publishSubscriptionResumed(key, {
+      subscriptionStatus: "active",
+      planId: subscription.planId || "basic",
+    });
+  }
+
+  return resumed;
+}
+
+// ============================================================================
+// CRON: RESUME PAUSED SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * Resume paused subscriptions whose resume date has passed
+ */
+export async function resumeDuePausedSubscriptions(): Promise<PausedSubscriptionResumeResult> {
+  const result: PausedSubscriptionResumeResult = {
+    processed: 0,
+    resumed: 0,
+    errors: [],
+  };
+
+  const dueSubscriptions = await db
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.status, "paused"),
+        lte(subscriptions.resumesAt, new Date())
+      )
+    );
+
+  for (const subscription of dueSubscriptions) {
+    result.processed++;
+
+    try {
+      await resumeSubscription(subscription, {
+        resumedBy: "system",
+        reason: "Scheduled resume after pause",
+      });
+      result.resumed++;
+    } catch (error) {
+      result.errors.push(
+        `Failed to resume subscription ${subscription.id}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  if (result.processed > 0) {
+    console.log(
+      `[Pause] Resumed ${result.resumed}/${result.processed} paused subscriptions`
+    );
+  }
+
+  return result;
+}
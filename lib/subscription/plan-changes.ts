@@ -0,0 +1,569 @@
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import {
+  activations,
+  licenseKeys,
+  subscriptionChanges,
+  subscriptions,
+  type Subscription,
+  type SubscriptionChange,
+} from "@/lib/db/schema";
+import { and, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { stripe } from "@/lib/stripe/client";
+import { getPlan, type BillingCycle, type PlanId } from "@/lib/stripe/plans";
+import { isUpgrade } from "@/lib/stripe/plan-utils";
+import { calculateMaxTerminals } from "@/lib/stripe/terminal-seats";
+import { isUsagePriceId } from "@/lib/stripe/usage-billing";
+import { ConflictError } from "@/lib/api/response-helpers";
+import { generateLicenseKey } from "@/lib/license/generator";
+import { getPlanFeatures } from "@/lib/license/validator";
+import { getCustomerEntitlements } from "@/lib/license/entitlements";
+import {
+  publishLicenseRevoked,
+  publishPlanChanged,
+  getLicenseKeysForSubscription,
+} from "@/lib/subscription-events";
+
+/**
+ * Plan changes
+ *
+ * A plan change reissues the subscription's license keys, because keys embed
+ * the plan code: every key is revoked, location keys are reissued with the
+ * same seats and a new main key holds the rest. Terminals on the old keys get
+ * license_revoked and plan_changed events.
+ *
+ * Changes are applied immediately (prorated) or scheduled for the end of the
+ * billing period. A scheduled change is a Stripe subscription schedule whose
+ * second phase switches the items, recorded as a "scheduled_plan_change" row
+ * in subscriptionChanges with the period end as effectiveDate and
+ * metadata.status pending → applied | cancelled. It is applied when the
+ * customer.subscription.updated webhook shows the new plan price.
+ */
+
+export const SCHEDULED_PLAN_CHANGE = "scheduled_plan_change";
+
+type DbOrTransaction =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ScheduledPlanChangeMetadata {
+  status: "pending" | "applied" | "cancelled";
+  stripeScheduleId: string;
+  stripePriceId: string;
+  changedBy: string;
+  promotionCode?: string;
+  appliedAt?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
+
+export interface ReissuedLicenseKeys {
+  newLicenseKey: string;
+  // Old location key -> reissued location key
+  reissuedLocationKeys: Map<string, string>;
+}
+
+// ============================================================================
+// LICENSE REISSUE
+// ============================================================================
+
+/**
+ * Revoke a subscription's keys and issue keys for the new plan
+ *
+ * @param options.migrateActivations Move existing activations onto the new
+ * keys (trial plan changes) instead of requiring terminals to reactivate
+ */
+export async function reissuePlanLicenseKeys(
+  tx: DbOrTransaction,
+  subscription: Pick<Subscription, "id" | "customerId" | "planId">,
+  newPlanId: PlanId,
+  options: { maxTerminals: number; migrateActivations: boolean }
+): Promise<ReissuedLicenseKeys> {
+  const { migrateActivations } = options;
+
+  // Get existing activations before revoking licenses
+  let existingActivations: (typeof activations.$inferSelect)[] = [];
+  if (migrateActivations) {
+    const subscriptionLicenseKeys = await tx
+      .select({ licenseKey: licenseKeys.licenseKey })
+      .from(licenseKeys)
+      .where(eq(licenseKeys.subscriptionId, subscription.id));
+
+    if (subscriptionLicenseKeys.length > 0) {
+      existingActivations = await tx
+        .select()
+        .from(activations)
+        .where(
+          inArray(
+            activations.licenseKey,
+            subscriptionLicenseKeys.map((k) => k.licenseKey)
+          )
+        );
+    }
+  }
+
+  // Location keys are reissued for the new plan with the same seats
+  const locationLicenses = await tx
+    .select()
+    .from(licenseKeys)
+    .where(
+      and(
+        eq(licenseKeys.subscriptionId, subscription.id),
+        eq(licenseKeys.isActive, true),
+        isNotNull(licenseKeys.locationId)
+      )
+    );
+  const locationTerminals = locationLicenses.reduce(
+    (total, license) => total + license.maxTerminals,
+    0
+  );
+
+  await tx
+    .update(licenseKeys)
+    .set({
+      isActive: false,
+      revokedAt: new Date(),
+      revocationReason: migrateActivations
+        ? `Plan changed from ${subscription.planId} to ${newPlanId} - activations auto-migrated`
+        : `Plan changed from ${subscription.planId} to ${newPlanId} - new license key required`,
+    })
+    .where(eq(licenseKeys.subscriptionId, subscription.id));
+
+  const newLicenseKey = generateLicenseKey(newPlanId, subscription.customerId);
+  const reissuedLocationKeys = new Map<string, string>();
+
+  for (const locationLicense of locationLicenses) {
+    const reissuedKey = generateLicenseKey(newPlanId, subscription.customerId);
+    reissuedLocationKeys.set(locationLicense.licenseKey, reissuedKey);
+
+    await tx.insert(licenseKeys).values({
+      customerId: subscription.customerId,
+      subscriptionId: subscription.id,
+      locationId: locationLicense.locationId,
+      licenseKey: reissuedKey,
+      maxTerminals: locationLicense.maxTerminals,
+      activationCount: existingActivations.filter(
+        (a) => a.licenseKey === locationLicense.licenseKey
+      ).length,
+      isActive: true,
+      issuedAt: new Date(),
+      expiresAt: null,
+    });
+  }
+
+  // New main key holds the seats not assigned to locations
+  await tx.insert(licenseKeys).values({
+    customerId: subscription.customerId,
+    subscriptionId: subscription.id,
+    licenseKey: newLicenseKey,
+    maxTerminals: Math.max(0, options.maxTerminals - locationTerminals),
+    activationCount: existingActivations.filter(
+      (a) => !reissuedLocationKeys.has(a.licenseKey)
+    ).length,
+    isActive: true,
+    issuedAt: new Date(),
+    expiresAt: null, // Subscription-based, no expiry
+  });
+
+  if (existingActivations.length > 0) {
+    console.log(
+      `[Trial Migration] Auto-migrating ${existingActivations.length} activation(s) to new license`
+    );
+
+    // Location terminals move to their location's reissued key
+    for (const activation of existingActivations) {
+      await tx
+        .update(activations)
+        .set({
+          licenseKey:
+            reissuedLocationKeys.get(activation.licenseKey) || newLicenseKey,
+          updatedAt: new Date(),
+        })
+        .where(eq(activations.id, activation.id));
+    }
+  }
+
+  return { newLicenseKey, reissuedLocationKeys };
+}
+
+/**
+ * 🔔 SSE: Tell terminals on the old keys about the revocation and new plan
+ */
+export async function notifyPlanChanged(
+  subscription: Pick<Subscription, "customerId" | "planId">,
+  newPlanId: PlanId,
+  oldLicenseKeys: string[],
+  reissued: ReissuedLicenseKeys
+): Promise<void> {
+  console.log(
+    `[Plan Change] Sending SSE events to ${oldLicenseKeys.length} license key(s)`,
+    {
+      oldKeys: oldLicenseKeys,
+      newLicenseKey: reissued.newLicenseKey,
+      planChange: `${subscription.planId} → ${newPlanId}`,
+    }
+  );
+
+  const entitlements = await getCustomerEntitlements(
+    subscription.customerId,
+    newPlanId
+  );
+
+  for (const oldKey of oldLicenseKeys) {
+    publishLicenseRevoked(oldKey, {
+      reason: `Plan changed from ${subscription.planId} to ${newPlanId}. Please reactivate with your new license key: ${
+        reissued.reissuedLocationKeys.get(oldKey) || reissued.newLicenseKey
+      }`,
+    });
+
+    publishPlanChanged(oldKey, {
+      previousPlanId: subscription.planId || "basic",
+      newPlanId,
+      newFeatures: getPlanFeatures(newPlanId),
+      entitlements,
+      effectiveAt: new Date(),
+    });
+  }
+}
+
+// ============================================================================
+// SCHEDULED CHANGES
+// ============================================================================
+
+/**
+ * Pending scheduled plan change for a subscription, if any
+ */
+export async function getPendingPlanChange(
+  subscriptionId: string
+): Promise<SubscriptionChange | null> {
+  const [change] = await db
+    .select()
+    .from(subscriptionChanges)
+    .where(
+      and(
+        eq(subscriptionChanges.subscriptionId, subscriptionId),
+        eq(subscriptionChanges.changeType, SCHEDULED_PLAN_CHANGE),
+        sql`${subscriptionChanges.metadata}->>'status' = 'pending'`
+      )
+    )
+    .orderBy(desc(subscriptionChanges.createdAt))
+    .limit(1);
+
+  return change || null;
+}
+
+/**
+ * Throw if a scheduled plan change would be overwritten by another change
+ *
+ * @throws {ConflictError} If a change is pending
+ */
+export async function assertNoPendingPlanChange(
+  subscriptionId: string,
+  action: string
+): Promise<void> {
+  const pending = await getPendingPlanChange(subscriptionId);
+  if (pending) {
+    throw new ConflictError(
+      `A plan change to ${pending.newPlanId} (${pending.newBillingCycle}) is scheduled for ${pending.effectiveDate.toISOString().slice(0, 10)}. Cancel it before ${action}.`
+    );
+  }
+}
+
+function getId(value: string | { id: string } | null): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toPhaseDiscounts(
+  discounts: Stripe.SubscriptionSchedule.Phase.Discount[]
+): Stripe.SubscriptionScheduleUpdateParams.Phase.Discount[] {
+  return discounts.map((discount) =>
+    discount.discount
+      ? { discount: getId(discount.discount) }
+      : discount.promotion_code
+        ? { promotion_code: getId(discount.promotion_code) }
+        : { coupon: getId(discount.coupon) }
+  );
+}
+
+/**
+ * Schedule a plan change for the end of the current billing period
+ *
+ * @param items The subscription's items after the change (metered items
+ * without a quantity)
+ * @throws {ConflictError} If the subscription can't take a scheduled change
+ */
+export async function schedulePlanChange(
+  subscription: Subscription,
+  change: {
+    newPlanId: PlanId;
+    billingCycle: BillingCycle;
+    newPrice: number;
+    newPriceId: string;
+    items: Stripe.SubscriptionScheduleUpdateParams.Phase.Item[];
+    promotion: { code: string; stripePromotionCodeId: string } | null;
+    changedBy: string;
+  }
+): Promise<SubscriptionChange> {
+  if (!subscription.stripeSubscriptionId) {
+    throw new ConflictError("Subscription is not billed through Stripe");
+  }
+  if (subscription.status !== "active") {
+    throw new ConflictError(
+      "Only active subscriptions can schedule a plan change"
+    );
+  }
+  if (subscription.cancelAtPeriodEnd) {
+    throw new ConflictError(
+      "Subscription is scheduled for cancellation and can't change plan at period end"
+    );
+  }
+  await assertNoPendingPlanChange(subscription.id, "scheduling another");
+
+  const stripeSubscription = await stripe.subscriptions.retrieve(
+    subscription.stripeSubscriptionId
+  );
+  if (stripeSubscription.schedule) {
+    throw new ConflictError(
+      "Subscription already has a billing schedule. Please contact support."
+    );
+  }
+
+  const schedule = await stripe.subscriptionSchedules.create({
+    from_subscription: subscription.stripeSubscriptionId,
+  });
+  const [currentPhase] = schedule.phases;
+  const interval = change.billingCycle === "annual" ? "year" : "month";
+
+  try {
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: "release",
+      phases: [
+        {
+          items: currentPhase.items.map((item) => {
+            const price = getId(item.price)!;
+            // Metered usage items don't take a quantity
+            return isUsagePriceId(price) || item.quantity === undefined
+              ? { price }
+              : { price, quantity: item.quantity };
+          }),
+          discounts: toPhaseDiscounts(currentPhase.discounts),
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+        },
+        {
+          items: change.items,
+          discounts: change.promotion
+            ? [{ promotion_code: change.promotion.stripePromotionCodeId }]
+            : toPhaseDiscounts(currentPhase.discounts),
+          duration: { interval },
+          proration_behavior: "none",
+          metadata: {
+            ...stripeSubscription.metadata,
+            planId: change.newPlanId,
+            billingCycle: change.billingCycle,
+          },
+        },
+      ],
+      metadata: { subscriptionId: subscription.id },
+    });
+  } catch (error) {
+    // Don't leave a half-configured schedule attached to the subscription
+    await stripe.subscriptionSchedules.release(schedule.id).catch(() => {});
+    throw error;
+  }
+
+  const metadata: ScheduledPlanChangeMetadata = {
+    status: "pending",
+    stripeScheduleId: schedule.id,
+    stripePriceId: change.newPriceId,
+    changedBy: change.changedBy,
+    ...(change.promotion ? { promotionCode: change.promotion.code } : {}),
+  };
+
+  const [scheduled] = await db
+    .insert(subscriptionChanges)
+    .values({
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      changeType: SCHEDULED_PLAN_CHANGE,
+      previousPlanId: subscription.planId,
+      newPlanId: change.newPlanId,
+      previousBillingCycle: subscription.billingCycle,
+      newBillingCycle: change.billingCycle,
+      previousPrice: subscription.price,
+      newPrice: change.newPrice.toString(),
+      effectiveDate: new Date(currentPhase.end_date * 1000),
+      reason: `Plan change from ${subscription.planId} to ${change.newPlanId} scheduled for the end of the billing period`,
+      metadata,
+    })
+    .returning();
+
+  return scheduled;
+}
+
+/**
+ * Cancel a pending scheduled plan change and release its Stripe schedule
+ *
+ * @throws {ConflictError} If no change is pending
+ */
+export async function cancelScheduledPlanChange(
+  subscription: Subscription,
+  options: { cancelledBy: string }
+): Promise<SubscriptionChange> {
+  const pending = await getPendingPlanChange(subscription.id);
+  if (!pending) {
+    throw new ConflictError("No plan change is scheduled");
+  }
+
+  const metadata = pending.metadata as ScheduledPlanChangeMetadata;
+  try {
+    await stripe.subscriptionSchedules.release(metadata.stripeScheduleId);
+  } catch (error) {
+    // Already released or canceled in Stripe - nothing left to undo there
+    if (
+      (error as Stripe.errors.StripeError).type !== "StripeInvalidRequestError"
+    ) {
+      throw error;
+    }
+  }
+
+  const [cancelled] = await db
+    .update(subscriptionChanges)
+    .set({
+      metadata: {
+        ...metadata,
+        status: "cancelled",
+        cancelledAt: new Date().toISOString(),
+        cancelledBy: options.cancelledBy,
+      },
+    })
+    .where(eq(subscriptionChanges.id, pending.id))
+    .returning();
+
+  return cancelled;
+}
+
+/**
+ * Apply a pending scheduled change once Stripe has switched the plan price
+ *
+ * Called from the customer.subscription.updated webhook. Updates the
+ * subscription, reissues its keys and notifies terminals; safe to call for
+ * every update (only the first one showing the new price applies it).
+ *
+ * @returns Whether a change was applied
+ */
+export async function applyScheduledPlanChange(
+  subscriptionId: string,
+  currentPriceId: string | undefined,
+  additionalTerminals: number
+): Promise<boolean> {
+  const pending = await getPendingPlanChange(subscriptionId);
+  const metadata = pending?.metadata as ScheduledPlanChangeMetadata | undefined;
+  if (
+    !pending ||
+    !metadata ||
+    !currentPriceId ||
+    metadata.stripePriceId !== currentPriceId
+  ) {
+    return false;
+  }
+
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.id, subscriptionId))
+    .limit(1);
+  if (!subscription) return false;
+
+  const newPlanId = pending.newPlanId as PlanId;
+  const newPlan = await getPlan(newPlanId);
+  const oldLicenseKeys = await getLicenseKeysForSubscription(subscriptionId);
+
+  const reissued = await db.transaction(async (tx) => {
+    // Claim the change so a concurrent webhook doesn't apply it twice
+    const [claimed] = await tx
+      .update(subscriptionChanges)
+      .set({
+        metadata: {
+          ...metadata,
+          status: "applied",
+          appliedAt: new Date().toISOString(),
+        },
+      })
+      .where(
+        and(
+          eq(subscriptionChanges.id, pending.id),
+          sql`${subscriptionChanges.metadata}->>'status' = 'pending'`
+        )
+      )
+      .returning({ id: subscriptionChanges.id });
+    if (!claimed) return null;
+
+    await tx
+      .update(subscriptions)
+      .set({
+        planId: newPlanId,
+        billingCycle: pending.newBillingCycle,
+        price: pending.newPrice,
+        updatedAt: new Date(),
+        metadata: {
+          ...((subscription.metadata as Record<string, unknown>) || {}),
+          stripePriceId: currentPriceId,
+        },
+      })
+      .where(eq(subscriptions.id, subscriptionId));
+
+    await tx.insert(subscriptionChanges).values({
+      subscriptionId,
+      customerId: subscription.customerId,
+      changeType:
+        subscription.planId && isUpgrade(subscription.planId as PlanId, newPlanId)
+          ? "plan_upgrade"
+          : "plan_downgrade",
+      previousPlanId: subscription.planId,
+      newPlanId,
+      previousBillingCycle: subscription.billingCycle,
+      newBillingCycle: pending.newBillingCycle,
+      previousPrice: subscription.price,
+      newPrice: pending.newPrice,
+      prorationAmount: "0",
+      effectiveDate: new Date(),
+      reason: `Scheduled plan change from ${subscription.planId} to ${newPlanId}`,
+      metadata: {
+        changedBy: metadata.changedBy,
+        scheduledChangeId: pending.id,
+        stripeSubscriptionId: subscription.stripeSubscriptionId,
+        oldLicenseKeys,
+      },
+    });
+
+    return reissuePlanLicenseKeys(tx, subscription, newPlanId, {
+      maxTerminals: calculateMaxTerminals(
+        newPlan.features.maxTerminals,
+        additionalTerminals
+      ),
+      migrateActivations: false,
+    });
+  });
+
+  if (!reissued) return false;
+
+  // The schedule has done its job; release it so later changes (seats,
+  // cancellation) can update the subscription directly
+  try {
+    await stripe.subscriptionSchedules.release(metadata.stripeScheduleId);
+  } catch (error) {
+    console.error(
+      `Could not release subscription schedule ${metadata.stripeScheduleId}:`,
+      error
+    );
+  }
+
+  console.log(
+    `📋 Scheduled plan change applied: ${subscription.planId} → ${newPlanId} for subscription ${subscriptionId}`
+  );
+
+  await notifyPlanChanged(subscription, newPlanId, oldLicenseKeys, reissued);
+  return true;
+}
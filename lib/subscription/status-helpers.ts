@@ -203,6 +203,10 @@ export function getSubscriptionStatusDisplay(
     return `Active until ${endDate?.toLocaleDateString() || "period end"}`;
   }
 
+  if (subscription.status === "paused" && subscription.resumesAt) {
+    return `Paused until ${subscription.resumesAt.toLocaleDateString()}`;
+  }
+
   if (isInTrialPeriod(subscription)) {
     const days = getDaysUntilTrialEnd(subscription);
     if (days !== null) {
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Subscription } from "@/lib/db/schema";
+import { getMeterEventTimestamp, recordTerminalTransactions } from "./usage";
+
+const mocks = vi.hoisted(() => ({
+  claimed: true,
+  usageRecords: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock("@/lib/db", () => {
+  const tx = {
+    update: () => ({
+      set: () => ({
+        where: () => ({
+          returning: async () => (mocks.claimed ? [{ id: "act_1" }] : []),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        mocks.usageRecords.push(values);
+        return { onConflictDoUpdate: async () => undefined };
+      },
+    }),
+  };
+  return {
+    db: {
+      transaction: (fn: (transaction: typeof tx) => unknown) => fn(tx),
+    },
+  };
+});
+vi.mock("@/lib/stripe/client", () => ({ stripe: {} }));
+
+const license = { subscriptionId: "sub_1", customerId: "cus_1" };
+
+describe("recordTerminalTransactions", () => {
+  beforeEach(() => {
+    mocks.claimed = true;
+    mocks.usageRecords = [];
+  });
+
+  it("adds the increase since the previous heartbeat", async () => {
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: 40 },
+      license,
+      55
+    );
+
+    expect(added).toBe(15);
+    expect(mocks.usageRecords).toEqual([
+      expect.objectContaining({
+        subscriptionId: "sub_1",
+        customerId: "cus_1",
+        transactionCount: 15,
+      }),
+    ]);
+  });
+
+  it("only sets the baseline on a terminal's first report", async () => {
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: null },
+      license,
+      120
+    );
+
+    expect(added).toBe(0);
+    expect(mocks.usageRecords).toHaveLength(0);
+  });
+
+  it("counts from zero after a counter reset", async () => {
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: 500 },
+      license,
+      7
+    );
+
+    expect(added).toBe(7);
+    expect(mocks.usageRecords[0]).toMatchObject({ transactionCount: 7 });
+  });
+
+  it("ignores repeated counters", async () => {
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: 40 },
+      license,
+      40
+    );
+
+    expect(added).toBe(0);
+    expect(mocks.usageRecords).toHaveLength(0);
+  });
+
+  it.each([-1, 1.5, Number.NaN])("ignores a counter of %s", async (count) => {
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: 0 },
+      license,
+      count
+    );
+
+    expect(added).toBe(0);
+    expect(mocks.usageRecords).toHaveLength(0);
+  });
+
+  it("adds nothing when another heartbeat already moved the counter", async () => {
+    mocks.claimed = false;
+
+    const added = await recordTerminalTransactions(
+      { id: "act_1", lastTransactionCount: 40 },
+      license,
+      55
+    );
+
+    expect(added).toBe(0);
+    expect(mocks.usageRecords).toHaveLength(0);
+  });
+});
+
+describe("getMeterEventTimestamp", () => {
+  const now = new Date("2026-03-20T12:00:00.000Z");
+
+  const subscriptionFrom = (currentPeriodStart: string) =>
+    ({
+      currentPeriodStart: new Date(currentPeriodStart),
+      currentPeriodEnd: new Date("2026-04-01T00:00:00.000Z"),
+    }) as Subscription;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("uses the start of the record's day", () => {
+    expect(
+      getMeterEventTimestamp("2026-03-18", subscriptionFrom("2026-03-01"))
+    ).toEqual(new Date("2026-03-18T00:00:00.000Z"));
+  });
+
+  it("moves earlier days into the current billing period", () => {
+    expect(
+      getMeterEventTimestamp("2026-02-25", subscriptionFrom("2026-03-01"))
+    ).toEqual(new Date("2026-03-01T00:00:00.000Z"));
+  });
+
+  it("keeps events inside Stripe's 35 day window", () => {
+    expect(
+      getMeterEventTimestamp("2026-01-05", subscriptionFrom("2026-01-01"))
+    ).toEqual(new Date("2026-02-13T13:00:00.000Z"));
+  });
+
+  it("never returns a time in the future", () => {
+    expect(
+      getMeterEventTimestamp("2026-03-21", subscriptionFrom("2026-03-01"))
+    ).toEqual(now);
+  });
+});
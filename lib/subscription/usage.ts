@@ -0,0 +1,327 @@
+import { db } from "@/lib/db";
+import {
+  activations,
+  customers,
+  subscriptions,
+  usageRecords,
+  type Subscription,
+} from "@/lib/db/schema";
+import {
+  and,
+  asc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  sql,
+} from "drizzle-orm";
+import type { BillingCycle } from "@/lib/stripe/plans";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/stripe/currency";
+import {
+  calculateUsageCharge,
+  getUsagePriceId,
+  getUsagePricing,
+  isUsageBillingEnabled,
+  reportTransactionUsage,
+  USAGE_BILLING_PLANS,
+} from "@/lib/stripe/usage-billing";
+
+/**
+ * Transaction usage
+ *
+ * Terminals send a running transaction counter (metadata.transactionCount)
+ * with every heartbeat. The increase since that terminal's previous heartbeat
+ * is added to its subscription's usage record for the day (UTC), so repeated
+ * or replayed heartbeats with the same counter add nothing. A counter lower
+ * than the last one means the terminal was reset and counts from zero; a
+ * terminal's first report only sets its baseline.
+ *
+ * The expiration cron reports each record's unreported transactions to the
+ * Stripe billing meter for subscriptions on a usage-billed plan.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stripe rejects meter events older than 35 days (an hour kept in hand)
+const METER_EVENT_MAX_AGE_MS = 35 * DAY_MS - 60 * 60 * 1000;
+
+export interface UsageReportResult {
+  processed: number;
+  reported: number;
+  transactions: number;
+  errors: string[];
+}
+
+export interface UsageSummary {
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  transactions: number;
+  includedTransactions: number;
+  overageTransactions: number;
+  charge: number; // Major units, for usage so far
+  projectedTransactions: number;
+  projectedOverageTransactions: number;
+  projectedCharge: number; // Major units, at the current daily rate
+  daily: Array<{ date: string; transactions: number }>;
+}
+
+function toUsageDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add a heartbeat's transactions to the subscription's usage for today
+ *
+ * @returns Transactions added (0 for duplicates and baselines)
+ */
+export async function recordTerminalTransactions(
+  activation: { id: string; lastTransactionCount: number | null },
+  license: { subscriptionId: string; customerId: string },
+  transactionCount: number
+): Promise<number> {
+  if (!Number.isInteger(transactionCount) || transactionCount < 0) return 0;
+
+  const previous = activation.lastTransactionCount;
+  if (previous === transactionCount) return 0;
+
+  const added =
+    previous === null
+      ? 0
+      : transactionCount > previous
+        ? transactionCount - previous
+        : transactionCount;
+
+  return db.transaction(async (tx) => {
+    // Only the heartbeat that moves the counter from `previous` counts it
+    const [claimed] = await tx
+      .update(activations)
+      .set({ lastTransactionCount: transactionCount })
+      .where(
+        and(
+          eq(activations.id, activation.id),
+          previous === null
+            ? isNull(activations.lastTransactionCount)
+            : eq(activations.lastTransactionCount, previous)
+        )
+      )
+      .returning({ id: activations.id });
+
+    if (!claimed || added === 0) return 0;
+
+    await tx
+      .insert(usageRecords)
+      .values({
+        subscriptionId: license.subscriptionId,
+        customerId: license.customerId,
+        usageDate: toUsageDate(new Date()),
+        transactionCount: added,
+      })
+      .onConflictDoUpdate({
+        target: [usageRecords.subscriptionId, usageRecords.usageDate],
+        set: {
+          transactionCount: sql`${usageRecords.transactionCount} + ${added}`,
+          updatedAt: new Date(),
+        },
+      });
+
+    return added;
+  });
+}
+
+/**
+ * Current billing period of a subscription (calendar month if unknown)
+ */
+function getUsagePeriod(subscription: Subscription): {
+  start: Date;
+  end: Date;
+} {
+  if (subscription.currentPeriodStart && subscription.currentPeriodEnd) {
+    return {
+      start: subscription.currentPeriodStart,
+      end: subscription.currentPeriodEnd,
+    };
+  }
+
+  const now = new Date();
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * When a usage record's transactions happened, for its meter event
+ * The record's day, moved into the current billing period (earlier events
+ * would miss the invoice still to come) and Stripe's 35 day window.
+ */
+export function getMeterEventTimestamp(
+  usageDate: string,
+  subscription: Subscription
+): Date {
+  const now = Date.now();
+  const earliest = Math.max(
+    getUsagePeriod(subscription).start.getTime(),
+    now - METER_EVENT_MAX_AGE_MS
+  );
+  const day = new Date(`${usageDate}T00:00:00.000Z`).getTime();
+
+  return new Date(Math.min(Math.max(day, earliest), now));
+}
+
+/**
+ * Usage so far this billing period with a projection to the period end
+ *
+ * @returns null if the subscription isn't billed for usage
+ */
+export async function getUsageSummary(
+  subscription: Subscription
+): Promise<UsageSummary | null> {
+  const cycle = subscription.billingCycle as BillingCycle;
+  const currency = normalizeCurrency(subscription.currency) || DEFAULT_CURRENCY;
+  const priceId = getUsagePriceId(cycle, currency);
+  if (!isUsageBillingEnabled(subscription.planId, cycle, currency) || !priceId) {
+    return null;
+  }
+
+  const { start, end } = getUsagePeriod(subscription);
+  const rows = await db
+    .select({
+      usageDate: usageRecords.usageDate,
+      transactionCount: usageRecords.transactionCount,
+    })
+    .from(usageRecords)
+    .where(
+      and(
+        eq(usageRecords.subscriptionId, subscription.id),
+        gte(usageRecords.usageDate, toUsageDate(start)),
+        lt(usageRecords.usageDate, toUsageDate(end))
+      )
+    )
+    .orderBy(asc(usageRecords.usageDate));
+
+  const transactions = rows.reduce((sum, row) => sum + row.transactionCount, 0);
+
+  // Extrapolate the daily rate so far (at least a day, to avoid wild
+  // projections in the first hours of a period)
+  const periodMs = Math.max(end.getTime() - start.getTime(), DAY_MS);
+  const elapsedMs = Math.min(
+    Math.max(Date.now() - start.getTime(), DAY_MS),
+    periodMs
+  );
+  const projectedTransactions = Math.round(
+    (transactions * periodMs) / elapsedMs
+  );
+
+  const pricing = await getUsagePricing(priceId);
+  const included = pricing.includedTransactions;
+
+  return {
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    currency,
+    transactions,
+    includedTransactions: included,
+    overageTransactions: Math.max(0, transactions - included),
+    charge: calculateUsageCharge(pricing, transactions) / 100,
+    projectedTransactions,
+    projectedOverageTransactions: Math.max(0, projectedTransactions - included),
+    projectedCharge: calculateUsageCharge(pricing, projectedTransactions) / 100,
+    daily: rows.map((row) => ({
+      date: row.usageDate,
+      transactions: row.transactionCount,
+    })),
+  };
+}
+
+/**
+ * Report unreported transactions to the Stripe billing meter
+ *
+ * Each record is claimed (reportedCount moved up) before the meter event is
+ * sent and released if Stripe rejects it, so overlapping runs never report
+ * the same transactions twice.
+ */
+export async function reportUsage(): Promise<UsageReportResult> {
+  const result: UsageReportResult = {
+    processed: 0,
+    reported: 0,
+    transactions: 0,
+    errors: [],
+  };
+
+  const pending = await db
+    .select({
+      record: usageRecords,
+      subscription: subscriptions,
+      stripeCustomerId: customers.stripeCustomerId,
+    })
+    .from(usageRecords)
+    .innerJoin(subscriptions, eq(usageRecords.subscriptionId, subscriptions.id))
+    .innerJoin(customers, eq(usageRecords.customerId, customers.id))
+    .where(
+      and(
+        gt(usageRecords.transactionCount, usageRecords.reportedCount),
+        inArray(subscriptions.planId, USAGE_BILLING_PLANS),
+        isNotNull(customers.stripeCustomerId)
+      )
+    );
+
+  for (const { record, subscription, stripeCustomerId } of pending) {
+    const cycle = subscription.billingCycle as BillingCycle;
+    const currency =
+      normalizeCurrency(subscription.currency) || DEFAULT_CURRENCY;
+    if (
+      !stripeCustomerId ||
+      !isUsageBillingEnabled(subscription.planId, cycle, currency)
+    ) {
+      continue;
+    }
+
+    result.processed++;
+    const from = record.reportedCount;
+    const to = record.transactionCount;
+
+    const [claimed] = await db
+      .update(usageRecords)
+      .set({ reportedCount: to, reportedAt: new Date() })
+      .where(
+        and(eq(usageRecords.id, record.id), eq(usageRecords.reportedCount, from))
+      )
+      .returning({ id: usageRecords.id });
+    if (!claimed) continue;
+
+    try {
+      await reportTransactionUsage(
+        stripeCustomerId,
+        to - from,
+        `usage-${record.id}-${from}-${to}`,
+        getMeterEventTimestamp(record.usageDate, subscription)
+      );
+      result.reported++;
+      result.transactions += to - from;
+    } catch (error) {
+      await db
+        .update(usageRecords)
+        .set({ reportedCount: from })
+        .where(
+          and(eq(usageRecords.id, record.id), eq(usageRecords.reportedCount, to))
+        );
+      result.errors.push(
+        `Failed to report usage record ${record.id}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  if (result.reported > 0) {
+    console.log(
+      `[Usage] Reported ${result.transactions} transactions from ${result.reported} usage records`
+    );
+  }
+
+  return result;
+}
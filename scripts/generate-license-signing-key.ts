@@ -0,0 +1,14 @@
+// Script to generate an Ed25519 key pair for signing offline lease tokens
+// Run with: npx tsx scripts/generate-license-signing-key.ts
+// Add the printed value to .env.local as LICENSE_SIGNING_PRIVATE_KEY
+
+import crypto from "crypto";
+
+function generateSigningKey() {
+  const { privateKey } = crypto.generateKeyPairSync("ed25519");
+  const pem = privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+
+  console.log(`LICENSE_SIGNING_PRIVATE_KEY="${pem.trim().replace(/\n/g, "\\n")}"`);
+}
+
+generateSigningKey();
@@ -0,0 +1,39 @@
+/**
+ * Custom Server
+ *
+ * Runs Next.js behind a Node HTTP server so terminals can open the
+ * WebSocket event transport on /api/events/[licenseKey]. Every other request
+ * and upgrade (e.g. dev hot reload) goes to Next.
+ *
+ * `npm run dev:ws` / `npm run start:ws`. Deployments on plain `next start`
+ * (or Vercel) serve the SSE stream only.
+ */
+
+import { createServer } from "http";
+import next from "next";
+import { handleEventSocketUpgrade } from "@/lib/subscription-events/websocket-server";
+
+const dev = process.env.NODE_ENV !== "production";
+const port = Number(process.env.PORT) || 3000;
+
+const app = next({ dev });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  const handleUpgrade = app.getUpgradeHandler();
+
+  const server = createServer((request, response) => {
+    handle(request, response);
+  });
+
+  server.on("upgrade", (request, socket, head) => {
+    if (handleEventSocketUpgrade(request, socket, head)) return;
+    handleUpgrade(request, socket, head);
+  });
+
+  server.listen(port, () => {
+    console.log(
+      `> Ready on http://localhost:${port} (WebSocket events enabled)`
+    );
+  });
+});